@@ -0,0 +1,591 @@
+import { extname } from 'node:path'
+import { parseArgs } from 'node:util'
+import { DIFFICULTY_BUCKETS, type DifficultyBucket } from '@sokoban-eval-toolkit/sokoban-core'
+import { DATASETS, type DatasetId } from './datasets'
+import { PROMPT_VARIANT_PRESETS, createPromptVariant } from './prompt-variants'
+import type { PuzzleSource } from './prompts'
+import type {
+  CacheMode,
+  EvalResult,
+  ExecutionMode,
+  PromptVariant,
+  PuzzleSelection,
+  StratifyKey,
+} from './types'
+
+/**
+ * Process exit codes for headless runs.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+} as const
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES]
+
+const DEFAULT_CONCURRENCY = 10
+
+const EXECUTION_MODES: ExecutionMode[] = ['fullSolution', 'moveByMove']
+
+const CACHE_MODES: CacheMode[] = ['record', 'replay', 'bypass']
+
+const STRATIFY_KEYS: StratifyKey[] = ['boxCount', 'difficulty']
+
+// Flags that choose which puzzles of the source are used
+const SELECTION_OPTIONS = [
+  'limit',
+  'difficulty',
+  'seed',
+  'stratify',
+  'ids',
+  'exclude-seen',
+  'same-puzzles',
+] as const
+
+const CLI_OPTIONS = {
+  config: { type: 'string', short: 'c' },
+  dataset: { type: 'string', short: 'd' },
+  puzzles: { type: 'string', short: 'p' },
+  model: { type: 'string', short: 'm', multiple: true },
+  limit: { type: 'string', short: 'n' },
+  difficulty: { type: 'string', multiple: true },
+  seed: { type: 'string' },
+  stratify: { type: 'string' },
+  ids: { type: 'string', multiple: true },
+  'exclude-seen': { type: 'boolean' },
+  'same-puzzles': { type: 'string' },
+  concurrency: { type: 'string' },
+  mode: { type: 'string' },
+  'max-turns': { type: 'string' },
+  samples: { type: 'string', short: 'k' },
+  temperature: { type: 'string', short: 't' },
+  cache: { type: 'string' },
+  prompt: { type: 'string', multiple: true },
+  'fail-on-api-error': { type: 'boolean' },
+  resume: { type: 'string', short: 'r' },
+  rescore: { type: 'string' },
+  report: { type: 'boolean' },
+  export: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const
+
+type ParsedCliOptions = ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS }>>['values']
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+export const CLI_USAGE = `Usage: bun eval [options]
+
+Runs interactively when no options are given. Passing a puzzle source, models
+or a run config switches to headless mode and skips every prompt.
+
+Options:
+  -c, --config <path>       JSON or YAML run config (flags override its values)
+  -d, --dataset <id>        Registered dataset (${DATASETS.map((d) => d.id).join(', ')})
+  -p, --puzzles <path>      Puzzle export JSON or level collection (.sok, .xsb, .txt, .slc)
+                            (instead of --dataset)
+  -m, --model <id>          Model to evaluate (repeatable or comma-separated). OpenRouter ids
+                            as-is, other providers as <provider>:<model> (e.g. ollama:qwen2.5:7b)
+  -n, --limit <count>       Only evaluate <count> puzzles (the first ones unless --seed or
+                            --stratify is given)
+      --difficulty <bucket> Only evaluate puzzles the solver grades as these buckets (repeatable
+                            or comma-separated): ${DIFFICULTY_BUCKETS.join(', ')}.
+                            Applied before --limit
+      --seed <number>       Take a random sample of --limit puzzles, reproducible with the seed
+      --stratify <key>      Sample --limit puzzles keeping each stratum's share of the source:
+                            ${STRATIFY_KEYS.join(' or ')}
+      --ids <id>            Only evaluate these puzzle ids (repeatable or comma-separated)
+      --exclude-seen        Skip puzzles that saved runs on the same source already attempted
+      --same-puzzles <runId> Evaluate exactly the puzzles of a saved run
+      --concurrency <count> Parallel evaluations (default: ${DEFAULT_CONCURRENCY})
+      --mode <mode>         fullSolution (one-shot, default) or moveByMove (multi-turn)
+      --max-turns <count>   Turn budget per puzzle in moveByMove mode
+  -k, --samples <count>     Samples per puzzle/model pair for pass@k (default: 1)
+  -t, --temperature <temp>  Sampling temperature, 0-2 (default: 0.3)
+      --cache <mode>        Response cache: record (reuse + store), replay (cached only,
+                            offline) or bypass (default)
+      --prompt <name>       Prompt variant to run against every model (repeatable or
+                            comma-separated): ${PROMPT_VARIANT_PRESETS.map((v) => v.name).join(', ')}
+                            or a variant defined under "prompts" in the run config
+      --fail-on-api-error   Exit with 1 if any result ended in an API error (by default only
+                            if every result did)
+  -r, --resume <runId>      Resume an interrupted run, skipping completed puzzle/model pairs
+      --rescore <runId|all> Re-parse and re-execute saved responses with the current scorer and
+                            save a re-scored copy plus a report of flipped outcomes
+      --report              Build a leaderboard from every saved run (Markdown, HTML, CSV)
+      --export <path>       Write the puzzles of --dataset or --puzzles (after the selection
+                            flags above) to a .sok, .xsb, .slc or .json file instead of running
+                            an evaluation
+  -h, --help                Show this help
+
+Exit codes:
+  0  Evaluation completed
+  1  Evaluation failed, or every result ended in an API error
+  2  Invalid arguments or configuration`
+
+/**
+ * Fully resolved settings for a headless run.
+ */
+export interface RunConfig {
+  source: PuzzleSource
+  models: string[]
+  selection: PuzzleSelection
+  samePuzzlesAs?: string // Saved run whose puzzles are reused
+  concurrency: number
+  executionMode: ExecutionMode
+  maxTurns?: number
+  samples?: number
+  temperature?: number
+  cacheMode: CacheMode
+  promptVariants?: PromptVariant[]
+  failOnApiError: boolean
+}
+
+/**
+ * Prompt variant defined in a run config: a name plus the options that differ from the default.
+ */
+type PromptVariantConfig = { name: string } & Partial<PromptVariant['options']>
+
+// Options a run config variant can set
+const PROMPT_VARIANT_OPTIONS: (keyof PromptVariantConfig)[] = [
+  'name',
+  'asciiGrid',
+  'coordinateLocations',
+  'coloredBoxRules',
+  'specialInstructions',
+  'includeSpecialInstructions',
+]
+
+/**
+ * Shape of a run config file. Every field is optional so flags can fill the gaps.
+ */
+interface RunConfigFile {
+  dataset?: string
+  puzzles?: string
+  models?: string[] | string
+  limit?: number
+  difficulty?: string[] | string
+  seed?: number
+  stratify?: string
+  ids?: string[] | string
+  excludeSeen?: boolean
+  samePuzzles?: string
+  concurrency?: number
+  mode?: string
+  maxTurns?: number
+  samples?: number
+  temperature?: number
+  cache?: string
+  prompts?: (string | PromptVariantConfig)[]
+  failOnApiError?: boolean
+}
+
+export type CliCommand =
+  | { type: 'help' }
+  | { type: 'interactive' }
+  | { type: 'headless'; config: RunConfig }
+  | { type: 'resume'; runId: string; concurrency?: number; failOnApiError: boolean }
+  | { type: 'rescore'; target: string }
+  | { type: 'report' }
+  | {
+      type: 'export'
+      source: PuzzleSource
+      path: string
+      selection: PuzzleSelection
+      samePuzzlesAs?: string
+    }
+
+/**
+ * Parse a positive integer option, throwing a usage error for anything else.
+ */
+function parsePositiveInt(value: unknown, name: string): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new CliUsageError(`--${name} must be a positive integer (got "${value}")`)
+  }
+  return parsed
+}
+
+/**
+ * Split repeated and comma-separated flags (models, prompt variants) into a flat,
+ * de-duplicated list.
+ */
+function parseModelList(values: string[] | string | undefined): string[] {
+  if (!values) return []
+  const list = Array.isArray(values) ? values : [values]
+  const models = list.flatMap((v) => v.split(',')).map((v) => v.trim())
+  return [...new Set(models.filter(Boolean))]
+}
+
+/**
+ * Parse difficulty buckets, throwing a usage error for unknown ones.
+ * Undefined when none are given.
+ */
+function parseDifficultyBuckets(
+  values: string[] | string | undefined,
+): DifficultyBucket[] | undefined {
+  const buckets = parseModelList(values)
+  if (buckets.length === 0) return undefined
+  const unknown = buckets.find((b) => !DIFFICULTY_BUCKETS.includes(b as DifficultyBucket))
+  if (unknown) {
+    throw new CliUsageError(
+      `Unknown difficulty "${unknown}". Available: ${DIFFICULTY_BUCKETS.join(', ')}`,
+    )
+  }
+  return buckets as DifficultyBucket[]
+}
+
+/**
+ * Parse a sampling seed, throwing a usage error for anything but a non-negative integer.
+ */
+function parseSeed(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (value === '' || !Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new CliUsageError(`--seed must be a non-negative integer (got "${value}")`)
+  }
+  return parsed
+}
+
+/**
+ * Parse a stratification key option.
+ */
+function parseStratifyKey(value: string | undefined): StratifyKey | undefined {
+  if (value === undefined) return undefined
+  if (!STRATIFY_KEYS.includes(value as StratifyKey)) {
+    throw new CliUsageError(
+      `Unknown stratify key "${value}". Available: ${STRATIFY_KEYS.join(', ')}`,
+    )
+  }
+  return value as StratifyKey
+}
+
+/**
+ * Resolve the puzzle selection from flags, falling back to the config file.
+ * A saved run's puzzles can't be combined with another id list.
+ */
+function resolveSelection(
+  values: ParsedCliOptions,
+  fileConfig: RunConfigFile,
+): { selection: PuzzleSelection; samePuzzlesAs?: string } {
+  const limitValue = values.limit ?? fileConfig.limit
+  const seedValue = values.seed ?? fileConfig.seed
+  const idsValue = values.ids ?? fileConfig.ids
+  const samePuzzlesAs = values['same-puzzles'] ?? fileConfig.samePuzzles
+  if (samePuzzlesAs !== undefined && idsValue !== undefined) {
+    throw new CliUsageError('Use either --ids or --same-puzzles, not both')
+  }
+
+  // A seed or strata only shape a sample, which --limit asks for
+  const stratifyValue = values.stratify ?? fileConfig.stratify
+  if ((seedValue !== undefined || stratifyValue !== undefined) && limitValue === undefined) {
+    throw new CliUsageError('--seed and --stratify pick a sample, so they need --limit')
+  }
+
+  const ids = parseModelList(idsValue)
+  const selection: PuzzleSelection = {
+    ...(ids.length > 0 && { ids }),
+    ...((values['exclude-seen'] ?? fileConfig.excludeSeen) && { excludeSeen: true }),
+    difficulty: parseDifficultyBuckets(values.difficulty ?? fileConfig.difficulty),
+    seed: seedValue !== undefined ? parseSeed(seedValue) : undefined,
+    stratifyBy: parseStratifyKey(stratifyValue),
+    limit: limitValue !== undefined ? parsePositiveInt(limitValue, 'limit') : undefined,
+  }
+  return { selection, samePuzzlesAs }
+}
+
+/**
+ * Parse a sampling temperature, throwing a usage error outside 0-2.
+ */
+function parseTemperature(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (value === '' || !Number.isFinite(parsed) || parsed < 0 || parsed > 2) {
+    throw new CliUsageError(`--temperature must be a number between 0 and 2 (got "${value}")`)
+  }
+  return parsed
+}
+
+/**
+ * Parse an execution mode option.
+ */
+function parseExecutionMode(value: string | undefined): ExecutionMode {
+  if (value === undefined) return 'fullSolution'
+  if (!EXECUTION_MODES.includes(value as ExecutionMode)) {
+    throw new CliUsageError(`Unknown mode "${value}". Available: ${EXECUTION_MODES.join(', ')}`)
+  }
+  return value as ExecutionMode
+}
+
+/**
+ * Parse a response cache mode option.
+ */
+function parseCacheMode(value: string | undefined): CacheMode {
+  if (value === undefined) return 'bypass'
+  if (!CACHE_MODES.includes(value as CacheMode)) {
+    throw new CliUsageError(`Unknown cache mode "${value}". Available: ${CACHE_MODES.join(', ')}`)
+  }
+  return value as CacheMode
+}
+
+/**
+ * Resolve prompt variants from --prompt names and the config's "prompts" list.
+ * Config entries are preset names or custom variants; --prompt picks from both by name.
+ */
+function parsePromptVariants(
+  names: string[] | undefined,
+  configured: RunConfigFile['prompts'],
+): PromptVariant[] | undefined {
+  const available = new Map(PROMPT_VARIANT_PRESETS.map((v) => [v.name, v]))
+  const findVariant = (name: string): PromptVariant => {
+    const variant = available.get(name)
+    if (!variant) {
+      throw new CliUsageError(
+        `Unknown prompt variant "${name}". Available: ${[...available.keys()].join(', ')}`,
+      )
+    }
+    return variant
+  }
+
+  const fromConfig: PromptVariant[] = []
+  for (const entry of configured ?? []) {
+    if (typeof entry === 'string') {
+      fromConfig.push(findVariant(entry))
+      continue
+    }
+    if (!entry || typeof entry.name !== 'string' || entry.name.trim() === '') {
+      throw new CliUsageError('Every entry under "prompts" needs a name')
+    }
+    const unknown = Object.keys(entry).filter(
+      (key) => !PROMPT_VARIANT_OPTIONS.includes(key as keyof PromptVariantConfig),
+    )
+    if (unknown.length > 0) {
+      const supported = PROMPT_VARIANT_OPTIONS.slice(1).join(', ')
+      throw new CliUsageError(
+        `Prompt variant "${entry.name}" sets unknown options: ${unknown.join(', ')}. Available: ${supported}`,
+      )
+    }
+    const { name, ...options } = entry
+    const variant = createPromptVariant(name.trim(), {
+      ...options,
+      includeSpecialInstructions:
+        options.includeSpecialInstructions ?? !!options.specialInstructions,
+    })
+    available.set(variant.name, variant)
+    fromConfig.push(variant)
+  }
+
+  const variants = names ? parseModelList(names).map(findVariant) : fromConfig
+  if (variants.length === 0) return undefined
+  if (new Set(variants.map((v) => v.name)).size < variants.length) {
+    throw new CliUsageError('Prompt variant names must be unique')
+  }
+  return variants
+}
+
+/**
+ * Load a JSON or YAML run config file.
+ */
+async function loadRunConfigFile(path: string): Promise<RunConfigFile> {
+  const file = Bun.file(path)
+  if (!(await file.exists())) {
+    throw new CliUsageError(`Run config not found: ${path}`)
+  }
+
+  const content = await file.text()
+  const ext = extname(path).toLowerCase()
+
+  let data: unknown
+  try {
+    data = ext === '.yaml' || ext === '.yml' ? Bun.YAML.parse(content) : JSON.parse(content)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'parse error'
+    throw new CliUsageError(`Invalid run config ${path}: ${reason}`)
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new CliUsageError(`Invalid run config ${path}: expected an object`)
+  }
+
+  return data as RunConfigFile
+}
+
+/**
+ * Resolve the puzzle source from a dataset id or a puzzle file path.
+ */
+function resolvePuzzleSource(dataset?: string, puzzles?: string): PuzzleSource {
+  if (dataset && puzzles) {
+    throw new CliUsageError('Use either --dataset or --puzzles, not both')
+  }
+
+  if (dataset) {
+    if (!DATASETS.some((d) => d.id === dataset)) {
+      throw new CliUsageError(
+        `Unknown dataset "${dataset}". Available: ${DATASETS.map((d) => d.id).join(', ')}`,
+      )
+    }
+    return { type: 'dataset', datasetId: dataset as DatasetId }
+  }
+
+  if (puzzles) {
+    return { type: 'custom', path: puzzles }
+  }
+
+  throw new CliUsageError('Headless mode requires --dataset or --puzzles')
+}
+
+/**
+ * Parse command line arguments into a CLI command.
+ * Returns an interactive command when no run options are given.
+ */
+export async function parseCliArgs(argv: string[]): Promise<CliCommand> {
+  let values: ParsedCliOptions
+  try {
+    values = parseArgs({ args: argv, options: CLI_OPTIONS, strict: true }).values
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error))
+  }
+
+  if (values.help) {
+    return { type: 'help' }
+  }
+
+  // Re-scoring and reports only read saved runs, so no other run option applies
+  for (const command of ['rescore', 'report'] as const) {
+    if (values[command] === undefined) continue
+    const conflict = (Object.keys(CLI_OPTIONS) as (keyof typeof CLI_OPTIONS)[]).find(
+      (name) => name !== command && values[name] !== undefined,
+    )
+    if (conflict) {
+      throw new CliUsageError(`--${command} cannot be combined with --${conflict}`)
+    }
+  }
+  if (values.rescore !== undefined) {
+    return { type: 'rescore', target: values.rescore }
+  }
+  if (values.report) {
+    return { type: 'report' }
+  }
+
+  // Exporting converts a puzzle source, so only the source and selection flags apply
+  if (values.export !== undefined) {
+    const allowed: string[] = ['export', 'dataset', 'puzzles', ...SELECTION_OPTIONS]
+    const conflict = (Object.keys(CLI_OPTIONS) as (keyof typeof CLI_OPTIONS)[]).find(
+      (name) => !allowed.includes(name) && values[name] !== undefined,
+    )
+    if (conflict) {
+      throw new CliUsageError(`--export cannot be combined with --${conflict}`)
+    }
+    return {
+      type: 'export',
+      source: resolvePuzzleSource(values.dataset, values.puzzles),
+      path: values.export,
+      ...resolveSelection(values, {}),
+    }
+  }
+
+  // A resumed run reuses its original puzzles, models and options; only concurrency may change
+  if (values.resume !== undefined) {
+    const conflicting = [
+      'config',
+      'dataset',
+      'puzzles',
+      'model',
+      ...SELECTION_OPTIONS,
+      'mode',
+      'max-turns',
+      'samples',
+      'temperature',
+      'cache',
+      'prompt',
+    ] as const
+    const conflict = conflicting.find((name) => values[name] !== undefined)
+    if (conflict) {
+      throw new CliUsageError(`--resume cannot be combined with --${conflict}`)
+    }
+    return {
+      type: 'resume',
+      runId: values.resume,
+      concurrency:
+        values.concurrency !== undefined
+          ? parsePositiveInt(values.concurrency, 'concurrency')
+          : undefined,
+      failOnApiError: values['fail-on-api-error'] ?? false,
+    }
+  }
+
+  const isHeadless =
+    values.config !== undefined ||
+    values.dataset !== undefined ||
+    values.puzzles !== undefined ||
+    values.model !== undefined ||
+    SELECTION_OPTIONS.some((name) => values[name] !== undefined) ||
+    values.concurrency !== undefined ||
+    values.mode !== undefined ||
+    values['max-turns'] !== undefined ||
+    values.samples !== undefined ||
+    values.temperature !== undefined ||
+    values.cache !== undefined ||
+    values.prompt !== undefined ||
+    values['fail-on-api-error'] !== undefined
+
+  if (!isHeadless) {
+    return { type: 'interactive' }
+  }
+
+  const fileConfig = values.config ? await loadRunConfigFile(values.config) : {}
+
+  // Flags take precedence over the config file. A source flag replaces both file sources.
+  const hasSourceFlag = values.dataset !== undefined || values.puzzles !== undefined
+  const source = hasSourceFlag
+    ? resolvePuzzleSource(values.dataset, values.puzzles)
+    : resolvePuzzleSource(fileConfig.dataset, fileConfig.puzzles)
+
+  const models = parseModelList(values.model ?? fileConfig.models)
+  if (models.length === 0) {
+    throw new CliUsageError('Headless mode requires at least one --model')
+  }
+
+  const concurrencyValue = values.concurrency ?? fileConfig.concurrency
+  const executionMode = parseExecutionMode(values.mode ?? fileConfig.mode)
+  const maxTurnsValue = values['max-turns'] ?? fileConfig.maxTurns
+  if (maxTurnsValue !== undefined && executionMode !== 'moveByMove') {
+    throw new CliUsageError('--max-turns only applies to --mode moveByMove')
+  }
+  const samplesValue = values.samples ?? fileConfig.samples
+  const temperatureValue = values.temperature ?? fileConfig.temperature
+
+  return {
+    type: 'headless',
+    config: {
+      source,
+      models,
+      ...resolveSelection(values, fileConfig),
+      concurrency:
+        concurrencyValue !== undefined
+          ? parsePositiveInt(concurrencyValue, 'concurrency')
+          : DEFAULT_CONCURRENCY,
+      executionMode,
+      maxTurns:
+        maxTurnsValue !== undefined ? parsePositiveInt(maxTurnsValue, 'max-turns') : undefined,
+      samples: samplesValue !== undefined ? parsePositiveInt(samplesValue, 'samples') : undefined,
+      temperature: temperatureValue !== undefined ? parseTemperature(temperatureValue) : undefined,
+      cacheMode: parseCacheMode(values.cache ?? fileConfig.cache),
+      promptVariants: parsePromptVariants(values.prompt, fileConfig.prompts),
+      failOnApiError: values['fail-on-api-error'] ?? fileConfig.failOnApiError ?? false,
+    },
+  }
+}
+
+/**
+ * Exit code for a finished run. A run whose results all ended in an API error measured
+ * nothing, so it fails; with `failOnApiError` a single API error is enough.
+ */
+export function getRunExitCode(results: EvalResult[], failOnApiError = false): ExitCode {
+  const apiErrors = results.filter((r) => r.failureCategory === 'apiError').length
+  const failed = failOnApiError ? apiErrors > 0 : apiErrors > 0 && apiErrors === results.length
+  return failed ? EXIT_CODES.failure : EXIT_CODES.success
+}
@@ -1,179 +1,61 @@
+import { readFileSync, readdirSync } from 'node:fs'
 import { join } from 'node:path'
-import type { Box, CellTerrain, Difficulty, SavedLayout, SokobanLevel } from './types'
-
-// Path to UI app data directory (relative to this file's location)
-const UI_DATA_DIR = join(import.meta.dir, '../../ui-sokoban/src/data')
+import {
+  DATASET_MANIFEST_SUFFIX,
+  type DatasetManifest,
+  parseDatasetLevels,
+  parseDatasetManifest,
+  sortDatasets,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { SavedLayout } from './types'
+
+// Dataset manifests and their level files, shared with the game UI
+export const DATASETS_DIR = join(import.meta.dir, '../../../data/datasets')
 
 /**
- * Available built-in datasets.
+ * Id of a dataset in the registry.
  */
-export type DatasetId = 'microban' | 'boxoban-medium' | 'boxoban-hard'
-
-export interface DatasetInfo {
-  id: DatasetId
-  name: string
-  description: string
-  difficulty: Difficulty
-  filename: string
-  exportName: string
-}
+export type DatasetId = string
 
-export const DATASETS: DatasetInfo[] = [
-  {
-    id: 'microban',
-    name: 'Microban',
-    description: '155 beginner puzzles by David Skinner',
-    difficulty: 'microban',
-    filename: 'microbanLevels.ts',
-    exportName: 'MICROBAN_LEVELS_RAW',
-  },
-  {
-    id: 'boxoban-medium',
-    name: 'Boxoban Medium',
-    description: '1000 medium puzzles from DeepMind',
-    difficulty: 'classic',
-    filename: 'boxobanMediumLevels.ts',
-    exportName: 'BOXOBAN_MEDIUM_LEVELS_RAW',
-  },
-  {
-    id: 'boxoban-hard',
-    name: 'Boxoban Hard',
-    description: '1000 hard puzzles from DeepMind',
-    difficulty: 'classic-hard',
-    filename: 'boxobanHardLevels.ts',
-    exportName: 'BOXOBAN_HARD_LEVELS_RAW',
-  },
-]
+export type DatasetInfo = DatasetManifest
 
 /**
- * Parse a single level from ASCII format.
+ * Read every manifest in the datasets directory. Invalid manifests are skipped with a warning.
  */
-function parseLevel(
-  ascii: string,
-  id: string,
-  difficulty: Difficulty,
-  fileSource: string,
-  puzzleNumber: number,
-): SokobanLevel {
-  const lines = ascii.trim().split('\n')
-  const height = lines.length
-  const width = Math.max(...lines.map((l) => l.length))
-
-  const terrain: CellTerrain[][] = []
-  let playerStart: { x: number; y: number } | null = null
-  const boxStarts: Box[] = []
-  const goals: { x: number; y: number }[] = []
-
-  for (let y = 0; y < height; y++) {
-    const row: CellTerrain[] = []
-    const line = lines[y] || ''
-
-    for (let x = 0; x < width; x++) {
-      const char = line[x] || ' '
-
-      switch (char) {
-        case '#':
-          row.push('wall')
-          break
-
-        case '@': // player on floor
-          row.push('floor')
-          playerStart = { x, y }
-          break
-
-        case '+': // player on goal
-          row.push('goal')
-          goals.push({ x, y })
-          playerStart = { x, y }
-          break
-
-        case '$': // box on floor
-          row.push('floor')
-          boxStarts.push({ x, y, color: 'orange' })
-          break
-
-        case '*': // box on goal
-          row.push('goal')
-          goals.push({ x, y })
-          boxStarts.push({ x, y, color: 'orange' })
-          break
-
-        case '.': // empty goal
-          row.push('goal')
-          goals.push({ x, y })
-          break
-
-        default:
-          row.push('floor')
-          break
-      }
-    }
-
-    terrain.push(row)
+function loadManifests(): DatasetInfo[] {
+  let files: string[]
+  try {
+    files = readdirSync(DATASETS_DIR).filter((name) => name.endsWith(DATASET_MANIFEST_SUFFIX))
+  } catch {
+    return []
   }
 
-  if (!playerStart) {
-    throw new Error(`No player position found in level ${id}`)
-  }
-
-  return {
-    id,
-    width,
-    height,
-    terrain,
-    playerStart,
-    boxStarts,
-    goals,
-    difficulty,
-    fileSource,
-    puzzleNumber,
-  }
-}
-
-/**
- * Parse a file containing multiple puzzles separated by semicolons.
- */
-function parseLevelFile(content: string, difficulty: Difficulty, filename: string): SokobanLevel[] {
-  const levels: SokobanLevel[] = []
-
-  // Split by semicolon lines (puzzle separators)
-  const puzzleBlocks = content.split(/^;\s*\d+\s*$/m).filter((block) => block.trim())
-
-  for (let i = 0; i < puzzleBlocks.length; i++) {
-    const block = puzzleBlocks[i].trim()
-    if (!block) continue
-
+  const manifests: DatasetInfo[] = []
+  for (const name of files) {
     try {
-      const id = `${difficulty}-${filename}-${i + 1}`
-      const level = parseLevel(block, id, difficulty, filename, i + 1)
-      levels.push(level)
+      const data = JSON.parse(readFileSync(join(DATASETS_DIR, name), 'utf8'))
+      const manifest = parseDatasetManifest(data)
+      if (manifests.some((m) => m.id === manifest.id)) {
+        throw new Error(`duplicate id "${manifest.id}"`)
+      }
+      manifests.push(manifest)
     } catch (error) {
-      console.warn(`Failed to parse puzzle ${i + 1} in ${filename}:`, error)
+      console.warn(
+        `Skipping dataset manifest ${name}:`,
+        error instanceof Error ? error.message : error,
+      )
     }
   }
-
-  return levels
+  return sortDatasets(manifests)
 }
 
 /**
- * Extract the raw level string from a TypeScript file.
+ * Registered datasets, read once at startup.
  */
-async function extractRawLevels(filePath: string, exportName: string): Promise<string> {
-  const content = await Bun.file(filePath).text()
-
-  // Find the template literal content: export const NAME = `...`
-  const pattern = new RegExp(`export const ${exportName}\\s*=\\s*\`([\\s\\S]*?)\``, 'm')
-  const match = content.match(pattern)
-
-  if (!match || !match[1]) {
-    throw new Error(`Could not find ${exportName} in ${filePath}`)
-  }
-
-  return match[1]
-}
+export const DATASETS: DatasetInfo[] = loadManifests()
 
 /**
- * Load a built-in dataset and return as SavedLayout array.
+ * Load a registered dataset and return as SavedLayout array.
  */
 export async function loadDataset(datasetId: DatasetId): Promise<SavedLayout[]> {
   const dataset = DATASETS.find((d) => d.id === datasetId)
@@ -181,7 +63,7 @@ export async function loadDataset(datasetId: DatasetId): Promise<SavedLayout[]>
     throw new Error(`Unknown dataset: ${datasetId}`)
   }
 
-  const filePath = join(UI_DATA_DIR, dataset.filename)
+  const filePath = join(DATASETS_DIR, dataset.file)
 
   // Check if file exists
   const file = Bun.file(filePath)
@@ -189,15 +71,13 @@ export async function loadDataset(datasetId: DatasetId): Promise<SavedLayout[]>
     throw new Error(`Dataset file not found: ${filePath}`)
   }
 
-  // Extract and parse levels
-  const rawLevels = await extractRawLevels(filePath, dataset.exportName)
-  const levels = parseLevelFile(rawLevels, dataset.difficulty, dataset.id)
+  const levels = parseDatasetLevels(dataset, await file.text())
 
   // Convert to SavedLayout format
   return levels.map(
-    (level, index): SavedLayout => ({
+    ({ level, title }, index): SavedLayout => ({
       id: level.id,
-      name: `${dataset.name} #${index + 1}`,
+      name: title ?? `${dataset.name} #${index + 1}`,
       savedAt: Date.now(),
       order: index,
       difficulty: level.difficulty,
@@ -207,6 +87,7 @@ export async function loadDataset(datasetId: DatasetId): Promise<SavedLayout[]>
       playerStart: level.playerStart,
       boxStarts: level.boxStarts,
       goals: level.goals,
+      difficultyMetrics: level.difficultyMetrics,
     }),
   )
 }
@@ -0,0 +1,116 @@
+import { mkdir } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import {
+  DIFFICULTY_BUCKETS,
+  type DifficultyBucket,
+  type DifficultyMetrics,
+  analyzeDifficulty,
+  getDifficultyBucket,
+  levelToAscii,
+  savedLayoutToLevel,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { SavedLayout } from './types'
+
+// Metrics of every puzzle analyzed so far, by board, relative to monorepo root
+const DIFFICULTY_CACHE_FILE = join(import.meta.dir, '../../../data/difficulty-cache.json')
+
+/**
+ * Cache key of a puzzle: first 16 hex chars of the SHA-256 of its board, so puzzles with the
+ * same id in different sources don't collide.
+ */
+function getDifficultyCacheKey(puzzle: SavedLayout): string {
+  const ascii = levelToAscii(savedLayoutToLevel(puzzle))
+  return new Bun.CryptoHasher('sha256').update(ascii).digest('hex').slice(0, 16)
+}
+
+async function loadDifficultyCache(cacheFile: string): Promise<Record<string, DifficultyMetrics>> {
+  const file = Bun.file(cacheFile)
+  if (!(await file.exists())) return {}
+  try {
+    return JSON.parse(await file.text()) as Record<string, DifficultyMetrics>
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Fill in difficulty metrics recorded by earlier analyses.
+ */
+export async function applyCachedDifficulty(
+  puzzles: SavedLayout[],
+  cacheFile = DIFFICULTY_CACHE_FILE,
+): Promise<SavedLayout[]> {
+  if (puzzles.every((p) => p.difficultyMetrics)) return puzzles
+  const cache = await loadDifficultyCache(cacheFile)
+  return puzzles.map((puzzle) => {
+    const difficultyMetrics = puzzle.difficultyMetrics ?? cache[getDifficultyCacheKey(puzzle)]
+    return difficultyMetrics ? { ...puzzle, difficultyMetrics } : puzzle
+  })
+}
+
+/**
+ * Add difficulty metrics to the puzzles that don't carry them yet, from the cache or one
+ * analysis each. New analyses are added to the cache.
+ * Calls onProgress after each puzzle analyzed.
+ */
+export async function addDifficultyMetrics(
+  puzzles: SavedLayout[],
+  onProgress?: (analyzed: number, total: number) => void,
+  cacheFile = DIFFICULTY_CACHE_FILE,
+): Promise<SavedLayout[]> {
+  const cached = await applyCachedDifficulty(puzzles, cacheFile)
+  const missing = cached.filter((p) => !p.difficultyMetrics).length
+  if (missing === 0) return cached
+
+  const cache = await loadDifficultyCache(cacheFile)
+  const analyzed: SavedLayout[] = []
+  let done = 0
+  for (const puzzle of cached) {
+    if (puzzle.difficultyMetrics) {
+      analyzed.push(puzzle)
+      continue
+    }
+    const difficultyMetrics = await analyzeDifficulty(savedLayoutToLevel(puzzle))
+    cache[getDifficultyCacheKey(puzzle)] = difficultyMetrics
+    analyzed.push({ ...puzzle, difficultyMetrics })
+    onProgress?.(++done, missing)
+  }
+
+  await mkdir(dirname(cacheFile), { recursive: true })
+  await Bun.write(cacheFile, JSON.stringify(cache))
+  return analyzed
+}
+
+/**
+ * Difficulty bucket of a puzzle, or null if it hasn't been analyzed.
+ */
+export function getPuzzleBucket(puzzle: SavedLayout): DifficultyBucket | null {
+  return puzzle.difficultyMetrics ? getDifficultyBucket(puzzle.difficultyMetrics) : null
+}
+
+/**
+ * Keep the analyzed puzzles in the given buckets.
+ */
+export function filterByDifficulty(
+  puzzles: SavedLayout[],
+  buckets: DifficultyBucket[],
+): SavedLayout[] {
+  return puzzles.filter((p) => {
+    const bucket = getPuzzleBucket(p)
+    return bucket !== null && buckets.includes(bucket)
+  })
+}
+
+/**
+ * Count puzzles per difficulty bucket, easiest first. Unanalyzed puzzles are left out.
+ */
+export function countByDifficulty(
+  puzzles: SavedLayout[],
+): Partial<Record<DifficultyBucket, number>> {
+  const counts: Partial<Record<DifficultyBucket, number>> = {}
+  for (const bucket of DIFFICULTY_BUCKETS) {
+    const count = puzzles.filter((p) => getPuzzleBucket(p) === bucket).length
+    if (count > 0) counts[bucket] = count
+  }
+  return counts
+}
@@ -1,5 +1,17 @@
 import pc from 'picocolors'
-import type { EvalProgress, EvalRun, SavedLayout } from './types'
+import { countByDifficulty } from './difficulty'
+import { formatFailureBreakdown } from './failure-taxonomy'
+import { getEntryName } from './leaderboard'
+import { DEFAULT_MAX_TURNS } from './model-runner'
+import type {
+  DatasetLeaderboard,
+  EvalOptions,
+  EvalProgress,
+  EvalRun,
+  ModelSummary,
+  RescoreReport,
+  SavedLayout,
+} from './types'
 
 /**
  * Display welcome banner.
@@ -36,6 +48,14 @@ export function displayPuzzleSummary(puzzles: SavedLayout[]): void {
     }
   }
 
+  // Solver-graded difficulty, for analyzed puzzles
+  const byBucket = Object.entries(countByDifficulty(puzzles))
+  if (byBucket.length > 0) {
+    console.log(
+      `${pc.cyan('│')} Solver difficulty: ${byBucket.map(([bucket, count]) => `${bucket} ${count}`).join(', ')}`,
+    )
+  }
+
   // Grid sizes
   const sizes = new Set(puzzles.map((p) => `${p.width}x${p.height}`))
   console.log(`${pc.cyan('│')} Grid sizes: ${Array.from(sizes).join(', ')}`)
@@ -72,7 +92,7 @@ export function displayEvalPlan(
   puzzleCount: number,
   models: string[],
   modelNames: string[],
-  concurrency: number,
+  options: EvalOptions,
 ): void {
   console.log('')
   console.log(pc.cyan('╭─ Evaluation Plan ─────────────────────────────╮'))
@@ -80,9 +100,29 @@ export function displayEvalPlan(
   console.log(
     `${pc.cyan('│')} Models: ${pc.bold(models.length.toString())} (${modelNames.join(', ')})`,
   )
-  console.log(`${pc.cyan('│')} Concurrency: ${pc.bold(concurrency.toString())}`)
+  console.log(`${pc.cyan('│')} Concurrency: ${pc.bold(options.concurrency.toString())}`)
+  if (options.executionMode === 'moveByMove') {
+    const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS
+    console.log(`${pc.cyan('│')} Mode: ${pc.bold(`multi-turn (up to ${maxTurns} turns)`)}`)
+  }
+  const samples = options.samples ?? 1
+  if (samples > 1) {
+    console.log(`${pc.cyan('│')} Samples per puzzle: ${pc.bold(samples.toString())}`)
+  }
+  const variants = options.promptVariants ?? []
+  if (variants.length > 0) {
+    console.log(
+      `${pc.cyan('│')} Prompt variants: ${pc.bold(variants.length.toString())} (${variants.map((v) => v.name).join(', ')})`,
+    )
+  }
+  if (options.temperature !== undefined) {
+    console.log(`${pc.cyan('│')} Temperature: ${pc.bold(options.temperature.toString())}`)
+  }
+  if (options.cacheMode && options.cacheMode !== 'bypass') {
+    console.log(`${pc.cyan('│')} Response cache: ${pc.bold(options.cacheMode)}`)
+  }
   console.log(
-    `${pc.cyan('│')} Total evaluations: ${pc.bold((puzzleCount * models.length).toString())}`,
+    `${pc.cyan('│')} Total evaluations: ${pc.bold((puzzleCount * models.length * Math.max(variants.length, 1) * samples).toString())}`,
   )
   console.log(pc.cyan('╰───────────────────────────────────────────────╯'))
   console.log('')
@@ -100,18 +140,23 @@ export function displayProgress(progress: EvalProgress): void {
     return
   }
 
+  const variant = progress.result?.promptVariant ? ` [${progress.result.promptVariant}]` : ''
+
   if (progress.status === 'success' && progress.result) {
     const result = progress.result
     const time = formatDuration(result.inferenceTimeMs)
     const tokens = formatNumber(result.outputTokens)
+    const turns = result.turns ? `, ${result.turns.length} turns` : ''
+    const reference = result.optimality ? ` vs ${result.optimality.referenceMoves} ref` : ''
     console.log(
-      `${pc.dim(prefix)} ${progress.puzzleName}${pc.dim(' - ')}${progress.currentModel}${pc.dim(': ')}${pc.green('Solved')}${pc.dim(` (${result.stepsExecuted} steps, ${time}, ${tokens} tokens)`)}`,
+      `${pc.dim(prefix)} ${progress.puzzleName}${pc.dim(' - ')}${progress.currentModel}${pc.dim(`${variant}: `)}${pc.green('Solved')}${pc.dim(` (${result.stepsExecuted}${reference} steps${turns}, ${time}, ${tokens} tokens)`)}`,
     )
   } else if (progress.status === 'failed' && progress.result) {
     const result = progress.result
     const time = formatDuration(result.inferenceTimeMs)
+    const turns = result.turns ? `, ${result.turns.length} turns` : ''
     console.log(
-      `${pc.dim(prefix)} ${progress.puzzleName}${pc.dim(' - ')}${progress.currentModel}${pc.dim(': ')}${pc.red('Failed')}${pc.dim(` (${result.stepsExecuted}/${result.solutionLength} steps, ${time})`)}`,
+      `${pc.dim(prefix)} ${progress.puzzleName}${pc.dim(' - ')}${progress.currentModel}${pc.dim(`${variant}: `)}${pc.red('Failed')}${pc.dim(` (${result.stepsExecuted}/${result.solutionLength} steps${turns}, ${time})`)}`,
     )
   }
 }
@@ -125,7 +170,7 @@ export function displayResultsSummary(run: EvalRun): void {
   console.log(pc.cyan('│'))
 
   // Header
-  const header = `  ${'Model'.padEnd(25)}${'Solved'.padEnd(10)}${'Avg Steps'.padEnd(12)}${'Avg Time'.padEnd(12)}Total Cost`
+  const header = `  ${'Model'.padEnd(40)}${'Puzzles'.padEnd(10)}${'Avg Steps'.padEnd(12)}${'Avg Time'.padEnd(12)}Total Cost`
   console.log(pc.cyan('│') + pc.bold(header))
   console.log(`${pc.cyan('│')}  ${'─'.repeat(65)}`)
 
@@ -142,6 +187,53 @@ export function displayResultsSummary(run: EvalRun): void {
     const line = `  ${summary.modelName.slice(0, 24).padEnd(25)}${solved.padEnd(10)}${avgSteps.padEnd(12)}${avgTime.padEnd(12)}${cost}`
 
     console.log(pc.cyan('│') + line)
+
+    if (summary.sampling) {
+      const { samplesPerPuzzle, passAt1, passAtK, majorityVote, avgPuzzleVariance } =
+        summary.sampling
+      console.log(
+        `${pc.cyan('│')}    ${pc.dim(`pass@1 ${formatPercent(passAt1)} · pass@${samplesPerPuzzle} ${formatPercent(passAtK)} · majority ${formatPercent(majorityVote)} · variance ${avgPuzzleVariance.toFixed(3)}`)}`,
+      )
+    }
+
+    // Partial credit only tells models apart when something was left unsolved
+    if (summary.partialCredit && summary.puzzlesSolved < summary.puzzlesTotal) {
+      const { avgBoxesOnGoalsRate, solvableRate, avgDistanceToGoal } = summary.partialCredit
+      const solvable = solvableRate !== null ? formatPercent(solvableRate) : '-'
+      const distance = avgDistanceToGoal !== null ? avgDistanceToGoal.toFixed(1) : '-'
+      console.log(
+        `${pc.cyan('│')}    ${pc.dim(`partial: ${formatPercent(avgBoxesOnGoalsRate)} boxes on goals · ${solvable} still solvable · ${distance} moves from goal`)}`,
+      )
+    }
+
+    if (summary.failures) {
+      console.log(
+        `${pc.cyan('│')}    ${pc.dim(`failures: ${formatFailureBreakdown(summary.failures)}`)}`,
+      )
+    }
+
+    if (summary.optimality) {
+      const {
+        solvesCompared,
+        optimalSolves,
+        referencesBeaten,
+        avgExcessMoves,
+        avgExcessPushes,
+        avgMoveEfficiency,
+      } = summary.optimality
+      const beaten = referencesBeaten ? ` (${referencesBeaten} beat it)` : ''
+      console.log(
+        `${pc.cyan('│')}    ${pc.dim(`optimal ${optimalSolves}/${solvesCompared}${beaten} · efficiency ${formatPercent(avgMoveEfficiency)} · ${formatSigned(avgExcessMoves)} moves · ${formatSigned(avgExcessPushes)} pushes vs reference`)}`,
+      )
+    }
+  }
+
+  if (run.summary.byVariant) {
+    displayGroupedSummaries('Prompt Variant', run.summary.byVariant, run.models)
+  }
+
+  if (run.summary.byDifficulty) {
+    displayGroupedSummaries('Difficulty', run.summary.byDifficulty, run.models)
   }
 
   console.log(pc.cyan('│'))
@@ -149,6 +241,34 @@ export function displayResultsSummary(run: EvalRun): void {
   console.log('')
 }
 
+/**
+ * Display solve counts per model under each group (prompt variant or difficulty bucket).
+ */
+function displayGroupedSummaries(
+  label: string,
+  grouped: Record<string, Record<string, ModelSummary>>,
+  models: string[],
+): void {
+  console.log(pc.cyan('│'))
+  const header = `  ${label.padEnd(20)}${'Model'.padEnd(25)}${'Puzzles'.padEnd(10)}Rate`
+  console.log(pc.cyan('│') + pc.bold(header))
+  console.log(`${pc.cyan('│')}  ${'─'.repeat(65)}`)
+
+  for (const [group, byModel] of Object.entries(grouped)) {
+    for (const modelId of models) {
+      const summary = byModel[modelId]
+      if (!summary) continue
+
+      const solved = `${summary.puzzlesSolved}/${summary.puzzlesTotal}`
+      const rate =
+        summary.puzzlesTotal > 0 ? formatPercent(summary.puzzlesSolved / summary.puzzlesTotal) : '-'
+      console.log(
+        `${pc.cyan('│')}  ${group.slice(0, 19).padEnd(20)}${summary.modelName.slice(0, 24).padEnd(25)}${solved.padEnd(10)}${rate}`,
+      )
+    }
+  }
+}
+
 /**
  * Display save confirmation.
  */
@@ -174,6 +294,64 @@ export function displayInfo(message: string): void {
   console.log(pc.dim(message))
 }
 
+/**
+ * Display how to resume an interrupted run.
+ */
+export function displayResumeHint(runId: string): void {
+  console.log('')
+  console.log(
+    pc.yellow(`Completed results are checkpointed. Resume with: bun eval --resume ${runId}`),
+  )
+}
+
+/**
+ * Display which results changed when a run was re-scored.
+ */
+export function displayRescoreReport(report: RescoreReport): void {
+  const unchanged =
+    report.resultsTotal - report.resultsSkipped - report.flipped.length - report.changed.length
+  console.log('')
+  console.log(pc.cyan(`╭─ Re-scored ${report.puzzleFile} (${report.sourceRunId.slice(0, 8)})`))
+  console.log(
+    `${pc.cyan('│')} ${pc.bold(report.flipped.length.toString())} flipped, ${report.changed.length} changed, ${unchanged} unchanged${report.resultsSkipped > 0 ? pc.yellow(`, ${report.resultsSkipped} skipped (puzzle not found)`) : ''}`,
+  )
+
+  for (const change of report.flipped) {
+    const sample = change.sampleIndex !== undefined ? ` #${change.sampleIndex + 1}` : ''
+    const variant = change.promptVariant ? ` [${change.promptVariant}]` : ''
+    const outcome = change.after.solved ? pc.green('now solved') : pc.red('no longer solved')
+    console.log(
+      `${pc.cyan('│')}   ${change.puzzleName}${pc.dim(' - ')}${change.modelId}${variant}${sample}${pc.dim(': ')}${outcome}${pc.dim(` (${change.before.stepsExecuted} → ${change.after.stepsExecuted} steps)`)}`,
+    )
+  }
+
+  console.log(pc.cyan('╰───────────────────────────────────────────────╯'))
+}
+
+/**
+ * Display the top of each dataset leaderboard.
+ */
+export function displayLeaderboards(leaderboards: DatasetLeaderboard[]): void {
+  for (const leaderboard of leaderboards) {
+    console.log('')
+    console.log(pc.cyan(`╭─ ${leaderboard.dataset} `))
+    const header = `  ${'Model'.padEnd(40)}${'Puzzles'.padEnd(10)}${'Rate'.padEnd(8)}${'95% CI'.padEnd(14)}Cost/Solve`
+    console.log(pc.cyan('│') + pc.bold(header))
+
+    for (const entry of leaderboard.entries) {
+      const solved = `${entry.puzzlesSolved}/${entry.puzzles}`
+      const ci = `${formatPercent(entry.ciLow)}-${formatPercent(entry.ciHigh)}`
+      const cost = entry.costPerSolve !== null ? formatCost(entry.costPerSolve) : '-'
+      console.log(
+        `${pc.cyan('│')}  ${getEntryName(entry).slice(0, 39).padEnd(40)}${solved.padEnd(10)}${formatPercent(entry.solveRate).padEnd(8)}${ci.padEnd(14)}${cost}`,
+      )
+    }
+
+    console.log(pc.cyan('╰───────────────────────────────────────────────╯'))
+  }
+  console.log('')
+}
+
 /**
  * Format a number with commas.
  */
@@ -186,7 +364,7 @@ function formatNumber(num: number): string {
  */
 function formatDuration(ms: number): string {
   if (ms < 1000) {
-    return `${ms}ms`
+    return `${Math.round(ms)}ms`
   }
   const seconds = ms / 1000
   if (seconds < 60) {
@@ -197,6 +375,20 @@ function formatDuration(ms: number): string {
   return `${minutes}:${secs.toString().padStart(2, '0')}`
 }
 
+/**
+ * Format a 0-1 rate as a percentage.
+ */
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+/**
+ * Format a difference with an explicit sign.
+ */
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`
+}
+
 /**
  * Format cost in dollars.
  */
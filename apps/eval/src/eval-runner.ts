@@ -1,19 +1,145 @@
+import { DIFFICULTY_BUCKETS } from '@sokoban-eval-toolkit/sokoban-core'
 import pLimit from 'p-limit'
 import { v4 as uuidv4 } from 'uuid'
-import { evaluatePuzzle, getModelName } from './model-runner'
+import { getPuzzleBucket } from './difficulty'
+import { addFailureCategory } from './failure-taxonomy'
+import { DEFAULT_TEMPERATURE, evaluatePuzzle, getModelName } from './model-runner'
+import { addPartialCredit } from './partial-credit'
+import { addOptimality } from './reference-solutions'
+import {
+  appendCheckpointResult,
+  completeCheckpoint,
+  createCheckpoint,
+  rewriteCheckpointResults,
+} from './results-storage'
 import type {
   EvalOptions,
   EvalProgress,
   EvalResult,
   EvalRun,
+  FailureCategory,
   ModelSummary,
+  OptimalitySummary,
+  PartialCreditSummary,
+  PromptVariant,
+  PuzzleSampleStats,
+  PuzzleSelectionRecord,
+  SamplingSummary,
   SavedLayout,
 } from './types'
 
+/**
+ * Calculate pass@k, majority-vote and per-puzzle variance across repeated samples.
+ * Samples are grouped by puzzle and prompt variant, so each group holds samplesPerPuzzle
+ * attempts at the same prompt even when several variants are pooled.
+ */
+function calculateSamplingSummary(
+  modelResults: EvalResult[],
+  samplesPerPuzzle: number,
+  temperature: number,
+): SamplingSummary {
+  const groups = new Map<string, EvalResult[]>()
+  for (const result of modelResults) {
+    const key = `${result.promptVariant ?? ''}\n${result.puzzleId}`
+    const existing = groups.get(key) ?? []
+    existing.push(result)
+    groups.set(key, existing)
+  }
+
+  const byPuzzle: PuzzleSampleStats[] = []
+  for (const samples of groups.values()) {
+    const { puzzleId, promptVariant } = samples[0]
+    const solvedSamples = samples.filter((r) => r.solved).length
+    const rate = solvedSamples / samples.length
+    byPuzzle.push({
+      puzzleId,
+      ...(promptVariant !== undefined && { promptVariant }),
+      samples: samples.length,
+      solvedSamples,
+      variance: rate * (1 - rate),
+    })
+  }
+
+  const puzzleCount = byPuzzle.length
+  const average = (values: number[]) =>
+    puzzleCount > 0 ? values.reduce((sum, v) => sum + v, 0) / puzzleCount : 0
+
+  return {
+    samplesPerPuzzle,
+    temperature,
+    passAt1: average(byPuzzle.map((p) => p.solvedSamples / p.samples)),
+    passAtK: average(byPuzzle.map((p) => (p.solvedSamples > 0 ? 1 : 0))),
+    majorityVote: average(byPuzzle.map((p) => (p.solvedSamples > p.samples / 2 ? 1 : 0))),
+    avgPuzzleVariance: average(byPuzzle.map((p) => p.variance)),
+    byPuzzle,
+  }
+}
+
+/**
+ * Average the optimality metrics of solved results. Undefined when none has a reference.
+ */
+function calculateOptimalitySummary(solvedResults: EvalResult[]): OptimalitySummary | undefined {
+  const metrics = solvedResults.flatMap((r) => (r.optimality ? [r.optimality] : []))
+  if (metrics.length === 0) return undefined
+
+  const average = (pick: (m: (typeof metrics)[number]) => number) =>
+    metrics.reduce((sum, m) => sum + pick(m), 0) / metrics.length
+
+  return {
+    solvesCompared: metrics.length,
+    optimalSolves: metrics.filter((m) => m.excessMoves <= 0).length,
+    referencesBeaten: metrics.filter((m) => m.beatReference).length,
+    avgExcessMoves: average((m) => m.excessMoves),
+    avgExcessPushes: average((m) => m.excessPushes),
+    avgMoveEfficiency: average((m) => m.moveEfficiency),
+  }
+}
+
+/**
+ * Count unsolved results by failure category. Undefined when none is classified.
+ */
+function countFailures(
+  modelResults: EvalResult[],
+): Partial<Record<FailureCategory, number>> | undefined {
+  const failures: Partial<Record<FailureCategory, number>> = {}
+  for (const result of modelResults) {
+    if (result.solved || !result.failureCategory) continue
+    failures[result.failureCategory] = (failures[result.failureCategory] ?? 0) + 1
+  }
+  return Object.keys(failures).length > 0 ? failures : undefined
+}
+
+/**
+ * Average partial credit across results. Undefined when no result has it.
+ */
+function calculatePartialCreditSummary(
+  modelResults: EvalResult[],
+): PartialCreditSummary | undefined {
+  const credits = modelResults.flatMap((r) => (r.partialCredit ? [r.partialCredit] : []))
+  if (credits.length === 0) return undefined
+
+  const decided = credits.filter((c) => c.solvable !== null)
+  const distances = credits.flatMap((c) => (c.distanceToGoal !== null ? [c.distanceToGoal] : []))
+
+  return {
+    avgBoxesOnGoalsRate:
+      credits.reduce((sum, c) => sum + (c.boxCount > 0 ? c.boxesOnGoals / c.boxCount : 1), 0) /
+      credits.length,
+    solvableRate:
+      decided.length > 0 ? decided.filter((c) => c.solvable).length / decided.length : null,
+    avgDistanceToGoal:
+      distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : null,
+  }
+}
+
 /**
  * Calculate summary statistics for a model.
  */
-function calculateModelSummary(modelId: string, results: EvalResult[]): ModelSummary {
+function calculateModelSummary(
+  modelId: string,
+  results: EvalResult[],
+  options: EvalOptions,
+): ModelSummary {
   const modelResults = results.filter((r) => r.modelId === modelId)
   const solvedResults = modelResults.filter((r) => r.solved)
 
@@ -30,6 +156,8 @@ function calculateModelSummary(modelId: string, results: EvalResult[]): ModelSum
   const totalOutputTokens = modelResults.reduce((sum, r) => sum + r.outputTokens, 0)
   const totalCost = modelResults.reduce((sum, r) => sum + r.cost, 0)
 
+  const samples = options.samples ?? 1
+
   return {
     modelId,
     modelName: getModelName(modelId),
@@ -39,17 +167,135 @@ function calculateModelSummary(modelId: string, results: EvalResult[]): ModelSum
     avgInferenceTimeMs,
     totalOutputTokens,
     totalCost,
+    sampling:
+      samples > 1
+        ? calculateSamplingSummary(
+            modelResults,
+            samples,
+            options.temperature ?? DEFAULT_TEMPERATURE,
+          )
+        : undefined,
+    optimality: calculateOptimalitySummary(solvedResults),
+    failures: countFailures(modelResults),
+    partialCredit: calculatePartialCreditSummary(modelResults),
+  }
+}
+
+/**
+ * Calculate summary statistics for every model in a run.
+ */
+export function summarizeResults(
+  models: string[],
+  results: EvalResult[],
+  options: EvalOptions,
+): Record<string, ModelSummary> {
+  const byModel: Record<string, ModelSummary> = {}
+  for (const modelId of models) {
+    byModel[modelId] = calculateModelSummary(modelId, results, options)
+  }
+  return byModel
+}
+
+/**
+ * Calculate summary statistics for every model under each prompt variant.
+ * Undefined when the run has no prompt variants.
+ */
+export function summarizeByVariant(
+  models: string[],
+  results: EvalResult[],
+  options: EvalOptions,
+): Record<string, Record<string, ModelSummary>> | undefined {
+  if (!options.promptVariants) return undefined
+
+  const byVariant: Record<string, Record<string, ModelSummary>> = {}
+  for (const variant of options.promptVariants) {
+    const variantResults = results.filter((r) => r.promptVariant === variant.name)
+    byVariant[variant.name] = summarizeResults(models, variantResults, options)
   }
+  return byVariant
+}
+
+/**
+ * Calculate summary statistics for every model on each difficulty bucket's puzzles.
+ * Undefined when none of the puzzles has been analyzed.
+ */
+export function summarizeByDifficulty(
+  models: string[],
+  results: EvalResult[],
+  puzzles: SavedLayout[],
+  options: EvalOptions,
+): Record<string, Record<string, ModelSummary>> | undefined {
+  const buckets = new Map(puzzles.map((p) => [p.id, getPuzzleBucket(p)]))
+  const byDifficulty: Record<string, Record<string, ModelSummary>> = {}
+
+  for (const bucket of DIFFICULTY_BUCKETS) {
+    const bucketResults = results.filter((r) => buckets.get(r.puzzleId) === bucket)
+    if (bucketResults.length === 0) continue
+    byDifficulty[bucket] = summarizeResults(models, bucketResults, options)
+  }
+  return Object.keys(byDifficulty).length > 0 ? byDifficulty : undefined
+}
+
+/**
+ * Add optimality metrics to a solved result, or the failure category to an unsolved one,
+ * plus partial credit to both.
+ */
+export async function annotateResult(result: EvalResult, puzzle: SavedLayout): Promise<EvalResult> {
+  const annotated = result.solved
+    ? await addOptimality(result, puzzle)
+    : addFailureCategory(result, puzzle)
+  return addPartialCredit(annotated, puzzle)
 }
 
 interface EvalTask {
   puzzleIndex: number
   puzzle: SavedLayout
   modelId: string
+  variant: PromptVariant | undefined
+  sampleIndex: number
+}
+
+/**
+ * State carried over from an interrupted run.
+ */
+export interface ResumeState {
+  runId: string
+  startedAt: number
+  results: EvalResult[]
+}
+
+/**
+ * Key identifying one sample of a puzzle/model pair under a prompt variant.
+ */
+function getTaskKey(
+  puzzleId: string,
+  modelId: string,
+  sampleIndex = 0,
+  promptVariant = '',
+): string {
+  return `${puzzleId}::${modelId}::${promptVariant}::${sampleIndex}`
+}
+
+/**
+ * Key of the task that produced a result.
+ */
+function getResultKey(result: EvalResult): string {
+  return getTaskKey(result.puzzleId, result.modelId, result.sampleIndex, result.promptVariant)
+}
+
+/**
+ * Whether a result never got a response (API error, rate limit) and should be retried on resume.
+ */
+function isRetryableResult(result: EvalResult): boolean {
+  return result.error !== null && result.rawResponse === '' && result.moves.length === 0
 }
 
 /**
  * Run evaluation for all puzzles and models with parallel execution.
+ * Each result is appended to the run's checkpoint as soon as it completes.
+ * When resuming, puzzle/model pairs already in the checkpoint are skipped, and the checkpoint
+ * keeps only the results carried over.
+ * The selection, if given, records how the puzzles were picked and is saved with the run.
  */
 export async function runEvaluation(
   puzzles: SavedLayout[],
@@ -57,31 +303,69 @@ export async function runEvaluation(
   options: EvalOptions,
   puzzleFile: string,
   onProgress?: (progress: EvalProgress) => void,
+  resume?: ResumeState,
+  selection?: PuzzleSelectionRecord,
 ): Promise<EvalRun> {
-  const runId = uuidv4()
-  const startedAt = Date.now()
+  const runId = resume?.runId ?? uuidv4()
+  const startedAt = resume?.startedAt ?? Date.now()
 
-  // Create all evaluation tasks
+  if (!resume) {
+    await createCheckpoint({
+      id: runId,
+      startedAt,
+      completedAt: null,
+      puzzleFile,
+      models,
+      options,
+      selection,
+      puzzles,
+    })
+  }
+
+  // Keep results from the previous attempt, except ones that never got a response
+  const previousResults = new Map<string, EvalResult>()
+  for (const result of resume?.results ?? []) {
+    if (isRetryableResult(result)) continue
+    previousResults.set(getResultKey(result), result)
+  }
+  if (resume) {
+    await rewriteCheckpointResults(runId, [...previousResults.values()])
+  }
+
+  // Create evaluation tasks for samples that are not done yet
+  const samples = options.samples ?? 1
+  const variants = options.promptVariants ?? [undefined]
   const tasks: EvalTask[] = []
   for (let puzzleIndex = 0; puzzleIndex < puzzles.length; puzzleIndex++) {
     const puzzle = puzzles[puzzleIndex]
     for (const modelId of models) {
-      tasks.push({ puzzleIndex, puzzle, modelId })
+      for (const variant of variants) {
+        for (let sampleIndex = 0; sampleIndex < samples; sampleIndex++) {
+          if (previousResults.has(getTaskKey(puzzle.id, modelId, sampleIndex, variant?.name))) {
+            continue
+          }
+          tasks.push({ puzzleIndex, puzzle, modelId, variant, sampleIndex })
+        }
+      }
     }
   }
 
-  const totalTasks = tasks.length
-  let completedTasks = 0
+  const totalTasks = puzzles.length * models.length * variants.length * samples
+  let completedTasks = totalTasks - tasks.length
 
   // Create concurrency limiter
   const limit = pLimit(options.concurrency)
 
+  // Serialize checkpoint writes so concurrent results never interleave
+  let checkpointWrite = Promise.resolve()
+
   // Run all tasks in parallel with concurrency limit
-  const results = await Promise.all(
+  const newResults = await Promise.all(
     tasks.map((task) =>
       limit(async (): Promise<EvalResult> => {
         // Report starting
         onProgress?.({
+          runId,
           currentPuzzle: completedTasks + 1,
           totalPuzzles: totalTasks,
           currentModel: getModelName(task.modelId),
@@ -90,11 +374,22 @@ export async function runEvaluation(
         })
 
         // Evaluate this puzzle with this model
-        const result = await evaluatePuzzle(task.puzzle, task.modelId)
+        const evaluated = await annotateResult(
+          await evaluatePuzzle(task.puzzle, task.modelId, options, task.sampleIndex, task.variant),
+          task.puzzle,
+        )
+        const result: EvalResult = {
+          ...evaluated,
+          ...(samples > 1 && { sampleIndex: task.sampleIndex }),
+          ...(task.variant && { promptVariant: task.variant.name }),
+        }
+        checkpointWrite = checkpointWrite.then(() => appendCheckpointResult(runId, result))
+        await checkpointWrite
         completedTasks++
 
         // Report result
         onProgress?.({
+          runId,
           currentPuzzle: completedTasks,
           totalPuzzles: totalTasks,
           currentModel: getModelName(task.modelId),
@@ -108,22 +403,42 @@ export async function runEvaluation(
     ),
   )
 
-  // Calculate summaries
-  const byModel: Record<string, ModelSummary> = {}
-  for (const modelId of models) {
-    byModel[modelId] = calculateModelSummary(modelId, results)
+  // Combine previous and new results in puzzle/model/variant order
+  const resultsByKey = new Map(previousResults)
+  for (const result of newResults) {
+    resultsByKey.set(getResultKey(result), result)
   }
+  const results: EvalResult[] = []
+  for (const puzzle of puzzles) {
+    for (const modelId of models) {
+      for (const variant of variants) {
+        for (let sampleIndex = 0; sampleIndex < samples; sampleIndex++) {
+          const key = getTaskKey(puzzle.id, modelId, sampleIndex, variant?.name)
+          const result = resultsByKey.get(key)
+          if (result) results.push(result)
+        }
+      }
+    }
+  }
+
+  const completedAt = Date.now()
+  await completeCheckpoint(runId, completedAt)
 
   return {
     id: runId,
     startedAt,
-    completedAt: Date.now(),
+    completedAt,
     puzzleFile,
     puzzleCount: puzzles.length,
     models,
     options,
+    selection,
     results,
-    summary: { byModel },
+    summary: {
+      byModel: summarizeResults(models, results, options),
+      byVariant: summarizeByVariant(models, results, options),
+      byDifficulty: summarizeByDifficulty(models, results, puzzles, options),
+    },
     status: 'completed',
   }
 }
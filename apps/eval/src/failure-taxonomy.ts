@@ -0,0 +1,154 @@
+import {
+  executeMovesFrom,
+  initializeGame,
+  savedLayoutToLevel,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { createDeadlockCheck } from './solver'
+import type {
+  EvalResult,
+  FailureCategory,
+  GameState,
+  MoveDirection,
+  SavedLayout,
+  SokobanLevel,
+} from './types'
+
+/**
+ * Classify why unsolved results failed.
+ */
+
+export const FAILURE_CATEGORY_LABELS: Record<FailureCategory, string> = {
+  apiError: 'API error',
+  parseError: 'parse failure',
+  wallBump: 'wall bump',
+  doubleBoxPush: 'double-box push',
+  colorAdjacency: 'color adjacency',
+  deadlock: 'deadlock',
+  outOfMoves: 'out of moves',
+}
+
+// Invalid move reasons reported by the executor
+const INVALID_MOVE_CATEGORIES: Record<string, FailureCategory> = {
+  'Out of bounds': 'wallBump',
+  'Wall collision': 'wallBump',
+  'Cannot push box out of bounds': 'wallBump',
+  'Cannot push box into wall': 'wallBump',
+  'Cannot push box into another box': 'doubleBoxPush',
+  'Cannot push box adjacent to same-colored box': 'colorAdjacency',
+}
+
+type DeadlockCheck = (state: GameState) => boolean
+
+interface Replay {
+  state: GameState
+  deadlocked: boolean
+  invalidMoveReason: string | null
+}
+
+/**
+ * Execute moves one at a time, stopping at the first invalid move or deadlocked position.
+ */
+function replayMoves(
+  state: GameState,
+  moves: MoveDirection[],
+  isDeadlocked: DeadlockCheck,
+): Replay {
+  let current = state
+  for (const move of moves) {
+    const step = executeMovesFrom(current, [move])
+    if (step.invalidMoveIndex !== null) {
+      return { state: current, deadlocked: false, invalidMoveReason: step.invalidMoveReason }
+    }
+    const pushed = step.finalState.pushCount > current.pushCount
+    current = step.finalState
+    if (pushed && isDeadlocked(current)) {
+      return { state: current, deadlocked: true, invalidMoveReason: null }
+    }
+  }
+  return { state: current, deadlocked: false, invalidMoveReason: null }
+}
+
+function getInvalidMoveCategory(reason: string | null): FailureCategory {
+  return (reason && INVALID_MOVE_CATEGORIES[reason]) || 'wallBump'
+}
+
+/**
+ * Classify a one-shot failure: what stopped the proposed solution.
+ */
+function classifyOneShot(
+  result: EvalResult,
+  level: SokobanLevel,
+  isDeadlocked: DeadlockCheck,
+): FailureCategory {
+  if (result.rawResponse === '') return 'apiError'
+  if (result.moves.length === 0) return 'parseError'
+
+  const replay = replayMoves(initializeGame(level), result.moves, isDeadlocked)
+  if (replay.deadlocked) return 'deadlock'
+  if (replay.invalidMoveReason) return getInvalidMoveCategory(replay.invalidMoveReason)
+  return 'outOfMoves'
+}
+
+/**
+ * Classify a multi-turn failure. Failed turns are recoverable, so only a deadlock,
+ * an API error or the last turn's failure explains why the turn budget ran out.
+ */
+function classifyMultiTurn(
+  result: EvalResult,
+  level: SokobanLevel,
+  isDeadlocked: DeadlockCheck,
+): FailureCategory {
+  const turns = result.turns ?? []
+  let state = initializeGame(level)
+  let lastTurnFailure: FailureCategory | null = null
+
+  for (const turn of turns) {
+    if (turn.rawResponse === '' && turn.error) return 'apiError'
+
+    if (turn.moves.length === 0) {
+      lastTurnFailure = turn.error ? 'parseError' : null
+      continue
+    }
+
+    const replay = replayMoves(state, turn.moves, isDeadlocked)
+    if (replay.deadlocked) return 'deadlock'
+    state = replay.state
+    lastTurnFailure = replay.invalidMoveReason
+      ? getInvalidMoveCategory(replay.invalidMoveReason)
+      : null
+  }
+
+  return lastTurnFailure ?? 'outOfMoves'
+}
+
+/**
+ * Classify why a result failed. Returns null for solved results.
+ * A deadlock takes precedence over a later invalid move, since the puzzle was already lost.
+ */
+export function classifyFailure(result: EvalResult, puzzle: SavedLayout): FailureCategory | null {
+  if (result.solved) return null
+
+  const level = savedLayoutToLevel(puzzle)
+  const isDeadlocked = createDeadlockCheck(level)
+  return result.turns
+    ? classifyMultiTurn(result, level, isDeadlocked)
+    : classifyOneShot(result, level, isDeadlocked)
+}
+
+/**
+ * Annotate an unsolved result with its failure category.
+ */
+export function addFailureCategory(result: EvalResult, puzzle: SavedLayout): EvalResult {
+  const failureCategory = classifyFailure(result, puzzle)
+  return failureCategory ? { ...result, failureCategory } : result
+}
+
+/**
+ * Format a failure breakdown, most common first (e.g. "3 wall bump, 1 deadlock").
+ */
+export function formatFailureBreakdown(failures: Partial<Record<FailureCategory, number>>): string {
+  return (Object.entries(failures) as [FailureCategory, number][])
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, count]) => `${count} ${FAILURE_CATEGORY_LABELS[category]}`)
+    .join(', ')
+}
@@ -1,139 +1,529 @@
-import { hasOpenRouterApiKey } from '@sokoban-eval-toolkit/utils'
-import { OPENROUTER_MODELS } from '@sokoban-eval-toolkit/utils'
+import { basename } from 'node:path'
+import { getCurrentRuns } from '@sokoban-eval-toolkit/sokoban-core'
+import { hasLLMApiKey, resolveLLMModel } from '@sokoban-eval-toolkit/utils'
+import {
+  CLI_USAGE,
+  type CliCommand,
+  CliUsageError,
+  EXIT_CODES,
+  type ExitCode,
+  type RunConfig,
+  getRunExitCode,
+  parseCliArgs,
+} from './cli'
 import { getDatasetInfo, loadDataset } from './datasets'
+import { addDifficultyMetrics, applyCachedDifficulty } from './difficulty'
 import {
   displayBanner,
   displayError,
   displayEvalPlan,
   displayInfo,
+  displayLeaderboards,
   displayProgress,
   displayPuzzleList,
   displayPuzzleSummary,
+  displayRescoreReport,
   displayResultsSummary,
+  displayResumeHint,
   displaySaveConfirmation,
 } from './display'
-import { runEvaluation } from './eval-runner'
+import { type ResumeState, runEvaluation } from './eval-runner'
+import {
+  buildLeaderboards,
+  renderHeadToHeadCsv,
+  renderLeaderboardCsv,
+  renderLeaderboardHtml,
+  renderLeaderboardMarkdown,
+} from './leaderboard'
+import { getModelName } from './model-runner'
 import { notifyEvalComplete, notifyEvalFailed } from './notifications'
 import {
+  type PuzzleSource,
   confirmStart,
   promptEvalOptions,
   promptModelSelection,
-  promptPuzzleLimit,
+  promptPuzzleSelection,
   promptPuzzleSource,
 } from './prompts'
-import { loadPuzzles } from './puzzle-loader'
-import { saveEvalRun } from './results-storage'
-import type { SavedLayout } from './types'
+import { loadPuzzles, savePuzzles } from './puzzle-loader'
+import { describeSelection, needsDifficulty, selectPuzzles } from './puzzle-selection'
+import { loadRunPuzzles, rescoreRun } from './rescore'
+import {
+  loadCheckpoint,
+  loadEvalRuns,
+  mergeSavedRuns,
+  saveEvalRun,
+  saveReportFiles,
+  saveRescoreReport,
+} from './results-storage'
+import type {
+  EvalCheckpoint,
+  EvalOptions,
+  EvalResult,
+  EvalRun,
+  PuzzleSelection,
+  PuzzleSelectionRecord,
+  SavedLayout,
+} from './types'
 
-async function main(): Promise<void> {
-  // Display welcome banner
-  displayBanner()
+// Id of the run in progress, used to print a resume hint if it is interrupted
+let activeRunId: string | null = null
+
+/**
+ * Load puzzles for the selected source.
+ */
+async function loadPuzzleSource(
+  source: PuzzleSource,
+): Promise<{ puzzles: SavedLayout[]; puzzleSourceName: string }> {
+  if (source.type === 'dataset') {
+    const datasetInfo = getDatasetInfo(source.datasetId)
+    const puzzleSourceName = datasetInfo?.name ?? source.datasetId
+    displayInfo(`Loading ${puzzleSourceName} dataset...`)
+    const puzzles = await loadDataset(source.datasetId)
+    displayInfo(`Loaded ${puzzles.length} puzzles`)
+    return { puzzles, puzzleSourceName }
+  }
+
+  displayInfo(`Loading puzzles from ${source.path}...`)
+  const puzzles = await loadPuzzles(source.path)
+  displayInfo(`Loaded ${puzzles.length} puzzles`)
+  return { puzzles, puzzleSourceName: source.path }
+}
+
+/**
+ * Grade the puzzles that haven't been analyzed yet, in this or an earlier run, so results can
+ * be reported by difficulty.
+ */
+async function analyzePuzzles(puzzles: SavedLayout[]): Promise<SavedLayout[]> {
+  const cached = await applyCachedDifficulty(puzzles)
+  const missing = cached.filter((p) => !p.difficultyMetrics).length
+  if (missing === 0) return cached
+  displayInfo(`Analyzing difficulty of ${missing} puzzle${missing !== 1 ? 's' : ''}...`)
+  return addDifficultyMetrics(cached)
+}
+
+/**
+ * Ids of the puzzles attempted by saved runs on a puzzle source.
+ */
+async function loadSeenPuzzleIds(puzzleFile: string): Promise<Set<string>> {
+  const runs = (await loadEvalRuns()).filter((run) => run.puzzleFile === puzzleFile)
+  return new Set(runs.flatMap((run) => run.results.map((r) => r.puzzleId)))
+}
+
+/**
+ * Ids of the puzzles a saved run evaluated. Runs saved before selections were recorded fall
+ * back to the puzzles in their results.
+ */
+async function loadRunPuzzleIds(runId: string, puzzleFile: string): Promise<string[]> {
+  const run = mergeSavedRuns(await loadEvalRuns()).find((r) => r.id === runId)
+  if (!run) {
+    throw new CliUsageError(`No saved run found with id ${runId}`)
+  }
+  if (run.puzzleFile !== puzzleFile) {
+    throw new CliUsageError(`Run ${runId} evaluated ${run.puzzleFile}, not ${puzzleFile}`)
+  }
+  return run.selection?.puzzleIds ?? [...new Set(run.results.map((r) => r.puzzleId))]
+}
+
+/**
+ * Pick the puzzles to use from a source, grading them first if the selection needs it.
+ * samePuzzlesAs reuses the puzzles of a saved run as the id list.
+ */
+async function selectSourcePuzzles(
+  puzzles: SavedLayout[],
+  puzzleSourceName: string,
+  selection: PuzzleSelection,
+  samePuzzlesAs?: string,
+): Promise<{ puzzles: SavedLayout[]; record: PuzzleSelectionRecord }> {
+  const resolved = samePuzzlesAs
+    ? { ...selection, ids: await loadRunPuzzleIds(samePuzzlesAs, puzzleSourceName) }
+    : selection
+
+  if (resolved.ids) {
+    const known = new Set(puzzles.map((p) => p.id))
+    const unknown = resolved.ids.filter((id) => !known.has(id))
+    if (unknown.length > 0) {
+      throw new CliUsageError(`Unknown puzzle ids in ${puzzleSourceName}: ${unknown.join(', ')}`)
+    }
+  }
+
+  const seenIds = resolved.excludeSeen ? await loadSeenPuzzleIds(puzzleSourceName) : undefined
+  const candidates = needsDifficulty(resolved) ? await analyzePuzzles(puzzles) : puzzles
+  const selected = selectPuzzles(candidates, resolved, seenIds)
+  if (selected.puzzles.length === 0) {
+    throw new CliUsageError('No puzzles left after selection')
+  }
+  if (selected.record.puzzleIds.length < selected.record.sourceCount) {
+    displayInfo(describeSelection(selected.record))
+  }
+  return selected
+}
 
-  // Check for API key
-  if (!hasOpenRouterApiKey()) {
+/**
+ * Get display names for model IDs.
+ */
+function getModelNames(modelIds: string[]): string[] {
+  return modelIds.map(getModelName)
+}
+
+/**
+ * Make sure every model's provider has the API key it needs before spending anything.
+ */
+function checkApiKeys(modelIds: string[]): void {
+  for (const modelId of modelIds) {
+    if (hasLLMApiKey(modelId)) continue
+    const { provider } = resolveLLMModel(modelId)
+    throw new CliUsageError(
+      `${provider.name} API key not found for ${modelId}. Set ${provider.apiKeyEnvVars.join(' or ')} (or the VITE_ variant).`,
+    )
+  }
+}
+
+/**
+ * Run the evaluation, then display, save and announce the results.
+ */
+async function executeEvaluation(
+  puzzles: SavedLayout[],
+  models: string[],
+  options: EvalOptions,
+  puzzleSourceName: string,
+  selection?: PuzzleSelectionRecord,
+  resume?: ResumeState,
+): Promise<EvalRun> {
+  console.log('')
+  displayInfo(resume ? `Resuming evaluation ${resume.runId}...` : 'Starting evaluation...')
+  console.log('')
+
+  activeRunId = resume?.runId ?? null
+  const run = await runEvaluation(
+    puzzles,
+    models,
+    options,
+    puzzleSourceName,
+    (progress) => {
+      activeRunId = progress.runId
+      displayProgress(progress)
+    },
+    resume,
+    selection,
+  )
+
+  // Display results summary
+  displayResultsSummary(run)
+
+  // Save results (one file per model)
+  const savedPaths = await saveEvalRun(run)
+  displaySaveConfirmation(savedPaths)
+  activeRunId = null
+
+  // Send Slack notification
+  await notifyEvalComplete(run)
+  return run
+}
+
+/**
+ * Exit code of a headless run, with the reason when API errors fail it.
+ */
+function getHeadlessExitCode(run: EvalRun, failOnApiError: boolean): ExitCode {
+  const exitCode = getRunExitCode(run.results, failOnApiError)
+  if (exitCode !== EXIT_CODES.success) {
     displayError(
-      'OpenRouter API key not found. Set OPENROUTER_API_KEY or VITE_OPENROUTER_API_KEY environment variable.',
+      failOnApiError ? 'Some results ended in an API error' : 'Every result ended in an API error',
     )
-    process.exit(1)
+  }
+  return exitCode
+}
+
+/**
+ * Interactive mode: every setting comes from inquirer prompts.
+ */
+async function runInteractive(): Promise<void> {
+  // Prompt for puzzle source
+  const puzzleSource = await promptPuzzleSource()
+  const loaded = await loadPuzzleSource(puzzleSource)
+  const { puzzleSourceName } = loaded
+
+  // Prompt for a sample if dataset is large
+  const selection = await promptPuzzleSelection(loaded.puzzles.length)
+  const selected = await selectSourcePuzzles(loaded.puzzles, puzzleSourceName, selection)
+  const puzzles = await analyzePuzzles(selected.puzzles)
+
+  // Display puzzle summary
+  displayPuzzleSummary(puzzles)
+  displayPuzzleList(puzzles)
+
+  // Prompt for model selection
+  const selectedModels = await promptModelSelection()
+  if (selectedModels.length === 0) {
+    displayError('No models selected')
+    process.exit(EXIT_CODES.usage)
+  }
+  checkApiKeys(selectedModels)
+
+  // Prompt for eval options
+  const options = await promptEvalOptions()
+
+  // Display eval plan
+  displayEvalPlan(puzzles.length, selectedModels, getModelNames(selectedModels), options)
+
+  // Confirm start
+  const shouldStart = await confirmStart(
+    puzzles.length,
+    selectedModels.length,
+    options.samples ?? 1,
+  )
+  if (!shouldStart) {
+    displayInfo('Evaluation cancelled')
+    process.exit(EXIT_CODES.success)
+  }
+
+  await executeEvaluation(puzzles, selectedModels, options, puzzleSourceName, selected.record)
+}
+
+/**
+ * Headless mode: every setting comes from flags or a run config, no prompts.
+ */
+async function runHeadless(config: RunConfig): Promise<ExitCode> {
+  checkApiKeys(config.models)
+
+  let loaded: { puzzles: SavedLayout[]; puzzleSourceName: string }
+  try {
+    loaded = await loadPuzzleSource(config.source)
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : 'Failed to load puzzles')
   }
 
+  const selected = await selectSourcePuzzles(
+    loaded.puzzles,
+    loaded.puzzleSourceName,
+    config.selection,
+    config.samePuzzlesAs,
+  )
+  const puzzles = await analyzePuzzles(selected.puzzles)
+
+  displayPuzzleSummary(puzzles)
+
+  const options: EvalOptions = {
+    concurrency: config.concurrency,
+    executionMode: config.executionMode,
+    maxTurns: config.maxTurns,
+    samples: config.samples,
+    temperature: config.temperature,
+    cacheMode: config.cacheMode,
+    promptVariants: config.promptVariants,
+  }
+  displayEvalPlan(puzzles.length, config.models, getModelNames(config.models), options)
+
+  const run = await executeEvaluation(
+    puzzles,
+    config.models,
+    options,
+    loaded.puzzleSourceName,
+    selected.record,
+  )
+  return getHeadlessExitCode(run, config.failOnApiError)
+}
+
+/**
+ * Resume mode: reload an interrupted run from its checkpoint and finish the remaining pairs.
+ */
+async function runResume(
+  runId: string,
+  concurrency: number | undefined,
+  failOnApiError: boolean,
+): Promise<ExitCode> {
+  let loaded: { checkpoint: EvalCheckpoint; results: EvalResult[] }
   try {
-    // Prompt for puzzle source
-    const puzzleSource = await promptPuzzleSource()
+    loaded = await loadCheckpoint(runId)
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : 'Failed to load checkpoint')
+  }
+
+  const { checkpoint, results } = loaded
+  checkApiKeys(checkpoint.models)
+  const options: EvalOptions = {
+    ...checkpoint.options,
+    concurrency: concurrency ?? checkpoint.options.concurrency,
+  }
+  const totalTasks =
+    checkpoint.puzzles.length *
+    checkpoint.models.length *
+    (checkpoint.options.promptVariants?.length ?? 1) *
+    (checkpoint.options.samples ?? 1)
+  displayInfo(`Found ${results.length}/${totalTasks} recorded results for run ${runId}`)
+
+  displayPuzzleSummary(checkpoint.puzzles)
+  displayEvalPlan(
+    checkpoint.puzzles.length,
+    checkpoint.models,
+    getModelNames(checkpoint.models),
+    options,
+  )
+
+  const run = await executeEvaluation(
+    checkpoint.puzzles,
+    checkpoint.models,
+    options,
+    checkpoint.puzzleFile,
+    checkpoint.selection,
+    { runId, startedAt: checkpoint.startedAt, results },
+  )
+  return getHeadlessExitCode(run, failOnApiError)
+}
+
+/**
+ * Rescore mode: re-parse and re-execute saved responses, then save the new runs and diff reports.
+ * Re-scored copies are never re-scored again; re-score their original instead.
+ */
+async function runRescore(target: string): Promise<void> {
+  const runs = mergeSavedRuns(await loadEvalRuns()).filter(
+    (run) => !run.rescoredFrom && (target === 'all' || run.id === target),
+  )
+  if (runs.length === 0) {
+    throw new CliUsageError(
+      target === 'all' ? 'No saved runs to re-score' : `No saved run found with id ${target}`,
+    )
+  }
 
-    // Load puzzles based on source
+  displayInfo(`Re-scoring ${runs.length} run${runs.length !== 1 ? 's' : ''}...`)
+
+  // Datasets are shared by many runs; load each puzzle source once
+  const puzzlesBySource = new Map<string, Promise<SavedLayout[]>>()
+  let flippedTotal = 0
+
+  for (const run of runs) {
     let puzzles: SavedLayout[]
-    let puzzleSourceName: string
-
-    if (puzzleSource.type === 'dataset') {
-      const datasetInfo = getDatasetInfo(puzzleSource.datasetId)
-      puzzleSourceName = datasetInfo?.name ?? puzzleSource.datasetId
-      displayInfo(`Loading ${puzzleSourceName} dataset...`)
-      puzzles = await loadDataset(puzzleSource.datasetId)
-      displayInfo(`Loaded ${puzzles.length} puzzles`)
-    } else {
-      puzzleSourceName = puzzleSource.path
-      displayInfo(`Loading puzzles from ${puzzleSource.path}...`)
-      puzzles = await loadPuzzles(puzzleSource.path)
-      displayInfo(`Loaded ${puzzles.length} puzzles`)
+    try {
+      puzzles = await loadRunPuzzles(run, puzzlesBySource)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Failed to load puzzles'
+      displayError(`Skipping run ${run.id}: ${reason}`)
+      continue
     }
 
-    // Prompt for puzzle limit if dataset is large
-    const puzzleLimit = await promptPuzzleLimit(puzzles.length)
-    if (puzzleLimit < puzzles.length) {
-      puzzles = puzzles.slice(0, puzzleLimit)
-      displayInfo(`Using first ${puzzleLimit} puzzles`)
-    }
+    const { run: rescored, report } = await rescoreRun(run, puzzles)
+    displayRescoreReport(report)
+    flippedTotal += report.flipped.length
 
-    // Display puzzle summary
-    displayPuzzleSummary(puzzles)
-    displayPuzzleList(puzzles)
+    const savedPaths = await saveEvalRun(rescored)
+    savedPaths.push(await saveRescoreReport(report))
+    displaySaveConfirmation(savedPaths)
+  }
 
-    // Prompt for model selection
-    const selectedModels = await promptModelSelection()
-    if (selectedModels.length === 0) {
-      displayError('No models selected')
-      process.exit(1)
-    }
+  displayInfo(`${flippedTotal} outcome${flippedTotal !== 1 ? 's' : ''} flipped in total`)
+}
 
-    // Get model names for display
-    const modelNames = selectedModels.map((id) => {
-      const model = OPENROUTER_MODELS.find((m) => m.id === id)
-      return model?.name ?? id
-    })
+/**
+ * Report mode: aggregate every saved run into per-dataset leaderboards.
+ */
+async function runReport(): Promise<void> {
+  const runs = getCurrentRuns(mergeSavedRuns(await loadEvalRuns()))
+  if (runs.length === 0) {
+    throw new CliUsageError('No saved runs to report on')
+  }
+  displayInfo(`Building leaderboard from ${runs.length} saved runs...`)
 
-    // Prompt for eval options
-    const options = await promptEvalOptions()
+  const leaderboards = buildLeaderboards(runs)
+  displayLeaderboards(leaderboards)
 
-    // Display eval plan
-    displayEvalPlan(puzzles.length, selectedModels, modelNames, options.concurrency)
+  const generatedAt = Date.now()
+  const savedPaths = await saveReportFiles({
+    'leaderboard.md': renderLeaderboardMarkdown(leaderboards, generatedAt),
+    'leaderboard.html': renderLeaderboardHtml(leaderboards, generatedAt),
+    'leaderboard.csv': renderLeaderboardCsv(leaderboards),
+    'head-to-head.csv': renderHeadToHeadCsv(leaderboards),
+  })
+  displaySaveConfirmation(savedPaths)
+}
 
-    // Confirm start
-    const shouldStart = await confirmStart(puzzles.length, selectedModels.length)
-    if (!shouldStart) {
-      displayInfo('Evaluation cancelled')
-      process.exit(0)
-    }
+/**
+ * Export mode: write a puzzle source to a level collection or JSON export file.
+ */
+async function runExport(
+  source: PuzzleSource,
+  path: string,
+  selection: PuzzleSelection,
+  samePuzzlesAs?: string,
+): Promise<void> {
+  let loaded: { puzzles: SavedLayout[]; puzzleSourceName: string }
+  try {
+    loaded = await loadPuzzleSource(source)
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : 'Failed to load puzzles')
+  }
 
-    // Run evaluation
-    console.log('')
-    displayInfo('Starting evaluation...')
+  const { puzzles } = await selectSourcePuzzles(
+    loaded.puzzles,
+    loaded.puzzleSourceName,
+    selection,
+    samePuzzlesAs,
+  )
+  const title = source.type === 'dataset' ? loaded.puzzleSourceName : basename(source.path)
+  await savePuzzles(puzzles, path, title)
+  displayInfo(`Exported ${puzzles.length} puzzles to ${path}`)
+}
+
+async function main(): Promise<void> {
+  let command: CliCommand
+  try {
+    command = await parseCliArgs(process.argv.slice(2))
+  } catch (error) {
+    displayError(error instanceof Error ? error.message : 'Invalid arguments')
     console.log('')
+    console.log(CLI_USAGE)
+    process.exit(EXIT_CODES.usage)
+  }
 
-    const run = await runEvaluation(
-      puzzles,
-      selectedModels,
-      options,
-      puzzleSourceName,
-      (progress) => {
-        displayProgress(progress)
-      },
-    )
+  if (command.type === 'help') {
+    console.log(CLI_USAGE)
+    process.exit(EXIT_CODES.success)
+  }
 
-    // Display results summary
-    displayResultsSummary(run)
+  // Display welcome banner
+  displayBanner()
 
-    // Save results (one file per model)
-    const savedPaths = await saveEvalRun(run)
-    displaySaveConfirmation(savedPaths)
+  // Completed results are already on disk; point at them before exiting
+  process.on('SIGINT', () => {
+    if (activeRunId) displayResumeHint(activeRunId)
+    process.exit(130)
+  })
 
-    // Send Slack notification
-    await notifyEvalComplete(run)
+  try {
+    let exitCode: ExitCode = EXIT_CODES.success
+    if (command.type === 'headless') {
+      exitCode = await runHeadless(command.config)
+    } else if (command.type === 'resume') {
+      exitCode = await runResume(command.runId, command.concurrency, command.failOnApiError)
+    } else if (command.type === 'rescore') {
+      await runRescore(command.target)
+    } else if (command.type === 'report') {
+      await runReport()
+    } else if (command.type === 'export') {
+      await runExport(command.source, command.path, command.selection, command.samePuzzlesAs)
+    } else {
+      await runInteractive()
+    }
+    process.exit(exitCode)
   } catch (error) {
+    if (error instanceof CliUsageError) {
+      displayError(error.message)
+      process.exit(EXIT_CODES.usage)
+    }
     if (error instanceof Error) {
       // Handle user cancellation gracefully
       if (error.message.includes('User force closed')) {
         console.log('')
         displayInfo('Evaluation cancelled')
-        process.exit(0)
+        process.exit(EXIT_CODES.success)
       }
       displayError(error.message)
+      if (activeRunId) displayResumeHint(activeRunId)
       await notifyEvalFailed(error.message, 'unknown')
     } else {
       displayError('An unknown error occurred')
       await notifyEvalFailed('An unknown error occurred', 'unknown')
     }
-    process.exit(1)
+    process.exit(EXIT_CODES.failure)
   }
 }
 
@@ -0,0 +1,445 @@
+import { getModelName } from './model-runner'
+import { getPuzzleSourceShortName } from './results-storage'
+import type {
+  DatasetLeaderboard,
+  EvalResult,
+  EvalRun,
+  HeadToHeadRecord,
+  LeaderboardEntry,
+} from './types'
+
+// z-score for a 95% confidence interval
+const Z_95 = 1.96
+
+/**
+ * Wilson score interval for a binomial proportion.
+ * Unlike the normal approximation it stays within 0-1 for small samples and 0% or 100% rates.
+ */
+function wilsonInterval(successes: number, trials: number): { low: number; high: number } {
+  if (trials === 0) return { low: 0, high: 0 }
+  const p = successes / trials
+  const z2 = Z_95 * Z_95
+  const denominator = 1 + z2 / trials
+  const center = (p + z2 / (2 * trials)) / denominator
+  const margin =
+    (Z_95 * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) }
+}
+
+// What sets one leaderboard entry apart from another
+type EntryId = Pick<LeaderboardEntry, 'modelId' | 'promptVariant' | 'executionMode'>
+
+/**
+ * Key of a leaderboard entry: a model with one prompt variant in one execution mode.
+ */
+function getEntryKey({ modelId, promptVariant, executionMode }: EntryId): string {
+  return `${modelId}\n${promptVariant ?? ''}\n${executionMode}`
+}
+
+/**
+ * Model name, followed by the prompt variant when there is one and the execution mode when
+ * it isn't the default.
+ */
+export function getEntryName(
+  entry: Pick<LeaderboardEntry, 'modelName' | 'promptVariant' | 'executionMode'>,
+): string {
+  const variant = entry.promptVariant ? ` [${entry.promptVariant}]` : ''
+  const mode = entry.executionMode !== 'fullSolution' ? ` (${entry.executionMode})` : ''
+  return `${entry.modelName}${variant}${mode}`
+}
+
+/**
+ * Solve rate of each puzzle for one entry, across samples and repeated runs.
+ */
+function getPuzzleSolveRates(results: EvalResult[]): Map<string, number> {
+  const counts = new Map<string, { solved: number; total: number }>()
+  for (const result of results) {
+    const count = counts.get(result.puzzleId) ?? { solved: 0, total: 0 }
+    count.total++
+    if (result.solved) count.solved++
+    counts.set(result.puzzleId, count)
+  }
+  return new Map([...counts].map(([puzzleId, c]) => [puzzleId, c.solved / c.total]))
+}
+
+// Results of one entry, and the runs they came from
+interface EntryGroup {
+  id: EntryId
+  runs: Set<EvalRun>
+  results: EvalResult[]
+}
+
+/**
+ * Aggregate the results of one entry on a dataset.
+ * Samples of a puzzle are not independent, so the solve rate averages per-puzzle rates and
+ * the confidence interval counts puzzles, not attempts.
+ */
+function buildEntry({ id, runs, results }: EntryGroup): LeaderboardEntry {
+  const rates = [...getPuzzleSolveRates(results).values()]
+  const solved = results.filter((r) => r.solved).length
+  const solveRate = rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : 0
+  const totalCost = results.reduce((sum, r) => sum + r.cost, 0)
+  const totalTokens = results.reduce((sum, r) => sum + r.totalTokens, 0)
+  const { low, high } = wilsonInterval(solveRate * rates.length, rates.length)
+
+  return {
+    modelId: id.modelId,
+    modelName: results[0].modelName ?? getModelName(id.modelId),
+    ...(id.promptVariant !== undefined && { promptVariant: id.promptVariant }),
+    executionMode: id.executionMode,
+    runs: runs.size,
+    puzzles: rates.length,
+    puzzlesSolved: rates.filter((rate) => rate > 0).length,
+    attempts: results.length,
+    solved,
+    solveRate,
+    ciLow: low,
+    ciHigh: high,
+    totalCost,
+    costPerSolve: solved > 0 ? totalCost / solved : null,
+    tokensPerSolve: solved > 0 ? totalTokens / solved : null,
+  }
+}
+
+/**
+ * Compare two entries on the puzzles both attempted.
+ */
+function buildHeadToHead(
+  a: LeaderboardEntry,
+  ratesA: Map<string, number>,
+  b: LeaderboardEntry,
+  ratesB: Map<string, number>,
+): HeadToHeadRecord {
+  const record: HeadToHeadRecord = {
+    modelA: a.modelId,
+    modelB: b.modelId,
+    ...(a.promptVariant !== undefined && { promptVariantA: a.promptVariant }),
+    ...(b.promptVariant !== undefined && { promptVariantB: b.promptVariant }),
+    executionModeA: a.executionMode,
+    executionModeB: b.executionMode,
+    sharedPuzzles: 0,
+    winsA: 0,
+    winsB: 0,
+    ties: 0,
+  }
+  for (const [puzzleId, rateA] of ratesA) {
+    const rateB = ratesB.get(puzzleId)
+    if (rateB === undefined) continue
+    record.sharedPuzzles++
+    if (rateA > rateB) record.winsA++
+    else if (rateB > rateA) record.winsB++
+    else record.ties++
+  }
+  return record
+}
+
+/**
+ * Build a leaderboard per dataset from saved runs.
+ * Runs on the same puzzle source are pooled. Each model gets one entry per prompt variant and
+ * execution mode, so variants and modes are ranked side by side.
+ */
+export function buildLeaderboards(runs: EvalRun[]): DatasetLeaderboard[] {
+  const runsByDataset = new Map<string, EvalRun[]>()
+  for (const run of runs) {
+    const key = getPuzzleSourceShortName(run.puzzleFile)
+    runsByDataset.set(key, [...(runsByDataset.get(key) ?? []), run])
+  }
+
+  const leaderboards: DatasetLeaderboard[] = []
+  for (const datasetRuns of runsByDataset.values()) {
+    const groups = new Map<string, EntryGroup>()
+    for (const run of datasetRuns) {
+      const executionMode = run.options.executionMode ?? 'fullSolution'
+      for (const result of run.results) {
+        const id = { modelId: result.modelId, promptVariant: result.promptVariant, executionMode }
+        const key = getEntryKey(id)
+        const group = groups.get(key) ?? { id, runs: new Set(), results: [] }
+        group.runs.add(run)
+        group.results.push(result)
+        groups.set(key, group)
+      }
+    }
+
+    const entries = [...groups.values()]
+      .map(buildEntry)
+      .sort((a, b) => b.solveRate - a.solveRate || b.ciLow - a.ciLow)
+
+    const rates = new Map(
+      [...groups].map(([key, group]) => [key, getPuzzleSolveRates(group.results)]),
+    )
+    const getRates = (e: LeaderboardEntry) => rates.get(getEntryKey(e)) ?? new Map<string, number>()
+    const headToHead: HeadToHeadRecord[] = []
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const a = entries[i]
+        const b = entries[j]
+        const record = buildHeadToHead(a, getRates(a), b, getRates(b))
+        if (record.sharedPuzzles > 0) headToHead.push(record)
+      }
+    }
+
+    // Label with the most recent run's puzzle source (runs are loaded newest first)
+    leaderboards.push({ dataset: datasetRuns[0].puzzleFile, entries, headToHead })
+  }
+
+  return leaderboards.sort((a, b) => a.dataset.localeCompare(b.dataset))
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`
+}
+
+function formatCost(cost: number | null): string {
+  if (cost === null) return '-'
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+function formatTokens(tokens: number | null): string {
+  return tokens === null ? '-' : Math.round(tokens).toLocaleString('en-US')
+}
+
+/**
+ * Table rows shared by the Markdown and HTML reports.
+ */
+function getLeaderboardRows(leaderboard: DatasetLeaderboard): string[][] {
+  return leaderboard.entries.map((e, index) => [
+    String(index + 1),
+    getEntryName(e),
+    `${e.puzzlesSolved}/${e.puzzles}`,
+    `${e.solved}/${e.attempts}`,
+    formatRate(e.solveRate),
+    `${formatRate(e.ciLow)} - ${formatRate(e.ciHigh)}`,
+    formatCost(e.costPerSolve),
+    formatTokens(e.tokensPerSolve),
+    String(e.runs),
+  ])
+}
+
+const LEADERBOARD_HEADERS = [
+  'Rank',
+  'Model',
+  'Puzzles solved',
+  'Attempts solved',
+  'Solve rate',
+  '95% CI',
+  'Cost / solve',
+  'Tokens / solve',
+  'Runs',
+]
+
+const HEAD_TO_HEAD_HEADERS = ['Model A', 'Model B', 'Shared puzzles', 'A wins', 'B wins', 'Ties']
+
+function getHeadToHeadRows(leaderboard: DatasetLeaderboard): string[][] {
+  const names = new Map(leaderboard.entries.map((e) => [getEntryKey(e), getEntryName(e)]))
+  const getName = (id: EntryId) =>
+    names.get(getEntryKey(id)) ?? getEntryName({ ...id, modelName: id.modelId })
+  return leaderboard.headToHead.map((h) => [
+    getName({
+      modelId: h.modelA,
+      promptVariant: h.promptVariantA,
+      executionMode: h.executionModeA,
+    }),
+    getName({
+      modelId: h.modelB,
+      promptVariant: h.promptVariantB,
+      executionMode: h.executionModeB,
+    }),
+    String(h.sharedPuzzles),
+    String(h.winsA),
+    String(h.winsB),
+    String(h.ties),
+  ])
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|')
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n')
+}
+
+/**
+ * Render leaderboards as Markdown.
+ */
+export function renderLeaderboardMarkdown(
+  leaderboards: DatasetLeaderboard[],
+  generatedAt: number,
+): string {
+  const parts = [
+    '# Sokoban Eval Leaderboard',
+    '',
+    `Generated ${new Date(generatedAt).toISOString()}`,
+  ]
+  for (const leaderboard of leaderboards) {
+    parts.push('', `## ${leaderboard.dataset}`, '')
+    parts.push(markdownTable(LEADERBOARD_HEADERS, getLeaderboardRows(leaderboard)))
+    if (leaderboard.headToHead.length > 0) {
+      parts.push('', '### Head-to-head', '')
+      parts.push(markdownTable(HEAD_TO_HEAD_HEADERS, getHeadToHeadRows(leaderboard)))
+    }
+  }
+  return `${parts.join('\n')}\n`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('')
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('\n')
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`
+}
+
+/**
+ * Render leaderboards as a standalone HTML page.
+ */
+export function renderLeaderboardHtml(
+  leaderboards: DatasetLeaderboard[],
+  generatedAt: number,
+): string {
+  const sections = leaderboards.map((leaderboard) => {
+    const parts = [
+      `<h2>${escapeHtml(leaderboard.dataset)}</h2>`,
+      htmlTable(LEADERBOARD_HEADERS, getLeaderboardRows(leaderboard)),
+    ]
+    if (leaderboard.headToHead.length > 0) {
+      parts.push('<h3>Head-to-head</h3>')
+      parts.push(htmlTable(HEAD_TO_HEAD_HEADERS, getHeadToHeadRows(leaderboard)))
+    }
+    return parts.join('\n')
+  })
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Sokoban Eval Leaderboard</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; font-size: 14px; }
+th, td { border: 1px solid #ddd; padding: 4px 10px; text-align: left; }
+th { background: #f4f4f5; }
+td:not(:nth-child(2)) { font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<h1>Sokoban Eval Leaderboard</h1>
+<p>Generated ${new Date(generatedAt).toISOString()}</p>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
+
+function csvRow(values: (string | number | null)[]): string {
+  return values
+    .map((value) => {
+      const text = value === null ? '' : String(value)
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    })
+    .join(',')
+}
+
+/**
+ * Render leaderboard entries as CSV, one row per dataset, model, prompt variant and execution
+ * mode, with raw numbers.
+ */
+export function renderLeaderboardCsv(leaderboards: DatasetLeaderboard[]): string {
+  const rows = [
+    csvRow([
+      'dataset',
+      'rank',
+      'model_id',
+      'model_name',
+      'prompt_variant',
+      'execution_mode',
+      'runs',
+      'puzzles',
+      'puzzles_solved',
+      'attempts',
+      'solved',
+      'solve_rate',
+      'ci_low',
+      'ci_high',
+      'total_cost',
+      'cost_per_solve',
+      'tokens_per_solve',
+    ]),
+  ]
+  for (const leaderboard of leaderboards) {
+    leaderboard.entries.forEach((e, index) => {
+      rows.push(
+        csvRow([
+          leaderboard.dataset,
+          index + 1,
+          e.modelId,
+          e.modelName,
+          e.promptVariant ?? null,
+          e.executionMode,
+          e.runs,
+          e.puzzles,
+          e.puzzlesSolved,
+          e.attempts,
+          e.solved,
+          e.solveRate,
+          e.ciLow,
+          e.ciHigh,
+          e.totalCost,
+          e.costPerSolve,
+          e.tokensPerSolve,
+        ]),
+      )
+    })
+  }
+  return `${rows.join('\n')}\n`
+}
+
+/**
+ * Render head-to-head records as CSV.
+ */
+export function renderHeadToHeadCsv(leaderboards: DatasetLeaderboard[]): string {
+  const rows = [
+    csvRow([
+      'dataset',
+      'model_a',
+      'prompt_variant_a',
+      'execution_mode_a',
+      'model_b',
+      'prompt_variant_b',
+      'execution_mode_b',
+      'shared_puzzles',
+      'wins_a',
+      'wins_b',
+      'ties',
+    ]),
+  ]
+  for (const leaderboard of leaderboards) {
+    for (const h of leaderboard.headToHead) {
+      rows.push(
+        csvRow([
+          leaderboard.dataset,
+          h.modelA,
+          h.promptVariantA ?? null,
+          h.executionModeA,
+          h.modelB,
+          h.promptVariantB ?? null,
+          h.executionModeB,
+          h.sharedPuzzles,
+          h.winsA,
+          h.winsB,
+          h.ties,
+        ]),
+      )
+    }
+  }
+  return `${rows.join('\n')}\n`
+}
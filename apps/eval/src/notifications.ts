@@ -2,6 +2,7 @@
  * Eval completion notifications
  */
 
+import { formatFailureBreakdown } from './failure-taxonomy'
 import {
   isSlackEnabled,
   sendSlackBlocks,
@@ -40,7 +41,19 @@ export async function notifyEvalComplete(run: EvalRun): Promise<void> {
     .map((m) => {
       const rate = m.puzzlesTotal > 0 ? Math.round((m.puzzlesSolved / m.puzzlesTotal) * 100) : 0
       const words = Math.round(m.totalOutputTokens * 0.75).toLocaleString()
-      return `*${m.modelName}*: ${m.puzzlesSolved}/${m.puzzlesTotal} (${rate}%) · ${words} words · $${m.totalCost.toFixed(2)}`
+      const sampling = m.sampling
+        ? ` · pass@1 ${Math.round(m.sampling.passAt1 * 100)}% · pass@${m.sampling.samplesPerPuzzle} ${Math.round(m.sampling.passAtK * 100)}%`
+        : ''
+      const variants = Object.entries(run.summary.byVariant ?? {})
+        .map(([name, byModel]) => {
+          const v = byModel[m.modelId]
+          return v ? `${name} ${v.puzzlesSolved}/${v.puzzlesTotal}` : null
+        })
+        .filter(Boolean)
+        .join(' · ')
+      const prompts = variants ? `\n    _Prompts: ${variants}_` : ''
+      const failures = m.failures ? `\n    _Failures: ${formatFailureBreakdown(m.failures)}_` : ''
+      return `*${m.modelName}*: ${m.puzzlesSolved}/${m.puzzlesTotal} (${rate}%)${sampling} · ${words} words · $${m.totalCost.toFixed(2)}${prompts}${failures}`
     })
     .join('\n')
 
@@ -0,0 +1,78 @@
+import {
+  executeSolution,
+  savedLayoutToLevel,
+  solvePuzzleAsync,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { getReferenceSolution } from './reference-solutions'
+import { createDeadlockCheck, isSolverCompatible } from './solver'
+import type { EvalResult, GameState, PartialCredit, SavedLayout, SokobanLevel } from './types'
+
+// Lower than the reference solver's limit: reached positions are solved once per attempt
+const REACHED_STATE_NODE_LIMIT = 10000
+
+// Solver verdicts by reached position, since many attempts stop in the same place
+const distances = new Map<string, Promise<Pick<PartialCredit, 'solvable' | 'distanceToGoal'>>>()
+
+function getStateKey(puzzleId: string, state: GameState): string {
+  const boxes = state.boxes.map((b) => `${b.x},${b.y}`).sort()
+  return `${puzzleId}:${state.playerPos.x},${state.playerPos.y}:${boxes.join(';')}`
+}
+
+/**
+ * Ask the solver whether a reached position can still be solved, and in how many moves.
+ */
+async function solveFromState(
+  level: SokobanLevel,
+  state: GameState,
+): Promise<Pick<PartialCredit, 'solvable' | 'distanceToGoal'>> {
+  const isDeadlocked = createDeadlockCheck(level)
+  if (isDeadlocked(state)) return { solvable: false, distanceToGoal: null }
+  if (!isSolverCompatible(level)) return { solvable: null, distanceToGoal: null }
+
+  const result = await solvePuzzleAsync(
+    { ...level, playerStart: state.playerPos, boxStarts: state.boxes },
+    REACHED_STATE_NODE_LIMIT,
+  )
+
+  if (result.solvable) return { solvable: true, distanceToGoal: result.moveCount }
+  // Hitting the node limit proves nothing either way
+  return { solvable: result.hitLimit ? null : false, distanceToGoal: null }
+}
+
+/**
+ * Score how far an attempt got, from the last position its valid moves reached.
+ */
+export async function addPartialCredit(
+  result: EvalResult,
+  puzzle: SavedLayout,
+): Promise<EvalResult> {
+  const level = savedLayoutToLevel(puzzle)
+  const { finalState } = executeSolution(level, result.moves.slice(0, result.stepsExecuted))
+  const boxesOnGoals = finalState.boxes.filter((b) => level.terrain[b.y]?.[b.x] === 'goal').length
+
+  let verdict: Pick<PartialCredit, 'solvable' | 'distanceToGoal'>
+  if (finalState.isWon) {
+    verdict = { solvable: true, distanceToGoal: 0 }
+  } else if (result.stepsExecuted === 0) {
+    // Still at the start: the reference solution is the distance
+    const reference = await getReferenceSolution(puzzle)
+    verdict = reference
+      ? { solvable: true, distanceToGoal: reference.moves }
+      : { solvable: null, distanceToGoal: null }
+  } else {
+    const key = getStateKey(puzzle.id, finalState)
+    let pending = distances.get(key)
+    if (!pending) {
+      pending = solveFromState(level, finalState)
+      distances.set(key, pending)
+    }
+    verdict = await pending
+  }
+
+  const partialCredit: PartialCredit = {
+    boxesOnGoals,
+    boxCount: finalState.boxes.length,
+    ...verdict,
+  }
+  return { ...result, partialCredit }
+}
@@ -0,0 +1,58 @@
+import type { EvalPromptOptions, ExecutionMode, PromptVariant } from './types'
+
+/**
+ * Prompt configurations that can be compared against each other in one run.
+ */
+
+// What every eval prompt used before variants existed: ASCII grid plus coordinate list
+export const DEFAULT_PROMPT_VARIANT: PromptVariant = {
+  name: 'default',
+  options: {
+    asciiGrid: true,
+    coordinateLocations: true,
+    coloredBoxRules: false,
+  },
+}
+
+export const PROMPT_VARIANT_PRESETS: PromptVariant[] = [
+  DEFAULT_PROMPT_VARIANT,
+  {
+    name: 'ascii-only',
+    options: { ...DEFAULT_PROMPT_VARIANT.options, coordinateLocations: false },
+  },
+  {
+    name: 'coordinates-only',
+    options: { ...DEFAULT_PROMPT_VARIANT.options, asciiGrid: false },
+  },
+  {
+    name: 'colored-rules',
+    options: { ...DEFAULT_PROMPT_VARIANT.options, coloredBoxRules: true },
+  },
+]
+
+/**
+ * Build a variant from partial options, filling the rest from the default prompt.
+ */
+export function createPromptVariant(
+  name: string,
+  options: Partial<PromptVariant['options']>,
+): PromptVariant {
+  return { name, options: { ...DEFAULT_PROMPT_VARIANT.options, ...options } }
+}
+
+/**
+ * Find a preset by name.
+ */
+export function getPromptVariantPreset(name: string): PromptVariant | undefined {
+  return PROMPT_VARIANT_PRESETS.find((v) => v.name === name)
+}
+
+/**
+ * Full prompt options for a variant in an execution mode.
+ */
+export function getPromptOptions(
+  variant: PromptVariant | undefined,
+  executionMode: ExecutionMode,
+): EvalPromptOptions {
+  return { ...(variant ?? DEFAULT_PROMPT_VARIANT).options, executionMode }
+}
@@ -1,7 +1,8 @@
 import { confirm, input, number as inputNumber, select } from '@inquirer/prompts'
-import { OPENROUTER_MODELS } from '@sokoban-eval-toolkit/utils'
+import { LLM_PROVIDERS, OPENROUTER_MODELS } from '@sokoban-eval-toolkit/utils'
 import { DATASETS, type DatasetId } from './datasets'
-import type { EvalOptions } from './types'
+import { DEFAULT_MAX_TURNS, DEFAULT_TEMPERATURE } from './model-runner'
+import type { EvalOptions, ExecutionMode, PuzzleSelection, StratifyKey } from './types'
 
 export type PuzzleSource =
   | { type: 'dataset'; datasetId: DatasetId }
@@ -17,7 +18,7 @@ export async function promptPuzzleSource(): Promise<PuzzleSource> {
       value: d.id as string,
     })),
     {
-      name: 'Custom JSON file',
+      name: 'Custom file (JSON export, .sok, .xsb, .txt or .slc collection)',
       value: 'custom',
     },
   ]
@@ -30,7 +31,7 @@ export async function promptPuzzleSource(): Promise<PuzzleSource> {
 
   if (selected === 'custom') {
     const path = await input({
-      message: 'Enter path to puzzle export file:',
+      message: 'Enter path to puzzle file:',
       default: './data/puzzles.json',
       validate: (value) => {
         if (!value.trim()) {
@@ -47,12 +48,19 @@ export async function promptPuzzleSource(): Promise<PuzzleSource> {
 
 /**
  * Prompt for model selection (single model).
+ * Models outside the OpenRouter catalog can be entered as <provider>:<model>.
  */
 export async function promptModelSelection(): Promise<string[]> {
-  const choices = OPENROUTER_MODELS.map((model) => ({
-    name: model.name,
-    value: model.id,
-  }))
+  const choices = [
+    ...OPENROUTER_MODELS.map((model) => ({
+      name: model.name,
+      value: model.id,
+    })),
+    {
+      name: 'Other model id (e.g. ollama:qwen2.5:7b)',
+      value: 'other',
+    },
+  ]
 
   const selected = await select({
     message: 'Select model to evaluate:',
@@ -60,25 +68,65 @@ export async function promptModelSelection(): Promise<string[]> {
     pageSize: 15,
   })
 
+  if (selected === 'other') {
+    const providerIds = LLM_PROVIDERS.map((p) => p.id).join(', ')
+    const modelId = await input({
+      message: `Model id (<provider>:<model> for ${providerIds}):`,
+      validate: (value) => (value.trim() ? true : 'Please enter a model id'),
+    })
+    return [modelId.trim()]
+  }
+
   return [selected]
 }
 
 /**
- * Prompt for puzzle limit (for large datasets).
+ * Prompt for how many puzzles to evaluate and how to pick them (for large datasets).
  */
-export async function promptPuzzleLimit(totalPuzzles: number): Promise<number> {
+export async function promptPuzzleSelection(totalPuzzles: number): Promise<PuzzleSelection> {
   if (totalPuzzles <= 10) {
-    return totalPuzzles // No need to limit small datasets
+    return {} // No need to limit small datasets
   }
 
-  const limit = await inputNumber({
-    message: `How many puzzles to evaluate? (dataset has ${totalPuzzles}):`,
-    default: Math.min(10, totalPuzzles),
-    min: 1,
-    max: totalPuzzles,
+  const limit =
+    (await inputNumber({
+      message: `How many puzzles to evaluate? (dataset has ${totalPuzzles}):`,
+      default: Math.min(10, totalPuzzles),
+      min: 1,
+      max: totalPuzzles,
+    })) ?? Math.min(10, totalPuzzles)
+  if (limit >= totalPuzzles) {
+    return {}
+  }
+
+  const method = await select<'first' | 'random' | StratifyKey>({
+    message: 'Which puzzles?',
+    choices: [
+      { name: `The first ${limit}`, value: 'first' },
+      { name: 'Random sample', value: 'random' },
+      { name: 'Random sample, stratified by box count', value: 'boxCount' },
+      {
+        name: 'Random sample, stratified by solver difficulty (grades every puzzle)',
+        value: 'difficulty',
+      },
+    ],
   })
+  if (method === 'first') {
+    return { limit }
+  }
 
-  return limit ?? Math.min(10, totalPuzzles)
+  // A fresh seed by default; it is saved with the run so the sample can be drawn again
+  const seed = await inputNumber({
+    message: 'Random seed:',
+    default: Math.floor(Math.random() * 1_000_000),
+    min: 0,
+  })
+
+  return {
+    limit,
+    seed: seed ?? 0,
+    stratifyBy: method === 'random' ? undefined : method,
+  }
 }
 
 /**
@@ -92,19 +140,61 @@ export async function promptEvalOptions(): Promise<EvalOptions> {
     max: 50,
   })
 
+  const executionMode = await select<ExecutionMode>({
+    message: 'Execution mode:',
+    choices: [
+      { name: 'Full solution (one-shot)', value: 'fullSolution' },
+      { name: 'Move by move (multi-turn with board feedback)', value: 'moveByMove' },
+    ],
+  })
+
+  const maxTurns =
+    executionMode === 'moveByMove'
+      ? await inputNumber({
+          message: 'Turn budget per puzzle:',
+          default: DEFAULT_MAX_TURNS,
+          min: 1,
+          max: 100,
+        })
+      : undefined
+
+  const samples = await inputNumber({
+    message: 'Samples per puzzle (pass@k):',
+    default: 1,
+    min: 1,
+    max: 20,
+  })
+
+  const temperature = await inputNumber({
+    message: 'Sampling temperature:',
+    default: DEFAULT_TEMPERATURE,
+    min: 0,
+    max: 2,
+    step: 'any',
+  })
+
   return {
     concurrency: concurrency ?? 10,
+    executionMode,
+    maxTurns: executionMode === 'moveByMove' ? (maxTurns ?? DEFAULT_MAX_TURNS) : undefined,
+    samples: samples ?? 1,
+    temperature: temperature ?? DEFAULT_TEMPERATURE,
   }
 }
 
 /**
  * Confirm before starting evaluation.
  */
-export async function confirmStart(puzzleCount: number, modelCount: number): Promise<boolean> {
-  const totalEvals = puzzleCount * modelCount
+export async function confirmStart(
+  puzzleCount: number,
+  modelCount: number,
+  samples = 1,
+): Promise<boolean> {
+  const totalEvals = puzzleCount * modelCount * samples
+  const sampleText = samples > 1 ? ` × ${samples} samples` : ''
 
   return confirm({
-    message: `Start evaluation? (${puzzleCount} puzzles × ${modelCount} models = ${totalEvals} evaluations)`,
+    message: `Start evaluation? (${puzzleCount} puzzles × ${modelCount} models${sampleText} = ${totalEvals} evaluations)`,
     default: true,
   })
 }
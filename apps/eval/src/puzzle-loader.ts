@@ -1,7 +1,15 @@
-import type { ExportedPuzzles, SavedLayout, SokobanLevel } from './types'
+import { basename } from 'node:path'
+import {
+  type LevelCollection,
+  exportLevelCollection,
+  getLevelFileFormat,
+  parseLevelCollection,
+  savedLayoutToLevel,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { ExportedPuzzles, SavedLayout } from './types'
 
 /**
- * Load puzzles from an exported JSON file.
+ * Load puzzles from an exported JSON file or a level collection (.sok, .xsb, .txt, .slc).
  */
 export async function loadPuzzles(filePath: string): Promise<SavedLayout[]> {
   const file = Bun.file(filePath)
@@ -11,6 +19,26 @@ export async function loadPuzzles(filePath: string): Promise<SavedLayout[]> {
   }
 
   const content = await file.text()
+  const puzzles = getLevelFileFormat(filePath)
+    ? parseCollectionPuzzles(content, filePath)
+    : parseExportedPuzzles(content, filePath)
+
+  if (puzzles.length === 0) {
+    throw new Error('Puzzle file contains no puzzles')
+  }
+
+  // Validate each puzzle has required fields
+  for (const puzzle of puzzles) {
+    validatePuzzle(puzzle)
+  }
+
+  return puzzles
+}
+
+/**
+ * Read the puzzles of a JSON export.
+ */
+function parseExportedPuzzles(content: string, filePath: string): SavedLayout[] {
   let data: ExportedPuzzles
 
   try {
@@ -28,16 +56,57 @@ export async function loadPuzzles(filePath: string): Promise<SavedLayout[]> {
     throw new Error('Invalid puzzle file: missing puzzles array')
   }
 
-  if (data.puzzles.length === 0) {
-    throw new Error('Puzzle file contains no puzzles')
-  }
+  return data.puzzles
+}
 
-  // Validate each puzzle has required fields
-  for (const puzzle of data.puzzles) {
-    validatePuzzle(puzzle)
+/**
+ * Read the levels of a collection file as puzzles, named by their titles.
+ */
+function parseCollectionPuzzles(content: string, filePath: string): SavedLayout[] {
+  const fileName = basename(filePath)
+  const collection = parseLevelCollection(content, {
+    format: getLevelFileFormat(filePath) ?? undefined,
+    source: fileName,
+  })
+  const collectionName = collection.title ?? fileName
+
+  return collection.levels.map(
+    ({ level, title }, index): SavedLayout => ({
+      id: level.id,
+      name: title ?? `${collectionName} #${index + 1}`,
+      savedAt: Date.now(),
+      order: index,
+      difficulty: level.difficulty,
+      width: level.width,
+      height: level.height,
+      terrain: level.terrain,
+      playerStart: level.playerStart,
+      boxStarts: level.boxStarts,
+      goals: level.goals,
+    }),
+  )
+}
+
+/**
+ * Write puzzles to a file: a level collection for .sok, .xsb, .txt and .slc, else a JSON export.
+ */
+export async function savePuzzles(
+  puzzles: SavedLayout[],
+  filePath: string,
+  title: string,
+): Promise<void> {
+  const format = getLevelFileFormat(filePath)
+  if (!format) {
+    const data: ExportedPuzzles = { exportedAt: Date.now(), version: 1, puzzles }
+    await Bun.write(filePath, JSON.stringify(data, null, 2))
+    return
   }
 
-  return data.puzzles
+  const collection: LevelCollection = {
+    title,
+    levels: puzzles.map((puzzle) => ({ level: savedLayoutToLevel(puzzle), title: puzzle.name })),
+  }
+  await Bun.write(filePath, exportLevelCollection(collection, format))
 }
 
 /**
@@ -67,24 +136,6 @@ function validatePuzzle(puzzle: SavedLayout): void {
   }
 }
 
-/**
- * Convert a SavedLayout to a SokobanLevel for the game engine.
- */
-export function savedLayoutToLevel(layout: SavedLayout): SokobanLevel {
-  return {
-    id: layout.id,
-    width: layout.width,
-    height: layout.height,
-    terrain: layout.terrain,
-    playerStart: layout.playerStart,
-    boxStarts: layout.boxStarts,
-    goals: layout.goals,
-    difficulty: layout.difficulty || 'classic',
-    fileSource: 'saved',
-    puzzleNumber: 0,
-  }
-}
-
 /**
  * Get a summary of puzzles for display.
  */
@@ -0,0 +1,153 @@
+import { filterByDifficulty, getPuzzleBucket } from './difficulty'
+import type { PuzzleSelection, PuzzleSelectionRecord, SavedLayout, StratifyKey } from './types'
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so a seed always draws the same sample.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fisher-Yates shuffle of a copy of the items.
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/**
+ * Stratum of a puzzle. Unanalyzed puzzles share a stratum when stratifying by difficulty.
+ */
+function getStratum(puzzle: SavedLayout, key: StratifyKey): string {
+  if (key === 'boxCount') return `${puzzle.boxStarts.length} boxes`
+  return getPuzzleBucket(puzzle) ?? 'unanalyzed'
+}
+
+/**
+ * Split a sample of `limit` over strata in proportion to their sizes, giving the leftover
+ * puzzles to the strata with the largest remainders.
+ */
+function allocate(sizes: number[], limit: number): number[] {
+  const total = sizes.reduce((sum, size) => sum + size, 0)
+  const exact = sizes.map((size) => (size * limit) / total)
+  const counts = exact.map(Math.floor)
+  let left = limit - counts.reduce((sum, count) => sum + count, 0)
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+  for (const { index } of byRemainder) {
+    if (left === 0) break
+    if (counts[index] < sizes[index]) {
+      counts[index]++
+      left--
+    }
+  }
+  return counts
+}
+
+/**
+ * Take `limit` puzzles: the first ones, a seeded random sample, or either one per stratum.
+ */
+function samplePuzzles(puzzles: SavedLayout[], selection: PuzzleSelection): SavedLayout[] {
+  const { limit, seed, stratifyBy } = selection
+  if (limit === undefined || limit >= puzzles.length) return puzzles
+
+  const random = seed !== undefined ? createRandom(seed) : null
+  const take = (group: SavedLayout[], count: number) =>
+    (random ? shuffle(group, random) : group).slice(0, count)
+  if (!stratifyBy) return take(puzzles, limit)
+
+  const strata = new Map<string, SavedLayout[]>()
+  for (const puzzle of puzzles) {
+    const stratum = getStratum(puzzle, stratifyBy)
+    strata.set(stratum, [...(strata.get(stratum) ?? []), puzzle])
+  }
+  const groups = [...strata.keys()].sort().map((stratum) => strata.get(stratum) ?? [])
+  const counts = allocate(
+    groups.map((group) => group.length),
+    limit,
+  )
+  return groups.flatMap((group, index) => take(group, counts[index]))
+}
+
+/**
+ * Pick a run's puzzles. Filters by id, seen puzzles and difficulty, then samples; the chosen
+ * puzzles keep their source order. Difficulty filters and strata only see analyzed puzzles.
+ */
+export function selectPuzzles(
+  puzzles: SavedLayout[],
+  selection: PuzzleSelection,
+  seenIds: Set<string> = new Set(),
+): { puzzles: SavedLayout[]; record: PuzzleSelectionRecord } {
+  let candidates = puzzles
+
+  if (selection.ids) {
+    const ids = new Set(selection.ids)
+    candidates = candidates.filter((p) => ids.has(p.id))
+  }
+
+  let excludedSeen: number | undefined
+  if (selection.excludeSeen) {
+    const unseen = candidates.filter((p) => !seenIds.has(p.id))
+    excludedSeen = candidates.length - unseen.length
+    candidates = unseen
+  }
+
+  if (selection.difficulty) {
+    candidates = filterByDifficulty(candidates, selection.difficulty)
+  }
+
+  const selectedIds = new Set(samplePuzzles(candidates, selection).map((p) => p.id))
+  const selected = candidates.filter((p) => selectedIds.has(p.id))
+
+  return {
+    puzzles: selected,
+    record: {
+      ...selection,
+      sourceCount: puzzles.length,
+      ...(excludedSeen !== undefined && { excludedSeen }),
+      puzzleIds: selected.map((p) => p.id),
+    },
+  }
+}
+
+/**
+ * Whether a selection needs difficulty metrics for its puzzles.
+ */
+export function needsDifficulty(selection: PuzzleSelection): boolean {
+  return selection.difficulty !== undefined || selection.stratifyBy === 'difficulty'
+}
+
+/**
+ * One-line description of how a run's puzzles were picked.
+ */
+export function describeSelection(record: PuzzleSelectionRecord): string {
+  const details: string[] = []
+  if (record.ids) details.push(`${record.ids.length} listed ids`)
+  if (record.excludedSeen) details.push(`${record.excludedSeen} seen puzzles skipped`)
+  if (record.difficulty) details.push(`graded ${record.difficulty.join(' or ')}`)
+  if (record.limit !== undefined && record.limit < record.sourceCount) {
+    const sample =
+      record.seed !== undefined ? `random sample (seed ${record.seed})` : 'first puzzles'
+    details.push(
+      record.stratifyBy
+        ? `${sample} stratified by ${record.stratifyBy === 'boxCount' ? 'box count' : 'difficulty'}`
+        : sample,
+    )
+  }
+  const selected = `Using ${record.puzzleIds.length} of ${record.sourceCount} puzzles`
+  return details.length > 0 ? `${selected}: ${details.join(', ')}` : selected
+}
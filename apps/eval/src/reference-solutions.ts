@@ -0,0 +1,129 @@
+import { createHash } from 'node:crypto'
+import { join } from 'node:path'
+import {
+  executeSolution,
+  levelToAscii,
+  lurdToMoves,
+  savedLayoutToLevel,
+  solvePuzzleAsync,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { SOLVER_NODE_LIMIT, isSolverCompatible } from './solver'
+import type {
+  EvalResult,
+  MoveDirection,
+  OptimalityMetrics,
+  ReferenceSolution,
+  SavedLayout,
+  SokobanLevel,
+} from './types'
+
+// Pre-computed solutions written by the UI's solver benchmark (level hash -> LURD string)
+const SOLUTION_CACHE_FILE = join(
+  import.meta.dir,
+  '../../ui-sokoban/src/data/solutionCacheLite.json',
+)
+
+let solutionCache: Promise<Record<string, string>> | null = null
+
+// Lookups by level ASCII, shared by concurrent tasks on the same puzzle
+const references = new Map<string, Promise<ReferenceSolution | null>>()
+
+/**
+ * Possible cache keys of a level: first 16 hex chars of the SHA-256 of its ASCII form,
+ * as written by the UI's solver benchmark.
+ * Entries written before the ASCII form used '-' floors and '|' row ends hash the older form.
+ */
+function getCacheKeys(level: SokobanLevel): string[] {
+  const ascii = levelToAscii(level)
+  const legacyAscii = ascii.replace(/\|/g, '').replace(/-/g, ' ')
+  return [ascii, legacyAscii].map((text) =>
+    createHash('sha256').update(text).digest('hex').substring(0, 16),
+  )
+}
+
+async function loadSolutionCache(): Promise<Record<string, string>> {
+  solutionCache ??= Bun.file(SOLUTION_CACHE_FILE)
+    .json()
+    .catch(() => ({}))
+  return solutionCache
+}
+
+async function findReferenceSolution(level: SokobanLevel): Promise<ReferenceSolution | null> {
+  let moves: MoveDirection[] | null = null
+  let source: ReferenceSolution['source'] = 'cache'
+
+  const cache = await loadSolutionCache()
+  const cached = getCacheKeys(level)
+    .map((key) => cache[key])
+    .find(Boolean)
+  if (cached) {
+    moves = lurdToMoves(cached)
+  } else if (isSolverCompatible(level)) {
+    // The fewest moves if the search fits in the node limit, else any solution
+    let result = await solvePuzzleAsync(level, SOLVER_NODE_LIMIT, 'move-optimal')
+    if (result.hitLimit) {
+      result = await solvePuzzleAsync(level, SOLVER_NODE_LIMIT, 'fast')
+    }
+    moves = result.solvable ? result.solution : null
+    source = 'solver'
+  }
+
+  // Replay the solution to count pushes (and to reject a stale cache entry)
+  const execution = moves ? executeSolution(level, moves) : null
+  if (!execution?.solved) return null
+
+  return {
+    moves: execution.stepsExecuted,
+    pushes: execution.finalState.pushCount,
+    source,
+  }
+}
+
+/**
+ * Best known solution for a puzzle: the solver benchmark cache, else a bounded move-optimal
+ * solver run (a fast one if that hits its node limit).
+ * Returns null when neither finds one, or the puzzle has several box colors.
+ */
+export function getReferenceSolution(puzzle: SavedLayout): Promise<ReferenceSolution | null> {
+  const level = savedLayoutToLevel(puzzle)
+  const key = levelToAscii(level)
+
+  let reference = references.get(key)
+  if (!reference) {
+    reference = findReferenceSolution(level)
+    references.set(key, reference)
+  }
+  return reference
+}
+
+/**
+ * Compare a solved result with the puzzle's reference solution.
+ * Unsolved results, and puzzles without a reference, are returned unchanged.
+ * A solution shorter than the reference counts as matching it and is flagged, since the
+ * reference wasn't optimal.
+ */
+export async function addOptimality(result: EvalResult, puzzle: SavedLayout): Promise<EvalResult> {
+  if (!result.solved) return result
+
+  const reference = await getReferenceSolution(puzzle)
+  if (!reference) return result
+
+  const executed = executeSolution(
+    savedLayoutToLevel(puzzle),
+    result.moves.slice(0, result.stepsExecuted),
+  )
+  const moves = result.stepsExecuted
+  const pushes = executed.finalState.pushCount
+
+  const optimality: OptimalityMetrics = {
+    referenceMoves: reference.moves,
+    referencePushes: reference.pushes,
+    referenceSource: reference.source,
+    pushes,
+    excessMoves: Math.max(0, moves - reference.moves),
+    excessPushes: pushes - reference.pushes,
+    moveEfficiency: moves > 0 ? Math.min(1, reference.moves / moves) : 1,
+    ...(moves < reference.moves && { beatReference: true }),
+  }
+  return { ...result, optimality }
+}
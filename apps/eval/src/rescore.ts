@@ -0,0 +1,207 @@
+import {
+  initializeGame,
+  parseAIResponse,
+  savedLayoutToLevel,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { v4 as uuidv4 } from 'uuid'
+import { DATASETS, loadDataset } from './datasets'
+import {
+  annotateResult,
+  summarizeByDifficulty,
+  summarizeByVariant,
+  summarizeResults,
+} from './eval-runner'
+import { buildMultiTurnResult, buildOneShotResult, executeTurn } from './model-runner'
+import { loadPuzzles } from './puzzle-loader'
+import { loadCheckpoint } from './results-storage'
+import type {
+  EvalResult,
+  EvalRun,
+  RescoreChange,
+  RescoreReport,
+  ResultOutcome,
+  SavedLayout,
+  TurnRecord,
+} from './types'
+
+/**
+ * Re-score saved runs with the current parser and executor, without calling any model.
+ */
+
+/**
+ * Load every puzzle of a run's source: a registered dataset by name, else the puzzle file path.
+ */
+function loadSourcePuzzles(puzzleFile: string): Promise<SavedLayout[]> {
+  const dataset = DATASETS.find((d) => d.name === puzzleFile || d.id === puzzleFile)
+  return dataset ? loadDataset(dataset.id) : loadPuzzles(puzzleFile)
+}
+
+/**
+ * Load the puzzles a saved run was evaluated on.
+ * Prefers the run's own checkpoint, then the whole puzzle source. Sources are shared by many
+ * runs, so pass a cache to load each one once; checkpoints only hold their run's subset and
+ * are never shared.
+ */
+export async function loadRunPuzzles(
+  run: EvalRun,
+  sourceCache: Map<string, Promise<SavedLayout[]>> = new Map(),
+): Promise<SavedLayout[]> {
+  try {
+    const { checkpoint } = await loadCheckpoint(run.id)
+    return checkpoint.puzzles
+  } catch {
+    // Runs saved before checkpointing (or with checkpoints cleaned up) fall through
+  }
+
+  const cached = sourceCache.get(run.puzzleFile) ?? loadSourcePuzzles(run.puzzleFile)
+  sourceCache.set(run.puzzleFile, cached)
+  return cached
+}
+
+/**
+ * Re-parse and re-execute every turn of a multi-turn result.
+ * Later turns still answer the feedback the model originally saw, so this only
+ * re-scores what the model sent; it cannot replay the conversation.
+ */
+function rescoreMultiTurn(result: EvalResult, puzzle: SavedLayout): EvalResult {
+  const originalTurns = result.turns ?? []
+  let state = initializeGame(savedLayoutToLevel(puzzle))
+  const turns: TurnRecord[] = []
+  let solved = false
+  let apiError: string | null = null
+  let previousTurnFailed = false
+
+  for (const [index, original] of originalTurns.entries()) {
+    // A final turn with no reply at all was an API error that ended the run
+    if (original.rawResponse === '' && index === originalTurns.length - 1 && original.error) {
+      turns.push(original)
+      apiError = original.error
+      break
+    }
+
+    const parsed = parseAIResponse(original.rawResponse)
+    const turn: TurnRecord = { ...original, moves: parsed.moves }
+    turns.push(turn)
+
+    const execution = executeTurn(state, turn, parsed.error, previousTurnFailed)
+    state = execution.finalState
+
+    if (execution.solved) {
+      solved = true
+      break
+    }
+    previousTurnFailed = turn.error !== null
+  }
+
+  return buildMultiTurnResult(puzzle, result.modelId, turns, solved, apiError)
+}
+
+/**
+ * Re-score a single result from its recorded response, including its optimality or failure category.
+ * Results that never got a response keep their outcome.
+ */
+export async function rescoreResult(result: EvalResult, puzzle: SavedLayout): Promise<EvalResult> {
+  let rescored: EvalResult
+  if (result.turns) {
+    rescored = rescoreMultiTurn(result, puzzle)
+  } else if (result.rawResponse === '') {
+    rescored = result
+  } else {
+    const parsed = parseAIResponse(result.rawResponse)
+    rescored = buildOneShotResult(puzzle, result.modelId, {
+      moves: parsed.moves,
+      rawResponse: result.rawResponse,
+      parsedReasoning: parsed.reasoning,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      reasoningTokens: result.reasoningTokens,
+      cost: result.cost,
+      durationMs: result.inferenceTimeMs,
+      error: parsed.error,
+    })
+  }
+
+  return annotateResult(
+    {
+      ...rescored,
+      modelName: result.modelName,
+      sampleIndex: result.sampleIndex,
+      promptVariant: result.promptVariant,
+    },
+    puzzle,
+  )
+}
+
+function getOutcome(result: EvalResult): ResultOutcome {
+  return { solved: result.solved, stepsExecuted: result.stepsExecuted, error: result.error }
+}
+
+/**
+ * Re-score every result of a saved run. Returns the new run and a diff against the original.
+ */
+export async function rescoreRun(
+  run: EvalRun,
+  puzzles: SavedLayout[],
+): Promise<{ run: EvalRun; report: RescoreReport }> {
+  const puzzlesById = new Map(puzzles.map((p) => [p.id, p]))
+  const rescoredAt = Date.now()
+  const flipped: RescoreChange[] = []
+  const changed: RescoreChange[] = []
+  let resultsSkipped = 0
+
+  const results: EvalResult[] = []
+  for (const result of run.results) {
+    const puzzle = puzzlesById.get(result.puzzleId)
+    if (!puzzle) {
+      resultsSkipped++
+      results.push(result)
+      continue
+    }
+
+    const rescored = await rescoreResult(result, puzzle)
+    const before = getOutcome(result)
+    const after = getOutcome(rescored)
+    const change: RescoreChange = {
+      puzzleId: result.puzzleId,
+      puzzleName: result.puzzleName,
+      modelId: result.modelId,
+      sampleIndex: result.sampleIndex,
+      promptVariant: result.promptVariant,
+      before,
+      after,
+    }
+    if (before.solved !== after.solved) {
+      flipped.push(change)
+    } else if (before.stepsExecuted !== after.stepsExecuted || before.error !== after.error) {
+      changed.push(change)
+    }
+    results.push(rescored)
+  }
+
+  const rescoredRun: EvalRun = {
+    ...run,
+    id: uuidv4(),
+    results,
+    summary: {
+      byModel: summarizeResults(run.models, results, run.options),
+      byVariant: summarizeByVariant(run.models, results, run.options),
+      byDifficulty: summarizeByDifficulty(run.models, results, puzzles, run.options),
+    },
+    rescoredFrom: { runId: run.id, rescoredAt },
+  }
+
+  return {
+    run: rescoredRun,
+    report: {
+      sourceRunId: run.id,
+      rescoredRunId: rescoredRun.id,
+      rescoredAt,
+      puzzleFile: run.puzzleFile,
+      models: run.models,
+      resultsTotal: run.results.length,
+      resultsSkipped,
+      flipped,
+      changed,
+    },
+  }
+}
@@ -0,0 +1,76 @@
+import { mkdir } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import type { ChatMessage, LLMCompletion } from './types'
+
+// Cache directory relative to monorepo root, unless EVAL_LLM_CACHE_DIR points elsewhere
+const DEFAULT_CACHE_DIR = join(import.meta.dir, '../../../data/llm-cache')
+
+/**
+ * Everything that determines a reply. Identical keys get the cached reply.
+ */
+export interface ResponseCacheKey {
+  modelId: string
+  messages: ChatMessage[]
+  temperature: number
+  sampleIndex: number
+}
+
+interface CacheEntry {
+  key: ResponseCacheKey
+  completion: LLMCompletion
+  recordedAt: number
+}
+
+/**
+ * Content address of a request: SHA-256 of its canonical JSON.
+ */
+export function getResponseCacheHash(key: ResponseCacheKey): string {
+  const canonical = JSON.stringify([key.modelId, key.messages, key.temperature, key.sampleIndex])
+  return new Bun.CryptoHasher('sha256').update(canonical).digest('hex')
+}
+
+/**
+ * Get the file path for a cache key, sharded by the first two hash characters.
+ */
+function getEntryPath(key: ResponseCacheKey): string {
+  const hash = getResponseCacheHash(key)
+  return join(getResponseCacheDir(), hash.slice(0, 2), `${hash}.json`)
+}
+
+/**
+ * Look up a recorded completion. Returns null on a miss or an unreadable entry.
+ */
+export async function readCachedCompletion(key: ResponseCacheKey): Promise<LLMCompletion | null> {
+  const file = Bun.file(getEntryPath(key))
+  if (!(await file.exists())) {
+    return null
+  }
+
+  try {
+    const entry = JSON.parse(await file.text()) as CacheEntry
+    return entry.completion
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Record a completion for a request.
+ */
+export async function writeCachedCompletion(
+  key: ResponseCacheKey,
+  completion: LLMCompletion,
+): Promise<void> {
+  const path = getEntryPath(key)
+  await mkdir(dirname(path), { recursive: true })
+  const entry: CacheEntry = { key, completion, recordedAt: Date.now() }
+  await Bun.write(path, JSON.stringify(entry, null, 2))
+}
+
+/**
+ * Get the response cache directory path: EVAL_LLM_CACHE_DIR if set (tests point it at a temp
+ * directory), else data/llm-cache.
+ */
+export function getResponseCacheDir(): string {
+  return process.env.EVAL_LLM_CACHE_DIR || DEFAULT_CACHE_DIR
+}
@@ -1,15 +1,27 @@
-import { mkdir } from 'node:fs/promises'
+import { appendFile, mkdir } from 'node:fs/promises'
 import { join } from 'node:path'
-import type { EvalRun } from './types'
+import type { EvalCheckpoint, EvalResult, EvalRun, ModelSummary, RescoreReport } from './types'
 
-// Results directory relative to monorepo root
-const RESULTS_DIR = join(import.meta.dir, '../../../data/eval-results')
+// Results directory relative to monorepo root, unless EVAL_RESULTS_DIR points elsewhere
+const DEFAULT_RESULTS_DIR = join(import.meta.dir, '../../../data/eval-results')
+
+// In-progress runs live in one folder per run id: run.json + results.jsonl
+const CHECKPOINTS_SUBDIR = 'checkpoints'
+
+// Leaderboard reports built from every saved run
+const REPORTS_SUBDIR = 'reports'
+
+// Diff reports from re-scoring saved runs
+const RESCORE_REPORTS_SUBDIR = 'rescore-reports'
+
+// Model summaries grouped by prompt variant or difficulty bucket, then by model id
+type GroupedSummaries = Record<string, Record<string, ModelSummary>>
 
 /**
  * Ensure the results directory exists.
  */
 async function ensureResultsDir(): Promise<void> {
-  await mkdir(RESULTS_DIR, { recursive: true })
+  await mkdir(getResultsDir(), { recursive: true })
 }
 
 /**
@@ -24,13 +36,22 @@ function getModelShortName(modelId: string): string {
     .replace('gemini-', 'gem')
     .replace('-preview', '')
     .replace('-instruct', '')
+    .replace(/[^a-zA-Z0-9.-]/g, '-')
     .slice(0, 20)
 }
 
+/**
+ * Short form of a run id for filenames, so runs on the same day, source and model don't
+ * overwrite each other.
+ */
+function getRunShortId(runId: string): string {
+  return runId.slice(0, 8)
+}
+
 /**
  * Generate a filename-safe puzzle source identifier.
  */
-function getPuzzleSourceShortName(puzzleFile: string): string {
+export function getPuzzleSourceShortName(puzzleFile: string): string {
   // Handle dataset names
   const lower = puzzleFile.toLowerCase()
   if (lower.includes('microban')) return 'microban'
@@ -68,12 +89,16 @@ export async function saveEvalRun(run: EvalRun): Promise<string[]> {
       results: modelResults,
       summary: {
         byModel: modelSummary ? { [modelId]: modelSummary } : {},
+        byVariant: pickModelSummaries(run.summary.byVariant, modelId),
+        byDifficulty: pickModelSummaries(run.summary.byDifficulty, modelId),
       },
     }
 
+    // Re-scored copies sit next to the original instead of replacing it
     const shortName = getModelShortName(modelId)
-    const filename = `${date}-${puzzleSource}-${shortName}.json`
-    const filePath = join(RESULTS_DIR, filename)
+    const suffix = run.rescoredFrom ? '-rescored' : ''
+    const filename = `${date}-${puzzleSource}-${shortName}-${getRunShortId(run.id)}${suffix}.json`
+    const filePath = join(getResultsDir(), filename)
 
     await Bun.write(filePath, JSON.stringify(modelRun, null, 2))
     savedPaths.push(filePath)
@@ -82,6 +107,40 @@ export async function saveEvalRun(run: EvalRun): Promise<string[]> {
   return savedPaths
 }
 
+/**
+ * Save the diff report from re-scoring a run. Returns the saved file path.
+ */
+export async function saveRescoreReport(report: RescoreReport): Promise<string> {
+  const reportsDir = join(getResultsDir(), RESCORE_REPORTS_SUBDIR)
+  await mkdir(reportsDir, { recursive: true })
+
+  const date = new Date(report.rescoredAt).toISOString().split('T')[0]
+  const puzzleSource = getPuzzleSourceShortName(report.puzzleFile)
+  const shortName = report.models.map(getModelShortName).join('-')
+  const runId = getRunShortId(report.rescoredRunId)
+  const filePath = join(reportsDir, `${date}-${puzzleSource}-${shortName}-${runId}.json`)
+
+  await Bun.write(filePath, JSON.stringify(report, null, 2))
+  return filePath
+}
+
+/**
+ * Write report files (filename -> content) to the reports directory, replacing older ones.
+ * Returns the saved file paths.
+ */
+export async function saveReportFiles(files: Record<string, string>): Promise<string[]> {
+  const reportsDir = join(getResultsDir(), REPORTS_SUBDIR)
+  await mkdir(reportsDir, { recursive: true })
+
+  const savedPaths: string[] = []
+  for (const [filename, content] of Object.entries(files)) {
+    const filePath = join(reportsDir, filename)
+    await Bun.write(filePath, content)
+    savedPaths.push(filePath)
+  }
+  return savedPaths
+}
+
 /**
  * Load all previous eval runs.
  */
@@ -91,9 +150,10 @@ export async function loadEvalRuns(): Promise<EvalRun[]> {
   const glob = new Bun.Glob('*.json')
   const runs: EvalRun[] = []
 
-  for await (const filename of glob.scan(RESULTS_DIR)) {
+  const resultsDir = getResultsDir()
+  for await (const filename of glob.scan(resultsDir)) {
     try {
-      const filePath = join(RESULTS_DIR, filename)
+      const filePath = join(resultsDir, filename)
       const content = await Bun.file(filePath).text()
       const run = JSON.parse(content) as EvalRun
       runs.push(run)
@@ -109,8 +169,150 @@ export async function loadEvalRuns(): Promise<EvalRun[]> {
 }
 
 /**
- * Get the results directory path.
+ * Keep one model's summaries under each group, for that model's file.
+ */
+function pickModelSummaries(
+  grouped: GroupedSummaries | undefined,
+  modelId: string,
+): GroupedSummaries | undefined {
+  if (!grouped) return undefined
+  const picked: GroupedSummaries = {}
+  for (const [group, byModel] of Object.entries(grouped)) {
+    picked[group] = byModel[modelId] ? { [modelId]: byModel[modelId] } : {}
+  }
+  return picked
+}
+
+/**
+ * Merge the grouped summaries (per variant or difficulty) of two per-model files of the same run.
+ */
+function mergeGroupedSummaries(
+  a: GroupedSummaries | undefined,
+  b: GroupedSummaries | undefined,
+): GroupedSummaries | undefined {
+  if (!a || !b) return a ?? b
+  const merged = { ...a }
+  for (const [group, byModel] of Object.entries(b)) {
+    merged[group] = { ...merged[group], ...byModel }
+  }
+  return merged
+}
+
+/**
+ * Merge the per-model files of each saved run back into one run per run id.
+ */
+export function mergeSavedRuns(runs: EvalRun[]): EvalRun[] {
+  const byId = new Map<string, EvalRun>()
+  for (const run of runs) {
+    const existing = byId.get(run.id)
+    if (!existing) {
+      byId.set(run.id, run)
+      continue
+    }
+    byId.set(run.id, {
+      ...existing,
+      models: [...existing.models, ...run.models],
+      results: [...existing.results, ...run.results],
+      summary: {
+        byModel: { ...existing.summary.byModel, ...run.summary.byModel },
+        byVariant: mergeGroupedSummaries(existing.summary.byVariant, run.summary.byVariant),
+        byDifficulty: mergeGroupedSummaries(
+          existing.summary.byDifficulty,
+          run.summary.byDifficulty,
+        ),
+      },
+    })
+  }
+  return [...byId.values()]
+}
+
+/**
+ * Get the checkpoint directory for a run, rejecting ids that could escape it.
+ */
+export function getCheckpointDir(runId: string): string {
+  if (!/^[\w-]+$/.test(runId)) {
+    throw new Error(`Invalid run id: ${runId}`)
+  }
+  return join(getResultsDir(), CHECKPOINTS_SUBDIR, runId)
+}
+
+/**
+ * Start a checkpoint for a new run. Stores everything needed to resume it.
+ */
+export async function createCheckpoint(checkpoint: EvalCheckpoint): Promise<void> {
+  const dir = getCheckpointDir(checkpoint.id)
+  await mkdir(dir, { recursive: true })
+  await Bun.write(join(dir, 'run.json'), JSON.stringify(checkpoint, null, 2))
+  await Bun.write(join(dir, 'results.jsonl'), '')
+}
+
+/**
+ * Append a single completed result to a run's checkpoint.
+ */
+export async function appendCheckpointResult(runId: string, result: EvalResult): Promise<void> {
+  await appendFile(join(getCheckpointDir(runId), 'results.jsonl'), `${JSON.stringify(result)}\n`)
+}
+
+/**
+ * Replace a checkpoint's results, so a line left half written by a crash is not followed by
+ * new ones.
+ */
+export async function rewriteCheckpointResults(
+  runId: string,
+  results: EvalResult[],
+): Promise<void> {
+  await Bun.write(
+    join(getCheckpointDir(runId), 'results.jsonl'),
+    results.map((result) => `${JSON.stringify(result)}\n`).join(''),
+  )
+}
+
+/**
+ * Mark a checkpointed run as completed.
+ */
+export async function completeCheckpoint(runId: string, completedAt: number): Promise<void> {
+  const { checkpoint } = await loadCheckpoint(runId)
+  await Bun.write(
+    join(getCheckpointDir(runId), 'run.json'),
+    JSON.stringify({ ...checkpoint, completedAt }, null, 2),
+  )
+}
+
+/**
+ * Load a checkpointed run and the results recorded so far.
+ * A truncated last line (from a crash mid-write) is ignored.
+ */
+export async function loadCheckpoint(
+  runId: string,
+): Promise<{ checkpoint: EvalCheckpoint; results: EvalResult[] }> {
+  const dir = getCheckpointDir(runId)
+  const runFile = Bun.file(join(dir, 'run.json'))
+  if (!(await runFile.exists())) {
+    throw new Error(`No checkpoint found for run ${runId}`)
+  }
+
+  const checkpoint = JSON.parse(await runFile.text()) as EvalCheckpoint
+
+  const resultsFile = Bun.file(join(dir, 'results.jsonl'))
+  const results: EvalResult[] = []
+  if (await resultsFile.exists()) {
+    for (const line of (await resultsFile.text()).split('\n')) {
+      if (!line.trim()) continue
+      try {
+        results.push(JSON.parse(line) as EvalResult)
+      } catch {
+        // Skip partially written lines
+      }
+    }
+  }
+
+  return { checkpoint, results }
+}
+
+/**
+ * Get the results directory path: EVAL_RESULTS_DIR if set (tests point it at a temp
+ * directory), else data/eval-results.
  */
 export function getResultsDir(): string {
-  return RESULTS_DIR
+  return process.env.EVAL_RESULTS_DIR || DEFAULT_RESULTS_DIR
 }
@@ -0,0 +1,23 @@
+import { computeDeadSquares, isFreezeDeadlock } from '@sokoban-eval-toolkit/sokoban-core'
+import type { GameState, SokobanLevel } from './types'
+
+// Node limit for solver runs during an eval
+export const SOLVER_NODE_LIMIT = 50000
+
+/**
+ * Whether the solver's answer applies to a level. It ignores the colored-box adjacency rule,
+ * so its solutions for levels with several box colors may be illegal.
+ */
+export function isSolverCompatible(level: SokobanLevel): boolean {
+  return level.boxStarts.every((b) => b.color === level.boxStarts[0]?.color)
+}
+
+/**
+ * Build a check for positions the solver would prune: a box on a dead square, or a freeze.
+ */
+export function createDeadlockCheck(level: SokobanLevel): (state: GameState) => boolean {
+  const deadSquares = computeDeadSquares(level)
+  return (state) =>
+    state.boxes.some((b) => deadSquares.has(`${b.x},${b.y}`)) ||
+    isFreezeDeadlock(state.boxes, level)
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test'
+import { CliUsageError, EXIT_CODES, getRunExitCode, parseCliArgs } from '../cli'
+import type { EvalResult, FailureCategory } from '../types'
+
+function createResult(failureCategory?: FailureCategory): EvalResult {
+  return { solved: !failureCategory, ...(failureCategory && { failureCategory }) } as EvalResult
+}
+
+describe('CLI', () => {
+  test('parses a headless run from flags', async () => {
+    const command = await parseCliArgs(['--dataset', 'microban', '-m', 'a,b', '-m', 'a'])
+
+    expect(command).toMatchObject({
+      type: 'headless',
+      config: {
+        source: { type: 'dataset', datasetId: 'microban' },
+        models: ['a', 'b'],
+        concurrency: 10,
+        executionMode: 'fullSolution',
+        failOnApiError: false,
+      },
+    })
+    expect(await parseCliArgs([])).toEqual({ type: 'interactive' })
+  })
+
+  test('rejects invalid arguments as usage errors', async () => {
+    await expect(parseCliArgs(['--model', 'a'])).rejects.toThrow(CliUsageError)
+    await expect(
+      parseCliArgs(['--dataset', 'microban', '--model', 'a', '--limit', '0']),
+    ).rejects.toThrow('--limit must be a positive integer (got "0")')
+    await expect(parseCliArgs(['--report', '--fail-on-api-error'])).rejects.toThrow(
+      '--report cannot be combined with --fail-on-api-error',
+    )
+  })
+
+  test('fails a run whose results all ended in an API error', () => {
+    const someErrors = [createResult('apiError'), createResult()]
+    const allErrors = [createResult('apiError'), createResult('apiError')]
+
+    expect(getRunExitCode([createResult(), createResult('wallBump')])).toBe(EXIT_CODES.success)
+    expect(getRunExitCode(someErrors)).toBe(EXIT_CODES.success)
+    expect(getRunExitCode(allErrors)).toBe(EXIT_CODES.failure)
+    expect(getRunExitCode([])).toBe(EXIT_CODES.success)
+  })
+
+  test('fails on any API error with --fail-on-api-error', async () => {
+    const command = await parseCliArgs(['-d', 'microban', '-m', 'a', '--fail-on-api-error'])
+    const resume = await parseCliArgs(['--resume', 'run-1', '--fail-on-api-error'])
+
+    expect(command.type === 'headless' && command.config.failOnApiError).toBe(true)
+    expect(resume).toEqual({
+      type: 'resume',
+      runId: 'run-1',
+      concurrency: undefined,
+      failOnApiError: true,
+    })
+    expect(getRunExitCode([createResult('apiError'), createResult()], true)).toBe(
+      EXIT_CODES.failure,
+    )
+  })
+})
@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { loadDataset } from '../datasets'
+import { addDifficultyMetrics, applyCachedDifficulty, countByDifficulty } from '../difficulty'
+import type { SavedLayout } from '../types'
+
+describe('difficulty', () => {
+  let cacheDir: string
+  let puzzles: SavedLayout[]
+
+  beforeAll(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'difficulty-cache-'))
+    puzzles = (await loadDataset('microban')).slice(0, 3)
+  })
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  test('analyzes each board once and reuses the cached metrics', async () => {
+    const cacheFile = join(cacheDir, 'difficulty-cache.json')
+    const analyzed: number[] = []
+    const first = await addDifficultyMetrics(puzzles, (done) => analyzed.push(done), cacheFile)
+
+    expect(analyzed).toEqual([1, 2, 3])
+    expect(first.every((p) => p.difficultyMetrics?.solved)).toBe(true)
+
+    const again = await addDifficultyMetrics(puzzles, (done) => analyzed.push(done), cacheFile)
+    expect(analyzed).toHaveLength(3)
+    expect(again.map((p) => p.difficultyMetrics)).toEqual(first.map((p) => p.difficultyMetrics))
+    expect(countByDifficulty(again)).toEqual(countByDifficulty(first))
+  })
+
+  test('leaves puzzles without cached metrics unanalyzed', async () => {
+    const cached = await applyCachedDifficulty(puzzles, join(cacheDir, 'missing.json'))
+
+    expect(cached.some((p) => p.difficultyMetrics)).toBe(false)
+  })
+})
@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { loadDataset } from '../datasets'
+import { runEvaluation, summarizeResults } from '../eval-runner'
+import { getCheckpointDir, loadCheckpoint } from '../results-storage'
+import type { EvalProgress, EvalResult, SavedLayout } from '../types'
+
+const MODELS = ['mock:optimal', 'mock:corrupt', 'mock:malformed']
+
+function createSample(puzzleId: string, sampleIndex: number, solved: boolean): EvalResult {
+  return { puzzleId, modelId: 'mock:optimal', sampleIndex, solved } as EvalResult
+}
+
+function getOutcomes(results: EvalResult[]): [string, string, boolean, string | undefined][] {
+  return results.map((r) => [r.puzzleId, r.modelId, r.solved, r.failureCategory])
+}
+
+describe('runEvaluation', () => {
+  let resultsDir: string
+  let puzzles: SavedLayout[]
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+    puzzles = (await loadDataset('microban')).slice(0, 2)
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+  })
+
+  test('scores mock models and classifies their failures', async () => {
+    const run = await runEvaluation(puzzles, MODELS, { concurrency: 1 }, 'Microban')
+
+    expect(run.status).toBe('completed')
+    // mock:corrupt reverses one move, which walks into a wall on both puzzles
+    expect(getOutcomes(run.results)).toEqual([
+      ['microban-microban-1', 'mock:optimal', true, undefined],
+      ['microban-microban-1', 'mock:corrupt', false, 'wallBump'],
+      ['microban-microban-1', 'mock:malformed', false, 'parseError'],
+      ['microban-microban-2', 'mock:optimal', true, undefined],
+      ['microban-microban-2', 'mock:corrupt', false, 'wallBump'],
+      ['microban-microban-2', 'mock:malformed', false, 'parseError'],
+    ])
+    expect(run.summary.byModel['mock:optimal'].puzzlesSolved).toBe(2)
+    expect(run.summary.byModel['mock:corrupt'].failures).toEqual({ wallBump: 2 })
+    expect(run.summary.byModel['mock:malformed'].failures).toEqual({ parseError: 2 })
+  })
+
+  test('checkpoints every result and resumes only the missing ones', async () => {
+    const first = await runEvaluation(puzzles, MODELS, { concurrency: 1 }, 'Microban')
+    const saved = await loadCheckpoint(first.id)
+    expect(saved.checkpoint.completedAt).toBe(first.completedAt)
+    expect(saved.results).toHaveLength(6)
+
+    // Interrupt after two results, with the third cut off mid-write
+    const lines = saved.results.map((result) => JSON.stringify(result))
+    await writeFile(
+      join(getCheckpointDir(first.id), 'results.jsonl'),
+      `${lines[0]}\n${lines[1]}\n${lines[2].slice(0, 40)}`,
+    )
+    const interrupted = await loadCheckpoint(first.id)
+    expect(interrupted.results).toHaveLength(2)
+
+    const started: string[] = []
+    const onProgress = (progress: EvalProgress) => {
+      if (progress.status === 'running') started.push(progress.currentModel)
+    }
+    const resumed = await runEvaluation(
+      puzzles,
+      MODELS,
+      { concurrency: 1 },
+      'Microban',
+      onProgress,
+      { runId: first.id, startedAt: first.startedAt, results: interrupted.results },
+    )
+
+    expect(started).toHaveLength(4)
+    expect(resumed.id).toBe(first.id)
+    expect(resumed.startedAt).toBe(first.startedAt)
+    expect(getOutcomes(resumed.results)).toEqual(getOutcomes(first.results))
+    expect((await loadCheckpoint(first.id)).results).toHaveLength(6)
+  })
+
+  test('runs every sample of each puzzle/model pair', async () => {
+    const run = await runEvaluation(
+      puzzles,
+      ['mock:optimal'],
+      { concurrency: 1, samples: 2 },
+      'Microban',
+    )
+
+    expect(run.results.map((r) => [r.puzzleId, r.sampleIndex])).toEqual([
+      ['microban-microban-1', 0],
+      ['microban-microban-1', 1],
+      ['microban-microban-2', 0],
+      ['microban-microban-2', 1],
+    ])
+    expect(run.summary.byModel['mock:optimal'].sampling).toMatchObject({
+      samplesPerPuzzle: 2,
+      passAt1: 1,
+      passAtK: 1,
+    })
+  })
+})
+
+describe('summarizeResults', () => {
+  test('reports pass@1, pass@k, majority vote and variance across samples', () => {
+    const results = [
+      ...[true, true, false].map((solved, i) => createSample('a', i, solved)),
+      ...[false, true, false].map((solved, i) => createSample('b', i, solved)),
+      ...[false, false, false].map((solved, i) => createSample('c', i, solved)),
+    ]
+
+    const { sampling } = summarizeResults(['mock:optimal'], results, {
+      concurrency: 1,
+      samples: 3,
+      temperature: 1,
+    })['mock:optimal']
+
+    expect(sampling?.samplesPerPuzzle).toBe(3)
+    expect(sampling?.temperature).toBe(1)
+    expect(sampling?.passAt1).toBeCloseTo(1 / 3)
+    expect(sampling?.passAtK).toBeCloseTo(2 / 3)
+    expect(sampling?.majorityVote).toBeCloseTo(1 / 3)
+    expect(sampling?.avgPuzzleVariance).toBeCloseTo(4 / 27)
+    expect(sampling?.byPuzzle.map((p) => [p.puzzleId, p.solvedSamples])).toEqual([
+      ['a', 2],
+      ['b', 1],
+      ['c', 0],
+    ])
+  })
+
+  test('omits sampling metrics for single-sample runs', () => {
+    const summary = summarizeResults(['mock:optimal'], [createSample('a', 0, true)], {
+      concurrency: 1,
+    })['mock:optimal']
+
+    expect(summary.sampling).toBeUndefined()
+    expect(summary.puzzlesSolved).toBe(1)
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import { parseLevel } from '@sokoban-eval-toolkit/sokoban-core'
+import { classifyFailure, formatFailureBreakdown } from '../failure-taxonomy'
+import type { EvalResult, MoveDirection, SavedLayout, TurnRecord } from '../types'
+
+// Both goals are on the top row, so a box pushed down to the bottom row is lost
+const PUZZLE = createPuzzle(`
+#######
+#.  . #
+# $$@ #
+#     #
+#######
+`)
+
+// The box right of the player is pushed next to the other orange box
+const COLORED_PUZZLE = createPuzzle(`
+#######
+#. .. #
+# $ $@#
+#   $ #
+#######
+`)
+COLORED_PUZZLE.boxStarts[2].color = 'purple'
+
+function createPuzzle(board: string): SavedLayout {
+  const level = parseLevel(board, 'taxonomy')
+  return {
+    id: level.id,
+    name: 'Taxonomy',
+    savedAt: 0,
+    difficulty: 'generated',
+    width: level.width,
+    height: level.height,
+    terrain: level.terrain,
+    playerStart: level.playerStart,
+    boxStarts: level.boxStarts,
+    goals: level.goals,
+  }
+}
+
+function createResult(moves: MoveDirection[], rawResponse = '{}'): EvalResult {
+  return { solved: false, moves, rawResponse } as EvalResult
+}
+
+function createTurn(moves: MoveDirection[], error: string | null = null): TurnRecord {
+  return { moves, error, rawResponse: '{}' } as TurnRecord
+}
+
+describe('failure taxonomy', () => {
+  test('classifies what stopped a one-shot solution', () => {
+    expect(classifyFailure(createResult([], ''), PUZZLE)).toBe('apiError')
+    expect(classifyFailure(createResult([], 'I would move the boxes.'), PUZZLE)).toBe('parseError')
+    expect(classifyFailure(createResult(['UP', 'UP']), PUZZLE)).toBe('wallBump')
+    expect(classifyFailure(createResult(['LEFT']), PUZZLE)).toBe('doubleBoxPush')
+    expect(classifyFailure(createResult(['LEFT']), COLORED_PUZZLE)).toBe('colorAdjacency')
+    expect(classifyFailure(createResult(['UP']), PUZZLE)).toBe('outOfMoves')
+    expect(classifyFailure({ ...createResult([]), solved: true }, PUZZLE)).toBeNull()
+  })
+
+  test('reports a deadlock before a later invalid move', () => {
+    // Push the left box down to the bottom row, then into the wall below it
+    const moves: MoveDirection[] = ['UP', 'LEFT', 'LEFT', 'DOWN', 'DOWN']
+
+    expect(classifyFailure(createResult(moves), PUZZLE)).toBe('deadlock')
+  })
+
+  test('blames the last turn of a multi-turn result', () => {
+    const recovered = {
+      ...createResult([]),
+      turns: [createTurn(['UP', 'UP'], 'Wall collision'), createTurn(['LEFT'])],
+    }
+    const failedLast = {
+      ...createResult([]),
+      turns: [
+        createTurn(['RIGHT']),
+        createTurn(['LEFT', 'LEFT'], 'Cannot push box into another box'),
+      ],
+    }
+    const unparsedLast = {
+      ...createResult([]),
+      turns: [createTurn(['UP']), createTurn([], 'No moves found')],
+    }
+
+    expect(classifyFailure(recovered, PUZZLE)).toBe('outOfMoves')
+    expect(classifyFailure(failedLast, PUZZLE)).toBe('doubleBoxPush')
+    expect(classifyFailure(unparsedLast, PUZZLE)).toBe('parseError')
+  })
+
+  test('formats the most common failures first', () => {
+    expect(formatFailureBreakdown({ deadlock: 1, wallBump: 3, apiError: 2 })).toBe(
+      '3 wall bump, 2 API error, 1 deadlock',
+    )
+  })
+})
@@ -0,0 +1,210 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getCurrentRuns } from '@sokoban-eval-toolkit/sokoban-core'
+import { buildLeaderboards, getEntryName } from '../leaderboard'
+import { loadEvalRuns, mergeSavedRuns, saveEvalRun } from '../results-storage'
+import type { EvalOptions, EvalResult, EvalRun } from '../types'
+
+function createResult(puzzleId: string, solved: boolean, promptVariant?: string): EvalResult {
+  return {
+    puzzleId,
+    puzzleName: puzzleId,
+    modelId: 'mock:optimal',
+    modelName: 'Mock (optimal)',
+    solved,
+    error: null,
+    inferenceTimeMs: 100,
+    moves: [],
+    solutionLength: 0,
+    stepsExecuted: 0,
+    inputTokens: 10,
+    outputTokens: 10,
+    reasoningTokens: 0,
+    totalTokens: 20,
+    cost: 0,
+    wordsEstimate: 7.5,
+    pagesEstimate: 0.015,
+    rawResponse: '',
+    ...(promptVariant && { promptVariant }),
+  }
+}
+
+function createRun(
+  id: string,
+  startedAt: number,
+  results: EvalResult[],
+  puzzleFile = 'Microban',
+  options: EvalOptions = { concurrency: 1 },
+): EvalRun {
+  return {
+    id,
+    startedAt,
+    completedAt: startedAt + 1000,
+    puzzleFile,
+    puzzleCount: results.length,
+    models: ['mock:optimal'],
+    options,
+    results,
+    summary: { byModel: {} },
+    status: 'completed',
+  }
+}
+
+describe('leaderboard', () => {
+  let resultsDir: string
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+  })
+
+  test('counts two runs from the same day, source and model', async () => {
+    const morning = Date.UTC(2026, 0, 8, 9)
+    await saveEvalRun(
+      createRun('11111111-aaaa', morning, [createResult('p1', true), createResult('p2', false)]),
+    )
+    await saveEvalRun(
+      createRun('22222222-bbbb', morning + 3600_000, [
+        createResult('p1', true),
+        createResult('p2', true),
+      ]),
+    )
+
+    expect(await readdir(resultsDir)).toHaveLength(2)
+
+    const runs = getCurrentRuns(mergeSavedRuns(await loadEvalRuns()))
+    const [leaderboard] = buildLeaderboards(runs)
+    const [entry] = leaderboard.entries
+
+    expect(entry.runs).toBe(2)
+    expect(entry.attempts).toBe(4)
+    expect(entry.solved).toBe(3)
+    expect(entry.puzzles).toBe(2)
+  })
+
+  test('ranks each prompt variant of a model separately', async () => {
+    const startedAt = Date.UTC(2026, 0, 9, 9)
+    await saveEvalRun(
+      createRun(
+        '33333333-cccc',
+        startedAt,
+        [
+          createResult('p1', true, 'default'),
+          createResult('p2', true, 'default'),
+          createResult('p1', true, 'ascii-only'),
+          createResult('p2', false, 'ascii-only'),
+        ],
+        'Boxoban',
+      ),
+    )
+
+    const runs = getCurrentRuns(mergeSavedRuns(await loadEvalRuns()))
+    const leaderboard = buildLeaderboards(runs).find((l) => l.dataset === 'Boxoban')
+    const entries = leaderboard?.entries ?? []
+
+    expect(entries.map((e) => [e.promptVariant, e.solved, e.attempts])).toEqual([
+      ['default', 2, 2],
+      ['ascii-only', 1, 2],
+    ])
+    expect(entries.every((e) => e.runs === 1)).toBe(true)
+    expect(leaderboard?.headToHead).toEqual([
+      {
+        modelA: 'mock:optimal',
+        modelB: 'mock:optimal',
+        promptVariantA: 'default',
+        promptVariantB: 'ascii-only',
+        executionModeA: 'fullSolution',
+        executionModeB: 'fullSolution',
+        sharedPuzzles: 2,
+        winsA: 1,
+        winsB: 0,
+        ties: 1,
+      },
+    ])
+  })
+
+  test('counts a run re-scored twice once, from its newest copy', async () => {
+    const startedAt = Date.UTC(2026, 0, 10, 9)
+    const original = createRun(
+      '44444444-dddd',
+      startedAt,
+      [createResult('p1', false), createResult('p2', false), createResult('p3', false)],
+      'Puzzles',
+    )
+    const rescore = (id: string, rescoredAt: number, solved: boolean): EvalRun => ({
+      ...original,
+      id,
+      results: original.results.map((r) => ({ ...r, solved })),
+      rescoredFrom: { runId: original.id, rescoredAt },
+    })
+    await saveEvalRun(original)
+    await saveEvalRun(rescore('55555555-eeee', startedAt + 1000, false))
+    await saveEvalRun(rescore('66666666-ffff', startedAt + 2000, true))
+
+    const runs = getCurrentRuns(mergeSavedRuns(await loadEvalRuns()))
+    const leaderboard = buildLeaderboards(runs).find((l) => l.dataset === 'Puzzles')
+    const [entry] = leaderboard?.entries ?? []
+
+    expect(leaderboard?.entries).toHaveLength(1)
+    expect(entry.runs).toBe(1)
+    expect(entry.attempts).toBe(3)
+    expect(entry.solved).toBe(3)
+  })
+  test('ranks execution modes separately and scores samples per puzzle', async () => {
+    const startedAt = Date.UTC(2026, 0, 11, 9)
+    const samples = (puzzleId: string, ...solved: boolean[]) =>
+      solved.map((s) => createResult(puzzleId, s))
+    await saveEvalRun(
+      createRun(
+        '77777777-aaaa',
+        startedAt,
+        [...samples('p1', true, false, false), ...samples('p2', false, false, false)],
+        'Modes',
+        { concurrency: 1, samples: 3 },
+      ),
+    )
+    await saveEvalRun(
+      createRun(
+        '88888888-bbbb',
+        startedAt + 1000,
+        [createResult('p1', true), createResult('p2', true)],
+        'Modes',
+        { concurrency: 1, executionMode: 'moveByMove' },
+      ),
+    )
+
+    const runs = getCurrentRuns(mergeSavedRuns(await loadEvalRuns()))
+    const leaderboard = buildLeaderboards(runs).find((l) => l.dataset === 'Modes')
+    const [moveByMove, fullSolution] = leaderboard?.entries ?? []
+
+    expect(leaderboard?.entries).toHaveLength(2)
+    expect(moveByMove.executionMode).toBe('moveByMove')
+    expect(moveByMove.solveRate).toBe(1)
+    expect(fullSolution.executionMode).toBe('fullSolution')
+    expect([fullSolution.puzzlesSolved, fullSolution.puzzles]).toEqual([1, 2])
+    expect([fullSolution.solved, fullSolution.attempts]).toEqual([1, 6])
+    expect(fullSolution.solveRate).toBeCloseTo(1 / 6)
+    // Two puzzles, not six attempts, bound the interval
+    expect(fullSolution.ciHigh).toBeCloseTo(0.759, 3)
+    expect(leaderboard?.headToHead[0]).toMatchObject({
+      executionModeA: 'moveByMove',
+      executionModeB: 'fullSolution',
+      winsA: 2,
+    })
+  })
+  test('labels entries with their prompt variant and non-default execution mode', () => {
+    const modelName = 'Mock (optimal)'
+
+    expect(getEntryName({ modelName, executionMode: 'fullSolution' })).toBe(modelName)
+    expect(
+      getEntryName({ modelName, promptVariant: 'ascii-only', executionMode: 'moveByMove' }),
+    ).toBe('Mock (optimal) [ascii-only] (moveByMove)')
+  })
+})
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  MOVE_DIRECTIONS,
+  executeMovesFrom,
+  initializeGame,
+  savedLayoutToLevel,
+  solvePuzzle,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { setMockReplies } from '@sokoban-eval-toolkit/utils'
+import { loadDataset } from '../datasets'
+import { runEvaluation } from '../eval-runner'
+import type { MoveDirection, SavedLayout } from '../types'
+
+describe('moveByMove mode', () => {
+  let resultsDir: string
+  let puzzle: SavedLayout
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+    puzzle = (await loadDataset('microban'))[0]
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+  })
+
+  test('feeds a rejected move back and records the recovery', async () => {
+    const level = savedLayoutToLevel(puzzle)
+    const solution = solvePuzzle(level, 150000, 'move-optimal').solution ?? []
+    // Follow the solution until some move would be rejected, then send that move
+    const state = initializeGame(level)
+    let valid = 1
+    let rejected: MoveDirection | undefined
+    for (; valid < solution.length && !rejected; valid++) {
+      const prefix = solution.slice(0, valid)
+      rejected = MOVE_DIRECTIONS.find(
+        (move) => executeMovesFrom(state, [...prefix, move]).invalidMoveIndex === valid,
+      )
+    }
+    valid--
+    setMockReplies([
+      JSON.stringify({ moves: [...solution.slice(0, valid), rejected] }),
+      JSON.stringify({ moves: solution.slice(valid) }),
+    ])
+
+    const run = await runEvaluation(
+      [puzzle],
+      ['mock:replay'],
+      { concurrency: 1, executionMode: 'moveByMove', maxTurns: 3 },
+      'Microban',
+    )
+    const [result] = run.results
+    const turns = result.turns ?? []
+
+    expect(result.solved).toBe(true)
+    expect(result.stepsExecuted).toBe(solution.length)
+    expect(turns.map((t) => [t.stepsExecuted, t.recovered])).toEqual([
+      [valid, false],
+      [solution.length - valid, true],
+    ])
+    expect(turns[0].error).toContain(`step ${valid + 1}: ${rejected}`)
+    expect(turns[1].prompt).toContain(`Move ${valid + 1} (${rejected}) was rejected`)
+    expect(turns[1].prompt).toContain('Turns remaining: 2')
+  })
+
+  test('stops at the turn budget', async () => {
+    setMockReplies(['{"moves": []}'])
+
+    const run = await runEvaluation(
+      [puzzle],
+      ['mock:replay'],
+      { concurrency: 1, executionMode: 'moveByMove', maxTurns: 2 },
+      'Microban',
+    )
+    const [result] = run.results
+
+    expect(result.solved).toBe(false)
+    expect(result.turns).toHaveLength(2)
+    expect(result.error).toBe('Turn budget exhausted after 2 turns')
+  })
+})
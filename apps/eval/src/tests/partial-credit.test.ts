@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseLevel, savedLayoutToLevel, solvePuzzle } from '@sokoban-eval-toolkit/sokoban-core'
+import { loadDataset } from '../datasets'
+import { runEvaluation } from '../eval-runner'
+import { addPartialCredit } from '../partial-credit'
+import type { EvalResult, MoveDirection, SavedLayout } from '../types'
+
+// One box that the moves below push into the bottom-left corner
+const CORNER_LEVEL = parseLevel(
+  `
+######
+#.   #
+#  $@#
+#    #
+######
+`,
+  'corner',
+)
+
+const CORNER_PUZZLE: SavedLayout = {
+  id: 'corner',
+  name: 'Corner',
+  savedAt: 0,
+  difficulty: 'generated',
+  width: CORNER_LEVEL.width,
+  height: CORNER_LEVEL.height,
+  terrain: CORNER_LEVEL.terrain,
+  playerStart: CORNER_LEVEL.playerStart,
+  boxStarts: CORNER_LEVEL.boxStarts,
+  goals: CORNER_LEVEL.goals,
+}
+
+function createResult(moves: MoveDirection[]): EvalResult {
+  return { solved: false, moves, stepsExecuted: moves.length } as EvalResult
+}
+
+describe('partial credit', () => {
+  let resultsDir: string
+  let puzzle: SavedLayout
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+    puzzle = (await loadDataset('microban'))[0]
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+  })
+
+  test('scores the position a failed attempt reached', async () => {
+    const run = await runEvaluation(
+      [puzzle],
+      ['mock:optimal', 'mock:corrupt'],
+      { concurrency: 1 },
+      'Microban',
+    )
+    const [solved, corrupt] = run.results
+
+    expect(solved.partialCredit).toEqual({
+      boxesOnGoals: 2,
+      boxCount: 2,
+      solvable: true,
+      distanceToGoal: 0,
+    })
+    // mock:corrupt's reversed move leaves the solution path, and it bumps a wall later on
+    expect(corrupt.failureCategory).toBe('wallBump')
+    expect(corrupt.partialCredit).toEqual({
+      boxesOnGoals: 0,
+      boxCount: 2,
+      solvable: false,
+      distanceToGoal: null,
+    })
+    expect(run.summary.byModel['mock:corrupt'].partialCredit).toEqual({
+      avgBoxesOnGoalsRate: 0,
+      solvableRate: 0,
+      avgDistanceToGoal: null,
+    })
+  })
+
+  test('uses the reference solution when no move was executed', async () => {
+    const { partialCredit } = await addPartialCredit(createResult([]), puzzle)
+
+    expect(partialCredit).toMatchObject({ solvable: true, distanceToGoal: 33 })
+  })
+
+  test('measures the solver distance from a position partway through', async () => {
+    const solution = solvePuzzle(savedLayoutToLevel(puzzle), 150000, 'move-optimal').solution ?? []
+    const { partialCredit } = await addPartialCredit(createResult(solution.slice(0, 16)), puzzle)
+
+    expect(partialCredit?.solvable).toBe(true)
+    expect(partialCredit?.distanceToGoal).toBe(solution.length - 16)
+  })
+
+  test('marks a box pushed into a corner as unsolvable', async () => {
+    const moves: MoveDirection[] = ['UP', 'LEFT', 'DOWN', 'RIGHT', 'DOWN', 'LEFT', 'LEFT']
+    const { partialCredit } = await addPartialCredit(createResult(moves), CORNER_PUZZLE)
+
+    expect(partialCredit).toEqual({
+      boxesOnGoals: 0,
+      boxCount: 1,
+      solvable: false,
+      distanceToGoal: null,
+    })
+  })
+})
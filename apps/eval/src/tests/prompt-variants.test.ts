@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseCliArgs } from '../cli'
+import { loadDataset } from '../datasets'
+import { runEvaluation } from '../eval-runner'
+import { DEFAULT_PROMPT_VARIANT, createPromptVariant, getPromptOptions } from '../prompt-variants'
+import type { SavedLayout } from '../types'
+
+describe('prompt variants', () => {
+  let resultsDir: string
+  let puzzles: SavedLayout[]
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+    puzzles = (await loadDataset('microban')).slice(0, 2)
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+  })
+
+  test('fills custom variants from the default prompt', () => {
+    const variant = createPromptVariant('terse', { coordinateLocations: false })
+
+    expect(variant.options).toEqual({
+      ...DEFAULT_PROMPT_VARIANT.options,
+      coordinateLocations: false,
+    })
+    expect(getPromptOptions(variant, 'moveByMove')).toEqual({
+      ...variant.options,
+      executionMode: 'moveByMove',
+    })
+    expect(getPromptOptions(undefined, 'fullSolution')).toEqual({
+      ...DEFAULT_PROMPT_VARIANT.options,
+      executionMode: 'fullSolution',
+    })
+  })
+
+  test('picks presets and config variants by name', async () => {
+    const configFile = join(resultsDir, 'run.json')
+    await writeFile(
+      configFile,
+      JSON.stringify({
+        prompts: ['ascii-only', { name: 'careful', specialInstructions: 'Check each push.' }],
+      }),
+    )
+
+    const fromConfig = await parseCliArgs(['-d', 'microban', '-m', 'a', '-c', configFile])
+    const picked = await parseCliArgs([
+      '-d',
+      'microban',
+      '-m',
+      'a',
+      '-c',
+      configFile,
+      '--prompt',
+      'careful',
+    ])
+
+    expect(fromConfig.type === 'headless' && fromConfig.config.promptVariants).toEqual([
+      createPromptVariant('ascii-only', { coordinateLocations: false }),
+      createPromptVariant('careful', {
+        specialInstructions: 'Check each push.',
+        includeSpecialInstructions: true,
+      }),
+    ])
+    expect(picked.type === 'headless' && picked.config.promptVariants?.map((v) => v.name)).toEqual([
+      'careful',
+    ])
+    await expect(parseCliArgs(['-d', 'microban', '-m', 'a', '--prompt', 'nope'])).rejects.toThrow(
+      'Unknown prompt variant "nope"',
+    )
+  })
+
+  test('rejects config variants with options the eval prompt does not read', async () => {
+    const configFile = join(resultsDir, 'bad.json')
+    await writeFile(
+      configFile,
+      JSON.stringify({ prompts: [{ name: 'notation', includeNotationGuide: true }] }),
+    )
+
+    await expect(parseCliArgs(['-d', 'microban', '-m', 'a', '-c', configFile])).rejects.toThrow(
+      'Prompt variant "notation" sets unknown options: includeNotationGuide',
+    )
+  })
+
+  test('runs each variant against every model and summarizes them separately', async () => {
+    const coordinatesOnly = createPromptVariant('coordinates-only', { asciiGrid: false })
+    const run = await runEvaluation(
+      puzzles,
+      ['mock:optimal'],
+      { concurrency: 1, promptVariants: [DEFAULT_PROMPT_VARIANT, coordinatesOnly] },
+      'Microban',
+    )
+
+    expect(run.results.map((r) => [r.puzzleId, r.promptVariant])).toEqual([
+      ['microban-microban-1', 'default'],
+      ['microban-microban-1', 'coordinates-only'],
+      ['microban-microban-2', 'default'],
+      ['microban-microban-2', 'coordinates-only'],
+    ])
+    expect(Object.keys(run.summary.byVariant ?? {})).toEqual(['default', 'coordinates-only'])
+    expect(run.summary.byVariant?.default['mock:optimal'].puzzlesTotal).toBe(2)
+    expect(run.summary.byModel['mock:optimal'].puzzlesTotal).toBe(4)
+  })
+})
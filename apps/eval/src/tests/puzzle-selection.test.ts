@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import { describeSelection, selectPuzzles } from '../puzzle-selection'
+import type { SavedLayout } from '../types'
+
+function createPuzzle(index: number, boxCount: number): SavedLayout {
+  return {
+    id: `p${index}`,
+    name: `Puzzle ${index}`,
+    savedAt: 0,
+    difficulty: 'generated',
+    width: 1,
+    height: 1,
+    terrain: [['floor']],
+    playerStart: { x: 0, y: 0 },
+    boxStarts: Array.from({ length: boxCount }, () => ({ x: 0, y: 0, color: 'orange' as const })),
+    goals: [],
+  }
+}
+
+// Twelve one-box puzzles followed by six two-box puzzles
+const PUZZLES = Array.from({ length: 18 }, (_, i) => createPuzzle(i, i < 12 ? 1 : 2))
+
+function getIds(puzzles: SavedLayout[]): string[] {
+  return puzzles.map((p) => p.id)
+}
+
+describe('puzzle selection', () => {
+  test('takes the first puzzles without a seed', () => {
+    const { puzzles, record } = selectPuzzles(PUZZLES, { limit: 3 })
+
+    expect(getIds(puzzles)).toEqual(['p0', 'p1', 'p2'])
+    expect(record.puzzleIds).toEqual(['p0', 'p1', 'p2'])
+    expect(describeSelection(record)).toBe('Using 3 of 18 puzzles: first puzzles')
+  })
+
+  test('draws the same sample for the same seed, in source order', () => {
+    const first = getIds(selectPuzzles(PUZZLES, { seed: 7, limit: 5 }).puzzles)
+    const second = getIds(selectPuzzles(PUZZLES, { seed: 7, limit: 5 }).puzzles)
+    const other = getIds(selectPuzzles(PUZZLES, { seed: 8, limit: 5 }).puzzles)
+
+    expect(first).toHaveLength(5)
+    expect(second).toEqual(first)
+    expect(other).not.toEqual(first)
+    expect(first).toEqual(getIds(PUZZLES).filter((id) => first.includes(id)))
+  })
+
+  test('keeps each box count its share of a stratified sample', () => {
+    const { puzzles, record } = selectPuzzles(PUZZLES, {
+      seed: 1,
+      stratifyBy: 'boxCount',
+      limit: 6,
+    })
+    const boxCounts = puzzles.map((p) => p.boxStarts.length)
+
+    expect(boxCounts.filter((count) => count === 1)).toHaveLength(4)
+    expect(boxCounts.filter((count) => count === 2)).toHaveLength(2)
+    expect(describeSelection(record)).toBe(
+      'Using 6 of 18 puzzles: random sample (seed 1) stratified by box count',
+    )
+  })
+
+  test('applies id and seen filters before sampling', () => {
+    const { puzzles, record } = selectPuzzles(
+      PUZZLES,
+      { ids: ['p1', 'p2', 'p3', 'p4'], excludeSeen: true, limit: 2 },
+      new Set(['p1']),
+    )
+
+    expect(getIds(puzzles)).toEqual(['p2', 'p3'])
+    expect(record.excludedSeen).toBe(1)
+  })
+})
@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import {
+  executeSolution,
+  savedLayoutToLevel,
+  solvePuzzle,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { loadDataset } from '../datasets'
+import { summarizeResults } from '../eval-runner'
+import { addOptimality, getReferenceSolution } from '../reference-solutions'
+import type { EvalResult, MoveDirection, SavedLayout } from '../types'
+
+function createResult(puzzle: SavedLayout, moves: MoveDirection[]): EvalResult {
+  const execution = executeSolution(savedLayoutToLevel(puzzle), moves)
+  return {
+    puzzleId: puzzle.id,
+    modelId: 'mock:optimal',
+    solved: execution.solved,
+    moves,
+    stepsExecuted: execution.stepsExecuted,
+  } as EvalResult
+}
+
+describe('reference solutions', () => {
+  let puzzle: SavedLayout
+  let solution: MoveDirection[]
+
+  beforeAll(async () => {
+    puzzle = (await loadDataset('microban'))[0]
+    solution = solvePuzzle(savedLayoutToLevel(puzzle), 150000, 'move-optimal').solution ?? []
+  })
+
+  test('finds the move-optimal reference in the solver benchmark cache', async () => {
+    expect(await getReferenceSolution(puzzle)).toEqual({
+      moves: solution.length,
+      pushes: 8,
+      source: 'cache',
+    })
+  })
+
+  test('scores an optimal solve and one with a detour', async () => {
+    // Step down and back before solving: two wasted moves, no extra pushes
+    const detour = await addOptimality(createResult(puzzle, ['DOWN', 'UP', ...solution]), puzzle)
+    const optimal = await addOptimality(createResult(puzzle, solution), puzzle)
+
+    expect(detour.solved).toBe(true)
+    expect(optimal.optimality).toMatchObject({ excessMoves: 0, excessPushes: 0, moveEfficiency: 1 })
+    expect(detour.optimality).toMatchObject({ excessMoves: 2, excessPushes: 0 })
+    expect(detour.optimality?.moveEfficiency).toBeCloseTo(solution.length / (solution.length + 2))
+    expect(detour.optimality?.beatReference).toBeUndefined()
+
+    const { optimality } = summarizeResults(['mock:optimal'], [optimal, detour], {
+      concurrency: 1,
+    })['mock:optimal']
+    expect(optimality).toMatchObject({
+      solvesCompared: 2,
+      optimalSolves: 1,
+      referencesBeaten: 0,
+      avgExcessMoves: 1,
+    })
+  })
+
+  test('leaves unsolved results unscored', async () => {
+    const unsolved = createResult(puzzle, solution.slice(0, 3))
+
+    expect(unsolved.solved).toBe(false)
+    expect(await addOptimality(unsolved, puzzle)).toBe(unsolved)
+  })
+})
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { loadDataset } from '../datasets'
+import { runEvaluation } from '../eval-runner'
+import { loadRunPuzzles, rescoreRun } from '../rescore'
+import { getCheckpointDir } from '../results-storage'
+import type { SavedLayout } from '../types'
+
+describe('rescore', () => {
+  let resultsDir: string
+  let puzzles: SavedLayout[]
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+    puzzles = (await loadDataset('microban')).slice(0, 2)
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+  })
+
+  test('loads each run its own puzzles when runs share a source', async () => {
+    const first = await runEvaluation(
+      [puzzles[0]],
+      ['mock:optimal'],
+      { concurrency: 1 },
+      'Microban',
+    )
+    const second = await runEvaluation(
+      [puzzles[1]],
+      ['mock:optimal'],
+      { concurrency: 1 },
+      'Microban',
+    )
+    const sourceCache = new Map<string, Promise<SavedLayout[]>>()
+
+    const firstPuzzles = await loadRunPuzzles(first, sourceCache)
+    const secondPuzzles = await loadRunPuzzles(second, sourceCache)
+    expect(firstPuzzles.map((p) => p.id)).toEqual([puzzles[0].id])
+    expect(secondPuzzles.map((p) => p.id)).toEqual([puzzles[1].id])
+
+    const { report } = await rescoreRun(second, secondPuzzles)
+    expect(report.resultsSkipped).toBe(0)
+    expect(report.flipped).toEqual([])
+  })
+
+  test('falls back to the whole source without a checkpoint', async () => {
+    const run = await runEvaluation([puzzles[1]], ['mock:optimal'], { concurrency: 1 }, 'Microban')
+    await rm(getCheckpointDir(run.id), { recursive: true })
+
+    const loaded = await loadRunPuzzles(run)
+    expect(loaded.length).toBeGreaterThan(2)
+
+    const { report } = await rescoreRun(run, loaded)
+    expect(report.resultsSkipped).toBe(0)
+  })
+})
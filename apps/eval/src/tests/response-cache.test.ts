@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { savedLayoutToLevel, solvePuzzle } from '@sokoban-eval-toolkit/sokoban-core'
+import { setMockReplies } from '@sokoban-eval-toolkit/utils'
+import { loadDataset } from '../datasets'
+import { runEvaluation } from '../eval-runner'
+import { getResponseCacheDir } from '../response-cache'
+import type { EvalResult, SavedLayout } from '../types'
+
+function getOutcome(result: EvalResult): [boolean, string[], string] {
+  return [result.solved, result.moves, result.rawResponse]
+}
+
+describe('response cache', () => {
+  let resultsDir: string
+  let cacheDir: string
+  let puzzles: SavedLayout[]
+
+  beforeAll(async () => {
+    resultsDir = await mkdtemp(join(tmpdir(), 'eval-results-'))
+    cacheDir = await mkdtemp(join(tmpdir(), 'llm-cache-'))
+    process.env.EVAL_RESULTS_DIR = resultsDir
+    process.env.EVAL_LLM_CACHE_DIR = cacheDir
+    puzzles = (await loadDataset('microban')).slice(0, 2)
+  })
+
+  afterAll(async () => {
+    Reflect.deleteProperty(process.env, 'EVAL_RESULTS_DIR')
+    Reflect.deleteProperty(process.env, 'EVAL_LLM_CACHE_DIR')
+    await rm(resultsDir, { recursive: true, force: true })
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  test('replays recorded replies without calling the model', async () => {
+    const solution = solvePuzzle(savedLayoutToLevel(puzzles[0]), 150000, 'move-optimal').solution
+    setMockReplies([JSON.stringify({ solution })])
+    const recorded = await runEvaluation(
+      [puzzles[0]],
+      ['mock:replay'],
+      { concurrency: 1, cacheMode: 'record' },
+      'Microban',
+    )
+    expect(getResponseCacheDir()).toBe(cacheDir)
+    expect(await readdir(cacheDir)).toHaveLength(1)
+
+    // A different live reply shows the replayed run never reached the model
+    setMockReplies(['{"solution": []}'])
+    const replayed = await runEvaluation(
+      [puzzles[0]],
+      ['mock:replay'],
+      { concurrency: 1, cacheMode: 'replay' },
+      'Microban',
+    )
+
+    expect(recorded.results[0].solved).toBe(true)
+    expect(replayed.results.map(getOutcome)).toEqual(recorded.results.map(getOutcome))
+  })
+
+  test('fails requests with no recorded reply in replay mode', async () => {
+    const run = await runEvaluation(
+      [puzzles[1]],
+      ['mock:optimal'],
+      { concurrency: 1, cacheMode: 'replay' },
+      'Microban',
+    )
+    const [result] = run.results
+
+    expect(result.solved).toBe(false)
+    expect(result.error).toContain('No cached response for this request (replay mode)')
+    expect(result.failureCategory).toBe('apiError')
+  })
+})
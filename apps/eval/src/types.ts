@@ -1,98 +1,84 @@
-// Core position type
-export interface Position {
-  x: number // column (0-indexed)
-  y: number // row (0-indexed)
-}
+import type {
+  DifficultyBucket,
+  ExecutionMode,
+  MoveDirection,
+  SavedLayout,
+  SokobanPromptOptions,
+} from '@sokoban-eval-toolkit/sokoban-core'
 
-// Box colors for visual distinction
-export type BoxColor = 'orange' | 'purple' | 'emerald' | 'sky'
+// Game types shared with the UI and scripts
+export type {
+  Position,
+  BoxColor,
+  Box,
+  CellTerrain,
+  Difficulty,
+  DifficultyMetrics,
+  DifficultyBucket,
+  SokobanLevel,
+  MoveDirection,
+  MoveRecord,
+  GameState,
+  ExecutionMode,
+  PromptOptions,
+  SavedLayout,
+} from '@sokoban-eval-toolkit/sokoban-core'
 
-// Box with position and color
-export interface Box {
-  x: number
-  y: number
-  color: BoxColor
+// Export format from UI
+export interface ExportedPuzzles {
+  exportedAt: number
+  version: 1
+  puzzles: SavedLayout[]
 }
 
-// What's in a cell (static terrain)
-export type CellTerrain = 'floor' | 'wall' | 'goal'
+// What stratified sampling spreads a run's puzzles over
+export type StratifyKey = 'boxCount' | 'difficulty'
 
-// Difficulty levels
-export type Difficulty = 'lmiq-reasoning-easy' | 'classic' | 'classic-hard' | 'microban'
+// How a run picks its puzzles from the source. Steps apply in field order.
+export interface PuzzleSelection {
+  ids?: string[] // Only these puzzle ids
+  excludeSeen?: boolean // Skip puzzles attempted by earlier saved runs on the same source
+  difficulty?: DifficultyBucket[] // Only puzzles the solver grades as these buckets
+  seed?: number // Sample at random with this seed (without one, the first puzzles are taken)
+  stratifyBy?: StratifyKey // Keep each box count or difficulty bucket's share of the sample
+  limit?: number // Puzzles to take
+}
 
-// Movement directions
-export type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
+// The puzzles a run evaluated and how they were chosen, enough to rerun the same subset
+export interface PuzzleSelectionRecord extends PuzzleSelection {
+  sourceCount: number // Puzzles in the source before selection
+  excludedSeen?: number // Puzzles skipped by excludeSeen
+  puzzleIds: string[] // Selected puzzles, in source order
+}
 
-// Saved layout from UI export
-export interface SavedLayout {
-  id: string
+// Prompt options the shared prompt reads. The game UI's coordinateFormat and includeNotationGuide
+// have no effect on it, so variants can't set them.
+export type EvalPromptOptions = SokobanPromptOptions
+
+// Named prompt configuration. The execution mode comes from the run, not the variant.
+export interface PromptVariant {
   name: string
-  savedAt: number
-  order?: number
-  difficulty: Difficulty
-  width: number
-  height: number
-  terrain: CellTerrain[][]
-  playerStart: Position
-  boxStarts: Box[]
-  goals: Position[]
+  options: Omit<EvalPromptOptions, 'executionMode'>
 }
 
-// Export format from UI
-export interface ExportedPuzzles {
-  exportedAt: number
-  version: 1
-  puzzles: SavedLayout[]
+// Chat message sent to or received from a model
+export interface ChatMessage {
+  role: 'user' | 'assistant'
+  content: string
 }
 
-// Game level format (compatible with game engine)
-export interface SokobanLevel {
-  id: string
-  width: number
-  height: number
-  terrain: CellTerrain[][]
-  playerStart: Position
-  boxStarts: Box[]
-  goals: Position[]
-  difficulty: Difficulty
-  fileSource: string
-  puzzleNumber: number
-}
-
-// Move record for tracking history
-export interface MoveRecord {
-  id: string
-  direction: MoveDirection
-  wasPush: boolean
-  previousPlayerPos: Position
-  previousBox?: Box
-  source: 'human' | 'ai'
-  timestamp: number
-}
-
-// Game state during execution
-export interface GameState {
-  level: SokobanLevel
-  playerPos: Position
-  boxes: Box[]
-  moveHistory: MoveRecord[]
-  isWon: boolean
-  moveCount: number
-  pushCount: number
-  startTime: number | null
-  endTime: number | null
-}
-
-// Prompt options for LLM
-export interface PromptOptions {
-  asciiGrid: boolean
-  coordinateFormat: boolean
-  includeNotationGuide: boolean
-  executionMode: 'fullSolution' | 'moveByMove'
-  coordinateLocations: boolean
-  coloredBoxRules: boolean
-  specialInstructions?: string
-  includeSpecialInstructions?: boolean
+// Response cache mode: reuse and store replies, only reuse them (offline), or ignore the cache
+export type CacheMode = 'record' | 'replay' | 'bypass'
+
+// Raw model reply before parsing, as stored in the response cache
+export interface LLMCompletion {
+  content: string
+  nativeReasoning?: string
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cost: number
+  durationMs: number
 }
 
 // LLM response structure
@@ -112,14 +98,75 @@ export interface LLMResponse {
 // Evaluation options
 export interface EvalOptions {
   concurrency: number
+  executionMode?: ExecutionMode // Defaults to 'fullSolution'
+  maxTurns?: number // Turn budget in 'moveByMove' mode
+  samples?: number // Samples per puzzle/model pair (default 1)
+  temperature?: number // Sampling temperature (default 0.3)
+  cacheMode?: CacheMode // Response cache mode (default 'bypass')
+  promptVariants?: PromptVariant[] // Prompt configurations run as a matrix (default prompt if unset)
+}
+
+// One model turn in a multi-turn (moveByMove) evaluation
+export interface TurnRecord {
+  turn: number
+  prompt: string // Message sent to the model this turn
+  rawResponse: string
+  moves: MoveDirection[] // Moves proposed this turn
+  stepsExecuted: number // Valid moves executed this turn
+  error: string | null // Invalid move or parse error, fed back on the next turn
+  recovered: boolean // Made progress right after a failed turn
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  cost: number
+  durationMs: number
 }
 
+// Best known solution for a puzzle, used to measure how efficient a model's solution was
+export interface ReferenceSolution {
+  moves: number
+  pushes: number
+  source: 'cache' | 'solver' // Solver benchmark cache, or solved at eval time
+}
+
+// A solved result compared with the puzzle's reference solution
+export interface OptimalityMetrics {
+  referenceMoves: number
+  referencePushes: number
+  referenceSource: ReferenceSolution['source']
+  pushes: number // Pushes in the model's executed solution
+  excessMoves: number // stepsExecuted - referenceMoves, 0 if the model beat the reference
+  excessPushes: number // Negative if the model used fewer pushes than the reference
+  moveEfficiency: number // referenceMoves / stepsExecuted, at most 1 (matched the reference)
+  beatReference?: boolean // Fewer moves than the reference, so the reference wasn't optimal
+}
+
+// How close an attempt got, measured on the last position its valid moves reached
+export interface PartialCredit {
+  boxesOnGoals: number
+  boxCount: number
+  solvable: boolean | null // Whether the solver can still finish from there (null: it gave up)
+  distanceToGoal: number | null // Solver moves left to a solution, when solvable
+}
+
+// Why an unsolved result failed
+export type FailureCategory =
+  | 'apiError' // No response from the model
+  | 'parseError' // No moves could be parsed from the response
+  | 'wallBump' // Walked or pushed a box into a wall
+  | 'doubleBoxPush' // Pushed a box into another box
+  | 'colorAdjacency' // Pushed a box next to a box of the same color
+  | 'deadlock' // Reached a position the solver detects as unsolvable
+  | 'outOfMoves' // Moves or turns ran out with boxes still off their goals
+
 // Result for one puzzle + one model combination
 export interface EvalResult {
   puzzleId: string
   puzzleName: string
   modelId: string
   modelName: string
+  sampleIndex?: number // 0-based sample number when sampling more than once
+  promptVariant?: string // Prompt variant name when the run compares several
 
   // Outcome
   solved: boolean
@@ -146,18 +193,71 @@ export interface EvalResult {
 
   // Raw response for debugging
   rawResponse: string
+
+  // Per-turn transcript (moveByMove mode only)
+  turns?: TurnRecord[]
+
+  // Solution efficiency (solved results with a known reference solution only)
+  optimality?: OptimalityMetrics
+
+  // Failure classification (unsolved results only)
+  failureCategory?: FailureCategory
+
+  // Progress towards a solution, for solved and unsolved results
+  partialCredit?: PartialCredit
+}
+
+// Solve statistics for one puzzle (under one prompt variant) across repeated samples
+export interface PuzzleSampleStats {
+  puzzleId: string
+  promptVariant?: string
+  samples: number
+  solvedSamples: number
+  variance: number // Bernoulli variance of the solve rate, p * (1 - p)
+}
+
+// Repeated-sampling metrics for a model (only when samples > 1)
+export interface SamplingSummary {
+  samplesPerPuzzle: number
+  temperature: number
+  passAt1: number // Expected solve rate of a single sample
+  passAtK: number // Fraction of puzzles solved by at least one sample (per variant when pooled)
+  majorityVote: number // Fraction of puzzles solved by more than half of the samples
+  avgPuzzleVariance: number
+  byPuzzle: PuzzleSampleStats[]
+}
+
+// Optimality metrics averaged over a model's solved results that have a reference
+export interface OptimalitySummary {
+  solvesCompared: number
+  optimalSolves: number // Solved in no more moves than the reference
+  referencesBeaten: number // Solved in fewer moves than the reference
+  avgExcessMoves: number
+  avgExcessPushes: number
+  avgMoveEfficiency: number
+}
+
+// Partial credit averaged over a model's results
+export interface PartialCreditSummary {
+  avgBoxesOnGoalsRate: number // Fraction of boxes on goals at the end, averaged per result
+  solvableRate: number | null // Fraction of results ending in a solvable position (where decided)
+  avgDistanceToGoal: number | null // Over results ending in a solvable position
 }
 
 // Summary statistics for a model
 export interface ModelSummary {
   modelId: string
   modelName: string
-  puzzlesSolved: number
+  puzzlesSolved: number // Counted per sample when sampling more than once
   puzzlesTotal: number
   avgSolveSteps: number | null
   avgInferenceTimeMs: number
   totalOutputTokens: number
   totalCost: number
+  sampling?: SamplingSummary
+  optimality?: OptimalitySummary
+  failures?: Partial<Record<FailureCategory, number>> // Unsolved results by failure category
+  partialCredit?: PartialCreditSummary
 }
 
 // Full evaluation run
@@ -169,16 +269,67 @@ export interface EvalRun {
   puzzleCount: number
   models: string[]
   options: EvalOptions
+  selection?: PuzzleSelectionRecord // How the puzzles were picked from the source
   results: EvalResult[]
   summary: {
     byModel: Record<string, ModelSummary>
+    byVariant?: Record<string, Record<string, ModelSummary>> // Variant name -> model id -> summary
+    byDifficulty?: Record<string, Record<string, ModelSummary>> // Bucket -> model id -> summary
   }
   status: 'running' | 'completed' | 'failed'
   error?: string
+  rescoredFrom?: {
+    runId: string // Run whose responses were re-scored
+    rescoredAt: number
+  }
+}
+
+// Outcome fields compared when re-scoring a result
+export interface ResultOutcome {
+  solved: boolean
+  stepsExecuted: number
+  error: string | null
+}
+
+// One result whose outcome changed when re-scored
+export interface RescoreChange {
+  puzzleId: string
+  puzzleName: string
+  modelId: string
+  sampleIndex?: number
+  promptVariant?: string
+  before: ResultOutcome
+  after: ResultOutcome
+}
+
+// Diff between a saved run and its re-scored copy
+export interface RescoreReport {
+  sourceRunId: string
+  rescoredRunId: string
+  rescoredAt: number
+  puzzleFile: string
+  models: string[]
+  resultsTotal: number
+  resultsSkipped: number // Results whose puzzle could not be found
+  flipped: RescoreChange[] // Solved status changed
+  changed: RescoreChange[] // Steps or error changed, solved status did not
+}
+
+// Checkpoint metadata for a run in progress (results are appended alongside as JSONL)
+export interface EvalCheckpoint {
+  id: string
+  startedAt: number
+  completedAt: number | null
+  puzzleFile: string
+  models: string[]
+  options: EvalOptions
+  selection?: PuzzleSelectionRecord
+  puzzles: SavedLayout[]
 }
 
 // Progress callback for UI updates
 export interface EvalProgress {
+  runId: string
   currentPuzzle: number
   totalPuzzles: number
   currentModel: string
@@ -186,3 +337,43 @@ export interface EvalProgress {
   status: 'running' | 'success' | 'failed'
   result?: EvalResult
 }
+
+// One model's standing on a dataset with one prompt variant, aggregated over every saved run
+export interface LeaderboardEntry {
+  modelId: string
+  modelName: string
+  promptVariant?: string // Unset for results of runs without prompt variants
+  executionMode: ExecutionMode
+  runs: number
+  puzzles: number // Distinct puzzles attempted
+  puzzlesSolved: number // Puzzles solved in at least one attempt
+  attempts: number // Results, counting every sample and repeated run
+  solved: number // Attempts that solved their puzzle
+  solveRate: number // Mean of the per-puzzle solve rates
+  ciLow: number // 95% Wilson score interval for the solve rate, over puzzles
+  ciHigh: number
+  totalCost: number
+  costPerSolve: number | null
+  tokensPerSolve: number | null
+}
+
+// Head-to-head record of two leaderboard entries on the puzzles both attempted
+export interface HeadToHeadRecord {
+  modelA: string
+  modelB: string
+  promptVariantA?: string
+  promptVariantB?: string
+  executionModeA: ExecutionMode
+  executionModeB: ExecutionMode
+  sharedPuzzles: number
+  winsA: number // Puzzles where A's solve rate beat B's
+  winsB: number
+  ties: number
+}
+
+// Leaderboard for one puzzle source
+export interface DatasetLeaderboard {
+  dataset: string
+  entries: LeaderboardEntry[] // Sorted by solve rate, best first
+  headToHead: HeadToHeadRecord[]
+}
@@ -2,19 +2,24 @@
 /**
  * Benchmark script for the Sokoban solver.
  * Runs the solver against all boxoban medium, hard, and microban levels.
- * Caches solutions to a JSON file for faster subsequent runs.
+ * Caches solutions to a JSON file for faster subsequent runs, and appends each run's
+ * solve rate and nodes explored to benchmark-history.json to track solver progress.
  *
- * Usage: bun run scripts/benchmark-solver.ts
+ * Usage: bun run scripts/benchmark-solver.ts [--set hard] [--limit 100]
+ *   --set    Only run this level set (medium, hard or microban; repeatable)
+ *   --limit  Only run the first N levels of each set (the UI's lite cache is then not rewritten)
  */
 
 import { createHash } from 'node:crypto'
 import { existsSync, readFileSync, writeFileSync } from 'node:fs'
-import { BOXOBAN_HARD_LEVELS_RAW } from '../src/data/boxobanHardLevels'
-import { BOXOBAN_MEDIUM_LEVELS_RAW } from '../src/data/boxobanMediumLevels'
-import { MICROBAN_LEVELS_RAW } from '../src/data/microbanLevels'
-import type { MoveDirection, SokobanLevel } from '../src/types'
-import { levelToAscii, parseLevelFile } from '../src/utils/levelParser'
-import { solvePuzzle } from '../src/utils/sokobanSolver'
+import { parseArgs } from 'node:util'
+import {
+  levelToAscii,
+  movesToLurd,
+  parseLevelFile,
+  solvePuzzle,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { SokobanLevel } from '../src/types'
 
 // Cache file path (same directory as script)
 const CACHE_FILE = new URL('./solution-cache.json', import.meta.url).pathname
@@ -22,11 +27,21 @@ const CACHE_FILE = new URL('./solution-cache.json', import.meta.url).pathname
 // Lite cache file path (in src/data for UI consumption)
 const LITE_CACHE_FILE = new URL('../src/data/solutionCacheLite.json', import.meta.url).pathname
 
+// Level files of the registered datasets (repo-level data/datasets)
+const DATASETS_DIR = new URL('../../../data/datasets/', import.meta.url)
+
+function readLevelFile(name: string): string {
+  return readFileSync(new URL(name, DATASETS_DIR), 'utf8')
+}
+
+// Solve rate and nodes explored of every run, oldest first
+const HISTORY_FILE = new URL('./benchmark-history.json', import.meta.url).pathname
+
 /** Cached solution entry with metadata */
 interface CacheEntry {
   /** Source identifier (e.g., "Boxoban Hard #329") */
   source: string
-  /** Solution as compact string (e.g., "rruulldd") */
+  /** Solution in LURD notation, pushes uppercase (e.g., "rrUUlldd") */
   solution: string | null
   /** Whether the puzzle was solved */
   solved: boolean
@@ -50,7 +65,7 @@ interface SolutionCache {
 }
 
 // Current solver version - bump this to invalidate cache when solver changes
-const SOLVER_VERSION = '3.0.0-push-astar-150k'
+const SOLVER_VERSION = '4.1.0-push-astar-matching-corrals-150k'
 
 // Maximum nodes to explore before giving up
 const MAX_NODES = 150000
@@ -64,27 +79,6 @@ function hashLevel(level: SokobanLevel): string {
   return createHash('sha256').update(ascii).digest('hex').substring(0, 16)
 }
 
-/**
- * Convert MoveDirection[] to compact string notation.
- * u=up, d=down, l=left, r=right
- */
-function movesToString(moves: MoveDirection[]): string {
-  return moves
-    .map((m) => {
-      switch (m) {
-        case 'UP':
-          return 'u'
-        case 'DOWN':
-          return 'd'
-        case 'LEFT':
-          return 'l'
-        case 'RIGHT':
-          return 'r'
-      }
-    })
-    .join('')
-}
-
 /**
  * Load cache from disk, or return empty cache.
  */
@@ -210,7 +204,7 @@ function runBenchmark(
     // Store in cache
     cache[hash] = {
       source: `${sourceName} #${i + 1}`,
-      solution: solverResult.solution ? movesToString(solverResult.solution) : null,
+      solution: solverResult.solution ? movesToLurd(level, solverResult.solution) : null,
       solved: solverResult.solvable,
       hitLimit: solverResult.hitLimit,
       nodesExplored: solverResult.nodesExplored,
@@ -256,7 +250,99 @@ function printSummary(name: string, result: BenchmarkResult) {
   console.log(`Cache hits:       ${result.cacheHits} (${cacheHitPct}%)`)
 }
 
+/** One level set's numbers in a history entry */
+interface HistorySetResult {
+  total: number
+  solved: number
+  hitLimit: number
+  avgNodes: number
+  avgTimeMs: number
+}
+
+/** A benchmark run, as recorded in the history file */
+interface HistoryEntry {
+  date: string
+  solverVersion: string
+  maxNodes: number
+  /** Levels per set, or null for whole sets */
+  limit: number | null
+  sets: Record<string, HistorySetResult>
+}
+
+function loadHistory(): HistoryEntry[] {
+  try {
+    if (existsSync(HISTORY_FILE)) {
+      return JSON.parse(readFileSync(HISTORY_FILE, 'utf-8'))
+    }
+  } catch (_error) {
+    console.warn('Warning: Could not load benchmark history, starting fresh')
+  }
+  return []
+}
+
+function toHistorySetResult(result: BenchmarkResult): HistorySetResult {
+  return {
+    total: result.total,
+    solved: result.solved,
+    hitLimit: result.hitLimit,
+    avgNodes: Math.round(result.totalNodes / result.total),
+    avgTimeMs: Math.round((result.totalTimeMs / result.total) * 100) / 100,
+  }
+}
+
+/**
+ * Print each set's change against the last run of a different solver version on the same
+ * levels, then append this run to the history.
+ */
+function recordHistory(entry: HistoryEntry): void {
+  const history = loadHistory()
+
+  console.log(`\n${'='.repeat(60)}`)
+  console.log('PROGRESS')
+  console.log('='.repeat(60))
+  for (const [name, current] of Object.entries(entry.sets)) {
+    const previous = history.findLast(
+      (h) =>
+        h.solverVersion !== entry.solverVersion &&
+        h.limit === entry.limit &&
+        h.sets[name]?.total === current.total,
+    )?.sets[name]
+    if (!previous) {
+      console.log(`${name}: no earlier solver version on these levels`)
+      continue
+    }
+    const solvedDelta = current.solved - previous.solved
+    const nodesDelta = ((current.avgNodes - previous.avgNodes) / previous.avgNodes) * 100
+    console.log(
+      `${name}: solved ${previous.solved} -> ${current.solved} (${solvedDelta >= 0 ? '+' : ''}${solvedDelta}), ` +
+        `avg nodes ${previous.avgNodes.toLocaleString()} -> ${current.avgNodes.toLocaleString()} ` +
+        `(${nodesDelta >= 0 ? '+' : ''}${nodesDelta.toFixed(1)}%)`,
+    )
+  }
+
+  try {
+    writeFileSync(HISTORY_FILE, `${JSON.stringify([...history, entry], null, 2)}\n`)
+    console.log(`\nHistory saved to ${HISTORY_FILE}`)
+  } catch (error) {
+    console.error('Error saving history:', error)
+  }
+}
+
 // Main
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    set: { type: 'string', multiple: true },
+    limit: { type: 'string' },
+  },
+  strict: true,
+})
+const limit = args.limit ? Number.parseInt(args.limit, 10) : null
+if (limit !== null && !(limit > 0)) {
+  console.error(`Invalid --limit: ${args.limit}`)
+  process.exit(1)
+}
+
 console.log('Sokoban Solver Benchmark')
 console.log('========================\n')
 
@@ -267,35 +353,58 @@ const existingEntries = Object.keys(cache).length
 console.log(`Cache contains ${existingEntries} entries`)
 
 console.log('\nParsing levels...')
-const mediumLevels = parseLevelFile(BOXOBAN_MEDIUM_LEVELS_RAW, 'medium', 'boxoban-medium')
-const hardLevels = parseLevelFile(BOXOBAN_HARD_LEVELS_RAW, 'hard', 'boxoban-hard')
-const microbanLevels = parseLevelFile(MICROBAN_LEVELS_RAW, 'microban', 'microban')
+const levelSets = [
+  {
+    key: 'medium',
+    name: 'Boxoban Medium',
+    short: 'Medium',
+    levels: parseLevelFile(readLevelFile('boxoban-medium.txt'), 'medium', 'boxoban-medium'),
+  },
+  {
+    key: 'hard',
+    name: 'Boxoban Hard',
+    short: 'Hard',
+    levels: parseLevelFile(readLevelFile('boxoban-hard.txt'), 'hard', 'boxoban-hard'),
+  },
+  {
+    key: 'microban',
+    name: 'Microban',
+    short: 'Microban',
+    levels: parseLevelFile(readLevelFile('microban.txt'), 'microban', 'microban'),
+  },
+].filter((set) => !args.set || args.set.includes(set.key))
+
+if (levelSets.length === 0) {
+  console.error(`Unknown --set: ${args.set?.join(', ')} (expected medium, hard or microban)`)
+  process.exit(1)
+}
 
-console.log(
-  `Loaded: ${mediumLevels.length} medium, ${hardLevels.length} hard, ${microbanLevels.length} microban`,
-)
+console.log(`Loaded: ${levelSets.map((set) => `${set.levels.length} ${set.key}`).join(', ')}`)
+if (limit !== null) {
+  console.log(`Running the first ${limit} levels of each set`)
+}
 
 console.log('\nRunning benchmarks (this may take a while)...')
 
 // Run benchmarks
-const mediumResult = runBenchmark('Medium', 'Boxoban Medium', mediumLevels, cache)
-printSummary('Boxoban Medium', mediumResult)
-
-const hardResult = runBenchmark('Hard', 'Boxoban Hard', hardLevels, cache)
-printSummary('Boxoban Hard', hardResult)
-
-const microbanResult = runBenchmark('Microban', 'Microban', microbanLevels, cache)
-printSummary('Microban', microbanResult)
+const results = levelSets.map((set) => {
+  const levels = limit !== null ? set.levels.slice(0, limit) : set.levels
+  const result = runBenchmark(set.short, set.name, levels, cache)
+  printSummary(set.name, result)
+  return { set, result }
+})
 
 // Overall summary
-const totalLevels = mediumResult.total + hardResult.total + microbanResult.total
-const totalSolved = mediumResult.solved + hardResult.solved + microbanResult.solved
-const totalHitLimit = mediumResult.hitLimit + hardResult.hitLimit + microbanResult.hitLimit
-const totalUnsolvable = mediumResult.unsolvable + hardResult.unsolvable + microbanResult.unsolvable
-const totalMoveCount =
-  mediumResult.totalMoveCount + hardResult.totalMoveCount + microbanResult.totalMoveCount
-const totalCacheHits = mediumResult.cacheHits + hardResult.cacheHits + microbanResult.cacheHits
-const totalTime = mediumResult.totalTimeMs + hardResult.totalTimeMs + microbanResult.totalTimeMs
+const sum = (field: keyof BenchmarkResult) =>
+  results.reduce((total, { result }) => total + result[field], 0)
+const totalLevels = sum('total')
+const totalSolved = sum('solved')
+const totalHitLimit = sum('hitLimit')
+const totalUnsolvable = sum('unsolvable')
+const totalNodes = sum('totalNodes')
+const totalMoveCount = sum('totalMoveCount')
+const totalCacheHits = sum('cacheHits')
+const totalTime = sum('totalTimeMs')
 const avgSolutionLen = totalSolved > 0 ? (totalMoveCount / totalSolved).toFixed(1) : 'N/A'
 
 console.log(`\n${'='.repeat(60)}`)
@@ -309,15 +418,27 @@ console.log(
 console.log(
   `Unsolvable:       ${totalUnsolvable} (${((totalUnsolvable / totalLevels) * 100).toFixed(1)}%)`,
 )
+console.log(`Avg nodes/level:  ${Math.round(totalNodes / totalLevels).toLocaleString()}`)
 console.log(`Avg solution len: ${avgSolutionLen} moves`)
 console.log(
   `Cache hits:       ${totalCacheHits} (${((totalCacheHits / totalLevels) * 100).toFixed(1)}%)`,
 )
 console.log(`Total time:       ${(totalTime / 1000).toFixed(2)}s`)
 
+recordHistory({
+  date: new Date().toISOString(),
+  solverVersion: SOLVER_VERSION,
+  maxNodes: MAX_NODES,
+  limit,
+  sets: Object.fromEntries(results.map(({ set, result }) => [set.key, toHistorySetResult(result)])),
+})
+
 // Save updated cache
 const newEntries = Object.keys(cache).length - existingEntries
 console.log(`\nNew solutions cached: ${newEntries}`)
 saveCache(cache)
-saveLiteCache(cache)
+// A partial run would drop the other levels from the UI's cache
+if (limit === null && !args.set) {
+  saveLiteCache(cache)
+}
 console.log('')
@@ -0,0 +1,123 @@
+#!/usr/bin/env bun
+/**
+ * Batch puzzle generator. Runs the in-app generator (reverse play by default) until it has
+ * the requested number of puzzles, then writes them as an XSB collection, hardest first,
+ * with each puzzle's metrics and LURD solution in its comment.
+ *
+ * Usage: bun run scripts/generate-levels.ts [--count 20] [--preset hard-reverse] [--out file.xsb]
+ *   --count     Puzzles to generate (default 10)
+ *   --preset    Generator preset: eval-easy, mixed-custom or hard-reverse (default)
+ *   --boxes, --width, --height, --pulls, --attempts, --min-moves, --max-moves
+ *               Override the preset's settings
+ *   --out       Output file (default: print to stdout)
+ */
+
+import { writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import {
+  type CollectionLevel,
+  exportLevelCollection,
+  movesToLurd,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import {
+  GENERATOR_PRESETS,
+  type GeneratorOptions,
+  type GeneratorPreset,
+  generateLevel,
+} from '../src/utils/levelGenerator'
+
+const { values: args } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    count: { type: 'string' },
+    preset: { type: 'string' },
+    boxes: { type: 'string' },
+    width: { type: 'string' },
+    height: { type: 'string' },
+    pulls: { type: 'string' },
+    attempts: { type: 'string' },
+    'min-moves': { type: 'string' },
+    'max-moves': { type: 'string' },
+    out: { type: 'string' },
+  },
+  strict: true,
+})
+
+const presetName = (args.preset ?? 'hard-reverse') as GeneratorPreset
+if (!GENERATOR_PRESETS[presetName]) {
+  console.error(
+    `Unknown --preset: ${args.preset} (expected ${Object.keys(GENERATOR_PRESETS).join(', ')})`,
+  )
+  process.exit(1)
+}
+
+/** Read a positive integer flag, exiting on anything else */
+function readCount(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number.parseInt(value, 10)
+  if (!(parsed > 0)) {
+    console.error(`Invalid --${name}: ${value}`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+const preset = GENERATOR_PRESETS[presetName]
+const options: GeneratorOptions = {
+  ...preset,
+  boxCount: readCount('boxes', args.boxes) ?? preset.boxCount,
+  width: readCount('width', args.width) ?? preset.width,
+  height: readCount('height', args.height) ?? preset.height,
+  pullCount: readCount('pulls', args.pulls) ?? preset.pullCount,
+  maxAttempts: readCount('attempts', args.attempts) ?? preset.maxAttempts,
+  minMoves: readCount('min-moves', args['min-moves']) ?? preset.minMoves,
+  maxMoves: readCount('max-moves', args['max-moves']) ?? preset.maxMoves,
+}
+const count = readCount('count', args.count) ?? 10
+
+console.error(`Generating ${count} puzzles with preset ${presetName}...`)
+
+const generated: { entry: CollectionLevel; score: number }[] = []
+let failures = 0
+while (generated.length < count) {
+  const startTime = Date.now()
+  const result = await generateLevel(options)
+  if (!result.level || !result.solution || !result.metrics) {
+    failures++
+    console.error(`  no puzzle in range after ${result.attempts} attempts`)
+    if (failures > count * 2) {
+      console.error('Too many failures - try a wider move range or more attempts')
+      process.exit(1)
+    }
+    continue
+  }
+
+  const { moves, pushes, boxSwitches, touchingBoxes, score } = result.metrics
+  const lurd = movesToLurd(result.level, result.solution)
+  generated.push({
+    entry: {
+      level: result.level,
+      comment: `Score ${score}: ${moves} moves, ${pushes} pushes, ${boxSwitches} box switches, ${touchingBoxes} touching boxes\nSolution: ${lurd}`,
+    },
+    score,
+  })
+  console.error(
+    `  #${generated.length}: score ${score}, ${moves} moves, ${pushes} pushes (${Date.now() - startTime}ms)`,
+  )
+}
+
+generated.sort((a, b) => b.score - a.score)
+const xsb = exportLevelCollection(
+  {
+    title: `Generated (${presetName})`,
+    levels: generated.map(({ entry }, i) => ({ ...entry, title: `${i + 1}` })),
+  },
+  'xsb',
+)
+
+if (args.out) {
+  writeFileSync(args.out, xsb)
+  console.error(`Wrote ${generated.length} puzzles to ${args.out}`)
+} else {
+  process.stdout.write(xsb)
+}
@@ -1,13 +1,20 @@
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { SokobanGame } from './SokobanGame'
+import { EvalDashboard } from './components/EvalDashboard'
 
 function App() {
+  const [view, setView] = useState<'game' | 'evals'>('game')
+
   // Apply dark mode to document
   useEffect(() => {
     document.documentElement.classList.add('dark')
   }, [])
 
-  return <SokobanGame />
+  if (view === 'evals') {
+    return <EvalDashboard onClose={() => setView('game')} />
+  }
+
+  return <SokobanGame onOpenEvalResults={() => setView('evals')} />
 }
 
 export default App
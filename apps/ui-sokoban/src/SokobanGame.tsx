@@ -1,3 +1,10 @@
+import {
+  getBoxesOnGoalsCount,
+  hasMultipleColors,
+  levelToAscii,
+  movesToLurd,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { SolverMode } from '@sokoban-eval-toolkit/sokoban-core'
 import {
   Card,
   CardContent,
@@ -6,10 +13,18 @@ import {
 } from '@sokoban-eval-toolkit/ui-library/components/card'
 import { BOX_COLORS, MOVE_KEYS } from '@src/constants'
 import { useEditMode, useGameState, useLayoutPersistence } from '@src/hooks'
-import type { HumanSession, MoveDirection, SokobanLevel } from '@src/types'
-import { getBoxesOnGoalsCount } from '@src/utils/gameEngine'
-import { getLmiqLevel } from '@src/utils/levelLoader'
+import type { DifficultyMetrics, HumanSession, MoveDirection, SokobanLevel } from '@src/types'
+import { DATASETS, getDatasetLevel } from '@src/utils/levelLoader'
+import type { ColoredSolverResult } from '@src/utils/simpleSolver'
 import { type SolutionResult, getSolution } from '@src/utils/solutionCache'
+import {
+  COLORED_SOLVER_STATE_LIMIT,
+  type SolverProgress,
+  analyzeInWorker,
+  coloredSolveInWorker,
+  isSolverCancelled,
+} from '@src/utils/solverClient'
+import { BarChart3 } from 'lucide-react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { AIPanel } from './components/AIPanel'
 import { ControlPanel } from './components/ControlPanel'
@@ -17,7 +32,11 @@ import { ErrorBoundary } from './components/ErrorBoundary'
 import { LevelSelector } from './components/LevelSelector'
 import { SokobanGrid } from './components/SokobanGrid'
 
-export function SokobanGame() {
+interface SokobanGameProps {
+  onOpenEvalResults?: () => void
+}
+
+export function SokobanGame({ onOpenEvalResults }: SokobanGameProps) {
   const [isEditing, setIsEditing] = useState(true)
   const [coloredBoxRules, setColoredBoxRules] = useState(false)
   const initialLoadDone = useRef(false)
@@ -55,6 +74,18 @@ export function SokobanGame() {
     isEditing,
   })
 
+  // Difficulty analysis, kept with the board (level ASCII) it was measured on so an edit
+  // hides it
+  const [analysis, setAnalysis] = useState<{
+    boardKey: string
+    metrics: DifficultyMetrics
+  } | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const analyzeControllerRef = useRef<AbortController | null>(null)
+  const level = gameState?.level
+  const boardKey = useMemo(() => (level ? levelToAscii(level) : null), [level])
+  const difficultyMetrics = analysis?.boardKey === boardKey ? analysis.metrics : null
+
   // Use custom hook for layout persistence
   const {
     savedLayouts,
@@ -67,9 +98,13 @@ export function SokobanGame() {
     handleRenameLayout,
   } = useLayoutPersistence({
     gameState,
+    difficultyMetrics,
     onLayoutLoad: (level: SokobanLevel) => {
       handleLevelLoad(level)
       setLayoutName(level.id.replace('saved-', ''))
+      if (level.difficultyMetrics) {
+        setAnalysis({ boardKey: levelToAscii(level), metrics: level.difficultyMetrics })
+      }
     },
   })
 
@@ -78,31 +113,95 @@ export function SokobanGame() {
 
   // Solution state management
   const [solution, setSolution] = useState<SolutionResult | null>(null)
+  const [coloredResult, setColoredResult] = useState<ColoredSolverResult | null>(null)
   const [isSolving, setIsSolving] = useState(false)
+  const [solveProgress, setSolveProgress] = useState<SolverProgress | null>(null)
+  const [solverMode, setSolverMode] = useState<SolverMode>('fast')
   const lastSolvedLevelId = useRef<string | null>(null)
+  const solveControllerRef = useRef<AbortController | null>(null)
 
-  // Reset solution when level changes
+  // Reset solution when level changes, stopping any solver still working on the old one
   useEffect(() => {
     if (gameState?.level.id !== lastSolvedLevelId.current) {
+      solveControllerRef.current?.abort()
+      analyzeControllerRef.current?.abort()
       setSolution(null)
+      setColoredResult(null)
     }
   }, [gameState?.level.id])
 
+  // Stop the solver workers on unmount
+  useEffect(
+    () => () => {
+      solveControllerRef.current?.abort()
+      analyzeControllerRef.current?.abort()
+    },
+    [],
+  )
+
   const handleComputeSolution = useCallback(() => {
     if (!gameState?.level || isSolving) return
 
+    const controller = new AbortController()
+    solveControllerRef.current = controller
     setIsSolving(true)
+    setSolveProgress(null)
     lastSolvedLevelId.current = gameState.level.id
-    getSolution(gameState.level)
-      .then(setSolution)
-      .finally(() => setIsSolving(false))
-  }, [gameState?.level, isSolving])
+
+    const jobOptions = { onProgress: setSolveProgress, signal: controller.signal }
+    // With colored rules on, the colored solver checks the current position instead
+    const job =
+      coloredBoxRules && hasMultipleColors(gameState.boxes)
+        ? coloredSolveInWorker(gameState, COLORED_SOLVER_STATE_LIMIT, jobOptions).then(
+            setColoredResult,
+          )
+        : getSolution(gameState.level, { mode: solverMode, ...jobOptions }).then(setSolution)
+
+    job
+      .catch((err) => {
+        if (!isSolverCancelled(err)) console.error('Solver failed:', err)
+      })
+      .finally(() => {
+        if (solveControllerRef.current !== controller) return
+        solveControllerRef.current = null
+        setIsSolving(false)
+        setSolveProgress(null)
+      })
+  }, [gameState, isSolving, solverMode, coloredBoxRules])
+
+  const handleCancelSolution = useCallback(() => {
+    solveControllerRef.current?.abort()
+  }, [])
+
+  const handleAnalyzeDifficulty = useCallback(() => {
+    if (!gameState?.level || !boardKey || isAnalyzing) return
+
+    const controller = new AbortController()
+    analyzeControllerRef.current = controller
+    setIsAnalyzing(true)
+
+    analyzeInWorker(gameState.level, { signal: controller.signal })
+      .then((metrics) => setAnalysis({ boardKey, metrics }))
+      .catch((err) => {
+        if (!isSolverCancelled(err)) console.error('Difficulty analysis failed:', err)
+      })
+      .finally(() => {
+        if (analyzeControllerRef.current !== controller) return
+        analyzeControllerRef.current = null
+        setIsAnalyzing(false)
+      })
+  }, [gameState, boardKey, isAnalyzing])
 
   const solutionMoves = useMemo(() => {
     if (!solution?.found || !gameState) return null
     return solution.solution
   }, [solution, gameState])
 
+  const solutionLurd = useMemo(
+    () => (solutionMoves && level ? movesToLurd(level, solutionMoves) : null),
+    [solutionMoves, level],
+  )
+
   // Human session state management
   const [humanSession, setHumanSession] = useState<HumanSession | null>(null)
   const sessionLevelIdRef = useRef<string | null>(null)
@@ -185,12 +284,12 @@ export function SokobanGame() {
     }
   }, [gameState?.isWon, humanSession?.isActive, handleEndSession])
 
-  // Load first LMIQ puzzle on mount
+  // Load the first puzzle of the first dataset on mount
   useEffect(() => {
     if (initialLoadDone.current) return
     initialLoadDone.current = true
 
-    const level = getLmiqLevel(0)
+    const level = DATASETS[0] ? getDatasetLevel(DATASETS[0].id, 0) : null
     if (level) {
       handleLevelLoad(level)
     }
@@ -302,10 +401,21 @@ export function SokobanGame() {
       {/* Left Sidebar - Controls */}
       <div className="flex-shrink-0 h-full p-4">
         <Card className="h-full flex flex-col min-h-0 w-80">
-          <CardHeader className="flex-shrink-0 pb-3">
+          <CardHeader className="flex-shrink-0 pb-3 flex-row items-center justify-between space-y-0">
             <CardTitle className="text-sm font-semibold uppercase tracking-wider">
               Sokoban Controls
             </CardTitle>
+            {onOpenEvalResults && (
+              <button
+                type="button"
+                onClick={onOpenEvalResults}
+                className="flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+                title="Browse eval results"
+              >
+                <BarChart3 className="w-3.5 h-3.5" />
+                Eval Results
+              </button>
+            )}
           </CardHeader>
           <CardContent className="flex-1 overflow-y-auto space-y-4 min-h-0">
             <LevelSelector
@@ -314,11 +424,20 @@ export function SokobanGame() {
               onEditingChange={setIsEditing}
               solution={solution}
               isSolving={isSolving}
+              solveProgress={solveProgress}
               onComputeSolution={handleComputeSolution}
+              onCancelSolution={handleCancelSolution}
+              coloredResult={coloredResult}
               onRunSolution={solutionMoves ? () => handleRunSolution(solutionMoves) : undefined}
               canRunSolution={
                 !!solutionMoves && gameState?.moveHistory.length === 0 && !isPlayingSolution
               }
+              solutionLurd={solutionLurd}
+              solverMode={solverMode}
+              onSolverModeChange={setSolverMode}
+              difficultyMetrics={difficultyMetrics}
+              isAnalyzing={isAnalyzing}
+              onAnalyzeDifficulty={handleAnalyzeDifficulty}
             />
             <ControlPanel
               state={gameState}
@@ -338,6 +457,10 @@ export function SokobanGame() {
               humanSession={humanSession}
               onStartSession={handleStartSession}
               onEndSession={handleEndSession}
+              onPlaySolution={(moves) => {
+                handleReset()
+                handleRunSolution(moves)
+              }}
             />
           </CardContent>
         </Card>
@@ -1,3 +1,8 @@
+import {
+  generateSokobanPrompt,
+  levelToAsciiWithCoords,
+  movesToLurd,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import { Button } from '@sokoban-eval-toolkit/ui-library/components/button'
 import {
   Card,
@@ -31,9 +36,7 @@ import type {
   PromptOptions,
   SessionMetrics,
 } from '@src/types'
-import { levelToAsciiWithCoords } from '@src/utils/levelParser'
-import { DEFAULT_PROMPT_OPTIONS, generateSokobanPrompt } from '@src/utils/promptGeneration'
-import { movesToNotation } from '@src/utils/solutionValidator'
+import { DEFAULT_PROMPT_OPTIONS } from '@src/utils/promptGeneration'
 import { AlertCircle, Copy } from 'lucide-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { v4 as uuidv4 } from 'uuid'
@@ -425,7 +428,7 @@ export function AIPanel({
       parts.push(`Proposed Moves (${storedSolution.length} total):`)
       parts.push(storedSolution.join(', '))
       parts.push('')
-      parts.push(`Sokoban Notation: ${movesToNotation(storedSolution)}`)
+      parts.push(`LURD: ${movesToLurd(state.level, storedSolution)}`)
     } else {
       parts.push('(No moves parsed from response)')
     }
@@ -1,16 +1,27 @@
+import {
+  historyToLurd,
+  isSimpleDeadlock,
+  lurdToMoves,
+  validateLurdSolution,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import { Button } from '@sokoban-eval-toolkit/ui-library/components/button'
 import { Separator } from '@sokoban-eval-toolkit/ui-library/components/separator'
-import type { GameState, HumanSession } from '@src/types'
-import { isSimpleDeadlock } from '@src/utils/gameEngine'
-import { type SavedLayout, downloadAllLayouts } from '@src/utils/layoutStorage'
+import type { GameState, HumanSession, MoveDirection } from '@src/types'
+import {
+  type SavedLayout,
+  downloadAllLayouts,
+  downloadAllLayoutsAs,
+} from '@src/utils/layoutStorage'
 import {
   AlertTriangle,
   Check,
   ChevronLeft,
   ChevronRight,
+  Copy,
   Download,
   GripVertical,
   Pencil,
+  Play,
   Trash2,
   X,
 } from 'lucide-react'
@@ -33,6 +44,8 @@ interface ControlPanelProps {
   humanSession?: HumanSession | null
   onStartSession?: () => void
   onEndSession?: () => void
+  // Replays an imported solution from the start
+  onPlaySolution?: (moves: MoveDirection[]) => void
 }
 
 export function ControlPanel({
@@ -50,6 +63,7 @@ export function ControlPanel({
   humanSession,
   onStartSession,
   onEndSession,
+  onPlaySolution,
 }: ControlPanelProps) {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null)
@@ -61,6 +75,36 @@ export function ControlPanel({
 
   const hasDeadlock = state ? isSimpleDeadlock(state) : false
 
+  // Played moves (human, AI or solver) in LURD notation, and a pasted solution to replay
+  const playedLurd = state ? historyToLurd(state.moveHistory) : ''
+  const [copiedLurd, setCopiedLurd] = useState(false)
+  const [importedLurd, setImportedLurd] = useState('')
+  const [lurdMessage, setLurdMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const handleCopyLurd = async () => {
+    try {
+      await navigator.clipboard.writeText(playedLurd)
+      setCopiedLurd(true)
+      setTimeout(() => setCopiedLurd(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy:', err)
+    }
+  }
+
+  const handlePlayLurd = () => {
+    if (!state || !onPlaySolution) return
+    const result = validateLurdSolution(state.level, importedLurd)
+    if (!result.valid) {
+      setLurdMessage({ text: result.error ?? 'Invalid solution', isError: true })
+      return
+    }
+    setLurdMessage({
+      text: `${result.moves} moves, ${result.pushes} pushes${result.solved ? '' : ' - does not solve the level'}`,
+      isError: !result.solved,
+    })
+    onPlaySolution(lurdToMoves(importedLurd))
+  }
+
   // Session elapsed time with live update
   const [sessionTick, setSessionTick] = useState(0)
 
@@ -161,6 +205,67 @@ export function ControlPanel({
         </>
       )}
 
+      {/* Solution export and import (LURD) */}
+      {state && (
+        <>
+          <Separator />
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                Solution (LURD)
+              </span>
+              <Button
+                onClick={handleCopyLurd}
+                disabled={!playedLurd}
+                size="sm"
+                variant="secondary"
+                className="h-6 px-2 text-[10px]"
+                title="Copy the played moves, pushes uppercase"
+              >
+                <Copy className="w-3 h-3 mr-1" />
+                {copiedLurd ? 'Copied!' : 'Copy Moves'}
+              </Button>
+            </div>
+            {playedLurd && (
+              <div className="text-[10px] font-mono text-muted-foreground break-all max-h-16 overflow-y-auto">
+                {playedLurd}
+              </div>
+            )}
+            {onPlaySolution && (
+              <div className="flex gap-1.5">
+                <input
+                  type="text"
+                  placeholder="Paste a LURD solution..."
+                  value={importedLurd}
+                  onChange={(e) => {
+                    setImportedLurd(e.target.value)
+                    setLurdMessage(null)
+                  }}
+                  className="flex-1 min-w-0 h-7 px-2 text-xs font-mono bg-background border border-border rounded focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                <Button
+                  onClick={handlePlayLurd}
+                  disabled={!importedLurd.trim()}
+                  size="sm"
+                  variant="secondary"
+                  className="h-7 px-2 text-xs"
+                  title="Check the solution against this level and replay it"
+                >
+                  <Play className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
+            {lurdMessage && (
+              <div
+                className={`text-[10px] ${lurdMessage.isError ? 'text-destructive' : 'text-green-500'}`}
+              >
+                {lurdMessage.text}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
       {/* Saved Layouts section */}
       {onSaveLayout && onLoadLayout && onDeleteLayout && (
         <>
@@ -252,15 +357,35 @@ export function ControlPanel({
             {/* Saved layouts list */}
             {/* Export All button */}
             {savedLayouts.length > 0 && (
-              <Button
-                onClick={downloadAllLayouts}
-                size="sm"
-                variant="outline"
-                className="w-full h-7 text-xs gap-1.5"
-              >
-                <Download className="w-3 h-3" />
-                Export All ({savedLayouts.length})
-              </Button>
+              <div className="flex gap-1.5">
+                <Button
+                  onClick={downloadAllLayouts}
+                  size="sm"
+                  variant="outline"
+                  className="flex-1 h-7 text-xs gap-1.5"
+                >
+                  <Download className="w-3 h-3" />
+                  Export All ({savedLayouts.length})
+                </Button>
+                <Button
+                  onClick={() => downloadAllLayoutsAs('xsb')}
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2 text-xs"
+                  title="Export as an XSB (.sok) level collection"
+                >
+                  .sok
+                </Button>
+                <Button
+                  onClick={() => downloadAllLayoutsAs('slc')}
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2 text-xs"
+                  title="Export as an SLC (XML) level collection"
+                >
+                  .slc
+                </Button>
+              </div>
             )}
 
             {savedLayouts.length > 0 ? (
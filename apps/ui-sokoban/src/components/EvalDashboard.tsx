@@ -0,0 +1,352 @@
+import { getCurrentRuns } from '@sokoban-eval-toolkit/sokoban-core'
+import { Button } from '@sokoban-eval-toolkit/ui-library/components/button'
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from '@sokoban-eval-toolkit/ui-library/components/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@sokoban-eval-toolkit/ui-library/components/select'
+import {
+  type EvalFiles,
+  buildEvalMatrix,
+  getCellKey,
+  getModelStats,
+  getPuzzleSources,
+  loadRepoEvalFiles,
+  mergeEvalFiles,
+  readEvalFiles,
+  resolveEvalLevel,
+} from '@src/utils/evalResults'
+import { ArrowLeft, FolderOpen, Upload } from 'lucide-react'
+import { useMemo, useRef, useState } from 'react'
+import { EvalReplay } from './EvalReplay'
+
+const EMPTY_FILES: EvalFiles = { runs: [], puzzles: [], errors: [] }
+
+interface EvalDashboardProps {
+  onClose: () => void
+}
+
+/**
+ * Format cost in dollars.
+ */
+function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+/**
+ * Format duration in milliseconds to human readable.
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  const seconds = ms / 1000
+  if (seconds < 60) return `${seconds.toFixed(1)}s`
+  return `${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60)}s`
+}
+
+export function EvalDashboard({ onClose }: EvalDashboardProps) {
+  const [files, setFiles] = useState<EvalFiles>(EMPTY_FILES)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedSource, setSelectedSource] = useState<string | null>(null)
+  const [selectedCell, setSelectedCell] = useState<{ puzzleId: string; modelId: string } | null>(
+    null,
+  )
+  const [sampleIndex, setSampleIndex] = useState(0)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const runs = useMemo(() => getCurrentRuns(files.runs), [files.runs])
+  const sources = useMemo(() => getPuzzleSources(runs), [runs])
+  const source = selectedSource && sources.includes(selectedSource) ? selectedSource : sources[0]
+
+  const results = useMemo(
+    () => runs.filter((run) => run.puzzleFile === source).flatMap((run) => run.results),
+    [runs, source],
+  )
+  const modelStats = useMemo(() => getModelStats(results), [results])
+  const matrix = useMemo(() => buildEvalMatrix(results), [results])
+
+  const cellResults = selectedCell
+    ? (matrix.cells.get(getCellKey(selectedCell.puzzleId, selectedCell.modelId)) ?? [])
+    : []
+  const selectedResult = cellResults[Math.min(sampleIndex, cellResults.length - 1)]
+  const selectedLevel = useMemo(
+    () => (selectedCell ? resolveEvalLevel(selectedCell.puzzleId, files.puzzles) : null),
+    [selectedCell, files.puzzles],
+  )
+
+  const addFiles = async (load: () => Promise<EvalFiles>) => {
+    setIsLoading(true)
+    try {
+      const added = await load()
+      setFiles((current) => mergeEvalFiles(current, added))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="h-screen bg-background flex flex-col text-foreground overflow-hidden p-4 gap-4">
+      {/* Header */}
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <Button onClick={onClose} size="sm" variant="secondary" className="h-8 px-2 text-xs">
+          <ArrowLeft className="w-3.5 h-3.5 mr-1" />
+          Back to Game
+        </Button>
+        <h1 className="text-[13px] font-semibold uppercase tracking-[0.2em] text-muted-foreground mx-2">
+          Eval Results
+        </h1>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const picked = e.target.files
+            if (picked && picked.length > 0) {
+              addFiles(() => readEvalFiles(picked))
+            }
+            e.target.value = ''
+          }}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          size="sm"
+          variant="secondary"
+          className="h-8 px-2 text-xs"
+          title="Load EvalRun JSON files and puzzle exports"
+        >
+          <Upload className="w-3.5 h-3.5 mr-1" />
+          Open Files
+        </Button>
+        <Button
+          onClick={() => addFiles(loadRepoEvalFiles)}
+          disabled={isLoading}
+          size="sm"
+          variant="secondary"
+          className="h-8 px-2 text-xs"
+          title="Load data/eval-results from this repository"
+        >
+          <FolderOpen className="w-3.5 h-3.5 mr-1" />
+          Load Repo Results
+        </Button>
+
+        {sources.length > 0 && (
+          <Select
+            value={source}
+            onValueChange={(value) => {
+              setSelectedSource(value)
+              setSelectedCell(null)
+            }}
+          >
+            <SelectTrigger className="h-8 text-xs w-56 ml-auto">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sources.map((s) => (
+                <SelectItem key={s} value={s} className="text-xs">
+                  {s}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <span className="text-[11px] text-muted-foreground">
+          {runs.length} run file{runs.length !== 1 ? 's' : ''} · {files.puzzles.length} custom
+          puzzles
+        </span>
+      </div>
+
+      {files.errors.length > 0 && (
+        <div className="text-[11px] text-amber-500 flex-shrink-0">
+          Skipped: {files.errors.join(', ')}
+        </div>
+      )}
+
+      {runs.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+          Open exported eval run files (data/eval-results/*.json) to compare models.
+        </div>
+      ) : (
+        <>
+          {/* Per-model stats */}
+          <Card className="flex-shrink-0">
+            <CardContent className="p-3 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-medium py-1 pr-4">Model</th>
+                    <th className="font-medium py-1 pr-4">Solved</th>
+                    <th className="font-medium py-1 pr-4">Solve Rate</th>
+                    <th className="font-medium py-1 pr-4">Total Cost</th>
+                    <th className="font-medium py-1 pr-4">Cost / Puzzle</th>
+                    <th className="font-medium py-1 pr-4">Total Tokens</th>
+                    <th className="font-medium py-1 pr-4">Avg Output Tokens</th>
+                    <th className="font-medium py-1">Avg Latency</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {modelStats.map((stats) => (
+                    <tr key={stats.modelId} className="border-t border-border/50">
+                      <td className="py-1 pr-4 font-sans">{stats.modelName}</td>
+                      <td className="py-1 pr-4">
+                        {stats.solved}/{stats.total}
+                      </td>
+                      <td className="py-1 pr-4">
+                        <div className="flex items-center gap-2">
+                          <div className="w-16 h-1.5 bg-muted rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-green-500"
+                              style={{ width: `${stats.solveRate * 100}%` }}
+                            />
+                          </div>
+                          {Math.round(stats.solveRate * 100)}%
+                        </div>
+                      </td>
+                      <td className="py-1 pr-4">{formatCost(stats.totalCost)}</td>
+                      <td className="py-1 pr-4">{formatCost(stats.avgCost)}</td>
+                      <td className="py-1 pr-4">{stats.totalTokens.toLocaleString()}</td>
+                      <td className="py-1 pr-4">
+                        {Math.round(stats.avgOutputTokens).toLocaleString()}
+                      </td>
+                      <td className="py-1">{formatDuration(stats.avgLatencyMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <div className="flex-1 flex gap-4 min-h-0">
+            {/* Puzzle x model matrix */}
+            <Card className="flex-1 flex flex-col min-h-0 min-w-0">
+              <CardHeader className="flex-shrink-0 pb-2">
+                <CardTitle className="text-sm font-semibold uppercase tracking-wider">
+                  Puzzles × Models
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex-1 overflow-auto min-h-0">
+                <table className="text-xs border-separate border-spacing-0.5">
+                  <thead>
+                    <tr>
+                      <th />
+                      {matrix.models.map((model) => (
+                        <th
+                          key={model.id}
+                          className="font-medium text-muted-foreground px-1 max-w-24 truncate"
+                          title={model.id}
+                        >
+                          {model.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.puzzles.map((puzzle) => (
+                      <tr key={puzzle.id}>
+                        <td className="pr-2 text-muted-foreground whitespace-nowrap">
+                          {puzzle.name}
+                        </td>
+                        {matrix.models.map((model) => {
+                          const cell = matrix.cells.get(getCellKey(puzzle.id, model.id)) ?? []
+                          const solved = cell.filter((r) => r.solved).length
+                          const isSelected =
+                            selectedCell?.puzzleId === puzzle.id &&
+                            selectedCell.modelId === model.id
+                          if (cell.length === 0) {
+                            return <td key={model.id} className="bg-muted/20 rounded" />
+                          }
+                          return (
+                            <td key={model.id} className="p-0">
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setSelectedCell({ puzzleId: puzzle.id, modelId: model.id })
+                                  setSampleIndex(0)
+                                }}
+                                className={`w-full h-6 min-w-12 rounded font-mono text-[11px] transition-colors ${
+                                  solved === cell.length
+                                    ? 'bg-green-500/25 text-green-400 hover:bg-green-500/40'
+                                    : solved > 0
+                                      ? 'bg-amber-500/25 text-amber-400 hover:bg-amber-500/40'
+                                      : 'bg-red-500/20 text-red-400 hover:bg-red-500/35'
+                                } ${isSelected ? 'ring-2 ring-primary' : ''}`}
+                                title={cell[0]?.error ?? 'Solved'}
+                              >
+                                {cell.length > 1
+                                  ? `${solved}/${cell.length}`
+                                  : solved > 0
+                                    ? '✓'
+                                    : '✗'}
+                              </button>
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            {/* Replay of the selected cell */}
+            {selectedCell && selectedResult && (
+              <Card className="flex-shrink-0 flex flex-col min-h-0 w-[480px]">
+                <CardHeader className="flex-shrink-0 pb-2">
+                  <CardTitle className="text-sm font-semibold uppercase tracking-wider">
+                    {selectedResult.puzzleName}
+                  </CardTitle>
+                  <div className="text-[11px] text-muted-foreground">
+                    {selectedResult.modelName} · {selectedResult.stepsExecuted}/
+                    {selectedResult.solutionLength} steps ·{' '}
+                    {formatDuration(selectedResult.inferenceTimeMs)} ·{' '}
+                    {formatCost(selectedResult.cost)}
+                  </div>
+                  {cellResults.length > 1 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {cellResults.map((r, index) => (
+                        <button
+                          key={`${r.sampleIndex ?? 0}-${index}`}
+                          type="button"
+                          onClick={() => setSampleIndex(index)}
+                          className={`h-5 px-1.5 rounded text-[10px] ${
+                            r.solved ? 'text-green-400' : 'text-red-400'
+                          } ${index === sampleIndex ? 'bg-primary/20' : 'bg-muted/40'}`}
+                        >
+                          #{index + 1}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="flex-1 overflow-y-auto min-h-0">
+                  {selectedLevel ? (
+                    <EvalReplay
+                      // Remount per result so playback starts over
+                      key={`${selectedCell.puzzleId}::${selectedCell.modelId}::${sampleIndex}`}
+                      result={selectedResult}
+                      level={selectedLevel}
+                    />
+                  ) : (
+                    <div className="text-xs text-muted-foreground text-center py-8">
+                      Puzzle {selectedCell.puzzleId} not found. Open the puzzle export this run used
+                      to replay it.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import { Button } from '@sokoban-eval-toolkit/ui-library/components/button'
+import { AI_MOVE_DELAY } from '@src/constants'
+import type { EvalResult, SokobanLevel } from '@src/types'
+import { buildEvalReplay } from '@src/utils/evalResults'
+import { ChevronLeft, ChevronRight, Pause, Play, SkipBack, SkipForward } from 'lucide-react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { SokobanGrid } from './SokobanGrid'
+
+// Short labels for the move list
+const MOVE_ARROWS = { UP: '↑', DOWN: '↓', LEFT: '←', RIGHT: '→' } as const
+
+interface EvalReplayProps {
+  result: EvalResult
+  level: SokobanLevel
+}
+
+export function EvalReplay({ result, level }: EvalReplayProps) {
+  const replay = useMemo(() => buildEvalReplay(level, result), [level, result])
+  // A replay ending on a rejected move stops on the board that rejected it
+  const lastStep = replay.moves.at(-1)?.rejection ? replay.moves.length - 1 : replay.moves.length
+  const rejected = replay.moves.filter((m) => m.rejection)
+  const [step, setStep] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  // Advance one move per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return
+    if (step >= lastStep) {
+      setIsPlaying(false)
+      return
+    }
+    const timeout = setTimeout(() => setStep((s) => s + 1), AI_MOVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [isPlaying, step, lastStep])
+
+  const state = replay.states[step]
+  const rejection = replay.moves[step]?.rejection
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <SokobanGrid
+        state={state}
+        highlightedCells={rejection ? [state.playerPos, rejection.cell] : []}
+        highlightColor="rgb(239 68 68 / 0.35)"
+      />
+
+      {/* Playback controls */}
+      <div className="flex items-center gap-1">
+        <Button
+          onClick={() => setStep(0)}
+          disabled={step === 0}
+          size="sm"
+          variant="secondary"
+          className="h-7 px-1.5"
+          title="First step"
+        >
+          <SkipBack className="w-3.5 h-3.5" />
+        </Button>
+        <Button
+          onClick={() => setStep((s) => Math.max(0, s - 1))}
+          disabled={step === 0}
+          size="sm"
+          variant="secondary"
+          className="h-7 px-1.5"
+          title="Previous step"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={() => {
+            if (step >= lastStep) setStep(0)
+            setIsPlaying(!isPlaying)
+          }}
+          disabled={lastStep === 0}
+          size="sm"
+          className="h-7 px-2 text-xs w-16"
+        >
+          {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </Button>
+        <Button
+          onClick={() => setStep((s) => Math.min(lastStep, s + 1))}
+          disabled={step >= lastStep}
+          size="sm"
+          variant="secondary"
+          className="h-7 px-1.5"
+          title="Next step"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={() => setStep(lastStep)}
+          disabled={step >= lastStep}
+          size="sm"
+          variant="secondary"
+          className="h-7 px-1.5"
+          title="Last step"
+        >
+          <SkipForward className="w-3.5 h-3.5" />
+        </Button>
+        <span className="text-[11px] text-muted-foreground font-mono ml-2">
+          {step}/{replay.moves.length}
+        </span>
+      </div>
+
+      {/* Outcome */}
+      <div className="text-xs text-center">
+        {result.solved ? (
+          <span className="text-green-500 font-medium">Solved in {result.stepsExecuted} moves</span>
+        ) : (
+          <span className="text-red-500">
+            {!result.turns && rejected[0]?.rejection
+              ? `Move ${replay.moves.indexOf(rejected[0]) + 1} (${rejected[0].direction}) rejected: ${rejected[0].rejection.reason}`
+              : (result.error ?? 'Not solved')}
+          </span>
+        )}
+      </div>
+
+      {/* Move list - click a move to jump to the board before it */}
+      {replay.moves.length > 0 && (
+        <div className="flex flex-wrap gap-0.5 max-w-md max-h-32 overflow-y-auto justify-center">
+          {replay.moves.map((move, index) => {
+            const isCurrent = index === step
+            const turn = move.turn !== null ? ` (turn ${move.turn})` : ''
+            return (
+              // Moves never reorder, so the index is a stable key
+              <Fragment key={`${index}-${move.direction}`}>
+                <button
+                  type="button"
+                  onClick={() => setStep(Math.min(index, lastStep))}
+                  className={`w-5 h-5 text-[11px] rounded font-mono transition-colors ${
+                    move.rejection
+                      ? 'bg-red-500/30 text-red-400 ring-1 ring-red-500'
+                      : isCurrent
+                        ? 'bg-primary/30 text-primary'
+                        : index < step
+                          ? 'bg-muted text-foreground/70'
+                          : 'bg-muted/40 text-muted-foreground'
+                  }`}
+                  title={`${index + 1}. ${move.direction}${turn}${move.rejection ? ` - ${move.rejection.reason}` : ''}`}
+                >
+                  {MOVE_ARROWS[move.direction]}
+                </button>
+                {/* The rest of a rejected batch never ran */}
+                {move.rejection?.skipped.map((direction, skippedIndex) => (
+                  <span
+                    key={`${index}-${skippedIndex}-${direction}`}
+                    className="w-5 h-5 text-[11px] font-mono text-center text-muted-foreground/40"
+                    title={`${direction}${turn} - skipped`}
+                  >
+                    {MOVE_ARROWS[direction]}
+                  </span>
+                ))}
+              </Fragment>
+            )
+          })}
+        </div>
+      )}
+
+      {result.turns && (
+        <div className="text-[10px] text-muted-foreground">
+          {result.turns.length} turns · {rejected.length} rejected moves ·{' '}
+          {result.turns.filter((t) => t.recovered).length} recoveries
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+import { Button } from '@sokoban-eval-toolkit/ui-library/components/button'
+import { Input } from '@sokoban-eval-toolkit/ui-library/components/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@sokoban-eval-toolkit/ui-library/components/select'
+import type { SokobanLevel } from '@src/types'
+import {
+  GENERATOR_PRESETS,
+  type GeneratorMethod,
+  type GeneratorOptions,
+  type GeneratorPreset,
+} from '@src/utils/levelGenerator'
+import { type SolverProgress, generateInWorker, isSolverCancelled } from '@src/utils/solverClient'
+import { Sparkles, X } from 'lucide-react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+const PRESET_LABELS: Record<GeneratorPreset, string> = {
+  'eval-easy': 'Eval Easy',
+  'mixed-custom': 'Mixed Custom',
+  'hard-reverse': 'Hard (Reverse Play)',
+}
+
+const METHOD_LABELS: Record<GeneratorMethod, string> = {
+  random: 'Random boxes, first in range',
+  reverse: 'Reverse play, hardest of all',
+}
+
+type NumericOption = Exclude<keyof GeneratorOptions, 'method'>
+
+// Form fields, in display order. Wall density is edited as a percentage.
+const FIELDS: { key: NumericOption; label: string; title: string }[] = [
+  { key: 'width', label: 'Width', title: 'Board width including border walls (4-20)' },
+  { key: 'height', label: 'Height', title: 'Board height including border walls (4-20)' },
+  { key: 'boxCount', label: 'Boxes', title: 'Number of boxes and goals' },
+  { key: 'wallDensity', label: 'Walls %', title: 'Share of interior squares made walls (0-50)' },
+  {
+    key: 'colorCount',
+    label: 'Colors',
+    title: 'Box colors (1-4); 2+ must also solve under colored rules',
+  },
+  { key: 'minMoves', label: 'Min moves', title: 'Shortest accepted solver solution' },
+  { key: 'maxMoves', label: 'Max moves', title: 'Longest accepted solver solution' },
+  { key: 'maxAttempts', label: 'Attempts', title: 'Boards to try (reverse play tries them all)' },
+  {
+    key: 'pullCount',
+    label: 'Pulls',
+    title: 'Random pulls from the solved position (reverse play)',
+  },
+]
+
+interface GeneratorPanelProps {
+  onLevelLoad: (level: SokobanLevel) => void
+  disabled?: boolean
+}
+
+export function GeneratorPanel({ onLevelLoad, disabled = false }: GeneratorPanelProps) {
+  const [preset, setPreset] = useState<GeneratorPreset>('eval-easy')
+  const [options, setOptions] = useState<GeneratorOptions>(GENERATOR_PRESETS['eval-easy'])
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [progress, setProgress] = useState<SolverProgress | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Stop the generator worker on unmount
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const handlePresetChange = useCallback((value: GeneratorPreset) => {
+    setPreset(value)
+    setOptions(GENERATOR_PRESETS[value])
+  }, [])
+
+  const handleFieldChange = useCallback((key: NumericOption, text: string) => {
+    const value = Number.parseFloat(text)
+    if (Number.isNaN(value)) return
+    setOptions((prev) => ({ ...prev, [key]: key === 'wallDensity' ? value / 100 : value }))
+  }, [])
+
+  const handleGenerate = useCallback(() => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setIsGenerating(true)
+    setProgress(null)
+    setMessage(null)
+
+    generateInWorker(options, { onProgress: setProgress, signal: controller.signal })
+      .then((result) => {
+        if (result.level && result.metrics) {
+          const { moves, pushes, score } = result.metrics
+          onLevelLoad(result.level)
+          setMessage(
+            `${moves} moves, ${pushes} pushes, score ${score} (${result.attempts} attempt${result.attempts !== 1 ? 's' : ''})`,
+          )
+        } else {
+          setMessage(`No puzzle in range after ${result.attempts} attempts`)
+        }
+      })
+      .catch((err) => {
+        if (!isSolverCancelled(err)) setMessage(err instanceof Error ? err.message : 'Failed')
+      })
+      .finally(() => {
+        if (controllerRef.current !== controller) return
+        controllerRef.current = null
+        setIsGenerating(false)
+        setProgress(null)
+      })
+  }, [options, onLevelLoad])
+
+  const handleCancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  // Pulls only apply to reverse play
+  const visibleFields = FIELDS.filter(
+    ({ key }) => key !== 'pullCount' || options.method === 'reverse',
+  )
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={preset}
+        onValueChange={(v) => handlePresetChange(v as GeneratorPreset)}
+        disabled={disabled || isGenerating}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(PRESET_LABELS) as GeneratorPreset[]).map((p) => (
+            <SelectItem key={p} value={p} className="text-xs">
+              {PRESET_LABELS[p]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={options.method}
+        onValueChange={(v) => setOptions((prev) => ({ ...prev, method: v as GeneratorMethod }))}
+        disabled={disabled || isGenerating}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(METHOD_LABELS) as GeneratorMethod[]).map((m) => (
+            <SelectItem key={m} value={m} className="text-xs">
+              {METHOD_LABELS[m]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-4 gap-1.5">
+        {visibleFields.map(({ key, label, title }) => (
+          <div key={key} className="space-y-0.5">
+            <span className="block text-[10px] text-muted-foreground">{label}</span>
+            <Input
+              type="text"
+              value={key === 'wallDensity' ? Math.round(options[key] * 100) : options[key]}
+              onChange={(e) => handleFieldChange(key, e.target.value)}
+              disabled={disabled || isGenerating}
+              className="h-7 text-xs px-2 text-center"
+              title={title}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <Button
+          onClick={handleGenerate}
+          disabled={disabled || isGenerating}
+          size="sm"
+          className="h-7 px-2 text-xs"
+        >
+          <Sparkles className="w-3.5 h-3.5 mr-1" />
+          {isGenerating ? 'Generating...' : 'Generate'}
+        </Button>
+        {isGenerating && (
+          <>
+            {progress && (
+              <span className="text-[10px] text-muted-foreground tabular-nums">
+                Attempt {progress.attempt} · {progress.nodesExplored.toLocaleString()} nodes
+              </span>
+            )}
+            <Button
+              onClick={handleCancel}
+              size="sm"
+              variant="ghost"
+              className="h-6 px-1.5 text-[10px]"
+              title="Stop the generator"
+            >
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          </>
+        )}
+        {!isGenerating && message && (
+          <span className="text-[10px] text-muted-foreground">{message}</span>
+        )}
+      </div>
+    </div>
+  )
+}
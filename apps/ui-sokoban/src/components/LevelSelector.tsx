@@ -1,3 +1,10 @@
+import {
+  type LevelCollection,
+  getDifficultyBucket,
+  getLevelFileFormat,
+  parseLevelCollection,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { SolverMode } from '@sokoban-eval-toolkit/sokoban-core'
 import { Button } from '@sokoban-eval-toolkit/ui-library/components/button'
 import { Input } from '@sokoban-eval-toolkit/ui-library/components/input'
 import {
@@ -8,40 +15,45 @@ import {
   SelectValue,
 } from '@sokoban-eval-toolkit/ui-library/components/select'
 import { Separator } from '@sokoban-eval-toolkit/ui-library/components/separator'
-import { DIFFICULTY_LABELS } from '@src/constants'
-import type { Difficulty, SokobanLevel } from '@src/types'
+import { DIFFICULTY_BUCKET_LABELS } from '@src/constants'
+import type { DifficultyMetrics, SokobanLevel } from '@src/types'
 import {
-  getHardLevel,
-  getHardLevelCount,
-  getLmiqLevel,
-  getLmiqLevelCount,
-  getMediumLevel,
-  getMediumLevelCount,
-  getMicrobanLevel,
-  getMicrobanLevelCount,
-  getRandomHardLevel,
-  getRandomLmiqLevel,
-  getRandomMediumLevel,
-  getRandomMicrobanLevel,
+  DATASETS,
+  getDatasetLevel,
+  getDatasetLevelCount,
+  getRandomDatasetLevel,
 } from '@src/utils/levelLoader'
-import { ChevronLeft, ChevronRight, Grid3X3, Play, Shuffle } from 'lucide-react'
-import { useCallback, useState } from 'react'
+import type { ColoredSolverResult } from '@src/utils/simpleSolver'
+import type { SolverProgress } from '@src/utils/solverClient'
+import {
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Gauge,
+  Grid3X3,
+  Play,
+  Shuffle,
+  Upload,
+  X,
+} from 'lucide-react'
+import { useCallback, useRef, useState } from 'react'
 import { v4 as uuidv4 } from 'uuid'
+import { GeneratorPanel } from './GeneratorPanel'
+
+// Level source for the puzzle generator; every other source is a registered dataset id
+const GENERATED_SOURCE = 'generated'
+
+// Level collection files accepted by the import button
+const COLLECTION_FILE_TYPES = '.sok,.xsb,.txt,.slc,.xml'
 
-// Difficulties that use curated level sets
-const CURATED_DIFFICULTIES: Difficulty[] = [
-  'lmiq-reasoning-easy',
-  'classic',
-  'classic-hard',
-  'microban',
-]
-
-// Info text for each difficulty
-const DIFFICULTY_INFO: Record<Difficulty, string> = {
-  'lmiq-reasoning-easy': 'LM IQ benchmark puzzles. 1-4 boxes, 4-10 grid (100 levels).',
-  microban: 'Classic beginner puzzles by David Skinner (155 levels).',
-  classic: 'Medium difficulty puzzles from boxoban-levels (10×10, 4 boxes).',
-  'classic-hard': 'Hard difficulty puzzles from boxoban-levels (10×10, 4 boxes).',
+const GENERATED_INFO =
+  'Random puzzles, kept only if the solver finds a solution of the target length.'
+
+// Solver modes offered next to Compute Solution
+const SOLVER_MODE_LABELS: Record<SolverMode, string> = {
+  fast: 'Fast',
+  'move-optimal': 'Fewest moves',
+  'push-optimal': 'Fewest pushes',
 }
 
 interface SolutionResult {
@@ -49,6 +61,7 @@ interface SolutionResult {
   solution?: string[]
   moveCount?: number
   hitLimit?: boolean
+  optimal?: boolean
 }
 
 interface LevelSelectorProps {
@@ -58,9 +71,20 @@ interface LevelSelectorProps {
   // Solution props
   solution?: SolutionResult | null
   isSolving?: boolean
+  solveProgress?: SolverProgress | null
   onComputeSolution?: () => void
+  onCancelSolution?: () => void
+  /** Result of the colored-box solvability check, which finds no move sequence */
+  coloredResult?: ColoredSolverResult | null
   onRunSolution?: () => void
   canRunSolution?: boolean
+  solutionLurd?: string | null
+  solverMode?: SolverMode
+  onSolverModeChange?: (mode: SolverMode) => void
+  // Difficulty analysis props
+  difficultyMetrics?: DifficultyMetrics | null
+  isAnalyzing?: boolean
+  onAnalyzeDifficulty?: () => void
 }
 
 export function LevelSelector({
@@ -69,60 +93,52 @@ export function LevelSelector({
   onEditingChange,
   solution,
   isSolving = false,
+  solveProgress,
   onComputeSolution,
+  onCancelSolution,
+  coloredResult,
   onRunSolution,
   canRunSolution = false,
+  solutionLurd,
+  solverMode = 'fast',
+  onSolverModeChange,
+  difficultyMetrics,
+  isAnalyzing = false,
+  onAnalyzeDifficulty,
 }: LevelSelectorProps) {
-  const [difficulty, setDifficulty] = useState<Difficulty>('lmiq-reasoning-easy')
+  const [levelSource, setLevelSource] = useState<string>(DATASETS[0]?.id ?? GENERATED_SOURCE)
   const [puzzleNumber, setPuzzleNumber] = useState<number>(1)
   const [error, setError] = useState<string | null>(null)
   const [gridWidth, setGridWidth] = useState<number>(8)
   const [gridHeight, setGridHeight] = useState<number>(8)
+  const [collection, setCollection] = useState<LevelCollection | null>(null)
+  const [collectionName, setCollectionName] = useState<string>('')
+  const [collectionNumber, setCollectionNumber] = useState<number>(1)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [copiedSolution, setCopiedSolution] = useState(false)
+
+  const handleCopySolution = useCallback(async () => {
+    if (!solutionLurd) return
+    try {
+      await navigator.clipboard.writeText(solutionLurd)
+      setCopiedSolution(true)
+      setTimeout(() => setCopiedSolution(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy:', err)
+    }
+  }, [solutionLurd])
 
-  const isCurated = CURATED_DIFFICULTIES.includes(difficulty)
-
-  // Get level count for curated difficulties
-  const curatedLevelCount =
-    difficulty === 'lmiq-reasoning-easy'
-      ? getLmiqLevelCount()
-      : difficulty === 'microban'
-        ? getMicrobanLevelCount()
-        : difficulty === 'classic'
-          ? getMediumLevelCount()
-          : difficulty === 'classic-hard'
-            ? getHardLevelCount()
-            : 0
-
-  // Helper to get level based on current difficulty
+  // Selected dataset, if the source isn't the generator
+  const dataset = DATASETS.find((d) => d.id === levelSource)
+
+  const curatedLevelCount = dataset ? getDatasetLevelCount(dataset.id) : 0
+
+  // Helper to get level from the current dataset
   const getCuratedLevel = useCallback(
-    (index: number) => {
-      if (difficulty === 'lmiq-reasoning-easy') {
-        return getLmiqLevel(index)
-      }
-      if (difficulty === 'microban') {
-        return getMicrobanLevel(index)
-      }
-      if (difficulty === 'classic-hard') {
-        return getHardLevel(index)
-      }
-      return getMediumLevel(index)
-    },
-    [difficulty],
+    (index: number) => getDatasetLevel(levelSource, index),
+    [levelSource],
   )
 
-  const getRandomCuratedLevel = useCallback(() => {
-    if (difficulty === 'lmiq-reasoning-easy') {
-      return getRandomLmiqLevel()
-    }
-    if (difficulty === 'microban') {
-      return getRandomMicrobanLevel()
-    }
-    if (difficulty === 'classic-hard') {
-      return getRandomHardLevel()
-    }
-    return getRandomMediumLevel()
-  }, [difficulty])
-
   const handleLoadCurated = useCallback(() => {
     setError(null)
     const level = getCuratedLevel(puzzleNumber - 1)
@@ -135,10 +151,11 @@ export function LevelSelector({
 
   const handleRandomCurated = useCallback(() => {
     setError(null)
-    const level = getRandomCuratedLevel()
+    const level = getRandomDatasetLevel(levelSource)
+    if (!level) return
     setPuzzleNumber(level.puzzleNumber)
     onLevelLoad(level)
-  }, [onLevelLoad, getRandomCuratedLevel])
+  }, [onLevelLoad, levelSource])
 
   const handlePrevCurated = useCallback(() => {
     if (puzzleNumber <= 1) return
@@ -162,6 +179,34 @@ export function LevelSelector({
     }
   }, [puzzleNumber, curatedLevelCount, onLevelLoad, getCuratedLevel])
 
+  const loadCollectionLevel = useCallback(
+    (levels: LevelCollection['levels'], number: number) => {
+      const entry = levels[number - 1]
+      if (!entry) return
+      setCollectionNumber(number)
+      onLevelLoad(entry.level)
+    },
+    [onLevelLoad],
+  )
+
+  const handleImportFile = useCallback(
+    async (file: File) => {
+      setError(null)
+      try {
+        const imported = parseLevelCollection(await file.text(), {
+          format: getLevelFileFormat(file.name) ?? undefined,
+          source: file.name,
+        })
+        setCollection(imported)
+        setCollectionName(imported.title ?? file.name)
+        loadCollectionLevel(imported.levels, 1)
+      } catch (e) {
+        setError(e instanceof Error ? e.message : `Could not import ${file.name}`)
+      }
+    },
+    [loadCollectionLevel],
+  )
+
   const handleCreateBlankGrid = useCallback(() => {
     const width = Math.max(4, Math.min(20, gridWidth))
     const height = Math.max(4, Math.min(20, gridHeight))
@@ -214,27 +259,26 @@ export function LevelSelector({
 
       <Separator />
 
-      {/* Difficulty selector */}
-      <Select
-        value={difficulty}
-        onValueChange={(v) => setDifficulty(v as Difficulty)}
-        disabled={disabled}
-      >
+      {/* Level source selector: registered datasets, then the generator */}
+      <Select value={levelSource} onValueChange={setLevelSource} disabled={disabled}>
         <SelectTrigger className="h-8 text-xs">
           <SelectValue />
         </SelectTrigger>
         <SelectContent>
-          {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map((d) => (
-            <SelectItem key={d} value={d} className="text-xs">
-              {DIFFICULTY_LABELS[d]}
+          {DATASETS.map((d) => (
+            <SelectItem key={d.id} value={d.id} className="text-xs">
+              {d.name}
             </SelectItem>
           ))}
+          <SelectItem value={GENERATED_SOURCE} className="text-xs">
+            Generated
+          </SelectItem>
         </SelectContent>
       </Select>
 
-      {/* Difficulty info */}
+      {/* Level source info */}
       <div className="text-[10px] text-muted-foreground leading-tight">
-        {DIFFICULTY_INFO[difficulty]}
+        {dataset?.description ?? GENERATED_INFO}
       </div>
 
       {/* Error message */}
@@ -244,8 +288,8 @@ export function LevelSelector({
         </div>
       )}
 
-      {/* Curated difficulty modes */}
-      {isCurated ? (
+      {/* Dataset levels */}
+      {dataset && (
         <>
           {/* Curated mode - single row controls */}
           <div className="flex gap-1 items-center">
@@ -300,79 +344,262 @@ export function LevelSelector({
             </Button>
           </div>
 
-          {/* Source link */}
+          {/* Level count and source link */}
           <div className="text-[10px] text-muted-foreground">
-            {difficulty === 'lmiq-reasoning-easy' ? (
-              <>LMIQ Reasoning Easy eval set (100 generated puzzles)</>
-            ) : difficulty === 'microban' ? (
+            {curatedLevelCount} levels
+            {dataset.url && (
               <>
-                Microban by{' '}
+                {' · '}
                 <a
-                  href="http://www.bentonrea.com/~sasquatch/sokoban/"
+                  href={dataset.url}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-primary hover:underline"
                 >
-                  David Skinner
-                </a>
-              </>
-            ) : (
-              <>
-                {difficulty === 'classic-hard' ? 'Hard' : 'Medium'} levels from{' '}
-                <a
-                  href="https://github.com/google-deepmind/boxoban-levels"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  boxoban-levels
+                  Source
                 </a>
               </>
             )}
           </div>
+        </>
+      )}
 
-          {/* Solution controls */}
-          {onComputeSolution && (
-            <div className="flex items-center gap-1.5">
-              {solution?.found ? (
+      {/* Generated mode */}
+      {levelSource === GENERATED_SOURCE && (
+        <GeneratorPanel onLevelLoad={onLevelLoad} disabled={disabled} />
+      )}
+
+      {/* Solution controls */}
+      {onComputeSolution && (
+        <div className="flex items-center gap-1.5">
+          {solution?.found ? (
+            <>
+              <span className="text-[10px] text-muted-foreground">
+                Solution:{' '}
+                <span className="font-semibold text-foreground">{solution.moveCount}</span> moves
+                {solution.optimal ? ' (optimal)' : ''}
+              </span>
+              {solutionLurd && (
+                <Button
+                  onClick={handleCopySolution}
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-1.5 text-[10px]"
+                  title={`Copy LURD solution: ${solutionLurd}`}
+                >
+                  <Copy className="w-3 h-3 mr-1" />
+                  {copiedSolution ? 'Copied!' : 'LURD'}
+                </Button>
+              )}
+              {onRunSolution && canRunSolution && (
+                <Button
+                  onClick={onRunSolution}
+                  size="sm"
+                  variant="secondary"
+                  className="h-6 px-2 text-[10px] ml-auto"
+                >
+                  <Play className="w-3 h-3 mr-1" />
+                  Run Solution Path
+                </Button>
+              )}
+            </>
+          ) : coloredResult ? (
+            <span className="text-[10px] text-muted-foreground">
+              {coloredResult.solvable ? (
                 <>
-                  <span className="text-[10px] text-muted-foreground">
-                    Solution:{' '}
-                    <span className="font-semibold text-foreground">{solution.moveCount}</span>{' '}
-                    moves
-                  </span>
-                  {onRunSolution && canRunSolution && (
+                  Colored: solvable in{' '}
+                  <span className="font-semibold text-foreground">{coloredResult.moveCount}</span>{' '}
+                  pushes
+                </>
+              ) : (
+                <span className="text-amber-500">
+                  Colored: none found in {coloredResult.statesExplored.toLocaleString()} states
+                </span>
+              )}
+            </span>
+          ) : solution?.hitLimit ? (
+            <span className="text-[10px] text-amber-500">Solver limit hit</span>
+          ) : solution && !solution.found ? (
+            <span className="text-[10px] text-amber-500">Puzzle Unsolvable</span>
+          ) : (
+            <>
+              {onSolverModeChange && (
+                <Select
+                  value={solverMode}
+                  onValueChange={(v) => onSolverModeChange(v as SolverMode)}
+                  disabled={disabled || isSolving}
+                >
+                  <SelectTrigger className="h-6 w-28 text-[10px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SOLVER_MODE_LABELS) as SolverMode[]).map((m) => (
+                      <SelectItem key={m} value={m} className="text-xs">
+                        {SOLVER_MODE_LABELS[m]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                onClick={onComputeSolution}
+                disabled={disabled || isSolving}
+                size="sm"
+                variant="secondary"
+                className="h-6 px-2 text-[10px]"
+              >
+                <Play className="w-3 h-3 mr-1" />
+                {isSolving ? 'Computing...' : 'Compute Solution'}
+              </Button>
+              {isSolving && (
+                <>
+                  {solveProgress && (
+                    <span
+                      className="text-[10px] text-muted-foreground tabular-nums"
+                      title={solveProgress.phase}
+                    >
+                      {solveProgress.nodesExplored.toLocaleString()} nodes
+                    </span>
+                  )}
+                  {onCancelSolution && (
                     <Button
-                      onClick={onRunSolution}
+                      onClick={onCancelSolution}
                       size="sm"
-                      variant="secondary"
-                      className="h-6 px-2 text-[10px] ml-auto"
+                      variant="ghost"
+                      className="h-6 px-1.5 text-[10px]"
+                      title="Stop the solver"
                     >
-                      <Play className="w-3 h-3 mr-1" />
-                      Run Solution Path
+                      <X className="w-3 h-3 mr-1" />
+                      Cancel
                     </Button>
                   )}
                 </>
-              ) : solution?.hitLimit ? (
-                <span className="text-[10px] text-amber-500">Solver limit hit</span>
-              ) : solution && !solution.found ? (
-                <span className="text-[10px] text-amber-500">Puzzle Unsolvable</span>
-              ) : (
-                <Button
-                  onClick={onComputeSolution}
-                  disabled={disabled || isSolving}
-                  size="sm"
-                  variant="secondary"
-                  className="h-6 px-2 text-[10px]"
-                >
-                  <Play className="w-3 h-3 mr-1" />
-                  {isSolving ? 'Computing...' : 'Compute Solution'}
-                </Button>
               )}
-            </div>
+            </>
           )}
-        </>
-      ) : null}
+        </div>
+      )}
+
+      {/* Difficulty analysis */}
+      {onAnalyzeDifficulty &&
+        (difficultyMetrics ? (
+          <div className="space-y-0.5 text-[10px] text-muted-foreground">
+            <div>
+              Difficulty:{' '}
+              <span className="font-semibold text-foreground">
+                {DIFFICULTY_BUCKET_LABELS[getDifficultyBucket(difficultyMetrics)]}
+              </span>{' '}
+              ({difficultyMetrics.nodesExplored.toLocaleString()} nodes)
+            </div>
+            <div className="tabular-nums">
+              {difficultyMetrics.solved
+                ? `${difficultyMetrics.moves} moves · ${difficultyMetrics.pushes} pushes · ${difficultyMetrics.boxLineChanges} line changes · ${difficultyMetrics.boxGoalInterference} interference · `
+                : ''}
+              {Math.round(difficultyMetrics.deadSquareRatio * 100)}% dead squares
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={onAnalyzeDifficulty}
+            disabled={disabled || isAnalyzing}
+            size="sm"
+            variant="secondary"
+            className="h-6 px-2 text-[10px]"
+            title="Solve the level and measure its moves, pushes, box-line changes, box-goal interference and dead squares"
+          >
+            <Gauge className="w-3 h-3 mr-1" />
+            {isAnalyzing ? 'Analyzing...' : 'Analyze Difficulty'}
+          </Button>
+        ))}
+
+      {/* Import a level collection */}
+      <Separator />
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            Import Collection
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={COLLECTION_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImportFile(file)
+              e.target.value = ''
+            }}
+          />
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            size="sm"
+            variant="secondary"
+            className="h-6 px-2 text-[10px]"
+            title="Open a .sok, .xsb, .txt or .slc level collection"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            Open File
+          </Button>
+        </div>
+
+        {collection && (
+          <>
+            <div className="text-[10px] text-muted-foreground truncate">
+              {collectionName} ({collection.levels.length} levels)
+              {collection.levels[collectionNumber - 1]?.title && (
+                <>
+                  {' · '}
+                  <span className="text-foreground">
+                    {collection.levels[collectionNumber - 1].title}
+                  </span>
+                </>
+              )}
+            </div>
+            <div className="flex gap-1 items-center">
+              <Input
+                type="text"
+                value={collectionNumber}
+                onChange={(e) => {
+                  const val = Number.parseInt(e.target.value) || 1
+                  setCollectionNumber(Math.min(collection.levels.length, Math.max(1, val)))
+                }}
+                disabled={disabled}
+                className="h-7 text-xs w-14 px-2 text-center"
+                title={`Level # (1-${collection.levels.length})`}
+              />
+              <Button
+                onClick={() => loadCollectionLevel(collection.levels, collectionNumber - 1)}
+                disabled={disabled || collectionNumber <= 1}
+                size="sm"
+                variant="secondary"
+                className="h-7 px-1.5"
+                title="Previous level"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={() => loadCollectionLevel(collection.levels, collectionNumber + 1)}
+                disabled={disabled || collectionNumber >= collection.levels.length}
+                size="sm"
+                variant="secondary"
+                className="h-7 px-1.5"
+                title="Next level"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={() => loadCollectionLevel(collection.levels, collectionNumber)}
+                disabled={disabled}
+                size="sm"
+                className="h-7 px-2 text-xs"
+              >
+                Load Level
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
 
       {/* Create New Grid */}
       <Separator />
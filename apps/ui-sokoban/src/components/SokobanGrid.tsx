@@ -11,6 +11,7 @@ interface SelectedEntity {
 interface SokobanGridProps {
   state: GameState | null
   highlightedCells?: Position[]
+  highlightColor?: string
   className?: string
   isEditing?: boolean
   onCellClick?: (x: number, y: number) => void
@@ -25,6 +26,7 @@ interface SokobanGridProps {
 export function SokobanGrid({
   state,
   highlightedCells = [],
+  highlightColor = 'hsl(var(--primary) / 0.2)',
   className = '',
   isEditing = false,
   onCellClick,
@@ -133,7 +135,7 @@ export function SokobanGrid({
                   backgroundColor: isWall
                     ? 'hsl(var(--sokoban-wall))'
                     : cellIsHighlighted
-                      ? 'hsl(var(--primary) / 0.2)'
+                      ? highlightColor
                       : 'hsl(var(--sokoban-floor))',
                   cursor:
                     canAddGoal || canAddBox
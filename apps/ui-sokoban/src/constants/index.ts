@@ -1,4 +1,4 @@
-import type { Difficulty } from '@src/types'
+import type { DifficultyBucket } from '@src/types'
 
 // Grid rendering
 export const CELL_SIZE = 40
@@ -27,12 +27,13 @@ export const BOX_COLORS: Record<
   sky: { bg: '#0ea5e9', bgOnGoal: '#22c55e', border: '#38bdf8' },
 } as const
 
-// Difficulty display names
-export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
-  'lmiq-reasoning-easy': 'LMIQ Reasoning Easy',
-  microban: 'Microban (Beginner)',
-  classic: 'Boxoban (Medium)',
-  'classic-hard': 'Boxoban (Hard)',
+// Difficulty bucket display names (see getDifficultyBucket)
+export const DIFFICULTY_BUCKET_LABELS: Record<DifficultyBucket, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  expert: 'Expert',
+  unsolved: 'Unsolved',
 }
 
 // Move key mappings (arrow keys only)
@@ -43,28 +44,5 @@ export const MOVE_KEYS: Record<string, import('@src/types').MoveDirection> = {
   ArrowRight: 'RIGHT',
 }
 
-// Direction vectors
-export const DIRECTION_VECTORS: Record<
-  import('@src/types').MoveDirection,
-  { dx: number; dy: number }
-> = {
-  UP: { dx: 0, dy: -1 },
-  DOWN: { dx: 0, dy: 1 },
-  LEFT: { dx: -1, dy: 0 },
-  RIGHT: { dx: 1, dy: 0 },
-}
-
-// Sokoban notation mapping
-export const SOKOBAN_NOTATION: Record<string, import('@src/types').MoveDirection> = {
-  u: 'UP',
-  U: 'UP',
-  d: 'DOWN',
-  D: 'DOWN',
-  l: 'LEFT',
-  L: 'LEFT',
-  r: 'RIGHT',
-  R: 'RIGHT',
-}
-
 // AI move execution delay (ms)
 export const AI_MOVE_DELAY = 200
@@ -1,5 +1,10 @@
+import {
+  executeMove,
+  initializeGame,
+  resetGame,
+  undoMove,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import type { GameState, MoveDirection, SokobanLevel } from '@src/types'
-import { executeMove, initializeGame, resetGame, undoMove } from '@src/utils/gameEngine'
 import { useCallback, useEffect, useRef, useState } from 'react'
 
 interface UseGameStateOptions {
@@ -1,4 +1,11 @@
-import type { Box, CellTerrain, GameState, Position, SokobanLevel } from '@src/types'
+import type {
+  Box,
+  CellTerrain,
+  DifficultyMetrics,
+  GameState,
+  Position,
+  SokobanLevel,
+} from '@src/types'
 import {
   type SavedLayout,
   deleteLayout,
@@ -14,6 +21,8 @@ import { v4 as uuidv4 } from 'uuid'
 
 interface UseLayoutPersistenceOptions {
   gameState: GameState | null
+  /** Difficulty of the current board, saved with it while no move has been made */
+  difficultyMetrics?: DifficultyMetrics | null
   onLayoutLoad: (level: SokobanLevel) => void
 }
 
@@ -30,6 +39,7 @@ interface UseLayoutPersistenceReturn {
 
 export function useLayoutPersistence({
   gameState,
+  difficultyMetrics,
   onLayoutLoad,
 }: UseLayoutPersistenceOptions): UseLayoutPersistenceReturn {
   const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([])
@@ -77,6 +87,8 @@ export function useLayoutPersistence({
       playerStart: gameState.playerPos,
       boxStarts: gameState.boxes,
       goals,
+      difficultyMetrics:
+        gameState.moveHistory.length === 0 ? (difficultyMetrics ?? undefined) : undefined,
     }
 
     try {
@@ -87,7 +99,7 @@ export function useLayoutPersistence({
       console.error('Failed to save layout:', error)
       alert('Failed to save layout. Please try again.')
     }
-  }, [gameState, layoutName])
+  }, [gameState, difficultyMetrics, layoutName])
 
   // Load a saved layout
   const handleLoadLayout = useCallback(
@@ -115,6 +127,7 @@ export function useLayoutPersistence({
           difficulty: layout.difficulty,
           fileSource: 'saved',
           puzzleNumber: 0,
+          difficultyMetrics: layout.difficultyMetrics,
         }
 
         onLayoutLoad(level)
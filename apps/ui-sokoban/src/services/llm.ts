@@ -1,11 +1,11 @@
+import { generateSokobanPrompt, parseAIResponse } from '@sokoban-eval-toolkit/sokoban-core'
 import {
-  createOpenRouterClient,
+  createLLMClient,
   extractOpenRouterCost,
   extractOpenRouterReasoningTokens,
 } from '@sokoban-eval-toolkit/utils'
 import type { GameState, MoveDirection, PromptOptions, SessionMetrics } from '@src/types'
-import { generateMoveByMovePrompt, generateSokobanPrompt } from '@src/utils/promptGeneration'
-import { parseAIResponse } from '@src/utils/solutionValidator'
+import { generateMoveByMovePrompt } from '@src/utils/promptGeneration'
 
 function getApiKey(): string | undefined {
   return import.meta.env.VITE_OPENROUTER_API_KEY
@@ -43,11 +43,8 @@ export async function getSokobanSolution(
   const startTime = Date.now()
 
   try {
-    const apiKey = getApiKey()
-    if (!apiKey) {
-      throw new Error('API key not configured')
-    }
-    const client = createOpenRouterClient(apiKey)
+    // Routes provider-prefixed ids (e.g. ollama:qwen2.5:7b) to their endpoint
+    const { client, model: providerModel } = createLLMClient(model)
 
     const prompt = generateSokobanPrompt(state, options)
 
@@ -58,7 +55,7 @@ export async function getSokobanSolution(
     })
 
     const response = await client.chat.completions.create({
-      model,
+      model: providerModel,
       messages: [{ role: 'user' as const, content: prompt }],
       temperature: 0.3,
     })
@@ -138,11 +135,8 @@ export async function getNextMove(
   const startTime = Date.now()
 
   try {
-    const apiKey = getApiKey()
-    if (!apiKey) {
-      throw new Error('API key not configured')
-    }
-    const client = createOpenRouterClient(apiKey)
+    // Routes provider-prefixed ids (e.g. ollama:qwen2.5:7b) to their endpoint
+    const { client, model: providerModel } = createLLMClient(model)
 
     const prompt = generateMoveByMovePrompt(state, moveHistory)
 
@@ -153,7 +147,7 @@ export async function getNextMove(
     })
 
     const response = await client.chat.completions.create({
-      model,
+      model: providerModel,
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.3,
       max_tokens: 50, // We only need one move
@@ -1,76 +1,21 @@
-// Core position type
-export interface Position {
-  x: number // column (0-indexed)
-  y: number // row (0-indexed)
-}
-
-// Box colors for visual distinction
-export type BoxColor = 'orange' | 'purple' | 'emerald' | 'sky'
-
-// Box with position and color
-export interface Box {
-  x: number
-  y: number
-  color: BoxColor
-}
-
-// What's in a cell (static terrain)
-export type CellTerrain = 'floor' | 'wall' | 'goal'
-
-// Parsed level from boxoban format
-export interface SokobanLevel {
-  id: string
-  width: number
-  height: number
-  terrain: CellTerrain[][] // [row][col] - static terrain only
-  playerStart: Position
-  boxStarts: Box[]
-  goals: Position[]
-  difficulty: Difficulty
-  fileSource: string
-  puzzleNumber: number
-  optimalMoves?: number // Minimum moves to solve (from solver)
-  generationIterations?: number // Number of attempts to generate this puzzle
-  usedFallback?: boolean // True if generator fell back to simple puzzle
-}
+import type { GameState, MoveDirection } from '@sokoban-eval-toolkit/sokoban-core'
 
-export type Difficulty = 'lmiq-reasoning-easy' | 'classic' | 'classic-hard' | 'microban'
-
-// Movement
-export type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
-
-export interface MoveRecord {
-  id: string
-  direction: MoveDirection
-  wasPush: boolean
-  previousPlayerPos: Position
-  previousBox?: Box // only if was a push
-  source: 'human' | 'ai'
-  timestamp: number
-}
-
-// Current game state (mutable during play)
-export interface GameState {
-  level: SokobanLevel
-  playerPos: Position
-  boxes: Box[]
-  moveHistory: MoveRecord[]
-  isWon: boolean
-  moveCount: number
-  pushCount: number
-  startTime: number | null
-  endTime: number | null
-}
-
-// Move validation result
-export interface MoveValidationResult {
-  valid: boolean
-  isPush: boolean
-  newPlayerPos: Position
-  newBox?: Box
-  pushedBoxIndex?: number
-  error?: string
-}
+// Game types shared with the eval CLI and scripts
+export type {
+  Position,
+  BoxColor,
+  Box,
+  CellTerrain,
+  Difficulty,
+  DifficultyMetrics,
+  DifficultyBucket,
+  SokobanLevel,
+  MoveDirection,
+  MoveRecord,
+  GameState,
+  MoveValidationResult,
+  PromptOptions,
+} from '@sokoban-eval-toolkit/sokoban-core'
 
 // Solution validation result
 export interface SolutionValidationResult {
@@ -93,18 +38,6 @@ export interface HumanSession {
   levelId: string
 }
 
-// AI prompt options
-export interface PromptOptions {
-  asciiGrid: boolean
-  coordinateFormat: boolean
-  includeNotationGuide: boolean
-  executionMode: 'fullSolution' | 'moveByMove'
-  coordinateLocations: boolean
-  coloredBoxRules: boolean
-  specialInstructions?: string
-  includeSpecialInstructions?: boolean
-}
-
 // AI session metrics
 export interface SessionMetrics {
   totalCost: number
@@ -124,3 +57,53 @@ export interface PlannedMove {
   status: 'pending' | 'executing' | 'success' | 'failed' | 'invalid'
   error?: string
 }
+
+// Eval results exported by the eval CLI (data/eval-results/*.json).
+// Only the fields the dashboard reads; see apps/eval/src/types.ts for the full shape.
+
+// One model turn in a multi-turn (moveByMove) evaluation
+export interface EvalTurnRecord {
+  turn: number
+  moves: MoveDirection[]
+  stepsExecuted: number
+  error: string | null
+  recovered: boolean
+}
+
+// Result for one puzzle + one model combination
+export interface EvalResult {
+  puzzleId: string
+  puzzleName: string
+  modelId: string
+  modelName: string
+  sampleIndex?: number
+  solved: boolean
+  error: string | null
+  inferenceTimeMs: number
+  moves: MoveDirection[]
+  solutionLength: number
+  stepsExecuted: number
+  inputTokens: number
+  outputTokens: number
+  reasoningTokens: number
+  totalTokens: number
+  cost: number
+  rawResponse: string
+  turns?: EvalTurnRecord[]
+}
+
+// Full evaluation run (one file per model)
+export interface EvalRun {
+  id: string
+  startedAt: number
+  completedAt: number | null
+  puzzleFile: string
+  puzzleCount: number
+  models: string[]
+  results: EvalResult[]
+  status: 'running' | 'completed' | 'failed'
+  rescoredFrom?: {
+    runId: string
+    rescoredAt: number
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  DIRECTION_VECTORS,
+  executeMove,
+  initializeGame,
+  savedLayoutToLevel,
+  validateMove,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type {
+  EvalResult,
+  EvalRun,
+  GameState,
+  MoveDirection,
+  Position,
+  SokobanLevel,
+} from '@src/types'
+import { type ExportedPuzzles, type SavedLayout, getSavedLayoutsList } from './layoutStorage'
+import { findDatasetLevel } from './levelLoader'
+
+// Eval results and puzzle exports checked into the repo, loaded on demand
+const REPO_EVAL_RUNS = import.meta.glob<EvalRun>('../../../../data/eval-results/*.json', {
+  import: 'default',
+})
+const REPO_PUZZLE_EXPORTS = import.meta.glob<ExportedPuzzles>('../../../../data/*.json', {
+  import: 'default',
+})
+
+/**
+ * Eval runs and puzzle exports loaded into the dashboard.
+ */
+export interface EvalFiles {
+  runs: EvalRun[]
+  puzzles: SavedLayout[]
+  errors: string[]
+}
+
+/**
+ * Aggregate metrics for one model across the loaded results.
+ */
+export interface ModelStats {
+  modelId: string
+  modelName: string
+  solved: number
+  total: number
+  solveRate: number
+  totalCost: number
+  avgCost: number
+  totalTokens: number
+  avgOutputTokens: number
+  avgLatencyMs: number
+}
+
+/**
+ * Puzzle-by-model grid of results. A cell holds every sample for the pair.
+ */
+export interface EvalMatrix {
+  puzzles: { id: string; name: string }[]
+  models: { id: string; name: string }[]
+  cells: Map<string, EvalResult[]>
+}
+
+/**
+ * A move in a replay: executed, or rejected along with the rest of its batch.
+ */
+export interface EvalReplayMove {
+  direction: MoveDirection
+  turn: number | null // Turn that proposed the move (multi-turn results only)
+  rejection: {
+    reason: string
+    cell: Position // Cell the move tried to enter
+    skipped: MoveDirection[] // Later moves of the same batch, never executed
+  } | null
+}
+
+/**
+ * Board states for replaying a result's moves. One-shot results stop at the first rejected
+ * move; multi-turn results go on with the next turn from the board the rejection left.
+ */
+export interface EvalReplay {
+  moves: EvalReplayMove[]
+  states: GameState[] // states[i] is the board before moves[i]; the last is the final board
+}
+
+/**
+ * Sort parsed JSON into an eval run or a puzzle export.
+ */
+function classifyEvalFile(data: unknown, name: string, files: EvalFiles): void {
+  if (!data || typeof data !== 'object') {
+    files.errors.push(`${name}: not a JSON object`)
+    return
+  }
+  if ('results' in data && Array.isArray(data.results) && 'models' in data) {
+    files.runs.push(data as EvalRun)
+    return
+  }
+  if ('puzzles' in data && Array.isArray(data.puzzles)) {
+    files.puzzles.push(...(data as ExportedPuzzles).puzzles)
+    return
+  }
+  files.errors.push(`${name}: not an eval run or puzzle export`)
+}
+
+/**
+ * Read eval run and puzzle export files picked by the user.
+ */
+export async function readEvalFiles(fileList: FileList | File[]): Promise<EvalFiles> {
+  const files: EvalFiles = { runs: [], puzzles: [], errors: [] }
+  for (const file of Array.from(fileList)) {
+    try {
+      classifyEvalFile(JSON.parse(await file.text()), file.name, files)
+    } catch {
+      files.errors.push(`${file.name}: invalid JSON`)
+    }
+  }
+  return files
+}
+
+/**
+ * Load the eval runs and puzzle exports saved in the repo's data directory.
+ */
+export async function loadRepoEvalFiles(): Promise<EvalFiles> {
+  const files: EvalFiles = { runs: [], puzzles: [], errors: [] }
+  const entries = [...Object.entries(REPO_EVAL_RUNS), ...Object.entries(REPO_PUZZLE_EXPORTS)]
+  for (const [path, load] of entries) {
+    try {
+      classifyEvalFile(await load(), path.split('/').pop() ?? path, files)
+    } catch {
+      files.errors.push(`${path}: failed to load`)
+    }
+  }
+  return files
+}
+
+/**
+ * Merge newly loaded files into the current set, skipping duplicate run files.
+ */
+export function mergeEvalFiles(current: EvalFiles, added: EvalFiles): EvalFiles {
+  const runKey = (run: EvalRun) => `${run.id}:${run.models.join(',')}`
+  const seenRuns = new Set(current.runs.map(runKey))
+  const seenPuzzles = new Set(current.puzzles.map((p) => p.id))
+
+  return {
+    runs: [...current.runs, ...added.runs.filter((r) => !seenRuns.has(runKey(r)))],
+    puzzles: [...current.puzzles, ...added.puzzles.filter((p) => !seenPuzzles.has(p.id))],
+    errors: [...current.errors, ...added.errors],
+  }
+}
+
+/**
+ * Distinct puzzle sources across runs, in load order.
+ */
+export function getPuzzleSources(runs: EvalRun[]): string[] {
+  return [...new Set(runs.map((run) => run.puzzleFile))]
+}
+
+/**
+ * Calculate per-model solve rate, cost, tokens and latency.
+ */
+export function getModelStats(results: EvalResult[]): ModelStats[] {
+  const byModel = new Map<string, EvalResult[]>()
+  for (const result of results) {
+    const existing = byModel.get(result.modelId) ?? []
+    existing.push(result)
+    byModel.set(result.modelId, existing)
+  }
+
+  return [...byModel.entries()]
+    .map(([modelId, modelResults]): ModelStats => {
+      const total = modelResults.length
+      const solved = modelResults.filter((r) => r.solved).length
+      const sum = (pick: (r: EvalResult) => number) =>
+        modelResults.reduce((acc, r) => acc + pick(r), 0)
+      const totalCost = sum((r) => r.cost)
+
+      return {
+        modelId,
+        modelName: modelResults[0]?.modelName ?? modelId,
+        solved,
+        total,
+        solveRate: total > 0 ? solved / total : 0,
+        totalCost,
+        avgCost: total > 0 ? totalCost / total : 0,
+        totalTokens: sum((r) => r.totalTokens),
+        avgOutputTokens: total > 0 ? sum((r) => r.outputTokens) / total : 0,
+        avgLatencyMs: total > 0 ? sum((r) => r.inferenceTimeMs) / total : 0,
+      }
+    })
+    .sort((a, b) => b.solveRate - a.solveRate)
+}
+
+/**
+ * Key of a puzzle/model cell in the matrix.
+ */
+export function getCellKey(puzzleId: string, modelId: string): string {
+  return `${puzzleId}::${modelId}`
+}
+
+/**
+ * Group results into a puzzle-by-model matrix. Models are ordered by solve rate.
+ */
+export function buildEvalMatrix(results: EvalResult[]): EvalMatrix {
+  const puzzles = new Map<string, string>()
+  const cells = new Map<string, EvalResult[]>()
+
+  for (const result of results) {
+    puzzles.set(result.puzzleId, result.puzzleName)
+    const key = getCellKey(result.puzzleId, result.modelId)
+    const existing = cells.get(key) ?? []
+    existing.push(result)
+    cells.set(key, existing)
+  }
+
+  return {
+    puzzles: [...puzzles.entries()].map(([id, name]) => ({ id, name })),
+    models: getModelStats(results).map((s) => ({ id: s.modelId, name: s.modelName })),
+    cells,
+  }
+}
+
+/**
+ * Find the level an eval result was run on: a registered dataset, a loaded puzzle
+ * export, or a layout saved in this browser.
+ */
+export function resolveEvalLevel(puzzleId: string, puzzles: SavedLayout[]): SokobanLevel | null {
+  const level = findDatasetLevel(puzzleId)
+  if (level) return level
+
+  const layout =
+    puzzles.find((p) => p.id === puzzleId) ?? getSavedLayoutsList().find((p) => p.id === puzzleId)
+  return layout ? savedLayoutToLevel(layout) : null
+}
+
+/**
+ * Execute a result's moves from the start of a level, keeping every intermediate board.
+ * Multi-turn results are replayed turn by turn, since the moves of a rejected batch after the
+ * invalid one never ran.
+ */
+export function buildEvalReplay(
+  level: SokobanLevel,
+  result: Pick<EvalResult, 'moves' | 'turns'>,
+): EvalReplay {
+  const batches = result.turns?.map((t) => ({ moves: t.moves, turn: t.turn })) ?? [
+    { moves: result.moves, turn: null },
+  ]
+  const states = [initializeGame(level)]
+  const moves: EvalReplayMove[] = []
+
+  for (const batch of batches) {
+    for (let i = 0; i < batch.moves.length; i++) {
+      const current = states[states.length - 1]
+      const direction = batch.moves[i]
+      const next = executeMove(current, direction, 'ai')
+      if (!next) {
+        const vector = DIRECTION_VECTORS[direction]
+        moves.push({
+          direction,
+          turn: batch.turn,
+          rejection: {
+            reason: validateMove(current, direction).error ?? 'Invalid move',
+            cell: { x: current.playerPos.x + vector.dx, y: current.playerPos.y + vector.dy },
+            skipped: batch.moves.slice(i + 1),
+          },
+        })
+        states.push(current)
+        break
+      }
+      moves.push({ direction, turn: batch.turn, rejection: null })
+      states.push(next)
+      if (next.isWon) return { moves, states }
+    }
+  }
+
+  return { moves, states }
+}
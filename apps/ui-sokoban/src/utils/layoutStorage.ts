@@ -1,21 +1,14 @@
-import type { Box, CellTerrain, Difficulty, Position } from '@src/types'
+import {
+  type LevelCollection,
+  type LevelFileFormat,
+  type SavedLayout,
+  exportLevelCollection,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import { v4 as uuidv4 } from 'uuid'
 
-const LAYOUTS_STORAGE_KEY = 'sokoban_layouts'
+export type { SavedLayout }
 
-export interface SavedLayout {
-  id: string
-  name: string
-  savedAt: number
-  order?: number
-  difficulty: Difficulty
-  width: number
-  height: number
-  terrain: CellTerrain[][]
-  playerStart: Position
-  boxStarts: Box[]
-  goals: Position[]
-}
+const LAYOUTS_STORAGE_KEY = 'sokoban_layouts'
 
 /**
  * Get all saved layouts as an object keyed by name.
@@ -155,18 +148,37 @@ export function exportAllLayouts(): string {
 }
 
 /**
- * Trigger a download of all saved layouts as a JSON file.
+ * Export all saved layouts as a level collection (.sok or .slc), named by layout.
  */
-export function downloadAllLayouts(): void {
-  if (typeof window === 'undefined') return
+export function exportAllLayoutsAs(format: LevelFileFormat): string {
+  const collection: LevelCollection = {
+    title: 'Sokoban Puzzles',
+    levels: getSavedLayoutsList().map((layout) => ({
+      level: {
+        id: layout.id,
+        width: layout.width,
+        height: layout.height,
+        terrain: layout.terrain,
+        playerStart: layout.playerStart,
+        boxStarts: layout.boxStarts,
+        goals: layout.goals,
+        difficulty: layout.difficulty,
+        fileSource: 'saved',
+        puzzleNumber: 0,
+      },
+      title: layout.name,
+    })),
+  }
+  return exportLevelCollection(collection, format)
+}
 
-  const json = exportAllLayouts()
-  const blob = new Blob([json], { type: 'application/json' })
+/**
+ * Trigger a browser download of a text file.
+ */
+function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type })
   const url = URL.createObjectURL(blob)
 
-  const timestamp = new Date().toISOString().split('T')[0]
-  const filename = `sokoban-puzzles-${timestamp}.json`
-
   const a = document.createElement('a')
   a.href = url
   a.download = filename
@@ -175,3 +187,25 @@ export function downloadAllLayouts(): void {
   document.body.removeChild(a)
   URL.revokeObjectURL(url)
 }
+
+/**
+ * Trigger a download of all saved layouts as a JSON file.
+ */
+export function downloadAllLayouts(): void {
+  if (typeof window === 'undefined') return
+
+  const timestamp = new Date().toISOString().split('T')[0]
+  downloadFile(exportAllLayouts(), `sokoban-puzzles-${timestamp}.json`, 'application/json')
+}
+
+/**
+ * Trigger a download of all saved layouts as a .sok (XSB) or .slc (XML) collection.
+ */
+export function downloadAllLayoutsAs(format: LevelFileFormat): void {
+  if (typeof window === 'undefined') return
+
+  const timestamp = new Date().toISOString().split('T')[0]
+  const extension = format === 'slc' ? 'slc' : 'sok'
+  const type = format === 'slc' ? 'application/xml' : 'text/plain'
+  downloadFile(exportAllLayoutsAs(format), `sokoban-puzzles-${timestamp}.${extension}`, type)
+}
@@ -0,0 +1,324 @@
+import {
+  BOX_COLOR_NAMES,
+  computeDeadSquares,
+  executeSolution,
+  hasAnySameColorAdjacency,
+  initializeGame,
+  solvePuzzle,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import { v4 as uuidv4 } from 'uuid'
+import type { Box, BoxColor, CellTerrain, MoveDirection, Position, SokobanLevel } from '../types'
+import { canBePushed, isConnected, randomInt, shuffle } from './generatorUtils'
+import { coloredSolve, findAllPossiblePulls } from './simpleSolver'
+
+/**
+ * Puzzle generators. Both draw random walls and goals, then place the boxes either:
+ * - 'random': at random squares, keeping the first board the solver solves in range
+ * - 'reverse': by starting with every box on a goal and playing random pulls (pushes in
+ *   reverse), so every board is solvable; all attempts are scored and the hardest kept
+ */
+
+export type GeneratorMethod = 'random' | 'reverse'
+
+export interface GeneratorOptions {
+  method: GeneratorMethod
+  /** Board size, including the border walls */
+  width: number
+  height: number
+  boxCount: number
+  /** Fraction of interior squares turned into walls (0-0.5) */
+  wallDensity: number
+  /** Number of box colors (1-4); several colors also require a colored-rules solution */
+  colorCount: number
+  /** Accepted solution lengths, in moves of the solver's solution */
+  minMoves: number
+  maxMoves: number
+  maxAttempts: number
+  /** Random pulls played from the solved position ('reverse' only) */
+  pullCount: number
+}
+
+export type GeneratorPreset = 'eval-easy' | 'mixed-custom' | 'hard-reverse'
+
+export const GENERATOR_PRESETS: Record<GeneratorPreset, GeneratorOptions> = {
+  'eval-easy': {
+    method: 'random',
+    width: 8,
+    height: 8,
+    boxCount: 2,
+    wallDensity: 0.1,
+    colorCount: 1,
+    minMoves: 5,
+    maxMoves: 30,
+    maxAttempts: 200,
+    pullCount: 0,
+  },
+  'mixed-custom': {
+    method: 'random',
+    width: 10,
+    height: 10,
+    boxCount: 3,
+    wallDensity: 0.25,
+    colorCount: 2,
+    minMoves: 20,
+    maxMoves: 80,
+    maxAttempts: 300,
+    pullCount: 0,
+  },
+  'hard-reverse': {
+    method: 'reverse',
+    width: 10,
+    height: 10,
+    boxCount: 4,
+    wallDensity: 0.2,
+    colorCount: 1,
+    minMoves: 40,
+    maxMoves: 400,
+    maxAttempts: 40,
+    pullCount: 300,
+  },
+}
+
+/** How hard a generated puzzle is, measured on the solver's solution */
+export interface CandidateMetrics {
+  moves: number
+  pushes: number
+  /** Pushes of a different box than the push before: how much the boxes interleave */
+  boxSwitches: number
+  /** Boxes that start next to another box */
+  touchingBoxes: number
+  score: number
+}
+
+export interface GeneratorResult {
+  /** The generated level, or null if no attempt passed */
+  level: SokobanLevel | null
+  /** The solver's solution for the level */
+  solution: MoveDirection[] | null
+  metrics: CandidateMetrics | null
+  attempts: number
+}
+
+// Node limit for checking each candidate, kept low so hopeless boards fail fast
+const GENERATOR_SOLVER_NODE_LIMIT = 20000
+const GENERATOR_COLORED_STATE_LIMIT = 20000
+
+// Score = sum of metric × weight. Pushes and box switches count most, since long walks
+// alone don't make a puzzle harder.
+const SCORE_WEIGHTS = { moves: 0.1, pushes: 1, boxSwitches: 3, touchingBoxes: 2 }
+
+const BOX_COLORS = Object.keys(BOX_COLOR_NAMES) as BoxColor[]
+
+/**
+ * Clamp options to what the generator can build: a 4-20 board with room for every box,
+ * its goal and the player.
+ */
+export function normalizeGeneratorOptions(options: GeneratorOptions): GeneratorOptions {
+  const width = clamp(Math.round(options.width), 4, 20)
+  const height = clamp(Math.round(options.height), 4, 20)
+  const interior = (width - 2) * (height - 2)
+  const minMoves = Math.max(0, Math.round(options.minMoves))
+  return {
+    method: options.method === 'reverse' ? 'reverse' : 'random',
+    width,
+    height,
+    boxCount: clamp(Math.round(options.boxCount), 1, Math.floor((interior - 1) / 2)),
+    wallDensity: clamp(options.wallDensity, 0, 0.5),
+    colorCount: clamp(Math.round(options.colorCount), 1, BOX_COLORS.length),
+    minMoves,
+    maxMoves: Math.max(minMoves, Math.round(options.maxMoves)),
+    maxAttempts: clamp(Math.round(options.maxAttempts), 1, 10000),
+    pullCount: clamp(Math.round(options.pullCount), 0, 10000),
+  }
+}
+
+/**
+ * Generate a solver-verified puzzle. Calls onAttempt before each attempt with the solver
+ * nodes spent so far.
+ */
+export async function generateLevel(
+  options: GeneratorOptions,
+  onAttempt?: (attempt: number, nodesExplored: number) => void,
+): Promise<GeneratorResult> {
+  const settings = normalizeGeneratorOptions(options)
+  let nodesExplored = 0
+  let best: GeneratorResult | null = null
+
+  for (let attempt = 1; attempt <= settings.maxAttempts; attempt++) {
+    onAttempt?.(attempt, nodesExplored)
+    const level =
+      settings.method === 'reverse' ? createReverseCandidate(settings) : createCandidate(settings)
+    if (!level) continue
+
+    const result = solvePuzzle(level, GENERATOR_SOLVER_NODE_LIMIT)
+    nodesExplored += result.nodesExplored
+    if (!result.solvable || !result.solution) continue
+    if (result.moveCount < settings.minMoves || result.moveCount > settings.maxMoves) continue
+
+    // Reverse play keeps the colored rule on every pull, so only random boards need this
+    if (settings.colorCount > 1 && settings.method === 'random') {
+      const colored = await coloredSolve(initializeGame(level), GENERATOR_COLORED_STATE_LIMIT)
+      if (!colored.solvable) continue
+    }
+
+    const metrics = scoreCandidate(level, result.solution)
+    const candidate = {
+      level: { ...level, generationIterations: attempt },
+      solution: result.solution,
+      metrics,
+      attempts: attempt,
+    }
+    if (settings.method === 'random') return candidate
+    if (!best?.metrics || metrics.score > best.metrics.score) best = candidate
+  }
+
+  if (best) return { ...best, attempts: settings.maxAttempts }
+  return { level: null, solution: null, metrics: null, attempts: settings.maxAttempts }
+}
+
+/**
+ * Measure a puzzle by replaying its solution.
+ */
+export function scoreCandidate(level: SokobanLevel, solution: MoveDirection[]): CandidateMetrics {
+  const history = executeSolution(level, solution).finalState.moveHistory
+
+  let pushes = 0
+  let boxSwitches = 0
+  let lastPushed: Position | null = null
+  for (const record of history) {
+    if (!record.wasPush || !record.previousBox) continue
+    pushes++
+    const box = record.previousBox
+    if (lastPushed && (lastPushed.x !== box.x || lastPushed.y !== box.y)) boxSwitches++
+    const { x, y } = record.previousPlayerPos
+    lastPushed = { x: 2 * box.x - x, y: 2 * box.y - y }
+  }
+
+  const touchingBoxes = level.boxStarts.filter((box) =>
+    level.boxStarts.some((other) => Math.abs(other.x - box.x) + Math.abs(other.y - box.y) === 1),
+  ).length
+
+  const metrics = { moves: history.length, pushes, boxSwitches, touchingBoxes }
+  const score =
+    metrics.moves * SCORE_WEIGHTS.moves +
+    metrics.pushes * SCORE_WEIGHTS.pushes +
+    metrics.boxSwitches * SCORE_WEIGHTS.boxSwitches +
+    metrics.touchingBoxes * SCORE_WEIGHTS.touchingBoxes
+  return { ...metrics, score: Math.round(score * 10) / 10 }
+}
+
+/**
+ * Draw one random board. Returns null if the walls split the floor or leave too little room.
+ */
+function createCandidate(settings: GeneratorOptions): SokobanLevel | null {
+  const board = createBoard(settings)
+  if (!board) return null
+  const { level, floors } = board
+
+  // Boxes start off their goals, somewhere they can still be pushed from
+  const deadSquares = computeDeadSquares(level)
+  const goalKeys = new Set(level.goals.map((g) => `${g.x},${g.y}`))
+  const boxSquares = floors.filter(
+    (pos) =>
+      !goalKeys.has(`${pos.x},${pos.y}`) &&
+      !deadSquares.has(`${pos.x},${pos.y}`) &&
+      canBePushed(level.terrain, pos),
+  )
+  if (boxSquares.length < settings.boxCount) return null
+
+  level.boxStarts = colorBoxes(boxSquares.slice(0, settings.boxCount), settings.colorCount)
+  level.playerStart = pickPlayerSquare(floors, [...level.goals, ...level.boxStarts])
+  return level
+}
+
+/**
+ * Draw one random board with every box on a goal, then pull boxes at random. Returns null
+ * if the board can't be built or no box left its goal.
+ */
+function createReverseCandidate(settings: GeneratorOptions): SokobanLevel | null {
+  const board = createBoard(settings)
+  if (!board) return null
+  const { level, floors } = board
+
+  const coloredRules = settings.colorCount > 1
+  let boxes = colorBoxes(level.goals, settings.colorCount)
+  if (coloredRules && hasAnySameColorAdjacency(boxes)) return null
+  let player = pickPlayerSquare(floors, level.goals)
+
+  for (let i = 0; i < settings.pullCount; i++) {
+    const pulls = findAllPossiblePulls(player, boxes, level, coloredRules)
+    if (pulls.length === 0) break
+    const pull = pulls[randomInt(0, pulls.length - 1)]
+    boxes = boxes.map((b, j) => (j === pull.boxIndex ? pull.newBox : b))
+    player = pull.newPlayerPos
+  }
+
+  const goalKeys = new Set(level.goals.map((g) => `${g.x},${g.y}`))
+  if (boxes.every((b) => goalKeys.has(`${b.x},${b.y}`))) return null
+
+  level.boxStarts = boxes
+  level.playerStart = player
+  return level
+}
+
+/**
+ * Random walls inside a border, with goals on random floor squares. Returns the level
+ * without boxes and its floor squares in random order, or null if the floor is split
+ * or too small.
+ */
+function createBoard(
+  settings: GeneratorOptions,
+): { level: SokobanLevel; floors: Position[] } | null {
+  const { width, height, boxCount, wallDensity } = settings
+
+  const terrain: CellTerrain[][] = []
+  for (let y = 0; y < height; y++) {
+    const row: CellTerrain[] = []
+    for (let x = 0; x < width; x++) {
+      const border = x === 0 || y === 0 || x === width - 1 || y === height - 1
+      row.push(border || Math.random() < wallDensity ? 'wall' : 'floor')
+    }
+    terrain.push(row)
+  }
+  if (!isConnected(terrain, width, height)) return null
+
+  const floors: Position[] = []
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (terrain[y][x] === 'floor') floors.push({ x, y })
+    }
+  }
+  if (floors.length < boxCount * 2 + 1) return null
+
+  const shuffled = shuffle(floors)
+  const goals = shuffled.slice(0, boxCount)
+  for (const goal of goals) terrain[goal.y][goal.x] = 'goal'
+
+  const level: SokobanLevel = {
+    id: `generated-${uuidv4()}`,
+    width,
+    height,
+    terrain,
+    playerStart: { x: 0, y: 0 },
+    boxStarts: [],
+    goals,
+    difficulty: 'generated',
+    fileSource: 'generator',
+    puzzleNumber: 0,
+  }
+  return { level, floors: shuffled }
+}
+
+function colorBoxes(squares: Position[], colorCount: number): Box[] {
+  return squares.map((pos, i) => ({ x: pos.x, y: pos.y, color: BOX_COLORS[i % colorCount] }))
+}
+
+function pickPlayerSquare(floors: Position[], taken: Position[]): Position {
+  const takenKeys = new Set(taken.map((p) => `${p.x},${p.y}`))
+  const free = floors.filter((pos) => !takenKeys.has(`${pos.x},${pos.y}`))
+  return free[randomInt(0, free.length - 1)]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : min))
+}
@@ -1,166 +1,108 @@
-import { BOXOBAN_HARD_LEVELS_RAW } from '@src/data/boxobanHardLevels'
-import { BOXOBAN_MEDIUM_LEVELS_RAW } from '@src/data/boxobanMediumLevels'
-import { LMIQ_REASONING_EASY_LEVELS_RAW } from '@src/data/lmiqReasoningEasyLevels'
-import { MICROBAN_LEVELS_RAW } from '@src/data/microbanLevels'
+import {
+  type DatasetManifest,
+  parseDatasetLevels,
+  parseDatasetManifest,
+  sortDatasets,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import type { SokobanLevel } from '@src/types'
-import { parseLevelFile } from './levelParser'
 
-// Cache parsed medium levels
-let mediumLevelsCache: SokobanLevel[] | null = null
-
-// Cache parsed hard levels
-let hardLevelsCache: SokobanLevel[] | null = null
-
-// Cache parsed microban levels
-let microbanLevelsCache: SokobanLevel[] | null = null
-
-// Cache parsed LMIQ levels
-let lmiqLevelsCache: SokobanLevel[] | null = null
-
-/**
- * Get all medium levels (parsed from embedded data).
- */
-export function getMediumLevels(): SokobanLevel[] {
-  if (!mediumLevelsCache) {
-    mediumLevelsCache = parseLevelFile(BOXOBAN_MEDIUM_LEVELS_RAW, 'classic', 'embedded')
+// Registered datasets (see sokoban-core's datasets.ts), bundled with the app
+const DATASETS_DIR = '../../../../data/datasets'
+const MANIFEST_FILES = import.meta.glob<unknown>('../../../../data/datasets/*.dataset.json', {
+  eager: true,
+  import: 'default',
+})
+const LEVEL_FILES = import.meta.glob<string>(
+  ['../../../../data/datasets/**/*', '!**/*.dataset.json'],
+  { eager: true, query: '?raw', import: 'default' },
+)
+
+/**
+ * Read the bundled manifests. Invalid manifests are skipped with a warning.
+ */
+function loadManifests(): DatasetManifest[] {
+  const manifests: DatasetManifest[] = []
+  for (const [path, data] of Object.entries(MANIFEST_FILES)) {
+    const name = path.split('/').pop() ?? path
+    try {
+      const manifest = parseDatasetManifest(data)
+      if (manifests.some((m) => m.id === manifest.id)) {
+        throw new Error(`duplicate id "${manifest.id}"`)
+      }
+      manifests.push(manifest)
+    } catch (error) {
+      console.warn(`Skipping dataset manifest ${name}:`, error)
+    }
   }
-  return mediumLevelsCache
+  return sortDatasets(manifests)
 }
 
 /**
- * Get a specific medium level by index (0-based).
+ * Registered datasets, in display order.
  */
-export function getMediumLevel(index: number): SokobanLevel | null {
-  const levels = getMediumLevels()
-  if (index < 0 || index >= levels.length) {
-    return null
-  }
-  return levels[index]
-}
+export const DATASETS: DatasetManifest[] = loadManifests()
 
-/**
- * Get the total number of medium levels available.
- */
-export function getMediumLevelCount(): number {
-  return getMediumLevels().length
-}
+// Cache parsed levels per dataset
+const levelsCache = new Map<string, SokobanLevel[]>()
 
 /**
- * Get a random medium level.
+ * Get all levels of a dataset (parsed on first use). Empty if the dataset is unknown or its
+ * level file can't be read.
  */
-export function getRandomMediumLevel(): SokobanLevel {
-  const levels = getMediumLevels()
-  return levels[Math.floor(Math.random() * levels.length)]
-}
+export function getDatasetLevels(datasetId: string): SokobanLevel[] {
+  const cached = levelsCache.get(datasetId)
+  if (cached) return cached
 
-/**
- * Get all hard levels (parsed from embedded data).
- */
-export function getHardLevels(): SokobanLevel[] {
-  if (!hardLevelsCache) {
-    hardLevelsCache = parseLevelFile(BOXOBAN_HARD_LEVELS_RAW, 'classic-hard', 'boxoban-hard')
-  }
-  return hardLevelsCache
-}
+  const dataset = DATASETS.find((d) => d.id === datasetId)
+  if (!dataset) return []
 
-/**
- * Get a specific hard level by index (0-based).
- */
-export function getHardLevel(index: number): SokobanLevel | null {
-  const levels = getHardLevels()
-  if (index < 0 || index >= levels.length) {
-    return null
+  let levels: SokobanLevel[] = []
+  const content = LEVEL_FILES[`${DATASETS_DIR}/${dataset.file.replace(/^\.\//, '')}`]
+  if (content === undefined) {
+    console.warn(`Dataset file not found: ${dataset.file}`)
+  } else {
+    try {
+      levels = parseDatasetLevels(dataset, content).map(({ level }) => level)
+    } catch (error) {
+      console.warn(`Failed to load dataset ${dataset.id}:`, error)
+    }
   }
-  return levels[index]
+  levelsCache.set(datasetId, levels)
+  return levels
 }
 
 /**
- * Get the total number of hard levels available.
+ * Get a specific level of a dataset by index (0-based).
  */
-export function getHardLevelCount(): number {
-  return getHardLevels().length
+export function getDatasetLevel(datasetId: string, index: number): SokobanLevel | null {
+  return getDatasetLevels(datasetId)[index] ?? null
 }
 
 /**
- * Get a random hard level.
+ * Get the total number of levels in a dataset.
  */
-export function getRandomHardLevel(): SokobanLevel {
-  const levels = getHardLevels()
-  return levels[Math.floor(Math.random() * levels.length)]
+export function getDatasetLevelCount(datasetId: string): number {
+  return getDatasetLevels(datasetId).length
 }
 
 /**
- * Get all microban levels (parsed from embedded data).
+ * Get a random level of a dataset.
  */
-export function getMicrobanLevels(): SokobanLevel[] {
-  if (!microbanLevelsCache) {
-    microbanLevelsCache = parseLevelFile(MICROBAN_LEVELS_RAW, 'microban', 'microban')
-  }
-  return microbanLevelsCache
+export function getRandomDatasetLevel(datasetId: string): SokobanLevel | null {
+  const levels = getDatasetLevels(datasetId)
+  return levels[Math.floor(Math.random() * levels.length)] ?? null
 }
 
 /**
- * Get a specific microban level by index (0-based).
+ * Find a dataset level by id. Only datasets whose ids could match are parsed: ids are
+ * `<difficulty>-<dataset id>-<number>`, except in UI exports.
  */
-export function getMicrobanLevel(index: number): SokobanLevel | null {
-  const levels = getMicrobanLevels()
-  if (index < 0 || index >= levels.length) {
-    return null
+export function findDatasetLevel(levelId: string): SokobanLevel | null {
+  for (const dataset of DATASETS) {
+    const prefix = `${dataset.difficulty ?? 'classic'}-${dataset.id}-`
+    if (dataset.format !== 'export' && !levelId.startsWith(prefix)) continue
+    const level = getDatasetLevels(dataset.id).find((l) => l.id === levelId)
+    if (level) return level
   }
-  return levels[index]
-}
-
-/**
- * Get the total number of microban levels available.
- */
-export function getMicrobanLevelCount(): number {
-  return getMicrobanLevels().length
-}
-
-/**
- * Get a random microban level.
- */
-export function getRandomMicrobanLevel(): SokobanLevel {
-  const levels = getMicrobanLevels()
-  return levels[Math.floor(Math.random() * levels.length)]
-}
-
-/**
- * Get all LMIQ Reasoning Easy levels (parsed from embedded data).
- */
-export function getLmiqLevels(): SokobanLevel[] {
-  if (!lmiqLevelsCache) {
-    lmiqLevelsCache = parseLevelFile(
-      LMIQ_REASONING_EASY_LEVELS_RAW,
-      'lmiq-reasoning-easy',
-      'lmiq-reasoning-easy',
-    )
-  }
-  return lmiqLevelsCache
-}
-
-/**
- * Get a specific LMIQ level by index (0-based).
- */
-export function getLmiqLevel(index: number): SokobanLevel | null {
-  const levels = getLmiqLevels()
-  if (index < 0 || index >= levels.length) {
-    return null
-  }
-  return levels[index]
-}
-
-/**
- * Get the total number of LMIQ levels available.
- */
-export function getLmiqLevelCount(): number {
-  return getLmiqLevels().length
-}
-
-/**
- * Get a random LMIQ level.
- */
-export function getRandomLmiqLevel(): SokobanLevel {
-  const levels = getLmiqLevels()
-  return levels[Math.floor(Math.random() * levels.length)]
+  return null
 }
@@ -339,11 +339,13 @@ function generateValidGoalConfigurations(boxes: Box[], goals: Position[]): Box[]
 /**
  * Find all possible "pull" moves from a state (reverse of push).
  * A pull: player is adjacent to box, moves away, box follows into player's old position.
+ * With sameColorRule, pulls that leave two boxes of one color side by side are skipped.
  */
-function findAllPossiblePulls(
+export function findAllPossiblePulls(
   playerPos: Position,
   boxes: Box[],
   level: SokobanLevel,
+  sameColorRule = true,
 ): { boxIndex: number; newBox: Box; newPlayerPos: Position }[] {
   const reachable = computePlayerReachability(playerPos, boxes, level)
   const pulls: { boxIndex: number; newBox: Box; newPlayerPos: Position }[] = []
@@ -373,7 +375,7 @@ function findAllPossiblePulls(
       const newBox: Box = { x: px, y: py, color: boxes[boxIndex].color }
 
       // Check same-color adjacency for the pulled box
-      if (hasSameColorAdjacency(newBox, boxes, boxIndex)) continue
+      if (sameColorRule && hasSameColorAdjacency(newBox, boxes, boxIndex)) continue
 
       pulls.push({
         boxIndex,
@@ -1,13 +1,14 @@
+import { type SolverMode, levelToAscii, lurdToMoves } from '@sokoban-eval-toolkit/sokoban-core'
 import solutionCacheData from '../data/solutionCacheLite.json'
 import type { MoveDirection, SokobanLevel } from '../types'
-import { levelToAscii } from './levelParser'
-import { solvePuzzleAsync } from './sokobanSolver'
+import { type SolverJobOptions, solveInWorker } from './solverClient'
 
-// The cache is imported directly as a JSON module
+// The cache is imported directly as a JSON module (level hash -> LURD solution)
 const solutionCache: Record<string, string> = solutionCacheData as Record<string, string>
 
-// Node limit for runtime solving (lower than benchmark to keep UI responsive)
-export const RUNTIME_SOLVER_NODE_LIMIT = 25000
+// Node limit for runtime solving. The solver runs in a Web Worker, so the page stays
+// responsive and this can be well above the benchmark limit.
+export const RUNTIME_SOLVER_NODE_LIMIT = 500000
 
 /**
  * Hash a level to match the benchmark cache key format.
@@ -23,33 +24,14 @@ async function hashLevel(level: SokobanLevel): Promise<string> {
   return hashHex.substring(0, 16)
 }
 
-/**
- * Convert compact solution string to MoveDirection array.
- * u=UP, d=DOWN, l=LEFT, r=RIGHT
- */
-function solutionStringToMoves(solution: string): MoveDirection[] {
-  return solution.split('').map((char) => {
-    switch (char) {
-      case 'u':
-        return 'UP'
-      case 'd':
-        return 'DOWN'
-      case 'l':
-        return 'LEFT'
-      case 'r':
-        return 'RIGHT'
-      default:
-        throw new Error(`Invalid move character: ${char}`)
-    }
-  })
-}
-
 export interface SolutionFound {
   found: true
   solution: MoveDirection[]
   moveCount: number
   /** 'cache' if from pre-computed cache, 'solver' if computed at runtime */
   source: 'cache' | 'solver'
+  /** True if the solver proved the solution shortest for its mode */
+  optimal: boolean
 }
 
 export interface SolutionNotFound {
@@ -67,22 +49,29 @@ export type SolutionResult = SolutionFound | SolutionNotFound
  * @param options - Optional settings
  * @param options.cacheOnly - If true, only check cache (don't run solver)
  * @param options.maxNodes - Override the default node limit for runtime solving
+ * @param options.mode - Solver mode; the optimal modes skip the cache, whose solutions are not
+ *   proven optimal
+ * @param options.onProgress - Receives node counts while the solver runs
+ * @param options.signal - Cancels the solver; the promise then rejects with an AbortError
  */
 export async function getSolution(
   level: SokobanLevel,
-  options?: { cacheOnly?: boolean; maxNodes?: number },
+  options?: { cacheOnly?: boolean; maxNodes?: number; mode?: SolverMode } & SolverJobOptions,
 ): Promise<SolutionResult> {
+  const mode = options?.mode ?? 'fast'
+
   // Check cache first
   const hash = await hashLevel(level)
-  const cachedSolution = solutionCache[hash]
+  const cachedSolution = mode === 'fast' ? solutionCache[hash] : undefined
 
   if (cachedSolution) {
-    const solution = solutionStringToMoves(cachedSolution)
+    const solution = lurdToMoves(cachedSolution)
     return {
       found: true,
       solution,
       moveCount: solution.length,
       source: 'cache',
+      optimal: false,
     }
   }
 
@@ -92,7 +81,10 @@ export async function getSolution(
   }
 
   const nodeLimit = options?.maxNodes ?? RUNTIME_SOLVER_NODE_LIMIT
-  const result = await solvePuzzleAsync(level, nodeLimit)
+  const result = await solveInWorker(level, nodeLimit, mode, {
+    onProgress: options?.onProgress,
+    signal: options?.signal,
+  })
 
   if (result.solvable && result.solution) {
     return {
@@ -100,6 +92,7 @@ export async function getSolution(
       solution: result.solution,
       moveCount: result.moveCount,
       source: 'solver',
+      optimal: result.optimal,
     }
   }
 
@@ -0,0 +1,145 @@
+import type { SolverMode, SolverResult } from '@sokoban-eval-toolkit/sokoban-core'
+import type { DifficultyMetrics, GameState, SokobanLevel } from '../types'
+import type { GeneratorOptions, GeneratorResult } from './levelGenerator'
+import type { ColoredSolverResult } from './simpleSolver'
+import type { SolverWorkerRequest, SolverWorkerResponse } from './solverWorker'
+
+// State limit for the colored solver, whose breadth-first search holds every state it sees
+export const COLORED_SOLVER_STATE_LIMIT = 100000
+
+export interface SolverProgress {
+  nodesExplored: number
+  /** Stage description, reported by the colored solver */
+  phase?: string
+  /** Current attempt, reported by the generator */
+  attempt?: number
+}
+
+export interface SolverJobOptions {
+  onProgress?: (progress: SolverProgress) => void
+  /** Aborting terminates the worker and rejects with an AbortError */
+  signal?: AbortSignal
+}
+
+/**
+ * Run one request on a fresh worker. The worker is terminated when the job settles,
+ * so an abandoned search never keeps running in the background.
+ */
+function runJob<T>(
+  request: SolverWorkerRequest,
+  pickResult: (response: SolverWorkerResponse) => T | undefined,
+  options: SolverJobOptions,
+): Promise<T> {
+  const { onProgress, signal } = options
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Solver cancelled', 'AbortError'))
+      return
+    }
+
+    const worker = new Worker(new URL('./solverWorker.ts', import.meta.url), { type: 'module' })
+
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(new DOMException('Solver cancelled', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort)
+
+    worker.onmessage = (event: MessageEvent<SolverWorkerResponse>) => {
+      const response = event.data
+      if (response.type === 'progress') {
+        const { nodesExplored, phase, attempt } = response
+        onProgress?.({ nodesExplored, phase, attempt })
+        return
+      }
+      finish()
+      if (response.type === 'error') {
+        reject(new Error(response.message))
+        return
+      }
+      const result = pickResult(response)
+      if (result === undefined) {
+        reject(new Error(`Unexpected solver response: ${response.type}`))
+      } else {
+        resolve(result)
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Solver worker failed'))
+    }
+
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Solve a level in a Web Worker with the push-level solver.
+ */
+export function solveInWorker(
+  level: SokobanLevel,
+  maxNodes: number,
+  mode: SolverMode,
+  options: SolverJobOptions = {},
+): Promise<SolverResult> {
+  return runJob(
+    { type: 'solve', level, maxNodes, mode },
+    (response) => (response.type === 'result' ? response.result : undefined),
+    options,
+  )
+}
+
+/**
+ * Check a colored-box position for solvability in a Web Worker with the backward solver.
+ */
+export function coloredSolveInWorker(
+  state: GameState,
+  maxStates: number,
+  options: SolverJobOptions = {},
+): Promise<ColoredSolverResult> {
+  return runJob(
+    { type: 'coloredSolve', state, maxStates },
+    (response) => (response.type === 'coloredResult' ? response.result : undefined),
+    options,
+  )
+}
+
+/**
+ * Generate a solver-verified puzzle in a Web Worker.
+ */
+export function generateInWorker(
+  options: GeneratorOptions,
+  jobOptions: SolverJobOptions = {},
+): Promise<GeneratorResult> {
+  return runJob(
+    { type: 'generate', options },
+    (response) => (response.type === 'generated' ? response.result : undefined),
+    jobOptions,
+  )
+}
+
+/**
+ * Measure a level's difficulty in a Web Worker.
+ */
+export function analyzeInWorker(
+  level: SokobanLevel,
+  options: SolverJobOptions = {},
+): Promise<DifficultyMetrics> {
+  return runJob(
+    { type: 'analyze', level },
+    (response) => (response.type === 'analysis' ? response.metrics : undefined),
+    options,
+  )
+}
+
+/**
+ * True for the rejection of a cancelled solver job.
+ */
+export function isSolverCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
@@ -0,0 +1,64 @@
+import {
+  type SolverMode,
+  type SolverResult,
+  analyzeDifficulty,
+  solvePuzzle,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { DifficultyMetrics, GameState, SokobanLevel } from '../types'
+import { type GeneratorOptions, type GeneratorResult, generateLevel } from './levelGenerator'
+import { type ColoredSolverResult, coloredSolve } from './simpleSolver'
+
+/**
+ * Web Worker entry for the solvers, the difficulty analysis and the puzzle generator.
+ * Each worker runs one job: the page posts a request, receives progress messages while it runs,
+ * then a single result or error. Cancelling a job terminates its worker (see solverClient.ts).
+ */
+
+export type SolverWorkerRequest =
+  | { type: 'solve'; level: SokobanLevel; maxNodes: number; mode: SolverMode }
+  | { type: 'coloredSolve'; state: GameState; maxStates: number }
+  | { type: 'generate'; options: GeneratorOptions }
+  | { type: 'analyze'; level: SokobanLevel }
+
+export type SolverWorkerResponse =
+  | { type: 'progress'; nodesExplored: number; phase?: string; attempt?: number }
+  | { type: 'result'; result: SolverResult }
+  | { type: 'coloredResult'; result: ColoredSolverResult }
+  | { type: 'generated'; result: GeneratorResult }
+  | { type: 'analysis'; metrics: DifficultyMetrics }
+  | { type: 'error'; message: string }
+
+function post(message: SolverWorkerResponse): void {
+  self.postMessage(message)
+}
+
+self.onmessage = async (event: MessageEvent<SolverWorkerRequest>) => {
+  const request = event.data
+  try {
+    if (request.type === 'solve') {
+      const result = solvePuzzle(request.level, request.maxNodes, request.mode, (nodesExplored) =>
+        post({ type: 'progress', nodesExplored }),
+      )
+      post({ type: 'result', result })
+    } else if (request.type === 'generate') {
+      const result = await generateLevel(request.options, (attempt, nodesExplored) =>
+        post({ type: 'progress', nodesExplored, attempt }),
+      )
+      post({ type: 'generated', result })
+    } else if (request.type === 'analyze') {
+      const metrics = await analyzeDifficulty(request.level, undefined, (nodesExplored) =>
+        post({ type: 'progress', nodesExplored }),
+      )
+      post({ type: 'analysis', metrics })
+    } else {
+      const result = await coloredSolve(
+        request.state,
+        request.maxStates,
+        (nodesExplored, _, phase) => post({ type: 'progress', nodesExplored, phase }),
+      )
+      post({ type: 'coloredResult', result })
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Solver failed' })
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test'
+import { executeSolution, lurdToMoves, parseLevel } from '@sokoban-eval-toolkit/sokoban-core'
+import {
+  type GeneratorOptions,
+  generateLevel,
+  normalizeGeneratorOptions,
+  scoreCandidate,
+} from '../levelGenerator'
+
+const SMALL_BOARD: GeneratorOptions = {
+  method: 'random',
+  width: 7,
+  height: 7,
+  boxCount: 2,
+  wallDensity: 0.1,
+  colorCount: 1,
+  minMoves: 8,
+  maxMoves: 40,
+  maxAttempts: 300,
+  pullCount: 0,
+}
+
+describe('level generator', () => {
+  test('clamps options to a buildable board', () => {
+    const settings = normalizeGeneratorOptions({
+      ...SMALL_BOARD,
+      width: 2,
+      height: 40,
+      boxCount: 99,
+      wallDensity: 0.9,
+      colorCount: 9,
+      minMoves: 50,
+      maxMoves: 10,
+      maxAttempts: Number.NaN,
+    })
+
+    expect(settings).toMatchObject({
+      width: 4,
+      height: 20,
+      boxCount: 17,
+      wallDensity: 0.5,
+      colorCount: 4,
+      minMoves: 50,
+      maxMoves: 50,
+      maxAttempts: 1,
+    })
+  })
+
+  test('generates a solvable level within the move range', async () => {
+    const attempts: number[] = []
+    const result = await generateLevel(SMALL_BOARD, (attempt) => attempts.push(attempt))
+    if (!result.level || !result.solution) throw new Error('No level generated')
+
+    expect(result.level.boxStarts).toHaveLength(2)
+    expect(result.level.goals).toHaveLength(2)
+    expect(result.solution.length).toBeGreaterThanOrEqual(SMALL_BOARD.minMoves)
+    expect(result.solution.length).toBeLessThanOrEqual(SMALL_BOARD.maxMoves)
+    expect(executeSolution(result.level, result.solution).solved).toBe(true)
+    expect(result.level.generationIterations).toBe(result.attempts)
+    expect(attempts).toHaveLength(result.attempts)
+  })
+
+  test('scores pushes, box switches and touching boxes from the solution', () => {
+    const level = parseLevel(
+      `
+#######
+#@$ . #
+# $ . #
+#     #
+#######
+`,
+      'two-rows',
+    )
+    // Both pushes on the top box, walk round, then both pushes on the bottom box
+    const solution = lurdToMoves('RRddlluRR')
+
+    expect(executeSolution(level, solution).solved).toBe(true)
+    expect(scoreCandidate(level, solution)).toEqual({
+      moves: 9,
+      pushes: 4,
+      boxSwitches: 1,
+      touchingBoxes: 2,
+      score: 11.9,
+    })
+  })
+
+  test('keeps the hardest solvable reverse-play candidate', async () => {
+    const settings: GeneratorOptions = {
+      ...SMALL_BOARD,
+      method: 'reverse',
+      minMoves: 1,
+      maxMoves: 400,
+      maxAttempts: 10,
+      pullCount: 50,
+    }
+    const result = await generateLevel(settings)
+    if (!result.level || !result.solution) throw new Error('No level generated')
+
+    const goals = new Set(result.level.goals.map((g) => `${g.x},${g.y}`))
+    expect(result.level.boxStarts.some((b) => !goals.has(`${b.x},${b.y}`))).toBe(true)
+    expect(executeSolution(result.level, result.solution).solved).toBe(true)
+    expect(result.metrics).toEqual(scoreCandidate(result.level, result.solution))
+    expect(result.attempts).toBe(settings.maxAttempts)
+  })
+})
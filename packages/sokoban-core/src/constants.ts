@@ -0,0 +1,27 @@
+import type { BoxColor, MoveDirection } from './types'
+
+// Direction vectors
+export const DIRECTION_VECTORS: Record<MoveDirection, { dx: number; dy: number }> = {
+  UP: { dx: 0, dy: -1 },
+  DOWN: { dx: 0, dy: 1 },
+  LEFT: { dx: -1, dy: 0 },
+  RIGHT: { dx: 1, dy: 0 },
+}
+
+export const MOVE_DIRECTIONS: MoveDirection[] = ['UP', 'DOWN', 'LEFT', 'RIGHT']
+
+// Box color display names for prompts
+export const BOX_COLOR_NAMES: Record<BoxColor, string> = {
+  orange: 'Orange',
+  purple: 'Purple',
+  emerald: 'Emerald',
+  sky: 'Sky',
+}
+
+// Box color symbols for ASCII representation (first letter, uppercase)
+export const BOX_COLOR_SYMBOLS: Record<BoxColor, string> = {
+  orange: 'O',
+  purple: 'P',
+  emerald: 'E',
+  sky: 'S',
+}
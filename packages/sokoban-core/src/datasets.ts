@@ -0,0 +1,170 @@
+import { parseLevelCollection } from './level-formats'
+import { parseLevelFile, parseLevelRows } from './level-parser'
+import type {
+  CollectionLevel,
+  DatasetFormat,
+  DatasetManifest,
+  Difficulty,
+  SokobanLevel,
+} from './types'
+
+/**
+ * Dataset registry: each dataset is a manifest file (`<name>.dataset.json`) in the datasets
+ * directory, next to its level file. The eval CLI reads the directory from disk and the game
+ * bundles it, so both list the same datasets. Parsing lives here so both read files alike.
+ */
+
+export const DATASET_MANIFEST_SUFFIX = '.dataset.json'
+
+const DATASET_FORMATS: DatasetFormat[] = ['ascii', 'collection', 'jsonl', 'export']
+
+// Manifest ids end up in puzzle ids, so keep them to lowercase words
+const DATASET_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+/**
+ * Check parsed manifest JSON, throwing an error naming the problem.
+ */
+export function parseDatasetManifest(data: unknown): DatasetManifest {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('expected an object')
+  }
+  const manifest = data as Partial<DatasetManifest>
+
+  if (!isNonEmptyString(manifest.id) || !DATASET_ID_PATTERN.test(manifest.id)) {
+    throw new Error('id must be lowercase words joined by -')
+  }
+  for (const field of ['name', 'description', 'file'] as const) {
+    if (!isNonEmptyString(manifest[field])) {
+      throw new Error(`missing ${field}`)
+    }
+  }
+  if (!DATASET_FORMATS.includes(manifest.format as DatasetFormat)) {
+    throw new Error(`format must be one of ${DATASET_FORMATS.join(', ')}`)
+  }
+  // Level files sit in the datasets directory, where the game can bundle them
+  const file = manifest.file as string
+  if (file.startsWith('/') || file.split(/[\\/]/).includes('..')) {
+    throw new Error('file must be inside the datasets directory')
+  }
+
+  return manifest as DatasetManifest
+}
+
+/**
+ * Sort datasets for display: by order, then by name.
+ */
+export function sortDatasets(manifests: DatasetManifest[]): DatasetManifest[] {
+  return [...manifests].sort(
+    (a, b) =>
+      (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY) ||
+      a.name.localeCompare(b.name),
+  )
+}
+
+/**
+ * Parse a dataset's level file. Levels are numbered from 1 in file order and, except for UI
+ * exports (which keep their own ids), get ids of the form `<difficulty>-<dataset id>-<number>`.
+ * Titles come from the file when it has them.
+ */
+export function parseDatasetLevels(manifest: DatasetManifest, content: string): CollectionLevel[] {
+  const difficulty = manifest.difficulty ?? 'classic'
+  let levels: CollectionLevel[]
+
+  switch (manifest.format) {
+    case 'ascii':
+      levels = parseLevelFile(content, difficulty, manifest.id).map((level) => ({ level }))
+      break
+    case 'collection':
+      levels = parseLevelCollection(content, { difficulty, source: manifest.id }).levels
+      break
+    case 'jsonl':
+      levels = parseJsonlLevels(content, difficulty, manifest.id)
+      break
+    case 'export':
+      levels = parseExportLevels(content, difficulty, manifest.id)
+      break
+  }
+
+  if (levels.length === 0) {
+    throw new Error(`No levels found in dataset ${manifest.id}`)
+  }
+  return levels
+}
+
+/**
+ * Read generate-sokoban.ts JSONL: each line holds a puzzle as board rows plus its puzzle id.
+ */
+function parseJsonlLevels(
+  content: string,
+  difficulty: Difficulty,
+  source: string,
+): CollectionLevel[] {
+  const levels: CollectionLevel[] = []
+  const lines = content.split('\n').filter((line) => line.trim())
+
+  for (let i = 0; i < lines.length; i++) {
+    const number = levels.length + 1
+    try {
+      const entry = JSON.parse(lines[i]) as { puzzle?: unknown; puzzle_id?: unknown }
+      if (!Array.isArray(entry.puzzle)) {
+        throw new Error('missing puzzle rows')
+      }
+      const level = parseLevelRows(
+        entry.puzzle.map(String),
+        `${difficulty}-${source}-${number}`,
+        difficulty,
+        source,
+        number,
+      )
+      levels.push({
+        level,
+        title: typeof entry.puzzle_id === 'string' ? entry.puzzle_id : undefined,
+      })
+    } catch (error) {
+      console.warn(`Failed to parse line ${i + 1} in ${source}:`, error)
+    }
+  }
+
+  return levels
+}
+
+// A puzzle in a UI export (a saved layout)
+type ExportedPuzzle = Omit<SokobanLevel, 'difficulty' | 'fileSource' | 'puzzleNumber'> & {
+  name: string
+  difficulty?: Difficulty
+}
+
+/**
+ * Read a puzzle export from the game UI. Puzzles keep their ids, names and difficulty.
+ */
+function parseExportLevels(
+  content: string,
+  difficulty: Difficulty,
+  source: string,
+): CollectionLevel[] {
+  const data = JSON.parse(content) as { version?: unknown; puzzles?: unknown }
+  if (data.version !== 1 || !Array.isArray(data.puzzles)) {
+    throw new Error(`Dataset ${source} is not a version 1 puzzle export`)
+  }
+
+  return (data.puzzles as ExportedPuzzle[]).map((puzzle, index) => ({
+    level: {
+      id: puzzle.id,
+      width: puzzle.width,
+      height: puzzle.height,
+      terrain: puzzle.terrain,
+      playerStart: puzzle.playerStart,
+      boxStarts: puzzle.boxStarts,
+      goals: puzzle.goals,
+      difficulty: puzzle.difficulty ?? difficulty,
+      fileSource: source,
+      puzzleNumber: index + 1,
+      difficultyMetrics: puzzle.difficultyMetrics,
+    },
+    title: puzzle.name,
+  }))
+}
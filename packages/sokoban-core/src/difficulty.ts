@@ -0,0 +1,150 @@
+import { DIRECTION_VECTORS } from './constants'
+import { executeSolution } from './engine'
+import {
+  type SolverProgressCallback,
+  computeDeadSquares,
+  computePushLowerBound,
+  solvePuzzleAsync,
+} from './solver'
+import type {
+  DifficultyBucket,
+  DifficultyMetrics,
+  MoveDirection,
+  Position,
+  SokobanLevel,
+} from './types'
+
+// Buckets from easiest to hardest
+export const DIFFICULTY_BUCKETS: DifficultyBucket[] = [
+  'easy',
+  'medium',
+  'hard',
+  'expert',
+  'unsolved',
+]
+
+/**
+ * Grade a level from its metrics by a rating of its solution: pushes + box-line changes
+ * + 2 × interference. Walking is left out, since long walks alone don't make a level harder.
+ * Most LMIQ easy levels rate easy, Boxoban medium levels medium and Boxoban hard levels
+ * medium to hard.
+ */
+export function getDifficultyBucket(metrics: DifficultyMetrics): DifficultyBucket {
+  if (!metrics.solved) return 'unsolved'
+  const rating =
+    (metrics.pushes ?? 0) + (metrics.boxLineChanges ?? 0) + 2 * (metrics.boxGoalInterference ?? 0)
+  if (rating < 15) return 'easy'
+  if (rating < 35) return 'medium'
+  if (rating < 70) return 'hard'
+  return 'expert'
+}
+
+/**
+ * Difficulty analysis: solve a level once with the fast solver and measure the search and
+ * its solution, then count the fewest pushes with the push-optimal solver for the
+ * interference. The game and the eval both grade levels with it.
+ * The solver ignores the colored-box rule, so levels with several colors are measured
+ * under classic rules.
+ */
+
+// Node limit for each analysis run; levels the fast solver can't solve in this many nodes
+// count as unsolved
+export const DIFFICULTY_NODE_LIMIT = 50000
+
+/**
+ * Measure how hard a level is from its starting position.
+ */
+export async function analyzeDifficulty(
+  level: SokobanLevel,
+  maxNodes = DIFFICULTY_NODE_LIMIT,
+  onProgress?: SolverProgressCallback,
+): Promise<DifficultyMetrics> {
+  const result = await solvePuzzleAsync(level, maxNodes, 'fast', onProgress)
+  const deadSquareRatio = computeDeadSquareRatio(level)
+
+  if (!result.solvable || !result.solution) {
+    return {
+      solved: false,
+      moves: null,
+      pushes: null,
+      nodesExplored: result.nodesExplored,
+      boxGoalInterference: null,
+      boxLineChanges: null,
+      deadSquareRatio,
+    }
+  }
+
+  const fewestPushes = await countFewestPushes(level, maxNodes, result.pushCount, (nodes) =>
+    onProgress?.(result.nodesExplored + nodes),
+  )
+
+  return {
+    solved: true,
+    moves: result.moveCount,
+    pushes: result.pushCount,
+    nodesExplored: result.nodesExplored,
+    boxGoalInterference: Math.max(0, fewestPushes - computePushLowerBound(level)),
+    boxLineChanges: countBoxLineChanges(level, result.solution),
+    deadSquareRatio,
+  }
+}
+
+/**
+ * Fewest pushes that solve the level, from a push-optimal run. The fast solution isn't
+ * push-optimal, so it's only used when that run hits the node limit.
+ */
+async function countFewestPushes(
+  level: SokobanLevel,
+  maxNodes: number,
+  fastPushes: number,
+  onProgress: SolverProgressCallback,
+): Promise<number> {
+  const result = await solvePuzzleAsync(level, maxNodes, 'push-optimal', onProgress)
+  return result.optimal ? result.pushCount : fastPushes
+}
+
+/**
+ * Count the pushes that start a new box line: a push of a different box, or of the same box
+ * in a new direction, than the push before.
+ */
+function countBoxLineChanges(level: SokobanLevel, solution: MoveDirection[]): number {
+  const history = executeSolution(level, solution).finalState.moveHistory
+
+  let changes = 0
+  let last: { box: Position; direction: MoveDirection } | null = null
+  for (const record of history) {
+    if (!record.wasPush || !record.previousBox) continue
+    const { x, y } = record.previousBox
+    if (last && (last.box.x !== x || last.box.y !== y || last.direction !== record.direction)) {
+      changes++
+    }
+    const { dx, dy } = DIRECTION_VECTORS[record.direction]
+    last = { box: { x: x + dx, y: y + dy }, direction: record.direction }
+  }
+  return changes
+}
+
+/**
+ * Share of the floor the player can reach (ignoring boxes) made up of dead squares.
+ */
+function computeDeadSquareRatio(level: SokobanLevel): number {
+  const deadSquares = computeDeadSquares(level)
+  const start = level.playerStart
+  const seen = new Set([`${start.x},${start.y}`])
+  const queue = [start]
+
+  for (let head = 0; head < queue.length; head++) {
+    const pos = queue[head]
+    for (const { dx, dy } of Object.values(DIRECTION_VECTORS)) {
+      const next = { x: pos.x + dx, y: pos.y + dy }
+      const key = `${next.x},${next.y}`
+      const cell = level.terrain[next.y]?.[next.x]
+      if (seen.has(key) || cell === undefined || cell === 'wall') continue
+      seen.add(key)
+      queue.push(next)
+    }
+  }
+
+  const dead = [...seen].filter((key) => deadSquares.has(key)).length
+  return seen.size > 0 ? Math.round((dead / seen.size) * 1000) / 1000 : 0
+}
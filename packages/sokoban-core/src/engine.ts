@@ -1,14 +1,15 @@
-import { DIRECTION_VECTORS } from '@src/constants'
+import { v4 as uuidv4 } from 'uuid'
+import { DIRECTION_VECTORS } from './constants'
 import type {
   Box,
+  ExecutionResult,
   GameState,
   MoveDirection,
   MoveRecord,
   MoveValidationResult,
   Position,
   SokobanLevel,
-} from '@src/types'
-import { v4 as uuidv4 } from 'uuid'
+} from './types'
 
 /**
  * Initialize a new game state from a level.
@@ -341,3 +342,61 @@ export function isSimpleDeadlock(state: GameState): boolean {
 export function resetGame(state: GameState): GameState {
   return initializeGame(state.level)
 }
+
+/**
+ * Execute moves starting from an existing state and return the result.
+ * Stops at the first invalid move or as soon as the puzzle is solved.
+ */
+export function executeMovesFrom(state: GameState, moves: MoveDirection[]): ExecutionResult {
+  let current = state
+  let stepsExecuted = 0
+
+  for (let i = 0; i < moves.length; i++) {
+    const move = moves[i]
+    const validation = validateMove(current, move)
+    const newState = validation.valid ? executeMove(current, move, 'ai') : null
+
+    if (!newState) {
+      return {
+        solved: false,
+        stepsExecuted,
+        invalidMoveIndex: i,
+        invalidMoveReason: validation.error ?? null,
+        error: `Invalid move at step ${i + 1}: ${move}`,
+        finalState: current,
+      }
+    }
+
+    current = newState
+    stepsExecuted++
+
+    // Check if we've won
+    if (current.isWon) {
+      return {
+        solved: true,
+        stepsExecuted,
+        invalidMoveIndex: null,
+        invalidMoveReason: null,
+        error: null,
+        finalState: current,
+      }
+    }
+  }
+
+  // Ran out of moves without winning
+  return {
+    solved: false,
+    stepsExecuted,
+    invalidMoveIndex: null,
+    invalidMoveReason: null,
+    error: 'Solution did not solve the puzzle',
+    finalState: current,
+  }
+}
+
+/**
+ * Execute a complete solution from a level's start and return the result.
+ */
+export function executeSolution(level: SokobanLevel, moves: MoveDirection[]): ExecutionResult {
+  return executeMovesFrom(initializeGame(level), moves)
+}
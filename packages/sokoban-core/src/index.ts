@@ -0,0 +1,107 @@
+export type {
+  Position,
+  BoxColor,
+  Box,
+  CellTerrain,
+  Difficulty,
+  SokobanLevel,
+  DifficultyMetrics,
+  DifficultyBucket,
+  SavedLayout,
+  BoardLayout,
+  MoveDirection,
+  MoveRecord,
+  GameState,
+  MoveValidationResult,
+  ExecutionResult,
+  ExecutionMode,
+  PromptOptions,
+  ParsedAIResponse,
+  LevelFileFormat,
+  CollectionLevel,
+  LevelCollection,
+  DatasetFormat,
+  DatasetManifest,
+  LurdMove,
+  LurdValidationResult,
+  SavedRunRef,
+} from './types'
+export {
+  DIRECTION_VECTORS,
+  MOVE_DIRECTIONS,
+  BOX_COLOR_NAMES,
+  BOX_COLOR_SYMBOLS,
+} from './constants'
+export {
+  initializeGame,
+  hasMultipleColors,
+  hasSameColorAdjacency,
+  hasAnySameColorAdjacency,
+  validateMove,
+  executeMove,
+  undoMove,
+  checkWin,
+  isBoxOnGoal,
+  getBoxesOnGoalsCount,
+  isSimpleDeadlock,
+  resetGame,
+  executeMovesFrom,
+  executeSolution,
+} from './engine'
+export {
+  DIFFICULTY_BUCKETS,
+  DIFFICULTY_NODE_LIMIT,
+  getDifficultyBucket,
+  analyzeDifficulty,
+} from './difficulty'
+export {
+  type SolverMode,
+  type SolverMetric,
+  type SolverProgressCallback,
+  type SolverResult,
+  solvePuzzleAsync,
+  solvePuzzle,
+  computePushLowerBound,
+  computeDeadSquares,
+  isFreezeDeadlock,
+} from './solver'
+export { parseLevel, parseLevelRows, parseLevelFile } from './level-parser'
+export {
+  type AsciiOptions,
+  renderBoard,
+  gameStateToAscii,
+  levelToAscii,
+  gameStateToAsciiWithCoords,
+  levelToAsciiWithCoords,
+  toRowCol,
+  generateCoordinateLocations,
+} from './render'
+export { parseMove, parseAIResponse } from './response-parser'
+export {
+  type SokobanPromptOptions,
+  generateSokobanPrompt,
+  generateFeedbackPrompt,
+} from './prompts'
+export {
+  type ParseCollectionOptions,
+  type ExportCollectionOptions,
+  getLevelFileFormat,
+  parseLevelCollection,
+  exportLevelCollection,
+  decodeRunLength,
+  encodeRunLength,
+} from './level-formats'
+export {
+  DATASET_MANIFEST_SUFFIX,
+  parseDatasetManifest,
+  sortDatasets,
+  parseDatasetLevels,
+} from './datasets'
+export {
+  parseLurd,
+  lurdToMoves,
+  historyToLurd,
+  movesToLurd,
+  validateLurdSolution,
+} from './lurd'
+export { savedLayoutToLevel, getCurrentRuns } from './saved'
@@ -0,0 +1,398 @@
+import { parseLevelRows } from './level-parser'
+import { levelToAscii } from './render'
+import type {
+  CollectionLevel,
+  Difficulty,
+  LevelCollection,
+  LevelFileFormat,
+  SokobanLevel,
+} from './types'
+
+/**
+ * Community level collection formats:
+ * - XSB (.xsb, .sok, .txt): boards as plain text. A line just before a board ("; 12",
+ *   "Level 12") titles it; "Key: value" lines after a board ("Title:", "Author:",
+ *   "Comment:" ... "Comment-End:") describe it. Text before the first board describes the
+ *   collection. Boards may be run-length encoded ("4#|#@$.#|4#") and may use
+ *   p/P/b/B for player and boxes and '-' or '_' for floor.
+ * - SLC: the XML format used by Sokoban YASC and most published collections.
+ * Neither format has box colors, so exported levels lose them.
+ */
+
+export interface ParseCollectionOptions {
+  format?: LevelFileFormat // Detected from the content when omitted
+  difficulty?: Difficulty // Difficulty given to every level (default: 'classic')
+  source?: string // File name, used in level ids (default: 'imported')
+}
+
+export interface ExportCollectionOptions {
+  runLength?: boolean // XSB only: write each board as one run-length-encoded line
+}
+
+// Board cells, plus digits and '|' for run-length-encoded rows
+const BOARD_LINE_PATTERN = /^[#@+$*.\-_ pPbB0-9|]*#[#@+$*.\-_ pPbB0-9|]*$/
+
+const METADATA_PATTERN = /^([A-Za-z][A-Za-z -]*):\s*(.*)$/
+
+// Alternative cell symbols mapped to the standard ones
+const CELL_ALIASES: Record<string, string> = {
+  p: '@',
+  P: '+',
+  b: '$',
+  B: '*',
+  _: ' ',
+  '-': ' ',
+}
+
+/**
+ * Detect a level file format from its file name.
+ */
+export function getLevelFileFormat(fileName: string): LevelFileFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop()
+  switch (ext) {
+    case 'xsb':
+    case 'sok':
+    case 'txt':
+      return 'xsb'
+    case 'slc':
+    case 'xml':
+      return 'slc'
+    default:
+      return null
+  }
+}
+
+/**
+ * Parse a level collection file. Levels that fail to parse are skipped with a warning.
+ */
+export function parseLevelCollection(
+  content: string,
+  options: ParseCollectionOptions = {},
+): LevelCollection {
+  const text = content.replace(/\r\n?/g, '\n')
+  const format = options.format ?? (text.trimStart().startsWith('<') ? 'slc' : 'xsb')
+  const difficulty = options.difficulty ?? 'classic'
+  const source = options.source ?? 'imported'
+
+  const collection =
+    format === 'slc' ? parseSlc(text, difficulty, source) : parseXsb(text, difficulty, source)
+
+  if (collection.levels.length === 0) {
+    throw new Error(`No levels found in ${source}`)
+  }
+  return collection
+}
+
+/**
+ * Write a level collection in the given format.
+ */
+export function exportLevelCollection(
+  collection: LevelCollection,
+  format: LevelFileFormat,
+  options: ExportCollectionOptions = {},
+): string {
+  return format === 'slc' ? exportSlc(collection) : exportXsb(collection, options)
+}
+
+/**
+ * Expand a run-length-encoded board ("4#|#@$.#|4#") into rows.
+ * Plain rows pass through; a trailing '|' row marker is dropped.
+ */
+export function decodeRunLength(line: string): string[] {
+  const expanded = line.replace(/(\d+)(\D)/g, (_, count: string, char: string) =>
+    char.repeat(Number(count)),
+  )
+  const rows = expanded.split('|')
+  return rows.length > 1 && rows[rows.length - 1] === '' ? rows.slice(0, -1) : rows
+}
+
+/**
+ * Encode board rows as one run-length-encoded line, with '-' for floor.
+ */
+export function encodeRunLength(rows: string[]): string {
+  return rows
+    .map((row) =>
+      row
+        .replace(/ /g, '-')
+        .replace(/-+$/, '')
+        .replace(/(.)\1+/g, (run, char: string) => `${run.length}${char}`),
+    )
+    .join('|')
+}
+
+// ============================================================================
+// XSB
+// ============================================================================
+
+function isBoardLine(line: string): boolean {
+  return BOARD_LINE_PATTERN.test(line)
+}
+
+function toStandardCells(row: string): string {
+  return row.replace(/[pPbB_-]/g, (char) => CELL_ALIASES[char])
+}
+
+/**
+ * Text between two boards: metadata lines, free text and the title of the next board.
+ */
+interface TextGap {
+  metadata: [string, string][]
+  text: string[]
+  nextTitle?: string
+}
+
+function readTextGap(lines: string[], beforeBoard: boolean): TextGap {
+  const gap: TextGap = { metadata: [], text: [] }
+  let rest = lines
+
+  // A one-line paragraph right before a board is its title
+  let last = rest.length - 1
+  while (last >= 0 && rest[last].trim() === '') last--
+  if (
+    beforeBoard &&
+    last >= 0 &&
+    !METADATA_PATTERN.test(rest[last]) &&
+    (last === 0 || rest[last - 1].trim() === '' || METADATA_PATTERN.test(rest[last - 1]))
+  ) {
+    gap.nextTitle = rest[last].replace(/^;\s*/, '').trim() || undefined
+    rest = rest.slice(0, last)
+  }
+
+  let comment: string[] | null = null
+  for (const line of rest) {
+    const match = line.match(METADATA_PATTERN)
+    const key = match?.[1].trim().toLowerCase()
+
+    // "Comment:" with no value opens a block that "Comment-End:" closes
+    if (comment) {
+      if (key === 'comment-end' || key === 'comment_end') {
+        gap.metadata.push(['Comment', comment.join('\n').trim()])
+        comment = null
+      } else {
+        comment.push(line)
+      }
+    } else if (match && key === 'comment' && match[2].trim() === '') {
+      comment = []
+    } else if (match) {
+      gap.metadata.push([match[1].trim(), match[2].trim()])
+    } else if (line.trim() !== '') {
+      gap.text.push(line.replace(/^;\s*/, '').trim())
+    }
+  }
+  if (comment) {
+    gap.metadata.push(['Comment', comment.join('\n').trim()])
+  }
+
+  return gap
+}
+
+function getMetadata(metadata: [string, string][], key: string): string | undefined {
+  return metadata.find(([k]) => k.toLowerCase() === key)?.[1] || undefined
+}
+
+/**
+ * Apply the metadata and text that follow a board to its level.
+ */
+function applyLevelMetadata(level: CollectionLevel, gap: TextGap): void {
+  level.title = getMetadata(gap.metadata, 'title') ?? level.title
+  level.author = getMetadata(gap.metadata, 'author') ?? level.author
+
+  const notes = [
+    ...gap.metadata
+      .filter(([key]) => !['title', 'author'].includes(key.toLowerCase()))
+      .map(([key, value]) => (key.toLowerCase() === 'comment' ? value : `${key}: ${value}`)),
+    ...gap.text,
+  ].filter(Boolean)
+  if (notes.length > 0) {
+    level.comment = [level.comment, ...notes].filter(Boolean).join('\n')
+  }
+}
+
+function parseXsb(content: string, difficulty: Difficulty, source: string): LevelCollection {
+  const lines = content.split('\n').map((line) => line.trimEnd())
+  const boards: { start: number; end: number }[] = []
+  for (let i = 0; i < lines.length; i++) {
+    if (!isBoardLine(lines[i])) continue
+    const start = i
+    while (i < lines.length && isBoardLine(lines[i])) i++
+    boards.push({ start, end: i })
+  }
+
+  const collection: LevelCollection = { levels: [] }
+  let previous: CollectionLevel | null = null
+
+  for (let b = 0; b <= boards.length; b++) {
+    const gapStart = b === 0 ? 0 : boards[b - 1].end
+    const gapEnd = b < boards.length ? boards[b].start : lines.length
+    const gap = readTextGap(lines.slice(gapStart, gapEnd), b < boards.length)
+
+    if (b === 0) {
+      collection.title = getMetadata(gap.metadata, 'title')
+      collection.author = getMetadata(gap.metadata, 'author')
+      const description = [getMetadata(gap.metadata, 'description'), ...gap.text]
+      collection.description = description.filter(Boolean).join('\n') || undefined
+    } else if (previous) {
+      applyLevelMetadata(previous, gap)
+    }
+
+    if (b === boards.length) break
+
+    const board = boards[b]
+    const rows = lines.slice(board.start, board.end).flatMap(decodeRunLength).map(toStandardCells)
+    const number = collection.levels.length + 1
+    try {
+      const level = parseLevelRows(rows, `${difficulty}-${source}-${number}`, difficulty, source)
+      level.puzzleNumber = number
+      previous = { level, title: gap.nextTitle }
+      collection.levels.push(previous)
+    } catch (error) {
+      console.warn(`Failed to parse level ${gap.nextTitle ?? number} in ${source}:`, error)
+      previous = null
+    }
+  }
+
+  return collection
+}
+
+/**
+ * Board rows of a level in XSB notation (spaces for floor, no trailing spaces).
+ */
+function levelToXsbRows(level: SokobanLevel): string[] {
+  return levelToAscii(level, { rowMarkers: false })
+    .split('\n')
+    .map((row) => row.replace(/-/g, ' ').trimEnd())
+}
+
+function exportXsb(collection: LevelCollection, options: ExportCollectionOptions): string {
+  const parts: string[] = []
+
+  const header = [
+    collection.title && `Title: ${collection.title}`,
+    collection.author && `Author: ${collection.author}`,
+  ].filter(Boolean)
+  if (header.length > 0) parts.push(header.join('\n'))
+  if (collection.description) parts.push(collection.description)
+
+  collection.levels.forEach((entry, index) => {
+    const rows = levelToXsbRows(entry.level)
+    const lines = [
+      `; ${entry.title ?? index + 1}`,
+      '',
+      ...(options.runLength ? [encodeRunLength(rows)] : rows),
+    ]
+    if (entry.author) lines.push(`Author: ${entry.author}`)
+    if (entry.comment) {
+      lines.push(
+        entry.comment.includes('\n')
+          ? `Comment:\n${entry.comment}\nComment-End:`
+          : `Comment: ${entry.comment}`,
+      )
+    }
+    parts.push(lines.join('\n'))
+  })
+
+  return `${parts.join('\n\n')}\n`
+}
+
+// ============================================================================
+// SLC
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity])
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function readElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]).trim() || undefined : undefined
+}
+
+function readAttributes(attributes: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const match of attributes.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    result[match[1]] = decodeXml(match[2])
+  }
+  return result
+}
+
+function parseSlc(content: string, difficulty: Difficulty, source: string): LevelCollection {
+  if (!content.includes('<SokobanLevels')) {
+    throw new Error(`Not an SLC file: ${source}`)
+  }
+
+  const collectionTag = content.match(/<LevelCollection\b([^>]*)>/)
+  const collection: LevelCollection = {
+    title: readElement(content, 'Title'),
+    author: collectionTag ? readAttributes(collectionTag[1]).Copyright || undefined : undefined,
+    description: readElement(content, 'Description'),
+    levels: [],
+  }
+
+  for (const match of content.matchAll(/<Level\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Level>)/g)) {
+    const attributes = readAttributes(match[1])
+    const body = match[2] ?? ''
+    const rows = [...body.matchAll(/<L>([^<]*)<\/L>|<L\s*\/>/g)].map((row) =>
+      toStandardCells(decodeXml(row[1] ?? '')),
+    )
+    const number = collection.levels.length + 1
+    try {
+      const level = parseLevelRows(rows, `${difficulty}-${source}-${number}`, difficulty, source)
+      level.puzzleNumber = number
+      collection.levels.push({
+        level,
+        title: attributes.Id || undefined,
+        author: attributes.Copyright || undefined,
+        comment: readElement(body, 'LevelComment'),
+      })
+    } catch (error) {
+      console.warn(`Failed to parse level ${attributes.Id ?? number} in ${source}:`, error)
+    }
+  }
+
+  return collection
+}
+
+function exportSlc(collection: LevelCollection): string {
+  const maxWidth = Math.max(...collection.levels.map((entry) => entry.level.width))
+  const maxHeight = Math.max(...collection.levels.map((entry) => entry.level.height))
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<SokobanLevels xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="SokobanLev.xsd">',
+    `  <Title>${encodeXml(collection.title ?? '')}</Title>`,
+    `  <Description>${encodeXml(collection.description ?? '')}</Description>`,
+    `  <LevelCollection Copyright="${encodeXml(collection.author ?? '')}" MaxWidth="${maxWidth}" MaxHeight="${maxHeight}">`,
+  ]
+
+  collection.levels.forEach((entry, index) => {
+    const { level } = entry
+    const id = encodeXml(entry.title ?? String(index + 1))
+    const copyright = entry.author ? ` Copyright="${encodeXml(entry.author)}"` : ''
+    lines.push(`    <Level Id="${id}" Width="${level.width}" Height="${level.height}"${copyright}>`)
+    for (const row of levelToXsbRows(level)) {
+      lines.push(`      <L>${encodeXml(row)}</L>`)
+    }
+    if (entry.comment) {
+      lines.push(`      <LevelComment>${encodeXml(entry.comment)}</LevelComment>`)
+    }
+    lines.push('    </Level>')
+  })
+
+  lines.push('  </LevelCollection>', '</SokobanLevels>')
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,142 @@
+import type { Box, CellTerrain, Difficulty, Position, SokobanLevel } from './types'
+
+/**
+ * Boxoban ASCII format:
+ * # = wall
+ * @ = player (on floor)
+ * + = player on goal
+ * $ = box (on floor)
+ * * = box on goal
+ * . = goal (empty)
+ * (space) or - = floor
+ *
+ * A '|' at the end of a row (as written by the renderers) is ignored.
+ */
+
+export function parseLevel(
+  ascii: string,
+  id: string,
+  difficulty: Difficulty = 'classic',
+  fileSource = 'unknown',
+  puzzleNumber = 0,
+): SokobanLevel {
+  const lines = ascii
+    .trim()
+    .split('\n')
+    .map((line) => line.replace(/\|$/, ''))
+  return parseLevelRows(lines, id, difficulty, fileSource, puzzleNumber)
+}
+
+/**
+ * Parse a level from its board rows. Leading spaces are kept, so indented rows stay aligned.
+ */
+export function parseLevelRows(
+  lines: string[],
+  id: string,
+  difficulty: Difficulty = 'classic',
+  fileSource = 'unknown',
+  puzzleNumber = 0,
+): SokobanLevel {
+  const height = lines.length
+  const width = Math.max(...lines.map((l) => l.length))
+
+  const terrain: CellTerrain[][] = []
+  let playerStart: Position | null = null
+  const boxStarts: Box[] = []
+  const goals: Position[] = []
+
+  for (let y = 0; y < height; y++) {
+    const row: CellTerrain[] = []
+    const line = lines[y] || ''
+
+    for (let x = 0; x < width; x++) {
+      const char = line[x] || ' '
+
+      switch (char) {
+        case '#':
+          row.push('wall')
+          break
+
+        case '@': // player on floor
+          row.push('floor')
+          playerStart = { x, y }
+          break
+
+        case '+': // player on goal
+          row.push('goal')
+          goals.push({ x, y })
+          playerStart = { x, y }
+          break
+
+        case '$': // box on floor
+          row.push('floor')
+          boxStarts.push({ x, y, color: 'orange' })
+          break
+
+        case '*': // box on goal
+          row.push('goal')
+          goals.push({ x, y })
+          boxStarts.push({ x, y, color: 'orange' })
+          break
+
+        case '.': // empty goal
+          row.push('goal')
+          goals.push({ x, y })
+          break
+        default:
+          row.push('floor')
+          break
+      }
+    }
+
+    terrain.push(row)
+  }
+
+  if (!playerStart) {
+    throw new Error(`No player position found in level ${id}`)
+  }
+
+  return {
+    id,
+    width,
+    height,
+    terrain,
+    playerStart,
+    boxStarts,
+    goals,
+    difficulty,
+    fileSource,
+    puzzleNumber,
+  }
+}
+
+/**
+ * Parse a file containing multiple puzzles separated by semicolons.
+ * Format: "; N" where N is the puzzle number, followed by the puzzle grid.
+ */
+export function parseLevelFile(
+  content: string,
+  difficulty: Difficulty,
+  filename: string,
+): SokobanLevel[] {
+  const levels: SokobanLevel[] = []
+
+  // Split by semicolon lines (puzzle separators)
+  // Format: "; 1" or ";1" followed by puzzle
+  const puzzleBlocks = content.split(/^;\s*\d+\s*$/m).filter((block) => block.trim())
+
+  for (let i = 0; i < puzzleBlocks.length; i++) {
+    const block = puzzleBlocks[i].trim()
+    if (!block) continue
+
+    try {
+      const id = `${difficulty}-${filename}-${i + 1}`
+      const level = parseLevel(block, id, difficulty, filename, i + 1)
+      levels.push(level)
+    } catch (error) {
+      console.warn(`Failed to parse puzzle ${i + 1} in ${filename}:`, error)
+    }
+  }
+
+  return levels
+}
@@ -0,0 +1,130 @@
+import { executeMovesFrom, executeSolution, initializeGame } from './engine'
+import type {
+  GameState,
+  LurdMove,
+  LurdValidationResult,
+  MoveDirection,
+  MoveRecord,
+  SokobanLevel,
+} from './types'
+
+/**
+ * LURD solution notation, as used by published Sokoban solutions:
+ * l/u/r/d = walk left/up/right/down, L/U/R/D = push left/up/right/down.
+ * Whitespace is ignored and a count may prefix a move ("3r2U" = "rrrUU").
+ */
+
+const LURD_CHARS: Record<MoveDirection, string> = {
+  UP: 'u',
+  DOWN: 'd',
+  LEFT: 'l',
+  RIGHT: 'r',
+}
+
+const LURD_DIRECTIONS: Record<string, MoveDirection> = {
+  u: 'UP',
+  d: 'DOWN',
+  l: 'LEFT',
+  r: 'RIGHT',
+}
+
+/**
+ * Parse a LURD string. Throws on characters that are not moves.
+ */
+export function parseLurd(text: string): LurdMove[] {
+  const moves: LurdMove[] = []
+  const compact = text.replace(/\s+/g, '')
+
+  for (const match of compact.matchAll(/(\d*)(.)/g)) {
+    const direction = LURD_DIRECTIONS[match[2].toLowerCase()]
+    if (!direction) {
+      throw new Error(`Invalid LURD character "${match[2]}" at position ${match.index + 1}`)
+    }
+    const move: LurdMove = { direction, push: match[2] !== match[2].toLowerCase() }
+    const count = match[1] ? Number(match[1]) : 1
+    for (let i = 0; i < count; i++) moves.push(move)
+  }
+
+  return moves
+}
+
+/**
+ * Parse a LURD string into directions, ignoring the push/walk distinction.
+ * Also reads the older all-lowercase solution strings.
+ */
+export function lurdToMoves(text: string): MoveDirection[] {
+  return parseLurd(text).map((move) => move.direction)
+}
+
+/**
+ * Write played moves as LURD, uppercasing pushes.
+ */
+export function historyToLurd(history: Pick<MoveRecord, 'direction' | 'wasPush'>[]): string {
+  return history
+    .map((record) => {
+      const char = LURD_CHARS[record.direction]
+      return record.wasPush ? char.toUpperCase() : char
+    })
+    .join('')
+}
+
+/**
+ * Write a solution as LURD by replaying it on the level to find its pushes.
+ * Moves after the first impossible one are dropped.
+ */
+export function movesToLurd(level: SokobanLevel, moves: MoveDirection[]): string {
+  return historyToLurd(executeSolution(level, moves).finalState.moveHistory)
+}
+
+/**
+ * Check a LURD solution against a level: every move must be possible, pushes must be
+ * uppercase and walks lowercase, and the level must end solved.
+ */
+export function validateLurdSolution(level: SokobanLevel, text: string): LurdValidationResult {
+  let lurd: LurdMove[]
+  try {
+    lurd = parseLurd(text)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid LURD solution'
+    return { valid: false, solved: false, moves: 0, pushes: 0, error: message }
+  }
+  if (lurd.length === 0) {
+    return { valid: false, solved: false, moves: 0, pushes: 0, error: 'Solution is empty' }
+  }
+
+  let state: GameState = initializeGame(level)
+  for (let i = 0; i < lurd.length; i++) {
+    const { direction, push } = lurd[i]
+    const result = executeMovesFrom(state, [direction])
+    if (result.invalidMoveIndex !== null) {
+      return {
+        valid: false,
+        solved: false,
+        moves: state.moveCount,
+        pushes: state.pushCount,
+        error: `Move ${i + 1} (${direction}) is not possible${result.invalidMoveReason ? `: ${result.invalidMoveReason}` : ''}`,
+      }
+    }
+
+    state = result.finalState
+    const wasPush = state.moveHistory[state.moveHistory.length - 1]?.wasPush ?? false
+    if (wasPush !== push) {
+      return {
+        valid: false,
+        solved: false,
+        moves: state.moveCount,
+        pushes: state.pushCount,
+        error: `Move ${i + 1} (${direction}) ${wasPush ? 'pushes a box but is lowercase' : 'is uppercase but pushes no box'}`,
+      }
+    }
+    if (state.isWon) break
+  }
+
+  return {
+    valid: true,
+    solved: state.isWon,
+    moves: state.moveCount,
+    pushes: state.pushCount,
+    error: state.isWon ? null : 'Solution does not solve the level',
+  }
+}
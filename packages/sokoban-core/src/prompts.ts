@@ -0,0 +1,213 @@
+import { getBoxesOnGoalsCount, hasMultipleColors } from './engine'
+import { gameStateToAscii, generateCoordinateLocations } from './render'
+import type { ExecutionResult, GameState, MoveDirection, PromptOptions } from './types'
+
+/**
+ * Prompt settings the templates read. The notation options only apply to the game's own
+ * prompt editor.
+ */
+export type SokobanPromptOptions = Omit<PromptOptions, 'coordinateFormat' | 'includeNotationGuide'>
+
+/**
+ * Generate the ASCII legend.
+ */
+function generateLegend(isColoredVariant: boolean): string[] {
+  const parts = ['Legend:', '- # = Wall', '- @ = Player']
+  if (isColoredVariant) {
+    parts.push('- O = Orange box, o = Orange box on goal')
+    parts.push('- P = Purple box, p = Purple box on goal')
+    parts.push('- E = Emerald box, e = Emerald box on goal')
+    parts.push('- S = Sky box, s = Sky box on goal')
+  } else {
+    parts.push('- $ = Box')
+    parts.push('- * = Box on Goal')
+  }
+  parts.push('- . = Goal (for boxes)')
+  parts.push('- + = Player on Goal')
+  parts.push('- - = Floor')
+  parts.push('- | = Row boundary (end of each row)')
+  return parts
+}
+
+/**
+ * Generate the board sections the prompt options ask for, followed by the progress line.
+ */
+function generateBoardSections(
+  state: GameState,
+  options: SokobanPromptOptions,
+  isColoredVariant: boolean,
+  includeLegend: boolean,
+): string[] {
+  const parts: string[] = []
+
+  if (options.asciiGrid) {
+    parts.push('## Current State (ASCII Grid)')
+    parts.push('```')
+    parts.push(gameStateToAscii(state, { colored: isColoredVariant }))
+    parts.push('```')
+    parts.push('')
+    if (includeLegend) {
+      parts.push(...generateLegend(isColoredVariant))
+      parts.push('')
+    }
+  }
+
+  if (options.coordinateLocations) {
+    parts.push('## Positions')
+    parts.push(generateCoordinateLocations(state))
+    parts.push('')
+  }
+
+  parts.push(`## Progress: ${getBoxesOnGoalsCount(state)}/${state.boxes.length} boxes on goals`)
+  return parts
+}
+
+/**
+ * Append the variant's special instructions, if it has any.
+ */
+function appendSpecialInstructions(parts: string[], options: SokobanPromptOptions): string {
+  if (options.includeSpecialInstructions && options.specialInstructions?.trim()) {
+    parts.push('')
+    parts.push('## Special Instructions')
+    parts.push(options.specialInstructions.trim())
+  }
+  return parts.join('\n')
+}
+
+/**
+ * Generate a prompt for an AI to solve a Sokoban puzzle.
+ * In moveByMove mode it asks for the next single move. With a turn budget it asks for batches
+ * of moves in an interactive session instead.
+ */
+export function generateSokobanPrompt(
+  state: GameState,
+  options: SokobanPromptOptions,
+  turnBudget?: number,
+): string {
+  const parts: string[] = []
+  const isColoredVariant = options.coloredBoxRules || hasMultipleColors(state.boxes)
+
+  // Header
+  if (isColoredVariant) {
+    parts.push('# Colored Sokoban Puzzle (Special Variant)')
+    parts.push('')
+    parts.push('You are solving a COLORED Sokoban variant. Push all boxes onto goals (.) to win.')
+    parts.push('')
+    parts.push(
+      '**CRITICAL CONSTRAINT:** Boxes of the SAME COLOR cannot be directly adjacent (horizontally or vertically). Diagonal adjacency is allowed. Any move that would place same-colored boxes next to each other is INVALID and will fail.',
+    )
+  } else {
+    parts.push('# Sokoban Puzzle')
+    parts.push('')
+    parts.push('You are solving a Sokoban puzzle. Push all boxes ($) onto goals (.) to win.')
+  }
+  parts.push('')
+
+  // Rules
+  parts.push('## Rules')
+  parts.push('- You can move UP, DOWN, LEFT, or RIGHT')
+  parts.push('- You can push a box by walking into it (if the space behind it is free)')
+  parts.push('- You cannot pull boxes')
+  parts.push('- You cannot push more than one box at a time')
+  parts.push('- Walls (#) are impassable')
+  if (isColoredVariant) {
+    parts.push(
+      '- **SAME-COLOR ADJACENCY RULE:** You CANNOT push a box to a position where it would be directly adjacent (up/down/left/right) to another box of the same color. This move will be rejected.',
+    )
+  }
+  parts.push('')
+
+  // Board
+  parts.push(...generateBoardSections(state, options, isColoredVariant, true))
+  parts.push('')
+
+  // Important note
+  parts.push(
+    'IMPORTANT: Please do not write any code to solve the puzzle. This is a test of your visual/intuitive reasoning and spatial planning skills.',
+  )
+  parts.push('')
+
+  parts.push('## Your Task')
+  if (turnBudget !== undefined) {
+    parts.push('Move all boxes onto goals. This is an interactive session:')
+    parts.push('- After each reply, your moves are executed and you receive the updated board')
+    parts.push('- If a move is invalid, execution stops there and you are told why')
+    parts.push(`- You have ${turnBudget} turns. Send the full solution or a shorter batch of moves`)
+    parts.push('')
+    parts.push('Return ONLY a JSON object in this exact format (no other text):')
+    parts.push('{"reasoning":"<brief plan for this batch>","moves":["UP","RIGHT","DOWN","LEFT"]}')
+    parts.push('')
+    parts.push(
+      'The "moves" field must be an array of moves. Valid moves: "UP", "DOWN", "LEFT", "RIGHT"',
+    )
+  } else if (options.executionMode === 'moveByMove') {
+    parts.push('Provide the next single move.')
+    parts.push('')
+    parts.push('In your reasoning, briefly explain:')
+    parts.push('- What is the immediate goal of this move?')
+    parts.push('- How does it contribute to the overall solution?')
+    parts.push('')
+    parts.push('Return ONLY a JSON object in this exact format (no other text):')
+    parts.push('{"reasoning":"<brief reasoning for this move>","move":"UP"}')
+    parts.push('')
+    parts.push('Valid moves: UP, DOWN, LEFT, RIGHT')
+  } else {
+    parts.push('Provide a complete solution to move all boxes onto goals.')
+    parts.push('')
+    parts.push('In your reasoning, explain your solution strategy step-by-step:')
+    parts.push('1. Identify which box should be moved to which goal and in what order')
+    parts.push(
+      '2. Explain why this order avoids deadlocks (boxes stuck in corners or against walls)',
+    )
+    parts.push(
+      '3. Describe the path for each box, noting any boxes that need to be moved out of the way first',
+    )
+    parts.push('4. Mention any critical moves where the player needs to reposition')
+    parts.push('')
+    parts.push('Return ONLY a JSON object in this exact format (no other text):')
+    parts.push(
+      '{"reasoning":"<detailed step-by-step strategy explanation>","solution":["UP","RIGHT","DOWN","LEFT"]}',
+    )
+    parts.push('')
+    parts.push(
+      'The "solution" field must be an array of moves. Valid moves: "UP", "DOWN", "LEFT", "RIGHT"',
+    )
+  }
+
+  return appendSpecialInstructions(parts, options)
+}
+
+/**
+ * Generate the follow-up message for a turn of an interactive session: what happened to the
+ * last batch and the new board.
+ */
+export function generateFeedbackPrompt(
+  state: GameState,
+  moves: MoveDirection[],
+  execution: ExecutionResult,
+  error: string | null,
+  turnsLeft: number,
+  options: SokobanPromptOptions,
+): string {
+  const parts: string[] = []
+
+  if (moves.length === 0) {
+    parts.push(`Your last reply contained no valid moves (${error}).`)
+  } else if (execution.invalidMoveIndex !== null) {
+    const move = moves[execution.invalidMoveIndex]
+    parts.push(
+      `Executed ${execution.stepsExecuted} of ${moves.length} moves. Move ${execution.invalidMoveIndex + 1} (${move}) was rejected: ${execution.invalidMoveReason}. The remaining moves were not executed.`,
+    )
+  } else {
+    parts.push(`Executed all ${moves.length} moves. The puzzle is not solved yet.`)
+  }
+  parts.push('')
+
+  const isColoredVariant = options.coloredBoxRules || hasMultipleColors(state.boxes)
+  parts.push(...generateBoardSections(state, options, isColoredVariant, false))
+  parts.push(`Turns remaining: ${turnsLeft}`)
+  parts.push('')
+  parts.push('Reply with your next moves in the same JSON format.')
+
+  return parts.join('\n')
+}
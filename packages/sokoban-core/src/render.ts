@@ -0,0 +1,153 @@
+import { BOX_COLOR_NAMES, BOX_COLOR_SYMBOLS } from './constants'
+import type { BoardLayout, Box, BoxColor, GameState, Position, SokobanLevel } from './types'
+
+/**
+ * ASCII board format, as written for prompts and solution caches:
+ * # = wall, @ = player, + = player on goal, $ = box, * = box on goal,
+ * . = goal, - = floor, | = end of row.
+ * Colored boards use O, P, E, S for Orange, Purple, Emerald, Sky boxes (lowercase on a goal).
+ */
+export interface AsciiOptions {
+  colored?: boolean // Box color letters instead of $ and *
+  rowMarkers?: boolean // End each row with '|' (default: true)
+}
+
+/**
+ * Render a board with the player and boxes at the given positions.
+ */
+export function renderBoard(
+  layout: BoardLayout,
+  playerPos: Position,
+  boxes: Box[],
+  options: AsciiOptions = {},
+): string {
+  const { colored = false, rowMarkers = true } = options
+  const lines: string[] = []
+
+  for (let y = 0; y < layout.height; y++) {
+    let line = ''
+    for (let x = 0; x < layout.width; x++) {
+      const terrain = layout.terrain[y]?.[x] || 'floor'
+      const isPlayer = playerPos.x === x && playerPos.y === y
+      const box = boxes.find((b) => b.x === x && b.y === y)
+      const isGoal = terrain === 'goal'
+
+      if (terrain === 'wall') {
+        line += '#'
+      } else if (isPlayer && isGoal) {
+        line += '+'
+      } else if (isPlayer) {
+        line += '@'
+      } else if (box && isGoal) {
+        line += colored ? BOX_COLOR_SYMBOLS[box.color].toLowerCase() : '*'
+      } else if (box) {
+        line += colored ? BOX_COLOR_SYMBOLS[box.color] : '$'
+      } else if (isGoal) {
+        line += '.'
+      } else {
+        line += '-'
+      }
+    }
+    lines.push(rowMarkers ? `${line}|` : line)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Convert current game state back to ASCII representation.
+ * Useful for prompts and debugging.
+ */
+export function gameStateToAscii(state: GameState, options?: AsciiOptions): string {
+  return renderBoard(state.level, state.playerPos, state.boxes, options)
+}
+
+/**
+ * Convert a level to ASCII representation using initial positions.
+ * Useful for showing the original puzzle state.
+ */
+export function levelToAscii(
+  level: BoardLayout & Pick<SokobanLevel, 'playerStart' | 'boxStarts'>,
+  options?: AsciiOptions,
+): string {
+  return renderBoard(level, level.playerStart, level.boxStarts, options)
+}
+
+/**
+ * Add row numbers and a column header to an ASCII board.
+ */
+function addCoordinateLabels(ascii: string, width: number): string {
+  // Add column headers (with | to match row end markers)
+  let header = '   '
+  for (let x = 0; x < width; x++) {
+    header += x % 10
+  }
+  header += '|'
+
+  const numberedLines = ascii.split('\n').map((line, y) => {
+    const rowNum = y.toString().padStart(2, ' ')
+    return `${rowNum} ${line}`
+  })
+
+  return [header, ...numberedLines].join('\n')
+}
+
+/**
+ * Convert game state to ASCII with coordinate labels.
+ */
+export function gameStateToAsciiWithCoords(state: GameState): string {
+  return addCoordinateLabels(gameStateToAscii(state), state.level.width)
+}
+
+/**
+ * Convert a level to ASCII with coordinate labels using initial positions.
+ */
+export function levelToAsciiWithCoords(level: SokobanLevel): string {
+  return addCoordinateLabels(levelToAscii(level), level.width)
+}
+
+/**
+ * Convert x,y coordinates to r1c4 notation (1-indexed row/column).
+ */
+export function toRowCol(x: number, y: number): string {
+  return `r${y + 1}c${x + 1}`
+}
+
+/**
+ * Describe a position in r1c4 notation: board size, player, boxes grouped by color and goals.
+ * Goals are read from the terrain, in case they were edited.
+ */
+export function generateCoordinateLocations(
+  state: Pick<GameState, 'level' | 'playerPos' | 'boxes'>,
+): string {
+  const parts: string[] = []
+  parts.push(`Board: ${state.level.height} rows × ${state.level.width} columns`)
+  parts.push(`Player: ${toRowCol(state.playerPos.x, state.playerPos.y)}`)
+
+  // Group boxes by color
+  const boxesByColor = new Map<BoxColor, Position[]>()
+  for (const box of state.boxes) {
+    const existing = boxesByColor.get(box.color) || []
+    existing.push({ x: box.x, y: box.y })
+    boxesByColor.set(box.color, existing)
+  }
+
+  const boxDescriptions: string[] = []
+  for (const [color, boxes] of boxesByColor) {
+    const positions = boxes.map((b) => toRowCol(b.x, b.y)).join(', ')
+    boxDescriptions.push(`${BOX_COLOR_NAMES[color]} (${BOX_COLOR_SYMBOLS[color]}): ${positions}`)
+  }
+  parts.push(`Boxes:\n  ${boxDescriptions.join('\n  ')}`)
+
+  const goals: Position[] = []
+  for (let y = 0; y < state.level.height; y++) {
+    for (let x = 0; x < state.level.width; x++) {
+      if (state.level.terrain[y]?.[x] === 'goal') {
+        goals.push({ x, y })
+      }
+    }
+  }
+  parts.push(`Goals: ${goals.map((g) => toRowCol(g.x, g.y)).join(', ')}`)
+
+  return parts.join('\n')
+}
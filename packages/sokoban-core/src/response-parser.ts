@@ -0,0 +1,93 @@
+import type { MoveDirection, ParsedAIResponse } from './types'
+
+// Move words accepted in plain-text replies
+const MOVE_PATTERN = /\b(UP|DOWN|LEFT|RIGHT|U|D|L|R|NORTH|SOUTH|EAST|WEST)\b/gi
+
+/**
+ * Parse a single move: a direction name, Sokoban notation (u/d/l/r) or a compass point.
+ */
+export function parseMove(move: string): MoveDirection | null {
+  switch (move.trim().toUpperCase()) {
+    case 'UP':
+    case 'U':
+    case 'NORTH':
+      return 'UP'
+    case 'DOWN':
+    case 'D':
+    case 'SOUTH':
+      return 'DOWN'
+    case 'LEFT':
+    case 'L':
+    case 'WEST':
+      return 'LEFT'
+    case 'RIGHT':
+    case 'R':
+    case 'EAST':
+      return 'RIGHT'
+    default:
+      return null
+  }
+}
+
+/**
+ * Parse a list of moves, dropping entries that are not moves.
+ */
+function parseMoveList(values: unknown[]): MoveDirection[] {
+  return values.map((v) => parseMove(String(v))).filter((m): m is MoveDirection => m !== null)
+}
+
+/**
+ * Parse an AI response and extract moves. Tries, in order:
+ * - a JSON object: {"reasoning":"...","solution":[...]}, {"moves":[...]} or {"move":"UP"}
+ * - a bare JSON array: ["UP", "DOWN", ...]
+ * - move words in plain text
+ */
+export function parseAIResponse(response: string): ParsedAIResponse {
+  try {
+    // Find JSON object in response (may have surrounding text)
+    const jsonMatch = response.match(/\{[\s\S]*\}/)
+    if (jsonMatch) {
+      const parsed = JSON.parse(jsonMatch[0])
+      const reasoning = typeof parsed.reasoning === 'string' ? parsed.reasoning : undefined
+
+      let values: unknown[] | null = null
+      if (Array.isArray(parsed.solution)) {
+        values = parsed.solution
+      } else if (Array.isArray(parsed.moves)) {
+        values = parsed.moves
+      } else if (parsed.move) {
+        values = [parsed.move]
+      }
+
+      if (values) {
+        const moves = parseMoveList(values)
+        return moves.length > 0
+          ? { moves, reasoning }
+          : { moves, reasoning, error: 'Response contained no valid moves' }
+      }
+    }
+  } catch {
+    // Not valid JSON
+  }
+
+  // Look for array format: ["UP", "DOWN", ...]
+  const arrayMatch = response.match(/\[([^\]]+)\]/)
+  if (arrayMatch) {
+    try {
+      const moves = parseMoveList(JSON.parse(`[${arrayMatch[1]}]`))
+      if (moves.length > 0) {
+        return { moves }
+      }
+    } catch {
+      // Not valid JSON array
+    }
+  }
+
+  // Try to extract moves from plain text
+  const moves = parseMoveList(response.match(MOVE_PATTERN) ?? [])
+  if (moves.length === 0) {
+    return { moves: [], error: 'Could not parse any moves from response' }
+  }
+
+  return { moves }
+}
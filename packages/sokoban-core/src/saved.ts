@@ -0,0 +1,57 @@
+import type { Box, SavedLayout, SavedRunRef, SokobanLevel } from './types'
+
+/**
+ * Layouts and eval runs saved by the game UI and the eval CLI, read by both.
+ */
+
+/**
+ * Convert a saved layout into a playable level.
+ */
+export function savedLayoutToLevel(layout: SavedLayout): SokobanLevel {
+  // Layouts saved before box colors existed have uncolored boxes
+  const boxStarts: Box[] = layout.boxStarts.map((b) => ({
+    x: b.x,
+    y: b.y,
+    color: b.color ?? 'orange',
+  }))
+
+  return {
+    id: layout.id,
+    width: layout.width,
+    height: layout.height,
+    terrain: layout.terrain,
+    playerStart: layout.playerStart,
+    boxStarts,
+    goals: layout.goals,
+    difficulty: layout.difficulty || 'classic',
+    fileSource: 'saved',
+    puzzleNumber: layout.order ?? 0,
+    difficultyMetrics: layout.difficultyMetrics,
+  }
+}
+
+/**
+ * Keep one copy of each run's responses per model: the newest re-scored copy when there is
+ * one, else the original. Works on runs saved one file per model as well as on merged runs.
+ */
+export function getCurrentRuns<T extends SavedRunRef>(runs: T[]): T[] {
+  // Newest re-scored copy of each original run and model
+  const newest = new Map<string, T>()
+  for (const run of runs) {
+    if (!run.rescoredFrom) continue
+    for (const model of run.models) {
+      const key = `${run.rescoredFrom.runId}:${model}`
+      const current = newest.get(key)?.rescoredFrom
+      if (!current || run.rescoredFrom.rescoredAt > current.rescoredAt) {
+        newest.set(key, run)
+      }
+    }
+  }
+
+  return runs.filter((run) =>
+    run.models.some((model) => {
+      const copy = newest.get(`${run.rescoredFrom?.runId ?? run.id}:${model}`)
+      return copy === undefined ? !run.rescoredFrom : copy === run
+    }),
+  )
+}
@@ -0,0 +1,1422 @@
+import { DIRECTION_VECTORS } from './constants'
+import type { MoveDirection, Position, SokobanLevel } from './types'
+
+/**
+ * Search strategy. 'fast' is greedy push-level A* and returns any solution; the optimal modes
+ * search with an admissible bound, so their solution is the shortest in moves or pushes.
+ */
+export type SolverMode = 'fast' | 'move-optimal' | 'push-optimal'
+
+/** What a solution's length is measured in */
+export type SolverMetric = 'moves' | 'pushes'
+
+/** Receives the number of nodes expanded so far */
+export type SolverProgressCallback = (nodesExplored: number) => void
+
+export interface SolverResult {
+  solvable: boolean
+  solution: MoveDirection[] | null
+  moveCount: number
+  pushCount: number
+  nodesExplored: number
+  /** True if solver hit node limit without finding solution (puzzle may still be solvable) */
+  hitLimit: boolean
+  mode: SolverMode
+  /** Metric the solution minimizes, or null in 'fast' mode */
+  optimizedMetric: SolverMetric | null
+  /** True if the solution is proven shortest in optimizedMetric */
+  optimal: boolean
+}
+
+/** A* Search Node - represents a state after a box push */
+interface SearchNode {
+  playerPos: Position
+  boxes: Position[]
+  /** g-score: number of moves (walks + pushes) taken so far */
+  cost: number
+  /** Pushes taken so far (a macro makes several) */
+  pushes: number
+  /** h-score: lower bound on the pushes left (see matchingLowerBound) */
+  heuristic: number
+  /** f-score: cost + heuristic */
+  priority: number
+  /** Unique state hash */
+  id: string
+  /** For path reconstruction */
+  parent: SearchNode | null
+  /** The moves (walk + push) that got us here */
+  actionFromParent: MoveDirection[] | null
+}
+
+/**
+ * Min-Heap Priority Queue for A* search
+ */
+class PriorityQueue<T extends { priority: number } = SearchNode> {
+  private items: T[] = []
+
+  push(item: T): void {
+    this.items.push(item)
+    this.bubbleUp(this.items.length - 1)
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined
+    const top = this.items[0]
+    const bottom = this.items.pop()
+    if (this.items.length > 0 && bottom) {
+      this.items[0] = bottom
+      this.sinkDown(0)
+    }
+    return top
+  }
+
+  size(): number {
+    return this.items.length
+  }
+
+  private bubbleUp(startIndex: number): void {
+    let index = startIndex
+    const item = this.items[index]
+    while (index > 0) {
+      const parentIdx = Math.floor((index - 1) / 2)
+      const parent = this.items[parentIdx]
+      if (item.priority >= parent.priority) break
+      this.items[index] = parent
+      this.items[parentIdx] = item
+      index = parentIdx
+    }
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.items.length
+    const element = this.items[index]
+    let currentIndex = index
+    while (true) {
+      const leftChildIdx = 2 * currentIndex + 1
+      const rightChildIdx = 2 * currentIndex + 2
+      let swap: number | null = null
+
+      if (leftChildIdx < length) {
+        if (this.items[leftChildIdx].priority < element.priority) {
+          swap = leftChildIdx
+        }
+      }
+      if (rightChildIdx < length) {
+        if (
+          (swap === null && this.items[rightChildIdx].priority < element.priority) ||
+          (swap !== null && this.items[rightChildIdx].priority < this.items[leftChildIdx].priority)
+        ) {
+          swap = rightChildIdx
+        }
+      }
+      if (swap === null) break
+      this.items[currentIndex] = this.items[swap]
+      this.items[swap] = element
+      currentIndex = swap
+    }
+  }
+}
+
+const PUSH_DIRECTIONS = [
+  { dir: 'UP' as MoveDirection, dx: 0, dy: -1 },
+  { dir: 'DOWN' as MoveDirection, dx: 0, dy: 1 },
+  { dir: 'LEFT' as MoveDirection, dx: -1, dy: 0 },
+  { dir: 'RIGHT' as MoveDirection, dx: 1, dy: 0 },
+]
+
+// Batch size for async solver - yield to UI every N nodes
+const ASYNC_BATCH_SIZE = 1000
+
+const MODE_METRICS: Record<SolverMode, SolverMetric | null> = {
+  fast: null,
+  'move-optimal': 'moves',
+  'push-optimal': 'pushes',
+}
+
+/**
+ * Async version of solvePuzzle that yields to the UI periodically.
+ * Prevents browser lockup during long solves.
+ */
+export async function solvePuzzleAsync(
+  level: SokobanLevel,
+  maxNodes = 150000,
+  mode: SolverMode = 'fast',
+  onProgress?: SolverProgressCallback,
+): Promise<SolverResult> {
+  const search =
+    mode === 'fast' ? searchFast(level, maxNodes) : searchOptimal(level, mode, maxNodes)
+  let step = search.next()
+  while (!step.done) {
+    onProgress?.(step.value)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    step = search.next()
+  }
+  return step.value
+}
+
+/**
+ * Solve a Sokoban puzzle using Push-Level A* Search.
+ *
+ * Unlike Move-Level BFS which treats every player step as a state change,
+ * this solver only creates new states when a box is pushed. Walking between
+ * pushes is calculated but doesn't expand the search space.
+ *
+ * Uses a box-to-goal matching heuristic to prioritize pushing boxes toward goals.
+ * The 'move-optimal' and 'push-optimal' modes run an exact search instead (see searchOptimal).
+ *
+ * @param level - The Sokoban level to solve
+ * @param maxNodes - Maximum nodes to explore before giving up (default: 150000)
+ * @param mode - Search strategy (default: 'fast')
+ * @param onProgress - Called with the node count every ASYNC_BATCH_SIZE nodes
+ * @returns SolverResult with solution if found
+ */
+export function solvePuzzle(
+  level: SokobanLevel,
+  maxNodes = 150000,
+  mode: SolverMode = 'fast',
+  onProgress?: SolverProgressCallback,
+): SolverResult {
+  const search =
+    mode === 'fast' ? searchFast(level, maxNodes) : searchOptimal(level, mode, maxNodes)
+  let step = search.next()
+  while (!step.done) {
+    onProgress?.(step.value)
+    step = search.next()
+  }
+  return step.value
+}
+
+/**
+ * The 'fast' search. On top of the deadlock checks shared with the optimal modes it
+ * prunes to the boxes of a PI-corral and follows tunnel and goal-room macros,
+ * which keep it complete in practice but not optimal.
+ * Pauses every ASYNC_BATCH_SIZE nodes, yielding the node count, so callers can report progress.
+ */
+function* searchFast(level: SokobanLevel, maxNodes: number): Generator<number, SolverResult> {
+  const context = createSolverContext(level)
+
+  // Initial state
+  const initialBoxes = level.boxStarts.map((b) => ({ x: b.x, y: b.y }))
+
+  // Check if already solved
+  if (isGoalState(initialBoxes, context.goals)) {
+    return solvedResult([], 0, 1, 'fast')
+  }
+
+  // Check immediate failures - boxes on dead squares or no box-to-goal assignment
+  const initialHeuristic = matchingLowerBound(initialBoxes, context.pushDistances, level.width)
+  if (
+    initialHeuristic >= UNREACHABLE ||
+    initialBoxes.some((b) => context.deadSquares.has(`${b.x},${b.y}`))
+  ) {
+    return failResult(1, 'fast')
+  }
+
+  // Get initial reachability for state normalization
+  const initialReachable = getReachableArea(level.playerStart, initialBoxes, level)
+  const initialHash = generateStateHash(initialBoxes, initialReachable.canonicalPos)
+
+  const startNode: SearchNode = {
+    playerPos: level.playerStart,
+    boxes: initialBoxes,
+    cost: 0,
+    pushes: 0,
+    heuristic: initialHeuristic,
+    priority: initialHeuristic,
+    id: initialHash,
+    parent: null,
+    actionFromParent: null,
+  }
+
+  const queue = new PriorityQueue()
+  queue.push(startNode)
+
+  const visited = new Set<string>()
+  visited.add(initialHash)
+
+  let nodesExplored = 0
+
+  while (queue.size() > 0 && nodesExplored < maxNodes) {
+    const current = queue.pop()
+    if (!current) break
+    nodesExplored++
+    if (nodesExplored % ASYNC_BATCH_SIZE === 0) yield nodesExplored
+
+    // Check if solved (heuristic of 0 means all boxes on goals)
+    if (current.heuristic === 0) {
+      return solvedResult(reconstructPath(current), current.pushes, nodesExplored, 'fast')
+    }
+
+    // Get reachable area from current position
+    const reachable = getReachableArea(current.playerPos, current.boxes, level)
+
+    // A PI-corral must be opened before anything else: only its boxes are pushed
+    const corral = findPICorral(context, current.boxes, reachable.map)
+    if (corral && isCorralDeadlock(context, current.boxes, current.playerPos, corral)) continue
+    const pushable = corral ? corral.boxes : current.boxes.map((_, i) => i)
+
+    // Find all possible pushes from this reachable area
+    for (const i of pushable) {
+      const box = current.boxes[i]
+
+      // Try pushing this box in all 4 directions
+      for (const { dir, dx, dy } of PUSH_DIRECTIONS) {
+        // Position player must be at to push box in this direction
+        const pushFrom = { x: box.x - dx, y: box.y - dy }
+
+        // Can the player reach the push position?
+        if (!reachable.map.has(`${pushFrom.x},${pushFrom.y}`)) continue
+
+        // Where would the box end up?
+        const targetPos = { x: box.x + dx, y: box.y + dy }
+
+        // Is the target position valid (floor/goal and empty)?
+        if (!isValidMoveTarget(targetPos, level, current.boxes)) continue
+
+        // Check static deadlocks (dead squares)
+        if (context.deadSquares.has(`${targetPos.x},${targetPos.y}`)) continue
+
+        // Calculate walking path to push position
+        const walkPath = findPathBFS(current.playerPos, pushFrom, level, current.boxes)
+        if (!walkPath) continue
+
+        // Push, then keep going through a tunnel or into the goal room
+        const pushed = applyMacros(context, current.boxes, i, dir)
+        if (!pushed) continue
+        const { boxes: newBoxes, playerPos: playerAfterPush } = pushed
+
+        // Check dynamic deadlocks (freezes and the two-box table)
+        if (isFreezeDeadlock(newBoxes, level, context.deadSquares)) continue
+        if (isPairDeadlock(context, newBoxes, pushed.boxIndex, playerAfterPush)) continue
+
+        // Full move sequence: walk to box + pushes
+        const moveSequence = [...walkPath, ...pushed.moves]
+
+        const newReachable = getReachableArea(playerAfterPush, newBoxes, level)
+        const newHash = generateStateHash(newBoxes, newReachable.canonicalPos)
+
+        if (visited.has(newHash)) continue
+        visited.add(newHash)
+
+        const h = matchingLowerBound(newBoxes, context.pushDistances, level.width)
+        if (h >= UNREACHABLE) continue
+        const g = current.cost + moveSequence.length
+
+        queue.push({
+          playerPos: playerAfterPush,
+          boxes: newBoxes,
+          cost: g,
+          pushes: current.pushes + pushed.moves.length,
+          heuristic: h,
+          priority: g + h,
+          id: newHash,
+          parent: current,
+          actionFromParent: moveSequence,
+        })
+      }
+    }
+  }
+
+  return failResult(nodesExplored, 'fast', nodesExplored >= maxNodes)
+}
+
+/**
+ * Reconstruct the full move path from start to goal
+ */
+function reconstructPath(node: SearchNode): MoveDirection[] {
+  const path: MoveDirection[] = []
+  let curr: SearchNode | null = node
+  while (curr?.parent) {
+    if (curr.actionFromParent) {
+      path.unshift(...curr.actionFromParent)
+    }
+    curr = curr.parent
+  }
+  return path
+}
+
+function solvedResult(
+  solution: MoveDirection[],
+  pushCount: number,
+  nodes: number,
+  mode: SolverMode,
+): SolverResult {
+  return {
+    solvable: true,
+    solution,
+    moveCount: solution.length,
+    pushCount,
+    nodesExplored: nodes,
+    hitLimit: false,
+    mode,
+    optimizedMetric: MODE_METRICS[mode],
+    optimal: mode !== 'fast',
+  }
+}
+
+function failResult(nodes: number, mode: SolverMode, hitLimit = false): SolverResult {
+  return {
+    solvable: false,
+    solution: null,
+    moveCount: 0,
+    pushCount: 0,
+    nodesExplored: nodes,
+    hitLimit,
+    mode,
+    optimizedMetric: MODE_METRICS[mode],
+    optimal: false,
+  }
+}
+
+/**
+ * Find all squares the player can reach without pushing any boxes.
+ * Returns a Set of position keys and a canonical position (top-left most) for state hashing.
+ */
+function getReachableArea(
+  start: Position,
+  boxes: Position[],
+  level: SokobanLevel,
+): { map: Set<string>; canonicalPos: Position } {
+  const visited = new Set<string>()
+  const queue = [start]
+  visited.add(`${start.x},${start.y}`)
+
+  // Canonical position: lowest Y, then lowest X
+  let minPos = { x: start.x, y: start.y }
+
+  // Box positions for fast lookup
+  const boxKeys = new Set(boxes.map((b) => `${b.x},${b.y}`))
+
+  for (let head = 0; head < queue.length; head++) {
+    const curr = queue[head]
+
+    // Update canonical if this position is "smaller"
+    if (curr.y < minPos.y || (curr.y === minPos.y && curr.x < minPos.x)) {
+      minPos = curr
+    }
+
+    for (const { dx, dy } of PUSH_DIRECTIONS) {
+      const nx = curr.x + dx
+      const ny = curr.y + dy
+      const key = `${nx},${ny}`
+
+      if (!visited.has(key)) {
+        if (nx >= 0 && nx < level.width && ny >= 0 && ny < level.height) {
+          const cell = level.terrain[ny]?.[nx]
+          if (cell !== 'wall' && cell !== undefined && !boxKeys.has(key)) {
+            visited.add(key)
+            queue.push({ x: nx, y: ny })
+          }
+        }
+      }
+    }
+  }
+
+  return { map: visited, canonicalPos: minPos }
+}
+
+/**
+ * BFS to find walking path from A to B (no pushing)
+ */
+function findPathBFS(
+  from: Position,
+  to: Position,
+  level: SokobanLevel,
+  boxes: Position[],
+): MoveDirection[] | null {
+  if (from.x === to.x && from.y === to.y) return []
+
+  const boxKeys = new Set(boxes.map((b) => `${b.x},${b.y}`))
+  // Each square remembers the square and move it was reached from
+  const queue: { pos: Position; from: number; move: MoveDirection | null }[] = [
+    { pos: from, from: -1, move: null },
+  ]
+  const visited = new Set<string>([`${from.x},${from.y}`])
+
+  for (let head = 0; head < queue.length; head++) {
+    const { pos } = queue[head]
+
+    if (pos.x === to.x && pos.y === to.y) {
+      const path: MoveDirection[] = []
+      for (let i = head; i > 0; i = queue[i].from) path.push(queue[i].move as MoveDirection)
+      return path.reverse()
+    }
+
+    for (const { dir, dx, dy } of PUSH_DIRECTIONS) {
+      const nx = pos.x + dx
+      const ny = pos.y + dy
+      const key = `${nx},${ny}`
+
+      if (!visited.has(key)) {
+        if (nx >= 0 && nx < level.width && ny >= 0 && ny < level.height) {
+          const cell = level.terrain[ny]?.[nx]
+          if (cell !== 'wall' && cell !== undefined && !boxKeys.has(key)) {
+            visited.add(key)
+            queue.push({ pos: { x: nx, y: ny }, from: head, move: dir })
+          }
+        }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Generate a canonical state hash.
+ * Uses sorted box positions and normalized player position (canonical reachable square).
+ */
+function generateStateHash(boxes: Position[], playerCanonical: Position): string {
+  const sorted = [...boxes].sort((a, b) => a.y - b.y || a.x - b.x)
+  const boxStr = sorted.map((b) => `${b.x},${b.y}`).join(':')
+  return `${playerCanonical.x},${playerCanonical.y}|${boxStr}`
+}
+
+/**
+ * Find all goal positions in the level.
+ */
+function findGoals(level: SokobanLevel): Position[] {
+  const goals: Position[] = []
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      if (level.terrain[y]?.[x] === 'goal') {
+        goals.push({ x, y })
+      }
+    }
+  }
+  return goals
+}
+
+/**
+ * Check if all boxes are on goal positions.
+ */
+function isGoalState(boxes: Position[], goals: Position[]): boolean {
+  const goalSet = new Set(goals.map((g) => `${g.x},${g.y}`))
+  return boxes.every((box) => goalSet.has(`${box.x},${box.y}`))
+}
+
+/**
+ * Check if a position is a valid move target (floor/goal and not occupied by a box).
+ */
+function isValidMoveTarget(pos: Position, level: SokobanLevel, currentBoxes: Position[]): boolean {
+  if (pos.x < 0 || pos.x >= level.width || pos.y < 0 || pos.y >= level.height) return false
+  const cell = level.terrain[pos.y]?.[pos.x]
+  if (cell !== 'floor' && cell !== 'goal') return false
+  return !currentBoxes.some((b) => b.x === pos.x && b.y === pos.y)
+}
+
+/**
+ * Check if a position is inside the level and not a wall.
+ */
+function isOpen(pos: Position, level: SokobanLevel): boolean {
+  const cell = level.terrain[pos.y]?.[pos.x]
+  return cell !== undefined && cell !== 'wall'
+}
+
+// ============================================================================
+// HEURISTIC
+// ============================================================================
+
+// Assignment cost for a box that can never reach a goal
+const UNREACHABLE = 1_000_000
+
+/**
+ * For each goal, the fewest pushes that bring a lone box from each square onto it
+ * (indexed y * width + x), found by pulling a box back from the goal.
+ * Squares that can never reach the goal get UNREACHABLE.
+ */
+function computePushDistances(level: SokobanLevel, goals: Position[]): number[][] {
+  return goals.map((goal) => {
+    const distances = new Array<number>(level.width * level.height).fill(UNREACHABLE)
+    distances[goal.y * level.width + goal.x] = 0
+    const queue = [goal]
+
+    for (let head = 0; head < queue.length; head++) {
+      const box = queue[head]
+      const distance = distances[box.y * level.width + box.x]
+
+      // A box at `from` pushed by a player at `player` lands on `box`
+      for (const { dx, dy } of PUSH_DIRECTIONS) {
+        const from = { x: box.x - dx, y: box.y - dy }
+        const player = { x: box.x - 2 * dx, y: box.y - 2 * dy }
+        if (!isOpen(from, level) || !isOpen(player, level)) continue
+
+        const index = from.y * level.width + from.x
+        if (distances[index] !== UNREACHABLE) continue
+        distances[index] = distance + 1
+        queue.push(from)
+      }
+    }
+
+    return distances
+  })
+}
+
+/**
+ * Lower bound on the pushes left: the minimum-cost assignment of boxes to distinct goals
+ * (Hungarian algorithm). Returns UNREACHABLE or more when no assignment exists.
+ */
+function matchingLowerBound(boxes: Position[], pushDistances: number[][], width: number): number {
+  const n = boxes.length
+  const m = pushDistances.length
+  if (n === 0) return 0
+  if (n > m) return UNREACHABLE
+
+  const cost = (box: number, goal: number): number =>
+    pushDistances[goal][boxes[box].y * width + boxes[box].x]
+
+  // Potentials and assignment are 1-indexed; column 0 is a sentinel
+  const u = new Array<number>(n + 1).fill(0)
+  const v = new Array<number>(m + 1).fill(0)
+  const assigned = new Array<number>(m + 1).fill(0)
+  const way = new Array<number>(m + 1).fill(0)
+
+  for (let row = 1; row <= n; row++) {
+    assigned[0] = row
+    let col0 = 0
+    const minv = new Array<number>(m + 1).fill(Number.POSITIVE_INFINITY)
+    const used = new Array<boolean>(m + 1).fill(false)
+
+    do {
+      used[col0] = true
+      const row0 = assigned[col0]
+      let delta = Number.POSITIVE_INFINITY
+      let col1 = 0
+      for (let col = 1; col <= m; col++) {
+        if (used[col]) continue
+        const reduced = cost(row0 - 1, col - 1) - u[row0] - v[col]
+        if (reduced < minv[col]) {
+          minv[col] = reduced
+          way[col] = col0
+        }
+        if (minv[col] < delta) {
+          delta = minv[col]
+          col1 = col
+        }
+      }
+      for (let col = 0; col <= m; col++) {
+        if (used[col]) {
+          u[assigned[col]] += delta
+          v[col] -= delta
+        } else {
+          minv[col] -= delta
+        }
+      }
+      col0 = col1
+    } while (assigned[col0] !== 0)
+
+    do {
+      const col1 = way[col0]
+      assigned[col0] = assigned[col1]
+      col0 = col1
+    } while (col0 !== 0)
+  }
+
+  let total = 0
+  for (let col = 1; col <= m; col++) {
+    if (assigned[col] !== 0) total += cost(assigned[col] - 1, col - 1)
+  }
+  return total
+}
+
+/**
+ * Fewest pushes a level could take if its boxes never got in each other's way: the solver's
+ * matching lower bound for the starting position. Returns UNREACHABLE or more when some box
+ * can't reach any free goal.
+ */
+export function computePushLowerBound(level: SokobanLevel): number {
+  const goals = findGoals(level)
+  return matchingLowerBound(level.boxStarts, computePushDistances(level, goals), level.width)
+}
+
+// ============================================================================
+// SOLVER CONTEXT
+// ============================================================================
+
+/** Per-level tables shared by every node of a search */
+interface SolverContext {
+  level: SokobanLevel
+  goals: Position[]
+  goalKeys: Set<string>
+  deadSquares: Set<string>
+  /** Fewest pushes from each square to each goal (see computePushDistances) */
+  pushDistances: number[][]
+  goalRoom: GoalRoom | null
+  /** Deadlock table: verdicts of the box-subset searches, filled in as positions come up */
+  subsetDeadlocks: Map<string, boolean>
+}
+
+function createSolverContext(level: SokobanLevel): SolverContext {
+  const goals = findGoals(level)
+  return {
+    level,
+    goals,
+    goalKeys: new Set(goals.map((g) => `${g.x},${g.y}`)),
+    deadSquares: computeDeadSquares(level),
+    pushDistances: computePushDistances(level, goals),
+    goalRoom: findGoalRoom(level, goals),
+    subsetDeadlocks: new Map(),
+  }
+}
+
+// ============================================================================
+// MACROS
+// ============================================================================
+
+/** Goals behind a single entrance square, filled in an order that never blocks the rest */
+interface GoalRoom {
+  entrance: Position
+  squares: Set<string>
+  fillOrder: Position[]
+}
+
+/**
+ * Push a box one step, then keep pushing while both it and the player are in a one-wide
+ * tunnel, then, if it stopped on the goal room's entrance, push it to the next goal to fill.
+ * Returns null if the tunnel runs into a dead square.
+ */
+function applyMacros(
+  context: SolverContext,
+  boxes: Position[],
+  boxIndex: number,
+  dir: MoveDirection,
+): { boxes: Position[]; playerPos: Position; moves: MoveDirection[]; boxIndex: number } | null {
+  const { level, deadSquares, goalKeys, goalRoom } = context
+  const { dx, dy } = DIRECTION_VECTORS[dir]
+  const newBoxes = [...boxes]
+  const moves: MoveDirection[] = []
+  let playerPos = boxes[boxIndex]
+  let box = { x: playerPos.x + dx, y: playerPos.y + dy }
+  newBoxes[boxIndex] = box
+  moves.push(dir)
+
+  // Tunnel: walls on both sides of the box and of the player behind it
+  const isWall = (x: number, y: number) => !isOpen({ x, y }, level)
+  const inTunnel = (pos: Position) =>
+    isWall(pos.x + dy, pos.y + dx) && isWall(pos.x - dy, pos.y - dx)
+  while (!goalKeys.has(`${box.x},${box.y}`) && inTunnel(box) && inTunnel(playerPos)) {
+    const next = { x: box.x + dx, y: box.y + dy }
+    if (!isValidMoveTarget(next, level, newBoxes)) break
+    if (deadSquares.has(`${next.x},${next.y}`)) return null
+    playerPos = box
+    box = next
+    newBoxes[boxIndex] = box
+    moves.push(dir)
+  }
+
+  // Goal room: only when the boxes already inside are exactly the first goals of the order
+  if (goalRoom && box.x === goalRoom.entrance.x && box.y === goalRoom.entrance.y) {
+    const inside = newBoxes.filter((b) => goalRoom.squares.has(`${b.x},${b.y}`))
+    const filled = goalRoom.fillOrder.slice(0, inside.length)
+    const target = goalRoom.fillOrder[inside.length]
+    const inOrder = inside.every((b) => filled.some((g) => g.x === b.x && g.y === b.y))
+    const others = newBoxes.filter((_, i) => i !== boxIndex)
+    const path = target && inOrder ? findBoxPath(level, box, playerPos, target, others) : null
+    if (path) {
+      newBoxes[boxIndex] = target
+      return {
+        boxes: newBoxes,
+        playerPos: path.playerPos,
+        moves: [...moves, ...path.moves],
+        boxIndex,
+      }
+    }
+  }
+
+  return { boxes: newBoxes, playerPos, moves, boxIndex }
+}
+
+/**
+ * Find the goal room: the smallest area holding every goal but no box and not the player,
+ * cut off from the rest of the level by one entrance square. Returns null if there is none
+ * or its goals can't be filled one by one from the entrance.
+ */
+function findGoalRoom(level: SokobanLevel, goals: Position[]): GoalRoom | null {
+  if (goals.length < 2) return null
+  const boxKeys = new Set(level.boxStarts.map((b) => `${b.x},${b.y}`))
+  let best: { entrance: Position; squares: Set<string> } | null = null
+
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      if (level.terrain[y]?.[x] !== 'floor' || boxKeys.has(`${x},${y}`)) continue
+      if (level.playerStart.x === x && level.playerStart.y === y) continue
+
+      // The area holding the first goal once this square is blocked
+      const squares = floodFill(level, goals[0], new Set([`${x},${y}`]))
+      if (best && squares.size >= best.squares.size) continue
+      if (!goals.every((g) => squares.has(`${g.x},${g.y}`))) continue
+      if (squares.has(`${level.playerStart.x},${level.playerStart.y}`)) continue
+      if ([...boxKeys].some((key) => squares.has(key))) continue
+      best = { entrance: { x, y }, squares }
+    }
+  }
+  if (!best) return null
+
+  // Fill the farthest goal first, as long as a box can still be pushed onto it
+  const { entrance, squares } = best
+  const fillOrder: Position[] = []
+  const remaining = [...goals]
+  const distance = (g: Position) => Math.abs(g.x - entrance.x) + Math.abs(g.y - entrance.y)
+  const pushersOutside = PUSH_DIRECTIONS.map(({ dx, dy }) => ({
+    x: entrance.x - dx,
+    y: entrance.y - dy,
+  })).filter((p) => isOpen(p, level) && !squares.has(`${p.x},${p.y}`))
+
+  while (remaining.length > 0) {
+    remaining.sort((a, b) => distance(b) - distance(a))
+    const next = remaining.findIndex((goal) =>
+      pushersOutside.some((player) => findBoxPath(level, entrance, player, goal, fillOrder)),
+    )
+    if (next === -1) return null
+    fillOrder.push(remaining[next])
+    remaining.splice(next, 1)
+  }
+
+  return { entrance, squares, fillOrder }
+}
+
+/**
+ * Squares connected to a start square, not crossing walls or blocked squares.
+ */
+function floodFill(level: SokobanLevel, start: Position, blocked: Set<string>): Set<string> {
+  const area = new Set<string>([`${start.x},${start.y}`])
+  const queue = [start]
+  for (let head = 0; head < queue.length; head++) {
+    const curr = queue[head]
+    for (const { dx, dy } of PUSH_DIRECTIONS) {
+      const next = { x: curr.x + dx, y: curr.y + dy }
+      const key = `${next.x},${next.y}`
+      if (area.has(key) || blocked.has(key) || !isOpen(next, level)) continue
+      area.add(key)
+      queue.push(next)
+    }
+  }
+  return area
+}
+
+/**
+ * Fewest-push path for one box to a target square around fixed obstacles, with the player's
+ * walks. Returns the moves and where the player ends, or null if there is none.
+ */
+function findBoxPath(
+  level: SokobanLevel,
+  box: Position,
+  playerPos: Position,
+  target: Position,
+  obstacles: Position[],
+): { moves: MoveDirection[]; playerPos: Position } | null {
+  type BoxPathNode = { box: Position; playerPos: Position; moves: MoveDirection[] }
+  const start = getReachableArea(playerPos, [...obstacles, box], level)
+  const visited = new Set([generateStateHash([box], start.canonicalPos)])
+  const queue: BoxPathNode[] = [{ box, playerPos, moves: [] }]
+
+  for (let head = 0; head < queue.length; head++) {
+    const curr = queue[head]
+    if (curr.box.x === target.x && curr.box.y === target.y) {
+      return { moves: curr.moves, playerPos: curr.playerPos }
+    }
+
+    const blockers = [...obstacles, curr.box]
+    const reachable = getReachableArea(curr.playerPos, blockers, level)
+    for (const { dir, dx, dy } of PUSH_DIRECTIONS) {
+      const pushFrom = { x: curr.box.x - dx, y: curr.box.y - dy }
+      const next = { x: curr.box.x + dx, y: curr.box.y + dy }
+      if (!reachable.map.has(`${pushFrom.x},${pushFrom.y}`)) continue
+      if (!isValidMoveTarget(next, level, blockers)) continue
+
+      const area = getReachableArea(curr.box, [...obstacles, next], level)
+      const hash = generateStateHash([next], area.canonicalPos)
+      if (visited.has(hash)) continue
+      visited.add(hash)
+
+      const walk = findPathBFS(curr.playerPos, pushFrom, level, blockers) ?? []
+      queue.push({ box: next, playerPos: curr.box, moves: [...curr.moves, ...walk, dir] })
+    }
+  }
+
+  return null
+}
+
+// ============================================================================
+// OPTIMAL SEARCH
+// ============================================================================
+
+/** Push-level search node for the optimal modes */
+interface OptimalNode {
+  playerPos: Position
+  boxes: Position[]
+  moves: number
+  pushes: number
+  /** Lower bound on the pushes still needed */
+  heuristic: number
+  /** Optimized cost + heuristic, with ties broken toward lower heuristic */
+  priority: number
+  id: string
+  parent: OptimalNode | null
+  /** The push that got us here: where the player stood and which way it pushed */
+  push: { from: Position; dir: MoveDirection } | null
+}
+
+/**
+ * Exact A* over pushes. Each push costs 1 ('push-optimal') or the shortest walk to it
+ * plus 1 ('move-optimal'), and the heuristic is the minimum-cost matching of boxes to goals
+ * by push distance. That bound is admissible and consistent (a push moves one box one step),
+ * so the first solved state taken from the queue is optimal.
+ * Positions are keyed by the exact player square when counting moves, and by its reachable
+ * area when counting pushes. Pauses every ASYNC_BATCH_SIZE nodes like searchFast.
+ */
+function* searchOptimal(
+  level: SokobanLevel,
+  mode: Exclude<SolverMode, 'fast'>,
+  maxNodes: number,
+): Generator<number, SolverResult> {
+  const metric: SolverMetric = mode === 'push-optimal' ? 'pushes' : 'moves'
+  const context = createSolverContext(level)
+  const { deadSquares, goals, pushDistances } = context
+  const initialBoxes = level.boxStarts.map((b) => ({ x: b.x, y: b.y }))
+
+  if (isGoalState(initialBoxes, goals)) {
+    return solvedResult([], 0, 1, mode)
+  }
+
+  const initialHeuristic = matchingLowerBound(initialBoxes, pushDistances, level.width)
+  if (
+    initialHeuristic >= UNREACHABLE ||
+    initialBoxes.some((b) => deadSquares.has(`${b.x},${b.y}`))
+  ) {
+    return failResult(1, mode)
+  }
+
+  const stateKey = (playerPos: Position, boxes: Position[]): string =>
+    metric === 'moves'
+      ? generateStateHash(boxes, playerPos)
+      : generateStateHash(boxes, getReachableArea(playerPos, boxes, level).canonicalPos)
+
+  const startNode: OptimalNode = {
+    playerPos: level.playerStart,
+    boxes: initialBoxes,
+    moves: 0,
+    pushes: 0,
+    heuristic: initialHeuristic,
+    priority: initialHeuristic,
+    id: stateKey(level.playerStart, initialBoxes),
+    parent: null,
+    push: null,
+  }
+
+  const queue = new PriorityQueue<OptimalNode>()
+  queue.push(startNode)
+
+  // Cheapest known cost to each position, so costlier duplicates are skipped
+  const bestCost = new Map<string, number>([[startNode.id, 0]])
+
+  let nodesExplored = 0
+
+  while (queue.size() > 0 && nodesExplored < maxNodes) {
+    const current = queue.pop()
+    if (!current) break
+    const cost = metric === 'moves' ? current.moves : current.pushes
+    if (cost > (bestCost.get(current.id) ?? Number.POSITIVE_INFINITY)) continue
+
+    nodesExplored++
+    if (nodesExplored % ASYNC_BATCH_SIZE === 0) yield nodesExplored
+
+    if (current.heuristic === 0) {
+      return solvedResult(
+        reconstructOptimalPath(current, level),
+        current.pushes,
+        nodesExplored,
+        mode,
+      )
+    }
+
+    const walkDistances = getWalkDistances(current.playerPos, current.boxes, level)
+
+    // Prune corral deadlocks, but keep every push: PI-corral pruning can cost optimality
+    const corral = findPICorral(context, current.boxes, new Set(walkDistances.keys()))
+    if (corral && isCorralDeadlock(context, current.boxes, current.playerPos, corral)) continue
+
+    for (let i = 0; i < current.boxes.length; i++) {
+      const box = current.boxes[i]
+
+      for (const { dir, dx, dy } of PUSH_DIRECTIONS) {
+        const pushFrom = { x: box.x - dx, y: box.y - dy }
+        const walk = walkDistances.get(`${pushFrom.x},${pushFrom.y}`)
+        if (walk === undefined) continue
+
+        const targetPos = { x: box.x + dx, y: box.y + dy }
+        if (!isValidMoveTarget(targetPos, level, current.boxes)) continue
+        if (deadSquares.has(`${targetPos.x},${targetPos.y}`)) continue
+
+        const newBoxes = [...current.boxes]
+        newBoxes[i] = targetPos
+        if (isFreezeDeadlock(newBoxes, level, deadSquares)) continue
+
+        const h = matchingLowerBound(newBoxes, pushDistances, level.width)
+        if (h >= UNREACHABLE) continue
+
+        const playerAfterPush = { x: box.x, y: box.y }
+        if (isPairDeadlock(context, newBoxes, i, playerAfterPush)) continue
+        const moves = current.moves + walk + 1
+        const pushes = current.pushes + 1
+        const g = metric === 'moves' ? moves : pushes
+        const id = stateKey(playerAfterPush, newBoxes)
+        if (g >= (bestCost.get(id) ?? Number.POSITIVE_INFINITY)) continue
+        bestCost.set(id, g)
+
+        queue.push({
+          playerPos: playerAfterPush,
+          boxes: newBoxes,
+          moves,
+          pushes,
+          heuristic: h,
+          priority: g + h + h / UNREACHABLE,
+          id,
+          parent: current,
+          push: { from: pushFrom, dir },
+        })
+      }
+    }
+  }
+
+  return failResult(nodesExplored, mode, nodesExplored >= maxNodes)
+}
+
+/**
+ * Rebuild the moves to a node: the shortest walk to each push, then the push.
+ */
+function reconstructOptimalPath(node: OptimalNode, level: SokobanLevel): MoveDirection[] {
+  const steps: OptimalNode[] = []
+  for (let curr: OptimalNode | null = node; curr?.parent; curr = curr.parent) {
+    steps.unshift(curr)
+  }
+
+  const path: MoveDirection[] = []
+  for (const step of steps) {
+    if (!step.parent || !step.push) continue
+    const walk = findPathBFS(step.parent.playerPos, step.push.from, level, step.parent.boxes)
+    path.push(...(walk ?? []), step.push.dir)
+  }
+  return path
+}
+
+/**
+ * Walking distance from the player to every square it can reach without pushing.
+ */
+function getWalkDistances(
+  start: Position,
+  boxes: Position[],
+  level: SokobanLevel,
+): Map<string, number> {
+  const boxKeys = new Set(boxes.map((b) => `${b.x},${b.y}`))
+  const distances = new Map<string, number>([[`${start.x},${start.y}`, 0]])
+  const queue = [start]
+
+  for (let head = 0; head < queue.length; head++) {
+    const curr = queue[head]
+    const distance = distances.get(`${curr.x},${curr.y}`) ?? 0
+
+    for (const { dx, dy } of PUSH_DIRECTIONS) {
+      const next = { x: curr.x + dx, y: curr.y + dy }
+      const key = `${next.x},${next.y}`
+      if (distances.has(key) || boxKeys.has(key) || !isOpen(next, level)) continue
+      distances.set(key, distance + 1)
+      queue.push(next)
+    }
+  }
+
+  return distances
+}
+
+// ============================================================================
+// DEADLOCK DETECTION
+// ============================================================================
+
+/**
+ * Precompute all "dead squares" - positions where a box can never be part of a solution.
+ * A square is dead if:
+ * 1. It's not a goal
+ * 2. It forms a corner with walls (box would be stuck)
+ *
+ * Returns a Set of position keys "x,y" for O(1) lookup.
+ */
+export function computeDeadSquares(level: SokobanLevel): Set<string> {
+  const deadSquares = new Set<string>()
+
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      const cell = level.terrain[y]?.[x]
+
+      // Skip walls and goals
+      if (cell === 'wall' || cell === 'goal') continue
+
+      // Skip non-floor cells
+      if (cell !== 'floor') continue
+
+      // Check if this floor cell is a dead square (corner)
+      const pos = { x, y }
+      if (isCornerWithWalls(pos, level)) {
+        deadSquares.add(`${x},${y}`)
+      }
+    }
+  }
+
+  // Also mark squares along walls that lead only to dead corners (simple dead lanes)
+  expandDeadLanes(deadSquares, level)
+
+  return deadSquares
+}
+
+/**
+ * Check if a position forms a corner with walls.
+ */
+function isCornerWithWalls(pos: Position, level: SokobanLevel): boolean {
+  const up = level.terrain[pos.y - 1]?.[pos.x]
+  const down = level.terrain[pos.y + 1]?.[pos.x]
+  const left = level.terrain[pos.y]?.[pos.x - 1]
+  const right = level.terrain[pos.y]?.[pos.x + 1]
+
+  const wallUp = up === 'wall' || up === undefined
+  const wallDown = down === 'wall' || down === undefined
+  const wallLeft = left === 'wall' || left === undefined
+  const wallRight = right === 'wall' || right === undefined
+
+  return (
+    (wallUp && wallLeft) ||
+    (wallUp && wallRight) ||
+    (wallDown && wallLeft) ||
+    (wallDown && wallRight)
+  )
+}
+
+/**
+ * Expand dead squares along wall edges that have no goals.
+ * If a box is pushed along a wall and there's no goal along that wall segment,
+ * and both ends are corners/walls, the entire segment is dead.
+ */
+function expandDeadLanes(deadSquares: Set<string>, level: SokobanLevel): void {
+  // Check horizontal lanes along top and bottom walls
+  for (let y = 1; y < level.height - 1; y++) {
+    let hasWallAbove = true
+    let hasWallBelow = true
+    let hasGoalInRow = false
+    let rowStart = -1
+    let rowEnd = -1
+
+    for (let x = 0; x < level.width; x++) {
+      const cell = level.terrain[y]?.[x]
+      if (cell === 'floor' || cell === 'goal') {
+        if (rowStart === -1) rowStart = x
+        rowEnd = x
+        if (cell === 'goal') hasGoalInRow = true
+
+        const above = level.terrain[y - 1]?.[x]
+        const below = level.terrain[y + 1]?.[x]
+        if (above !== 'wall') hasWallAbove = false
+        if (below !== 'wall') hasWallBelow = false
+      }
+    }
+
+    // If entire row has wall above or below and no goals, mark non-corner cells as dead
+    if ((hasWallAbove || hasWallBelow) && !hasGoalInRow && rowStart !== -1) {
+      const leftEnd = deadSquares.has(`${rowStart},${y}`)
+      const rightEnd = deadSquares.has(`${rowEnd},${y}`)
+
+      if (leftEnd && rightEnd) {
+        for (let x = rowStart; x <= rowEnd; x++) {
+          const cell = level.terrain[y]?.[x]
+          if (cell === 'floor') {
+            deadSquares.add(`${x},${y}`)
+          }
+        }
+      }
+    }
+  }
+
+  // Check vertical lanes along left and right walls
+  for (let x = 1; x < level.width - 1; x++) {
+    let hasWallLeft = true
+    let hasWallRight = true
+    let hasGoalInCol = false
+    let colStart = -1
+    let colEnd = -1
+
+    for (let y = 0; y < level.height; y++) {
+      const cell = level.terrain[y]?.[x]
+      if (cell === 'floor' || cell === 'goal') {
+        if (colStart === -1) colStart = y
+        colEnd = y
+        if (cell === 'goal') hasGoalInCol = true
+
+        const left = level.terrain[y]?.[x - 1]
+        const right = level.terrain[y]?.[x + 1]
+        if (left !== 'wall') hasWallLeft = false
+        if (right !== 'wall') hasWallRight = false
+      }
+    }
+
+    if ((hasWallLeft || hasWallRight) && !hasGoalInCol && colStart !== -1) {
+      const topEnd = deadSquares.has(`${x},${colStart}`)
+      const bottomEnd = deadSquares.has(`${x},${colEnd}`)
+
+      if (topEnd && bottomEnd) {
+        for (let y = colStart; y <= colEnd; y++) {
+          const cell = level.terrain[y]?.[x]
+          if (cell === 'floor') {
+            deadSquares.add(`${x},${y}`)
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check for freeze deadlock: a box that can't move along either axis, off a goal.
+ * A box is blocked along an axis by a wall, by dead squares on both sides, or by a box that is
+ * itself frozen (checked treating the first box as a wall). This covers 2x2 blocks of boxes
+ * and walls as well as longer chains along walls.
+ * Returns true if the current box configuration creates a freeze deadlock.
+ */
+export function isFreezeDeadlock(
+  boxes: Position[],
+  level: SokobanLevel,
+  deadSquares: Set<string> = new Set(),
+): boolean {
+  const boxSet = new Set(boxes.map((b) => `${b.x},${b.y}`))
+
+  for (const box of boxes) {
+    const frozen: Position[] = []
+    if (!isFrozen(box, { level, boxSet, deadSquares, asWalls: new Set(), frozen })) continue
+    if (frozen.some((b) => level.terrain[b.y]?.[b.x] !== 'goal')) return true
+  }
+
+  return false
+}
+
+interface FreezeCheck {
+  level: SokobanLevel
+  boxSet: Set<string>
+  deadSquares: Set<string>
+  /** Boxes assumed immovable while their neighbours are checked */
+  asWalls: Set<string>
+  /** Boxes found frozen so far */
+  frozen: Position[]
+}
+
+function isFrozen(box: Position, check: FreezeCheck): boolean {
+  const key = `${box.x},${box.y}`
+  check.asWalls.add(key)
+  const frozen = isAxisBlocked(box, 1, 0, check) && isAxisBlocked(box, 0, 1, check)
+  if (frozen) {
+    check.frozen.push(box)
+  } else {
+    check.asWalls.delete(key)
+  }
+  return frozen
+}
+
+function isAxisBlocked(box: Position, dx: number, dy: number, check: FreezeCheck): boolean {
+  const sides = [
+    { x: box.x - dx, y: box.y - dy },
+    { x: box.x + dx, y: box.y + dy },
+  ]
+  const keys = sides.map((s) => `${s.x},${s.y}`)
+
+  if (sides.some((s, i) => !isOpen(s, check.level) || check.asWalls.has(keys[i]))) return true
+  if (keys.every((k) => check.deadSquares.has(k))) return true
+  return sides.some((s, i) => check.boxSet.has(keys[i]) && isFrozen(s, check))
+}
+
+// ============================================================================
+// DEADLOCK TABLES
+// ============================================================================
+
+// Node limit for each box-subset search; hitting it counts as "not a deadlock"
+const SUBSET_NODE_LIMIT = 2000
+
+/** Area the player can't reach, with the boxes around it */
+interface Corral {
+  squares: Set<string>
+  /** Indices of the boxes next to the corral */
+  boxes: number[]
+}
+
+/**
+ * Find a PI-corral: a corral whose boxes can only be pushed into it (I), with every such push
+ * possible from where the player is now (P), and which isn't already solved. Some push of its
+ * boxes must come first in any solution, so the other boxes can wait.
+ * Returns the one with the fewest boxes, or null.
+ */
+function findPICorral(
+  context: SolverContext,
+  boxes: Position[],
+  reachable: Set<string>,
+): Corral | null {
+  const { level, goalKeys, deadSquares } = context
+  const boxIndex = new Map(boxes.map((b, i) => [`${b.x},${b.y}`, i]))
+  const seen = new Set<string>()
+  let best: Corral | null = null
+
+  for (const box of boxes) {
+    for (const { dx, dy } of PUSH_DIRECTIONS) {
+      const start = { x: box.x + dx, y: box.y + dy }
+      const startKey = `${start.x},${start.y}`
+      if (seen.has(startKey) || reachable.has(startKey) || boxIndex.has(startKey)) continue
+      if (!isOpen(start, level)) continue
+
+      const squares = floodFill(level, start, new Set([...reachable, ...boxIndex.keys()]))
+      for (const key of squares) seen.add(key)
+
+      const corralBoxes = boxes
+        .map((_, i) => i)
+        .filter((i) =>
+          PUSH_DIRECTIONS.some(({ dx, dy }) =>
+            squares.has(`${boxes[i].x + dx},${boxes[i].y + dy}`),
+          ),
+        )
+      if (best && corralBoxes.length >= best.boxes.length) continue
+
+      // Every push of a corral box that could ever be made without first pushing another
+      // corral box or entering the corral must go into it (I) and be possible now (P)
+      const corralKeys = new Set(corralBoxes.map((i) => `${boxes[i].x},${boxes[i].y}`))
+      let pushesNow = 0
+      const isPI = corralBoxes.every((i) =>
+        PUSH_DIRECTIONS.every(({ dx, dy }) => {
+          const from = { x: boxes[i].x - dx, y: boxes[i].y - dy }
+          const to = { x: boxes[i].x + dx, y: boxes[i].y + dy }
+          const fromKey = `${from.x},${from.y}`
+          const toKey = `${to.x},${to.y}`
+          if (!isOpen(from, level) || !isOpen(to, level)) return true
+          if (corralKeys.has(fromKey) || corralKeys.has(toKey) || squares.has(fromKey)) return true
+          if (deadSquares.has(toKey)) return true
+          pushesNow++
+          return squares.has(toKey) && reachable.has(fromKey)
+        }),
+      )
+      if (!isPI || pushesNow === 0) continue
+
+      const solved =
+        corralBoxes.every((i) => goalKeys.has(`${boxes[i].x},${boxes[i].y}`)) &&
+        ![...squares].some((key) => goalKeys.has(key))
+      if (solved) continue
+
+      best = { squares, boxes: corralBoxes }
+    }
+  }
+
+  return best
+}
+
+/**
+ * A corral is deadlocked if, with every other box removed, its boxes can neither all reach
+ * goals nor be pushed far enough for the player to get inside.
+ */
+function isCorralDeadlock(
+  context: SolverContext,
+  boxes: Position[],
+  playerPos: Position,
+  corral: Corral,
+): boolean {
+  const corralBoxes = corral.boxes.map((i) => boxes[i])
+  return isSubsetDeadlocked(
+    context,
+    'corral',
+    corralBoxes,
+    playerPos,
+    (subset, reachable) =>
+      subset.every((b) => context.goalKeys.has(`${b.x},${b.y}`)) ||
+      [...corral.squares].some((key) => reachable.has(key)),
+  )
+}
+
+/**
+ * Look up the pushed box and each box next to it in the two-box deadlock table: a pair that
+ * can't reach two goals or be pushed apart on its own can't in the full position either.
+ * Apart means not even diagonally touching; pairs that separate are left to the other checks.
+ */
+function isPairDeadlock(
+  context: SolverContext,
+  boxes: Position[],
+  boxIndex: number,
+  playerPos: Position,
+): boolean {
+  const box = boxes[boxIndex]
+  const onGoal = (b: Position) => context.goalKeys.has(`${b.x},${b.y}`)
+
+  for (const { dx, dy } of PUSH_DIRECTIONS) {
+    const neighbour = boxes.find((b) => b.x === box.x + dx && b.y === box.y + dy)
+    if (!neighbour || (onGoal(box) && onGoal(neighbour))) continue
+    if (
+      isSubsetDeadlocked(
+        context,
+        'pair',
+        [box, neighbour],
+        playerPos,
+        ([a, b]) =>
+          (onGoal(a) && onGoal(b)) || Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y)) > 1,
+      )
+    ) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Bounded push search on a few boxes, alone on the board. True only if the search runs out
+ * of positions without reaching a resolved one. Verdicts are kept in the context's table,
+ * keyed by the boxes and the player's area.
+ */
+function isSubsetDeadlocked(
+  context: SolverContext,
+  kind: string,
+  boxes: Position[],
+  playerPos: Position,
+  isResolved: (boxes: Position[], reachable: Set<string>) => boolean,
+): boolean {
+  const { level, deadSquares } = context
+  const start = getReachableArea(playerPos, boxes, level)
+  const key = `${kind}:${generateStateHash(boxes, start.canonicalPos)}`
+  const known = context.subsetDeadlocks.get(key)
+  if (known !== undefined) return known
+
+  let deadlocked = !isResolved(boxes, start.map)
+  const visited = new Set([key])
+  const queue = [{ boxes, reachable: start.map }]
+
+  for (let head = 0; deadlocked && head < queue.length; head++) {
+    if (head >= SUBSET_NODE_LIMIT) {
+      deadlocked = false
+      break
+    }
+    const curr = queue[head]
+
+    for (let i = 0; deadlocked && i < curr.boxes.length; i++) {
+      const box = curr.boxes[i]
+      for (const { dx, dy } of PUSH_DIRECTIONS) {
+        if (!curr.reachable.has(`${box.x - dx},${box.y - dy}`)) continue
+        const target = { x: box.x + dx, y: box.y + dy }
+        if (!isValidMoveTarget(target, level, curr.boxes)) continue
+        if (deadSquares.has(`${target.x},${target.y}`)) continue
+
+        const newBoxes = [...curr.boxes]
+        newBoxes[i] = target
+        if (isFreezeDeadlock(newBoxes, level, deadSquares)) continue
+
+        const next = getReachableArea(box, newBoxes, level)
+        if (isResolved(newBoxes, next.map)) {
+          deadlocked = false
+          break
+        }
+        const hash = `${kind}:${generateStateHash(newBoxes, next.canonicalPos)}`
+        if (visited.has(hash)) continue
+        visited.add(hash)
+        queue.push({ boxes: newBoxes, reachable: next.map })
+      }
+    }
+  }
+
+  context.subsetDeadlocks.set(key, deadlocked)
+  return deadlocked
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+import { parseDatasetLevels, parseDatasetManifest, sortDatasets } from '../datasets'
+import { levelToAscii } from '../render'
+import type { DatasetManifest } from '../types'
+
+const MANIFEST: DatasetManifest = {
+  id: 'tiny-set',
+  name: 'Tiny set',
+  description: 'Two small levels',
+  format: 'ascii',
+  file: 'tiny-set.txt',
+}
+
+const ASCII_LEVELS = `; 1
+
+#####
+#@$.#
+#####
+
+; 2
+
+######
+#@ $.#
+######
+`
+
+describe('datasets', () => {
+  test('accepts a complete manifest', () => {
+    expect(parseDatasetManifest({ ...MANIFEST, order: 2 })).toEqual({ ...MANIFEST, order: 2 })
+  })
+
+  test('names what is wrong with a manifest', () => {
+    expect(() => parseDatasetManifest([])).toThrow('expected an object')
+    expect(() => parseDatasetManifest({ ...MANIFEST, id: 'Tiny Set' })).toThrow(
+      'id must be lowercase words joined by -',
+    )
+    expect(() => parseDatasetManifest({ ...MANIFEST, description: ' ' })).toThrow(
+      'missing description',
+    )
+    expect(() => parseDatasetManifest({ ...MANIFEST, format: 'sok' })).toThrow(
+      'format must be one of ascii, collection, jsonl, export',
+    )
+    expect(() => parseDatasetManifest({ ...MANIFEST, file: '../secret.txt' })).toThrow(
+      'file must be inside the datasets directory',
+    )
+  })
+
+  test('sorts by order, then by name', () => {
+    const sorted = sortDatasets([
+      { ...MANIFEST, id: 'c', name: 'C' },
+      { ...MANIFEST, id: 'b', name: 'B', order: 2 },
+      { ...MANIFEST, id: 'a', name: 'A' },
+      { ...MANIFEST, id: 'd', name: 'D', order: 1 },
+    ])
+
+    expect(sorted.map((m) => m.id)).toEqual(['d', 'b', 'a', 'c'])
+  })
+
+  test('numbers ascii and JSONL levels with the dataset id', () => {
+    const ascii = parseDatasetLevels({ ...MANIFEST, difficulty: 'generated' }, ASCII_LEVELS)
+    const jsonl = parseDatasetLevels(
+      { ...MANIFEST, format: 'jsonl' },
+      `${JSON.stringify({ puzzle: ['#####', '#@$.#', '#####'], puzzle_id: 'p-7' })}\n`,
+    )
+
+    expect(ascii.map(({ level }) => [level.id, level.puzzleNumber])).toEqual([
+      ['generated-tiny-set-1', 1],
+      ['generated-tiny-set-2', 2],
+    ])
+    expect(levelToAscii(ascii[1].level)).toBe('######|\n#@-$.#|\n######|')
+    expect(jsonl.map(({ level, title }) => [level.id, title])).toEqual([
+      ['classic-tiny-set-1', 'p-7'],
+    ])
+  })
+
+  test('keeps the ids and names of UI exports', () => {
+    const [ascii] = parseDatasetLevels(MANIFEST, ASCII_LEVELS)
+    const exported = parseDatasetLevels(
+      { ...MANIFEST, format: 'export' },
+      JSON.stringify({ version: 1, puzzles: [{ ...ascii.level, id: 'saved-1', name: 'Saved' }] }),
+    )
+
+    expect(exported.map(({ level, title }) => [level.id, title, level.fileSource])).toEqual([
+      ['saved-1', 'Saved', 'tiny-set'],
+    ])
+    expect(() => parseDatasetLevels(MANIFEST, '')).toThrow('No levels found in dataset tiny-set')
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test'
+import { analyzeDifficulty } from '../difficulty'
+import { parseLevel } from '../level-parser'
+
+describe('difficulty analysis', () => {
+  test('measures the solution and the dead squares', async () => {
+    const level = parseLevel(
+      `
+#######
+#@$  .#
+#######
+`,
+      'test',
+    )
+
+    const metrics = await analyzeDifficulty(level)
+
+    expect(metrics.solved).toBe(true)
+    expect(metrics.moves).toBe(3)
+    expect(metrics.pushes).toBe(3)
+    expect(metrics.boxGoalInterference).toBe(0)
+    expect(metrics.boxLineChanges).toBe(0)
+    // Only the dead end the player starts in is dead
+    expect(metrics.deadSquareRatio).toBe(0.2)
+  })
+
+  test('counts interference from the fewest pushes, not the fast solution', async () => {
+    // Microban #30: the fast solver takes 7 pushes where 5 will do, as few as the lower bound
+    const level = parseLevel(
+      `
+####
+#  ###
+# $$ #
+#... #
+# @$ #
+#   ##
+#####
+`,
+      'test',
+    )
+
+    const metrics = await analyzeDifficulty(level)
+
+    expect(metrics.pushes).toBe(7)
+    expect(metrics.boxGoalInterference).toBe(0)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  decodeRunLength,
+  encodeRunLength,
+  exportLevelCollection,
+  parseLevelCollection,
+} from '../level-formats'
+import { levelToAscii } from '../render'
+import type { LevelCollection } from '../types'
+
+const XSB = `Title: Test Set
+Author: Someone
+
+; First
+
+#####
+#@$.#
+#####
+Author: Alice
+
+; Second
+
+######
+#@ $.#
+#.$  #
+######
+Comment:
+Two boxes,
+one row each
+Comment-End:
+`
+
+function getBoards(collection: LevelCollection): string[] {
+  return collection.levels.map(({ level }) => levelToAscii(level))
+}
+
+describe('level collections', () => {
+  test('reads XSB boards, titles and metadata', () => {
+    const collection = parseLevelCollection(XSB, { source: 'test' })
+
+    expect(collection.title).toBe('Test Set')
+    expect(collection.author).toBe('Someone')
+    expect(collection.levels.map((l) => l.title)).toEqual(['First', 'Second'])
+    expect(collection.levels[0].author).toBe('Alice')
+    expect(collection.levels[1].comment).toBe('Two boxes,\none row each')
+    expect(collection.levels[1].level.id).toBe('classic-test-2')
+    expect(collection.levels[1].level.boxStarts).toHaveLength(2)
+  })
+
+  test('round trips through XSB', () => {
+    const collection = parseLevelCollection(XSB)
+    const again = parseLevelCollection(exportLevelCollection(collection, 'xsb'))
+
+    expect(getBoards(again)).toEqual(getBoards(collection))
+    expect(again.title).toBe(collection.title)
+    expect(again.levels.map((l) => [l.title, l.author, l.comment])).toEqual(
+      collection.levels.map((l) => [l.title, l.author, l.comment]),
+    )
+  })
+
+  test('round trips through run-length-encoded XSB', () => {
+    const collection = parseLevelCollection(XSB)
+    const text = exportLevelCollection(collection, 'xsb', { runLength: true })
+
+    expect(text).toContain('5#|#@$.#|5#')
+    expect(getBoards(parseLevelCollection(text))).toEqual(getBoards(collection))
+  })
+
+  test('round trips through SLC', () => {
+    const collection = parseLevelCollection(XSB)
+    const text = exportLevelCollection(collection, 'slc')
+    const again = parseLevelCollection(text)
+
+    expect(text.startsWith('<?xml')).toBe(true)
+    expect(getBoards(again)).toEqual(getBoards(collection))
+    expect(again.title).toBe(collection.title)
+    expect(again.levels.map((l) => [l.title, l.author, l.comment])).toEqual(
+      collection.levels.map((l) => [l.title, l.author, l.comment]),
+    )
+  })
+
+  test('encodes and decodes run lengths', () => {
+    const rows = ['#####', '#@ $.#', '#####']
+
+    expect(encodeRunLength(rows)).toBe('5#|#@-$.#|5#')
+    expect(decodeRunLength('5#|#@-$.#|5#|')).toEqual(['#####', '#@-$.#', '#####'])
+  })
+})
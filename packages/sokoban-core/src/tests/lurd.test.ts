@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test'
+import { parseLevel } from '../level-parser'
+import { lurdToMoves, movesToLurd, parseLurd, validateLurdSolution } from '../lurd'
+
+const LEVEL = parseLevel(
+  `
+######
+#@ $.#
+######
+`,
+  'test',
+)
+
+describe('LURD notation', () => {
+  test('parses walks, pushes, counts and whitespace', () => {
+    expect(parseLurd('r 2U\nl')).toEqual([
+      { direction: 'RIGHT', push: false },
+      { direction: 'UP', push: true },
+      { direction: 'UP', push: true },
+      { direction: 'LEFT', push: false },
+    ])
+    expect(lurdToMoves('3d')).toEqual(['DOWN', 'DOWN', 'DOWN'])
+  })
+
+  test('rejects characters that are not moves', () => {
+    expect(() => parseLurd('rrx')).toThrow('Invalid LURD character "x" at position 3')
+  })
+
+  test('writes pushes uppercase', () => {
+    expect(movesToLurd(LEVEL, ['RIGHT', 'RIGHT'])).toBe('rR')
+  })
+
+  test('accepts a solution that solves the level', () => {
+    expect(validateLurdSolution(LEVEL, 'rR')).toEqual({
+      valid: true,
+      solved: true,
+      moves: 2,
+      pushes: 1,
+      error: null,
+    })
+  })
+
+  test('reports pushes and walks written in the wrong case', () => {
+    expect(validateLurdSolution(LEVEL, 'rr').error).toBe(
+      'Move 2 (RIGHT) pushes a box but is lowercase',
+    )
+    expect(validateLurdSolution(LEVEL, 'R').error).toBe(
+      'Move 1 (RIGHT) is uppercase but pushes no box',
+    )
+  })
+
+  test('reports impossible moves and unfinished solutions', () => {
+    const blocked = validateLurdSolution(LEVEL, 'u')
+    expect(blocked.valid).toBe(false)
+    expect(blocked.error).toStartWith('Move 1 (UP) is not possible')
+
+    expect(validateLurdSolution(LEVEL, 'r')).toMatchObject({
+      valid: true,
+      solved: false,
+      error: 'Solution does not solve the level',
+    })
+    expect(validateLurdSolution(LEVEL, '').error).toBe('Solution is empty')
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import { executeSolution, initializeGame } from '../engine'
+import { parseLevel } from '../level-parser'
+import {
+  type SokobanPromptOptions,
+  generateFeedbackPrompt,
+  generateSokobanPrompt,
+} from '../prompts'
+import type { MoveDirection } from '../types'
+
+const STATE = initializeGame(
+  parseLevel(
+    `
+######
+#@ $.#
+######
+`,
+    'test',
+  ),
+)
+
+const OPTIONS: SokobanPromptOptions = {
+  asciiGrid: true,
+  coordinateLocations: false,
+  coloredBoxRules: false,
+  executionMode: 'fullSolution',
+}
+
+describe('prompts', () => {
+  test('asks for a full solution, with the board and progress', () => {
+    const prompt = generateSokobanPrompt(STATE, OPTIONS)
+
+    expect(prompt).toStartWith('# Sokoban Puzzle\n')
+    expect(prompt).toContain('```\n######|\n#@-$.#|\n######|\n```')
+    expect(prompt).toContain('## Progress: 0/1 boxes on goals')
+    expect(prompt).toContain('"solution":["UP","RIGHT","DOWN","LEFT"]')
+    expect(prompt).not.toContain('## Positions')
+  })
+
+  test('asks for one move in moveByMove mode and for batches with a turn budget', () => {
+    const moveByMove = { ...OPTIONS, executionMode: 'moveByMove' as const }
+
+    expect(generateSokobanPrompt(STATE, moveByMove)).toContain('"move":"UP"')
+    const session = generateSokobanPrompt(STATE, moveByMove, 5)
+    expect(session).toContain('- You have 5 turns.')
+    expect(session).toContain('"moves":["UP","RIGHT","DOWN","LEFT"]')
+  })
+
+  test('explains the colored-box rule and appends special instructions', () => {
+    const prompt = generateSokobanPrompt(STATE, {
+      ...OPTIONS,
+      coloredBoxRules: true,
+      specialInstructions: ' Think first. ',
+      includeSpecialInstructions: true,
+    })
+
+    expect(prompt).toStartWith('# Colored Sokoban Puzzle (Special Variant)')
+    expect(prompt).toContain('- O = Orange box, o = Orange box on goal')
+    expect(prompt).toEndWith('## Special Instructions\nThink first.')
+  })
+
+  test('reports a rejected move with the new board', () => {
+    const moves: MoveDirection[] = ['RIGHT', 'UP']
+    const execution = executeSolution(STATE.level, moves)
+    const prompt = generateFeedbackPrompt(execution.finalState, moves, execution, null, 3, OPTIONS)
+
+    expect(prompt).toStartWith('Executed 1 of 2 moves. Move 2 (UP) was rejected: ')
+    expect(prompt).toContain('#-@$.#|')
+    expect(prompt).not.toContain('Legend:')
+    expect(prompt).toContain('Turns remaining: 3')
+  })
+})
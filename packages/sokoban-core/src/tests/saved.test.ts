@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test'
+import { getCurrentRuns, savedLayoutToLevel } from '../saved'
+import type { SavedLayout, SavedRunRef } from '../types'
+
+function getIds(runs: SavedRunRef[]): string[] {
+  return runs.map((run) => `${run.id}:${run.models.join(',')}`)
+}
+
+describe('saved runs and layouts', () => {
+  test('drops merged runs that were re-scored', () => {
+    const runs: SavedRunRef[] = [
+      { id: 'a', models: ['m1', 'm2'] },
+      { id: 'b', models: ['m1', 'm2'], rescoredFrom: { runId: 'a', rescoredAt: 1 } },
+      { id: 'c', models: ['m1'] },
+    ]
+
+    expect(getIds(getCurrentRuns(runs))).toEqual(['b:m1,m2', 'c:m1'])
+  })
+
+  test('drops only the per-model files that were re-scored', () => {
+    const runs: SavedRunRef[] = [
+      { id: 'a', models: ['m1'] },
+      { id: 'a', models: ['m2'] },
+      { id: 'b', models: ['m1'], rescoredFrom: { runId: 'a', rescoredAt: 1 } },
+    ]
+
+    expect(getIds(getCurrentRuns(runs))).toEqual(['a:m2', 'b:m1'])
+  })
+
+  test('keeps only the newest re-scored copy of a run', () => {
+    const runs: SavedRunRef[] = [
+      { id: 'a', models: ['m1'] },
+      { id: 'b', models: ['m1'], rescoredFrom: { runId: 'a', rescoredAt: 1 } },
+      { id: 'c', models: ['m1'], rescoredFrom: { runId: 'a', rescoredAt: 2 } },
+    ]
+
+    expect(getIds(getCurrentRuns(runs))).toEqual(['c:m1'])
+    expect(getIds(getCurrentRuns([runs[2], runs[1], runs[0]]))).toEqual(['c:m1'])
+  })
+
+  test('colors the boxes of layouts saved without colors', () => {
+    const layout = {
+      id: 'old',
+      name: 'Old layout',
+      savedAt: 0,
+      order: 3,
+      difficulty: 'classic',
+      width: 3,
+      height: 1,
+      terrain: [['floor', 'floor', 'goal']],
+      playerStart: { x: 0, y: 0 },
+      boxStarts: [{ x: 1, y: 0 }],
+      goals: [{ x: 2, y: 0 }],
+    } as SavedLayout
+
+    const level = savedLayoutToLevel(layout)
+
+    expect(level.boxStarts).toEqual([{ x: 1, y: 0, color: 'orange' }])
+    expect(level.puzzleNumber).toBe(3)
+    expect(level.fileSource).toBe('saved')
+  })
+})
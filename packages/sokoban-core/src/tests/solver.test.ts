@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'bun:test'
-import type { Box, CellTerrain, SokobanLevel } from '../../types'
-import { solvePuzzle } from '../sokobanSolver'
+import { computeDeadSquares, isFreezeDeadlock, solvePuzzle } from '../solver'
+import type { Box, CellTerrain, SokobanLevel } from '../types'
 
 /**
  * Helper to create a level from ASCII art.
@@ -81,7 +81,7 @@ function createLevelFromAscii(ascii: string, id = 'test'): SokobanLevel {
   }
 }
 
-describe('sokobanSolver', () => {
+describe('solver', () => {
   test('solves trivial 1-push puzzle', () => {
     // @$. = player pushes box one step right onto goal
     const level = createLevelFromAscii(`
@@ -173,10 +173,29 @@ describe('sokobanSolver', () => {
 `)
 
     // With very low node limit, should fail to find solution
-    const result = solvePuzzle(level, 10)
+    const result = solvePuzzle(level, 5)
 
     expect(result.solvable).toBe(false)
-    expect(result.nodesExplored).toBeLessThanOrEqual(10)
+    expect(result.nodesExplored).toBeLessThanOrEqual(5)
+  })
+
+  test('reports progress while searching', () => {
+    const level = createLevelFromAscii(`
+############
+#          #
+# $  $  $  #
+#          #
+#  $  @    #
+#          #
+#.. ..     #
+############
+`)
+
+    const progress: number[] = []
+    const result = solvePuzzle(level, 2500, 'move-optimal', (nodes) => progress.push(nodes))
+
+    expect(result.hitLimit).toBe(true)
+    expect(progress).toEqual([1000, 2000])
   })
 
   test('finds optimal solution for multi-step puzzle', () => {
@@ -216,3 +235,127 @@ describe('sokobanSolver', () => {
     expect(result.solution).not.toBeNull()
   })
 })
+
+describe('solver optimal modes', () => {
+  // The box can't be pushed straight down: the fewest pushes take a longer walk
+  const tradeoffLevel = `
+#######
+# #   #
+# $  @#
+# .   #
+###   #
+#######
+`
+
+  test('move-optimal mode finds the fewest moves', () => {
+    const result = solvePuzzle(createLevelFromAscii(tradeoffLevel), 150000, 'move-optimal')
+
+    expect(result.solvable).toBe(true)
+    expect(result.moveCount).toBe(15)
+    expect(result.pushCount).toBe(5)
+    expect(result.optimizedMetric).toBe('moves')
+    expect(result.optimal).toBe(true)
+  })
+
+  test('push-optimal mode finds the fewest pushes', () => {
+    const result = solvePuzzle(createLevelFromAscii(tradeoffLevel), 150000, 'push-optimal')
+
+    expect(result.solvable).toBe(true)
+    expect(result.pushCount).toBe(3)
+    expect(result.optimizedMetric).toBe('pushes')
+    expect(result.optimal).toBe(true)
+  })
+
+  test('fast mode does not claim optimality', () => {
+    const result = solvePuzzle(createLevelFromAscii(tradeoffLevel))
+
+    expect(result.solvable).toBe(true)
+    expect(result.mode).toBe('fast')
+    expect(result.optimizedMetric).toBeNull()
+    expect(result.optimal).toBe(false)
+  })
+
+  test('reports the node limit instead of optimality', () => {
+    const level = createLevelFromAscii(`
+########
+#      #
+# $$.  #
+#  @.  #
+#      #
+########
+`)
+
+    const result = solvePuzzle(level, 2, 'move-optimal')
+
+    expect(result.solvable).toBe(false)
+    expect(result.hitLimit).toBe(true)
+    expect(result.optimal).toBe(false)
+  })
+
+  test('proves a puzzle unsolvable without hitting the limit', () => {
+    const level = createLevelFromAscii(`
+#####
+#$  #
+#  .#
+#@  #
+#####
+`)
+
+    const result = solvePuzzle(level, 150000, 'push-optimal')
+
+    expect(result.solvable).toBe(false)
+    expect(result.hitLimit).toBe(false)
+  })
+})
+
+describe('solver deadlocks', () => {
+  test('detects two boxes frozen against a wall', () => {
+    const level = createLevelFromAscii(`
+#######
+#     #
+# $$  #
+#  @..#
+#######
+`)
+    const boxes = [
+      { x: 2, y: 1 },
+      { x: 3, y: 1 },
+    ]
+
+    expect(isFreezeDeadlock(boxes, level, computeDeadSquares(level))).toBe(true)
+  })
+
+  test('lets the pair table resolve boxes that are pushed apart', () => {
+    // Each pair starts side by side and has to be split to reach the goals
+    const level = createLevelFromAscii(`
+#########
+#       #
+# $$ $$ #
+#   @   #
+#.. ..  #
+#########
+`)
+
+    const result = solvePuzzle(level, 150000, 'move-optimal')
+
+    expect(result.solvable).toBe(true)
+    expect(result.moveCount).toBe(27)
+    expect(result.optimal).toBe(true)
+  })
+
+  test('does not flag frozen boxes that are all on goals', () => {
+    const level = createLevelFromAscii(`
+######
+#..  #
+#$$  #
+#  @ #
+######
+`)
+    const boxes = [
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ]
+
+    expect(isFreezeDeadlock(boxes, level, computeDeadSquares(level))).toBe(false)
+  })
+})
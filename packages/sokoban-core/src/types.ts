@@ -0,0 +1,209 @@
+// Core position type
+export interface Position {
+  x: number // column (0-indexed)
+  y: number // row (0-indexed)
+}
+
+// Box colors for visual distinction
+export type BoxColor = 'orange' | 'purple' | 'emerald' | 'sky'
+
+// Box with position and color
+export interface Box {
+  x: number
+  y: number
+  color: BoxColor
+}
+
+// What's in a cell (static terrain)
+export type CellTerrain = 'floor' | 'wall' | 'goal'
+
+export type Difficulty =
+  | 'lmiq-reasoning-easy'
+  | 'classic'
+  | 'classic-hard'
+  | 'microban'
+  | 'generated'
+
+// Parsed level from boxoban format
+export interface SokobanLevel {
+  id: string
+  width: number
+  height: number
+  terrain: CellTerrain[][] // [row][col] - static terrain only
+  playerStart: Position
+  boxStarts: Box[]
+  goals: Position[]
+  difficulty: Difficulty
+  fileSource: string
+  puzzleNumber: number
+  optimalMoves?: number // Minimum moves to solve (from solver)
+  generationIterations?: number // Number of attempts to generate this puzzle
+  usedFallback?: boolean // True if generator fell back to simple puzzle
+  difficultyMetrics?: DifficultyMetrics // Solver-measured difficulty, once analyzed
+}
+
+// How hard a level is, measured on a bounded solver run from its starting position
+export interface DifficultyMetrics {
+  solved: boolean // The solver found a solution within its node limit
+  moves: number | null // Length of the solver's solution (null when unsolved)
+  pushes: number | null
+  nodesExplored: number
+  // Fewest pushes beyond the lower bound of boxes moving alone. Taken from the fast solution
+  // (an upper estimate) when the push-optimal run hits its node limit
+  boxGoalInterference: number | null
+  boxLineChanges: number | null // Times the solution turns a box or switches to another box
+  deadSquareRatio: number // Share of the floor where a box could never reach a goal
+}
+
+// A layout saved in the game UI, as written to puzzle exports
+export interface SavedLayout {
+  id: string
+  name: string
+  savedAt: number
+  order?: number
+  difficulty: Difficulty
+  width: number
+  height: number
+  terrain: CellTerrain[][]
+  playerStart: Position
+  boxStarts: Box[]
+  goals: Position[]
+  difficultyMetrics?: DifficultyMetrics // Measured from this layout's start, when analyzed
+}
+
+// Coarse difficulty grade derived from DifficultyMetrics
+export type DifficultyBucket = 'easy' | 'medium' | 'hard' | 'expert' | 'unsolved'
+
+// The parts of a level needed to draw a board
+export type BoardLayout = Pick<SokobanLevel, 'width' | 'height' | 'terrain'>
+
+// Movement
+export type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
+
+export interface MoveRecord {
+  id: string
+  direction: MoveDirection
+  wasPush: boolean
+  previousPlayerPos: Position
+  previousBox?: Box // only if was a push
+  source: 'human' | 'ai'
+  timestamp: number
+}
+
+// Current game state (mutable during play)
+export interface GameState {
+  level: SokobanLevel
+  playerPos: Position
+  boxes: Box[]
+  moveHistory: MoveRecord[]
+  isWon: boolean
+  moveCount: number
+  pushCount: number
+  startTime: number | null
+  endTime: number | null
+}
+
+// Move validation result
+export interface MoveValidationResult {
+  valid: boolean
+  isPush: boolean
+  newPlayerPos: Position
+  newBox?: Box
+  pushedBoxIndex?: number
+  error?: string
+}
+
+// Result of executing a sequence of moves
+export interface ExecutionResult {
+  solved: boolean
+  stepsExecuted: number
+  invalidMoveIndex: number | null
+  invalidMoveReason: string | null
+  error: string | null
+  finalState: GameState
+}
+
+// How the AI plays: one full solution, or moves in batches with board feedback
+export type ExecutionMode = 'fullSolution' | 'moveByMove'
+
+// AI prompt options
+export interface PromptOptions {
+  asciiGrid: boolean
+  coordinateFormat: boolean
+  includeNotationGuide: boolean
+  executionMode: ExecutionMode
+  coordinateLocations: boolean
+  coloredBoxRules: boolean
+  specialInstructions?: string
+  includeSpecialInstructions?: boolean
+}
+
+// Moves extracted from an AI response
+export interface ParsedAIResponse {
+  moves: MoveDirection[]
+  reasoning?: string
+  error?: string
+}
+
+// Level file formats: XSB covers .xsb, .sok and plain .txt collections
+export type LevelFileFormat = 'xsb' | 'slc'
+
+// A level read from (or written to) a collection file, with its metadata
+export interface CollectionLevel {
+  level: SokobanLevel
+  title?: string
+  author?: string
+  comment?: string
+}
+
+// A published level collection
+export interface LevelCollection {
+  title?: string
+  author?: string
+  description?: string
+  levels: CollectionLevel[]
+}
+
+// How a dataset's level file is written:
+// - ascii: boards separated by "; N" lines (the built-in sets and generate-sokoban.ts)
+// - collection: a published XSB or SLC collection
+// - jsonl: one puzzle per line, as written by generate-sokoban.ts
+// - export: puzzles exported from the game UI
+export type DatasetFormat = 'ascii' | 'collection' | 'jsonl' | 'export'
+
+// A dataset registered by a manifest file next to its level file
+export interface DatasetManifest {
+  id: string // Also used in puzzle ids, so keep it stable
+  name: string
+  description: string
+  format: DatasetFormat
+  file: string // Level file, relative to the manifest directory
+  difficulty?: Difficulty // Given to every level (default: 'classic')
+  url?: string // Where the levels come from
+  order?: number // Position in dataset lists (lowest first, then by name)
+}
+
+// A move in LURD notation: lowercase walks, uppercase pushes
+export interface LurdMove {
+  direction: MoveDirection
+  push: boolean
+}
+
+// Result of checking a LURD solution against a level
+export interface LurdValidationResult {
+  valid: boolean // Every move is possible and written with the right case
+  solved: boolean
+  moves: number
+  pushes: number
+  error: string | null
+}
+
+// The parts of a saved eval run needed to tell a re-scored copy from its original
+export interface SavedRunRef {
+  id: string
+  models: string[]
+  rescoredFrom?: {
+    runId: string // Run whose responses were re-scored
+    rescoredAt: number
+  }
+}
@@ -17,6 +17,32 @@ export {
   type OpenRouterChatParams,
   type OpenRouterChatResponse,
 } from './openrouter-client'
+export {
+  LLMProviderConfigError,
+  LLM_PROVIDERS,
+  DEFAULT_LLM_PROVIDER_ID,
+  OPENROUTER_BASE_URL,
+  registerLLMProvider,
+  getLLMProvider,
+  resolveLLMModel,
+  getLLMProviderBaseURL,
+  getLLMProviderApiKey,
+  hasLLMApiKey,
+  createLLMClient,
+  listLLMProviderModels,
+  getLLMModelName,
+  type LLMProvider,
+  type LLMModelInfo,
+} from './llm-providers'
+export {
+  MOCK_BEHAVIORS,
+  MOCK_LLM_PROVIDER,
+  setMockReplies,
+  parseMockBoard,
+  solveMockBoard,
+  generateMockReply,
+  type MockBehavior,
+} from './mock-llm'
 export { formatNumber, formatDuration, formatCost } from './format'
 export {
   EVAL_OUTPUT_FORMAT_INSTRUCTIONS,
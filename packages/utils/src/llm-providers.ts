@@ -0,0 +1,215 @@
+/// <reference types="bun-types" />
+import OpenAI, { type ClientOptions } from 'openai'
+import { MOCK_LLM_PROVIDER } from './mock-llm'
+import { OPENROUTER_MODELS } from './openrouter-models'
+
+/**
+ * Provider layer for OpenAI-compatible chat endpoints.
+ *
+ * Model ids are routed by prefix: `ollama:qwen2.5:7b` goes to the Ollama provider,
+ * `vllm:my-checkpoint` to vLLM, and so on. Ids without a known provider prefix
+ * (e.g. `openai/gpt-5.2`) go to OpenRouter, so existing ids keep working.
+ */
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1'
+
+export class LLMProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LLMProviderConfigError'
+  }
+}
+
+/** Model entry in a provider catalog */
+export interface LLMModelInfo {
+  id: string
+  name: string
+}
+
+export interface LLMProvider {
+  id: string
+  name: string
+  /** Default base URL of the OpenAI-compatible API */
+  baseURL: string
+  /** Env var that overrides the base URL */
+  baseURLEnvVar?: string
+  /** Env vars checked for the API key, in order */
+  apiKeyEnvVars: string[]
+  /** Local servers usually accept any key, so only hosted providers require one */
+  requiresApiKey: boolean
+  /** Static model catalog. Empty for servers whose models are listed at runtime */
+  models: LLMModelInfo[]
+  /** Extra OpenAI client options, e.g. a custom fetch for in-process providers */
+  clientOptions?: Partial<ClientOptions>
+}
+
+export const DEFAULT_LLM_PROVIDER_ID = 'openrouter'
+
+export const LLM_PROVIDERS: LLMProvider[] = [
+  {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    baseURL: OPENROUTER_BASE_URL,
+    apiKeyEnvVars: ['OPENROUTER_API_KEY'],
+    requiresApiKey: true,
+    models: OPENROUTER_MODELS,
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    baseURL: 'https://api.openai.com/v1',
+    apiKeyEnvVars: ['OPENAI_API_KEY'],
+    requiresApiKey: true,
+    models: [],
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    baseURL: 'http://localhost:11434/v1',
+    baseURLEnvVar: 'OLLAMA_BASE_URL',
+    apiKeyEnvVars: ['OLLAMA_API_KEY'],
+    requiresApiKey: false,
+    models: [],
+  },
+  {
+    id: 'vllm',
+    name: 'vLLM',
+    baseURL: 'http://localhost:8000/v1',
+    baseURLEnvVar: 'VLLM_BASE_URL',
+    apiKeyEnvVars: ['VLLM_API_KEY'],
+    requiresApiKey: false,
+    models: [],
+  },
+  {
+    id: 'llamacpp',
+    name: 'llama.cpp server',
+    baseURL: 'http://localhost:8080/v1',
+    baseURLEnvVar: 'LLAMACPP_BASE_URL',
+    apiKeyEnvVars: ['LLAMACPP_API_KEY'],
+    requiresApiKey: false,
+    models: [],
+  },
+  MOCK_LLM_PROVIDER,
+]
+
+/**
+ * Read an env var in Bun, falling back to its VITE_-prefixed variant in the browser.
+ */
+function readEnv(name: string): string | undefined {
+  const value = typeof Bun !== 'undefined' ? Bun.env[name] : undefined
+  return value || (import.meta.env?.[`VITE_${name}`] as string | undefined) || undefined
+}
+
+/**
+ * Register a provider, replacing any existing provider with the same id.
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  const index = LLM_PROVIDERS.findIndex((p) => p.id === provider.id)
+  if (index === -1) {
+    LLM_PROVIDERS.push(provider)
+  } else {
+    LLM_PROVIDERS[index] = provider
+  }
+}
+
+export function getLLMProvider(providerId: string): LLMProvider | undefined {
+  return LLM_PROVIDERS.find((p) => p.id === providerId)
+}
+
+/**
+ * Split a model id into its provider and the model name the provider expects.
+ */
+export function resolveLLMModel(modelId: string): { provider: LLMProvider; model: string } {
+  const separator = modelId.indexOf(':')
+  if (separator > 0) {
+    const provider = getLLMProvider(modelId.slice(0, separator))
+    if (provider) {
+      return { provider, model: modelId.slice(separator + 1) }
+    }
+  }
+
+  const provider = getLLMProvider(DEFAULT_LLM_PROVIDER_ID)
+  if (!provider) {
+    throw new LLMProviderConfigError(`Default provider "${DEFAULT_LLM_PROVIDER_ID}" is missing`)
+  }
+  return { provider, model: modelId }
+}
+
+export function getLLMProviderBaseURL(provider: LLMProvider): string {
+  return (provider.baseURLEnvVar && readEnv(provider.baseURLEnvVar)) || provider.baseURL
+}
+
+export function getLLMProviderApiKey(provider: LLMProvider): string | undefined {
+  for (const name of provider.apiKeyEnvVars) {
+    const value = readEnv(name)
+    if (value) return value
+  }
+  return undefined
+}
+
+/**
+ * Whether a model can be called: its provider needs no key or has one configured.
+ */
+export function hasLLMApiKey(modelId: string): boolean {
+  const { provider } = resolveLLMModel(modelId)
+  return !provider.requiresApiKey || getLLMProviderApiKey(provider) !== undefined
+}
+
+/**
+ * Create a client for the provider that serves a model id.
+ * Returns the model name to send in requests (without the provider prefix).
+ */
+export function createLLMClient(
+  modelId: string,
+  apiKey?: string,
+): { client: OpenAI; model: string; provider: LLMProvider } {
+  const { provider, model } = resolveLLMModel(modelId)
+  const key = apiKey ?? getLLMProviderApiKey(provider)
+
+  if (!key && provider.requiresApiKey) {
+    throw new LLMProviderConfigError(
+      `${provider.name} API key not found. Set ${provider.apiKeyEnvVars.join(' or ')}.`,
+    )
+  }
+
+  const client = new OpenAI({
+    // The SDK requires a key even for local servers that ignore it
+    apiKey: key ?? 'not-needed',
+    baseURL: getLLMProviderBaseURL(provider),
+    dangerouslyAllowBrowser: true,
+    ...provider.clientOptions,
+  })
+
+  return { client, model, provider }
+}
+
+/**
+ * List the models a provider serves, as prefixed model ids.
+ * Uses the static catalog when there is one, otherwise asks the server.
+ */
+export async function listLLMProviderModels(providerId: string): Promise<LLMModelInfo[]> {
+  const provider = getLLMProvider(providerId)
+  if (!provider) {
+    throw new LLMProviderConfigError(`Unknown provider: ${providerId}`)
+  }
+
+  if (provider.models.length > 0) {
+    return provider.id === DEFAULT_LLM_PROVIDER_ID
+      ? provider.models
+      : provider.models.map((m) => ({ ...m, id: `${provider.id}:${m.id}` }))
+  }
+
+  const { client } = createLLMClient(`${provider.id}:`)
+  const response = await client.models.list()
+  return response.data.map((m) => ({ id: `${provider.id}:${m.id}`, name: m.id }))
+}
+
+/**
+ * Get a display name for a model id from its provider catalog.
+ */
+export function getLLMModelName(modelId: string): string {
+  const { provider, model } = resolveLLMModel(modelId)
+  const entry = provider.models.find((m) => m.id === model)
+  if (entry) return entry.name
+  return provider.id === DEFAULT_LLM_PROVIDER_ID ? modelId : `${model} (${provider.name})`
+}
@@ -0,0 +1,257 @@
+/// <reference types="bun-types" />
+import {
+  BOX_COLOR_SYMBOLS,
+  type Box,
+  type BoxColor,
+  type CellTerrain,
+  type Position,
+  type SokobanLevel,
+  solvePuzzle,
+} from '@sokoban-eval-toolkit/sokoban-core'
+import type { LLMProvider } from './llm-providers'
+import type { MoveDirection } from './prompt-constants'
+
+/**
+ * Deterministic fake LLM for running the harness offline.
+ *
+ * Selected like any other model id, e.g. `mock:optimal`. Requests never leave the
+ * process: the mock reads the Sokoban board from the last prompt and answers
+ * according to its behavior.
+ *
+ * - `mock:optimal`   solves the board with the core solver and returns a move-optimal solution
+ * - `mock:corrupt`   returns the optimal solution with one move reversed
+ * - `mock:malformed` returns truncated JSON with no moves in it
+ * - `mock:timeout`   waits MOCK_LLM_TIMEOUT_MS (default 100) and fails like a timed-out request
+ * - `mock:replay`    answers turn N of each conversation with recorded reply N, from
+ *                    `setMockReplies` or the JSON array of strings in the file named by
+ *                    MOCK_LLM_REPLIES, so replies don't depend on request order
+ */
+
+export type MockBehavior = 'optimal' | 'corrupt' | 'malformed' | 'timeout' | 'replay'
+
+export const MOCK_BEHAVIORS: MockBehavior[] = [
+  'optimal',
+  'corrupt',
+  'malformed',
+  'timeout',
+  'replay',
+]
+
+const DEFAULT_TIMEOUT_MS = 100
+const SOLVER_NODE_LIMIT = 150000
+
+// Board rows as they appear in prompts: walls, pieces, floor and optional `|` row markers
+const BOARD_ROW_PATTERN = /^[#@+$*.\-_ OPESopes]+\|?$/
+
+const OPPOSITE_MOVES: Record<MoveDirection, MoveDirection> = {
+  UP: 'DOWN',
+  DOWN: 'UP',
+  LEFT: 'RIGHT',
+  RIGHT: 'LEFT',
+}
+
+const BOX_COLORS_BY_SYMBOL = new Map(
+  Object.entries(BOX_COLOR_SYMBOLS).map(([color, symbol]) => [symbol, color as BoxColor]),
+)
+
+let recordedReplies: string[] | null = null
+
+/**
+ * Set the replies served by `mock:replay`, one per conversation turn.
+ */
+export function setMockReplies(replies: string[]): void {
+  recordedReplies = replies
+}
+
+/**
+ * Find the last board drawn in a prompt (fenced or not) and parse it.
+ */
+export function parseMockBoard(prompt: string): SokobanLevel | null {
+  const lines = prompt.split('\n').map((line) => line.trimEnd())
+
+  // Collect blocks of consecutive board-like rows, keep the last one with a player
+  let best: string[] | null = null
+  let current: string[] = []
+  for (const line of [...lines, '']) {
+    if (line.includes('#') && BOARD_ROW_PATTERN.test(line)) {
+      current.push(line.replace(/\|$/, ''))
+      continue
+    }
+    if (current.length >= 3 && current.some((row) => /[@+]/.test(row))) {
+      best = current
+    }
+    current = []
+  }
+  if (!best) return null
+
+  const width = Math.max(...best.map((row) => row.length))
+  const terrain: CellTerrain[][] = []
+  const boxStarts: Box[] = []
+  const goals: Position[] = []
+  let playerStart: Position | null = null
+
+  for (const [y, row] of best.entries()) {
+    const cells: CellTerrain[] = []
+    for (let x = 0; x < width; x++) {
+      const char = row[x] ?? ' '
+      const onGoal = '.+*opes'.includes(char)
+      cells.push(char === '#' ? 'wall' : onGoal ? 'goal' : 'floor')
+      if (onGoal) goals.push({ x, y })
+      if (char === '@' || char === '+') playerStart = { x, y }
+      if (char === '$' || char === '*') boxStarts.push({ x, y, color: 'orange' })
+      const color = BOX_COLORS_BY_SYMBOL.get(char.toUpperCase())
+      if (color) boxStarts.push({ x, y, color })
+    }
+    terrain.push(cells)
+  }
+  if (!playerStart) return null
+
+  return {
+    id: 'mock',
+    width,
+    height: best.length,
+    terrain,
+    playerStart,
+    boxStarts,
+    goals,
+    difficulty: 'classic',
+    fileSource: 'mock',
+    puzzleNumber: 0,
+  }
+}
+
+/**
+ * Solve a board with the core solver. Returns a move-optimal solution when the search fits in
+ * the node limit, else any solution, or null.
+ * Like the core solver it treats colored boxes as plain ones.
+ */
+export function solveMockBoard(level: SokobanLevel): MoveDirection[] | null {
+  let result = solvePuzzle(level, SOLVER_NODE_LIMIT, 'move-optimal')
+  if (result.hitLimit) {
+    result = solvePuzzle(level, SOLVER_NODE_LIMIT, 'fast')
+  }
+  return result.solvable ? result.solution : null
+}
+
+/**
+ * Produce the reply text for a prompt according to a mock behavior.
+ * `turn` counts the replies already given in the conversation.
+ */
+export async function generateMockReply(
+  behavior: MockBehavior,
+  prompt: string,
+  turn = 0,
+): Promise<string> {
+  switch (behavior) {
+    case 'malformed':
+      return '{"reasoning": "Thinking about this puzzle, the first box should go'
+
+    case 'timeout': {
+      const delayMs = Number(readMockEnv('MOCK_LLM_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS)
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+      // The OpenAI client reports AbortErrors as request timeouts
+      throw new DOMException(`Mock request timed out after ${delayMs}ms`, 'AbortError')
+    }
+
+    case 'replay': {
+      const replies = recordedReplies ?? (await loadRepliesFile())
+      if (replies.length === 0) {
+        throw new Error('No recorded replies. Call setMockReplies or set MOCK_LLM_REPLIES')
+      }
+      return replies[turn % replies.length]
+    }
+
+    case 'optimal':
+    case 'corrupt': {
+      const board = parseMockBoard(prompt)
+      const solution = board ? solveMockBoard(board) : null
+      if (!solution) {
+        return JSON.stringify({ reasoning: 'Mock solver found no solution.', solution: [] })
+      }
+      if (behavior === 'corrupt' && solution.length > 0) {
+        const index = Math.floor(solution.length / 2)
+        solution[index] = OPPOSITE_MOVES[solution[index]]
+      }
+      return JSON.stringify({
+        reasoning: `Mock ${behavior} solution with ${solution.length} moves.`,
+        solution,
+      })
+    }
+  }
+}
+
+function readMockEnv(name: string): string | undefined {
+  return typeof Bun !== 'undefined' ? Bun.env[name] : undefined
+}
+
+/**
+ * Load recorded replies from the MOCK_LLM_REPLIES file (JSON array of strings).
+ */
+async function loadRepliesFile(): Promise<string[]> {
+  const path = readMockEnv('MOCK_LLM_REPLIES')
+  if (!path) return []
+  recordedReplies = JSON.parse(await Bun.file(path).text()) as string[]
+  return recordedReplies
+}
+
+/**
+ * Fetch implementation that answers OpenAI chat completion requests locally.
+ */
+async function mockFetch(url: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const path = String(url)
+
+  if (path.endsWith('/models')) {
+    const data = MOCK_BEHAVIORS.map((id) => ({ id, object: 'model', owned_by: 'mock' }))
+    return Response.json({ object: 'list', data })
+  }
+
+  const body = JSON.parse(String(init?.body ?? '{}')) as {
+    model?: string
+    messages?: { role: string; content: string }[]
+  }
+  const behavior = (body.model ?? '') as MockBehavior
+  if (!MOCK_BEHAVIORS.includes(behavior)) {
+    return Response.json(
+      {
+        error: { message: `Unknown mock model "${body.model}". Use ${MOCK_BEHAVIORS.join(', ')}` },
+      },
+      { status: 404 },
+    )
+  }
+
+  const prompt = body.messages?.filter((m) => m.role === 'user').pop()?.content ?? ''
+  const turn = body.messages?.filter((m) => m.role === 'assistant').length ?? 0
+  const content = await generateMockReply(behavior, prompt, turn)
+
+  // Rough token counts so metrics are non-zero; the mock is free
+  const promptTokens = Math.ceil(
+    (body.messages ?? []).reduce((sum, m) => sum + m.content.length, 0) / 4,
+  )
+  const completionTokens = Math.ceil(content.length / 4)
+
+  return Response.json({
+    id: `mock-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: behavior,
+    choices: [
+      { index: 0, message: { role: 'assistant', content }, finish_reason: 'stop', logprobs: null },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      cost: 0,
+    },
+  })
+}
+
+export const MOCK_LLM_PROVIDER: LLMProvider = {
+  id: 'mock',
+  name: 'Mock LLM',
+  baseURL: 'http://mock.invalid/v1',
+  apiKeyEnvVars: [],
+  requiresApiKey: false,
+  models: MOCK_BEHAVIORS.map((behavior) => ({ id: behavior, name: `Mock (${behavior})` })),
+  clientOptions: { fetch: mockFetch, maxRetries: 0 },
+}
@@ -1,5 +1,6 @@
 /// <reference types="bun-types" />
 import OpenAI from 'openai'
+import { OPENROUTER_BASE_URL } from './llm-providers'
 
 export class OpenRouterConfigError extends Error {
   constructor(message: string) {
@@ -35,7 +36,7 @@ export function createOpenRouterClient(apiKey?: string): OpenAI {
 
   return new OpenAI({
     apiKey: key,
-    baseURL: 'https://openrouter.ai/api/v1',
+    baseURL: OPENROUTER_BASE_URL,
     dangerouslyAllowBrowser: true,
   })
 }
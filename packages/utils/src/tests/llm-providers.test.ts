@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import {
+  LLMProviderConfigError,
+  createLLMClient,
+  getLLMModelName,
+  getLLMProviderBaseURL,
+  hasLLMApiKey,
+  listLLMProviderModels,
+  registerLLMProvider,
+  resolveLLMModel,
+} from '../llm-providers'
+
+const ENV_VARS = ['OPENAI_API_KEY', 'VLLM_BASE_URL'] as const
+const savedEnv = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]))
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    for (const name of ENV_VARS) {
+      const value = savedEnv[name]
+      if (value === undefined) {
+        Reflect.deleteProperty(process.env, name)
+      } else {
+        process.env[name] = value
+      }
+    }
+  })
+
+  test('routes model ids to providers by prefix', () => {
+    const ollama = resolveLLMModel('ollama:qwen2.5:7b')
+    const openRouter = resolveLLMModel('openai/gpt-5.2')
+    const unknownPrefix = resolveLLMModel('acme:model')
+
+    expect([ollama.provider.id, ollama.model]).toEqual(['ollama', 'qwen2.5:7b'])
+    expect([openRouter.provider.id, openRouter.model]).toEqual(['openrouter', 'openai/gpt-5.2'])
+    expect([unknownPrefix.provider.id, unknownPrefix.model]).toEqual(['openrouter', 'acme:model'])
+    expect(getLLMModelName('ollama:qwen2.5:7b')).toBe('qwen2.5:7b (Ollama)')
+  })
+
+  test('reads base URL overrides from the environment', () => {
+    const { provider } = resolveLLMModel('vllm:my-checkpoint')
+    expect(getLLMProviderBaseURL(provider)).toBe('http://localhost:8000/v1')
+
+    process.env.VLLM_BASE_URL = 'http://gpu-box:9000/v1'
+    expect(getLLMProviderBaseURL(provider)).toBe('http://gpu-box:9000/v1')
+    expect(createLLMClient('vllm:my-checkpoint').client.baseURL).toBe('http://gpu-box:9000/v1')
+  })
+
+  test('requires an API key only for hosted providers', () => {
+    Reflect.deleteProperty(process.env, 'OPENAI_API_KEY')
+
+    expect(hasLLMApiKey('openai:gpt-5.2')).toBe(false)
+    expect(hasLLMApiKey('ollama:llama3')).toBe(true)
+    expect(() => createLLMClient('openai:gpt-5.2')).toThrow(LLMProviderConfigError)
+    expect(() => createLLMClient('openai:gpt-5.2')).toThrow(
+      'OpenAI API key not found. Set OPENAI_API_KEY.',
+    )
+
+    process.env.OPENAI_API_KEY = 'sk-test'
+    expect(createLLMClient('openai:gpt-5.2').model).toBe('gpt-5.2')
+  })
+
+  test('registers custom providers with their own catalog', async () => {
+    registerLLMProvider({
+      id: 'local-test',
+      name: 'Local test',
+      baseURL: 'http://localhost:1234/v1',
+      apiKeyEnvVars: [],
+      requiresApiKey: false,
+      models: [{ id: 'tiny', name: 'Tiny' }],
+    })
+
+    expect(resolveLLMModel('local-test:tiny').provider.name).toBe('Local test')
+    expect(getLLMModelName('local-test:tiny')).toBe('Tiny')
+    expect(await listLLMProviderModels('local-test')).toEqual([
+      { id: 'local-test:tiny', name: 'Tiny' },
+    ])
+    await expect(listLLMProviderModels('missing')).rejects.toThrow('Unknown provider: missing')
+  })
+})
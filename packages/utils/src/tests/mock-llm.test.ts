@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test'
+import { executeSolution } from '@sokoban-eval-toolkit/sokoban-core'
+import { createLLMClient } from '../llm-providers'
+import { generateMockReply, parseMockBoard, setMockReplies, solveMockBoard } from '../mock-llm'
+
+// Microban #5 and #7, which a plain BFS over player moves gave up on
+const MICROBAN_5 = `
+###### #####
+#    ###   #
+# $$     #@#
+# $ #...   #
+#   ########
+#####
+`
+
+const MICROBAN_7 = `
+  ######
+  # ..@#
+  # $$ #
+  ## ###
+   # #
+   # #
+#### #
+#    ##
+# #   #
+#   # #
+###   #
+  #####
+`
+
+describe('mock LLM', () => {
+  test('solves boards the optimal way with the core solver', () => {
+    for (const [board, moves] of [
+      [MICROBAN_5, 107],
+      [MICROBAN_7, 97],
+    ] as const) {
+      const level = parseMockBoard(`Solve this puzzle:\n\n${board}\nReply in JSON.`)
+      if (!level) throw new Error('Board not found')
+      const solution = solveMockBoard(level)
+
+      expect(solution).toHaveLength(moves)
+      expect(executeSolution(level, solution ?? []).solved).toBe(true)
+    }
+  })
+
+  test('reads colored boxes and goals from the board', () => {
+    const level = parseMockBoard('#####\n#@Op#\n#.$ #\n#####')
+
+    expect(level?.boxStarts).toEqual([
+      { x: 2, y: 1, color: 'orange' },
+      { x: 3, y: 1, color: 'purple' },
+      { x: 2, y: 2, color: 'orange' },
+    ])
+    expect(level?.goals).toEqual([
+      { x: 3, y: 1 },
+      { x: 1, y: 2 },
+    ])
+  })
+
+  test('replays the recorded reply for each turn of a conversation', async () => {
+    setMockReplies(['first', 'second'])
+    const { client, model } = createLLMClient('mock:replay')
+    const reply = async (messages: { role: 'user' | 'assistant'; content: string }[]) =>
+      (await client.chat.completions.create({ model, messages })).choices[0].message.content
+
+    const secondTurn = reply([
+      { role: 'user', content: 'Move?' },
+      { role: 'assistant', content: 'first' },
+      { role: 'user', content: 'Next move?' },
+    ])
+    const firstTurn = reply([{ role: 'user', content: 'Move?' }])
+
+    expect(await secondTurn).toBe('second')
+    expect(await firstTurn).toBe('first')
+    expect(await generateMockReply('replay', '', 2)).toBe('first')
+  })
+})
@@ -3,7 +3,8 @@
 /**
  * Solution Generation CLI for Simple Navigation Puzzles
  *
- * Generates reasoning solutions for simple navigation puzzles using LLMs via OpenRouter.
+ * Generates reasoning solutions for simple navigation puzzles using LLMs via OpenRouter or any
+ * OpenAI-compatible provider (model ids like `vllm:my-checkpoint`).
  * Reads test puzzles from JSONL, runs them through the selected model,
  * and outputs training data with full reasoning traces.
  *
@@ -21,14 +22,23 @@
 import * as fs from 'node:fs'
 import { ExitPromptError } from '@inquirer/core'
 import { confirm, input, select } from '@inquirer/prompts'
+import {
+  DIRECTION_VECTORS,
+  MOVE_DIRECTIONS,
+  type MoveDirection,
+  type Position,
+  parseAIResponse,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import {
   EVAL_OUTPUT_FORMAT_INSTRUCTIONS,
   OPENROUTER_MODELS,
-  createOpenRouterClient,
+  createLLMClient,
   extractOpenRouterCost,
   extractOpenRouterReasoningTokens,
   formatTrainingResponse,
-  hasOpenRouterApiKey,
+  getLLMModelName,
+  hasLLMApiKey,
+  resolveLLMModel,
 } from '@sokoban-eval-toolkit/utils'
 import pLimit from 'p-limit'
 
@@ -158,19 +168,12 @@ interface LLMResult {
   error?: string
 }
 
-type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
-
 interface ParsedResponse {
   reasoning: string
   solution: MoveDirection[]
   raw: string
 }
 
-interface Position {
-  x: number
-  y: number
-}
-
 interface PuzzleState {
   width: number
   height: number
@@ -275,8 +278,6 @@ function parsePuzzle(puzzle: string[]): PuzzleState {
   }
 }
 
-const VALID_MOVES: MoveDirection[] = ['UP', 'DOWN', 'LEFT', 'RIGHT']
-
 /**
  * Parse the JSON response from the LLM.
  * Expected format: { "reasoning": "...", "solution": ["UP", "DOWN", ...] }
@@ -308,7 +309,7 @@ function parseResponse(response: string): ParsedResponse | null {
     const solution: MoveDirection[] = []
     for (const move of parsed.solution) {
       const normalized = String(move).toUpperCase() as MoveDirection
-      if (!VALID_MOVES.includes(normalized)) {
+      if (!MOVE_DIRECTIONS.includes(normalized)) {
         return null
       }
       solution.push(normalized)
@@ -324,37 +325,6 @@ function parseResponse(response: string): ParsedResponse | null {
   }
 }
 
-/**
- * Fallback: Parse moves from LLM response by finding array of move strings.
- * Used when JSON parsing fails.
- */
-function parseMovesFallback(response: string): MoveDirection[] {
-  const moves: MoveDirection[] = []
-
-  // Try to find array pattern in response
-  const arrayMatch = response.match(/\[([\s\S]*?)\]/g)
-  if (arrayMatch) {
-    for (const arr of arrayMatch) {
-      try {
-        const parsed = JSON.parse(arr) as string[]
-        for (const move of parsed) {
-          const normalized = String(move).toUpperCase() as MoveDirection
-          if (VALID_MOVES.includes(normalized)) {
-            moves.push(normalized)
-          }
-        }
-        if (moves.length > 0) {
-          return moves
-        }
-      } catch {
-        // Not valid JSON array, continue
-      }
-    }
-  }
-
-  return moves
-}
-
 /**
  * Validate a solution by replaying the moves.
  * Returns true if the solution results in player reaching the goal.
@@ -365,15 +335,8 @@ function validateSolution(puzzle: string[], moves: MoveDirection[]): boolean {
   const state = parsePuzzle(puzzle)
   let player = { ...state.player }
 
-  const directions: Record<MoveDirection, { dx: number; dy: number }> = {
-    UP: { dx: 0, dy: -1 },
-    DOWN: { dx: 0, dy: 1 },
-    LEFT: { dx: -1, dy: 0 },
-    RIGHT: { dx: 1, dy: 0 },
-  }
-
   for (const move of moves) {
-    const { dx, dy } = directions[move]
+    const { dx, dy } = DIRECTION_VECTORS[move]
     const newX = player.x + dx
     const newY = player.y + dy
 
@@ -413,11 +376,7 @@ function appendJsonlEntry(filePath: string, entry: TrainEntry): void {
 // LLM Integration
 // ============================================================================
 
-async function generateSolution(
-  client: ReturnType<typeof createOpenRouterClient>,
-  entry: TestEntry,
-  model: string,
-): Promise<LLMResult> {
+async function generateSolution(entry: TestEntry, model: string): Promise<LLMResult> {
   const startTime = Date.now()
 
   try {
@@ -447,9 +406,11 @@ async function generateSolution(
 
     const messages = [{ role: 'user' as const, content: combinedContent }]
 
+    const { client, model: providerModel } = createLLMClient(model)
+
     // Some models/providers don't support temperature, so we omit it for safety
     const response = await client.chat.completions.create({
-      model,
+      model: providerModel,
       messages,
     })
 
@@ -511,7 +472,6 @@ async function generateSolution(
 // ============================================================================
 
 async function processOneEntry(
-  client: ReturnType<typeof createOpenRouterClient>,
   entry: TestEntry,
   index: number,
   model: string,
@@ -541,7 +501,7 @@ async function processOneEntry(
   for (let i = 0; i < maxRetries; i++) {
     attempts++
     log(`Attempt ${attempts}/${maxRetries} with primary model (${model})...`)
-    const result = await generateSolution(client, entry, model)
+    const result = await generateSolution(entry, model)
 
     totalCost += result.cost
     totalInputTokens += result.inputTokens
@@ -570,7 +530,7 @@ async function processOneEntry(
       log(`Parsed JSON with ${moves.length} moves: ${JSON.stringify(parsed.solution)}`)
     } else {
       // Fallback to legacy parsing
-      moves = parseMovesFallback(result.response)
+      moves = parseAIResponse(result.response).moves
       log(`JSON parse failed, fallback found ${moves.length} moves`)
     }
 
@@ -623,7 +583,7 @@ async function processOneEntry(
     usedFallback = true
     attempts++
     log(`Trying fallback model (${fallbackModel})...`)
-    const result = await generateSolution(client, entry, fallbackModel)
+    const result = await generateSolution(entry, fallbackModel)
 
     totalCost += result.cost
     totalInputTokens += result.inputTokens
@@ -645,7 +605,7 @@ async function processOneEntry(
         lastParsed = parsed
         log(`Fallback parsed JSON with ${moves.length} moves: ${JSON.stringify(parsed.solution)}`)
       } else {
-        moves = parseMovesFallback(result.response)
+        moves = parseAIResponse(result.response).moves
         log(`Fallback JSON parse failed, found ${moves.length} moves`)
       }
 
@@ -741,7 +701,6 @@ async function processEntries(
   config: GenerationConfig,
   stats: GenerationStats,
 ): Promise<void> {
-  const client = createOpenRouterClient()
   const limit = pLimit(config.concurrency)
 
   const startIdx = config.startIndex
@@ -758,7 +717,6 @@ async function processEntries(
     limit(async () => {
       const globalIdx = startIdx + idx
       const result = await processOneEntry(
-        client,
         entry,
         globalIdx,
         config.model,
@@ -825,17 +783,24 @@ async function processEntries(
 // CLI Prompts
 // ============================================================================
 
+const OTHER_MODEL = '__other__'
+
+/**
+ * Ask for a model id when "Other" is picked, for models outside the OpenRouter catalog.
+ */
+async function promptOtherModelId(selected: string): Promise<string> {
+  if (selected !== OTHER_MODEL) return selected
+
+  const modelId = await input({
+    message: 'Model id (<provider>:<model>, e.g. ollama:qwen2.5:7b):',
+    validate: (value) => (value.trim() ? true : 'Please enter a model id'),
+  })
+  return modelId.trim()
+}
+
 async function promptForConfig(): Promise<GenerationConfig> {
   console.log('\n🧭 Simple Navigation Solution Generator\n')
 
-  // Check API key
-  if (!hasOpenRouterApiKey()) {
-    console.error('Error: OpenRouter API key not found.')
-    console.error('   Set OPENROUTER_API_KEY environment variable.')
-    process.exit(1)
-  }
-  console.log('OpenRouter API key found\n')
-
   // Input file
   const defaultInput = 'data/nav/train.jsonl'
   const inputFile = await input({
@@ -892,25 +857,42 @@ async function promptForConfig(): Promise<GenerationConfig> {
   }
 
   // Model selection
-  const modelChoices = OPENROUTER_MODELS.map((m) => ({
-    name: `${m.name} - ${m.description}`,
-    value: m.id,
-  }))
-
-  const model = await select({
-    message: 'Select primary model:',
-    choices: modelChoices,
-    pageSize: modelChoices.length,
-  })
+  const modelChoices = [
+    ...OPENROUTER_MODELS.map((m) => ({
+      name: `${m.name} - ${m.description}`,
+      value: m.id,
+    })),
+    { name: 'Other model id (<provider>:<model>, e.g. vllm:my-checkpoint)', value: OTHER_MODEL },
+  ]
+
+  const model = await promptOtherModelId(
+    await select({
+      message: 'Select primary model:',
+      choices: modelChoices,
+      pageSize: modelChoices.length,
+    }),
+  )
 
   // Fallback model selection
   const fallbackChoices = [{ name: 'None (no fallback)', value: '' }, ...modelChoices]
 
-  const fallbackModel = await select({
-    message: 'Select fallback model (used after 3 failed attempts):',
-    choices: fallbackChoices,
-    pageSize: fallbackChoices.length,
-  })
+  const fallbackModel = await promptOtherModelId(
+    await select({
+      message: 'Select fallback model (used after 3 failed attempts):',
+      choices: fallbackChoices,
+      pageSize: fallbackChoices.length,
+    }),
+  )
+
+  // Check API keys for the selected models' providers
+  for (const modelId of [model, fallbackModel].filter(Boolean)) {
+    if (!hasLLMApiKey(modelId)) {
+      const { provider } = resolveLLMModel(modelId)
+      console.error(`Error: ${provider.name} API key not found.`)
+      console.error(`   Set ${provider.apiKeyEnvVars.join(' or ')} environment variable.`)
+      process.exit(1)
+    }
+  }
 
   // Number to process
   const remaining = entries.length - startIndex
@@ -989,10 +971,8 @@ async function main(): Promise<void> {
     const config = await promptForConfig()
 
     // Show summary
-    const modelName = OPENROUTER_MODELS.find((m) => m.id === config.model)?.name ?? config.model
-    const fallbackName = config.fallbackModel
-      ? (OPENROUTER_MODELS.find((m) => m.id === config.fallbackModel)?.name ?? config.fallbackModel)
-      : 'None'
+    const modelName = getLLMModelName(config.model)
+    const fallbackName = config.fallbackModel ? getLLMModelName(config.fallbackModel) : 'None'
 
     console.log('\n📋 Configuration:')
     console.log(`   Primary Model: ${modelName} (${config.model})`)
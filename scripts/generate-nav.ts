@@ -16,19 +16,18 @@ import { resolve } from 'node:path'
 
 import { ExitPromptError } from '@inquirer/core'
 import { confirm, input } from '@inquirer/prompts'
+import {
+  DIRECTION_VECTORS,
+  MOVE_DIRECTIONS,
+  type MoveDirection,
+  type Position,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import { EVAL_OUTPUT_FORMAT_INSTRUCTIONS } from '@sokoban-eval-toolkit/utils'
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface Position {
-  x: number
-  y: number
-}
-
-type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
-
 interface GenerationConfig {
   totalCount: number
   minSize: number
@@ -55,12 +54,7 @@ interface GeneratedPuzzleWithId extends GeneratedPuzzle {
   id: string
 }
 
-const DIRECTIONS: { dir: MoveDirection; dx: number; dy: number }[] = [
-  { dir: 'UP', dx: 0, dy: -1 },
-  { dir: 'DOWN', dx: 0, dy: 1 },
-  { dir: 'LEFT', dx: -1, dy: 0 },
-  { dir: 'RIGHT', dx: 1, dy: 0 },
-]
+const DIRECTIONS = MOVE_DIRECTIONS.map((dir) => ({ dir, ...DIRECTION_VECTORS[dir] }))
 
 // ============================================================================
 // Pathfinding (BFS)
@@ -3,7 +3,8 @@
 /**
  * Solution Generation CLI
  *
- * Generates reasoning solutions for Sokoban puzzles using LLMs via OpenRouter.
+ * Generates reasoning solutions for Sokoban puzzles using LLMs via OpenRouter or any
+ * OpenAI-compatible provider (model ids like `vllm:my-checkpoint`).
  * Reads test puzzles from JSONL, runs them through the selected model,
  * and outputs training data with full reasoning traces.
  *
@@ -20,14 +21,23 @@
 import * as fs from 'node:fs'
 import { ExitPromptError } from '@inquirer/core'
 import { confirm, input, select } from '@inquirer/prompts'
+import {
+  MOVE_DIRECTIONS,
+  type MoveDirection,
+  executeSolution,
+  parseAIResponse,
+  parseLevel,
+} from '@sokoban-eval-toolkit/sokoban-core'
 import {
   EVAL_OUTPUT_FORMAT_INSTRUCTIONS,
   OPENROUTER_MODELS,
-  createOpenRouterClient,
+  createLLMClient,
   extractOpenRouterCost,
   extractOpenRouterReasoningTokens,
   formatTrainingResponse,
-  hasOpenRouterApiKey,
+  getLLMModelName,
+  hasLLMApiKey,
+  resolveLLMModel,
 } from '@sokoban-eval-toolkit/utils'
 import pLimit from 'p-limit'
 
@@ -199,28 +209,12 @@ interface LLMResult {
   error?: string
 }
 
-type MoveDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
-
 interface ParsedResponse {
   reasoning: string
   solution: MoveDirection[]
   raw: string
 }
 
-interface Position {
-  x: number
-  y: number
-}
-
-interface PuzzleState {
-  width: number
-  height: number
-  walls: Set<string>
-  player: Position
-  boxes: Position[]
-  goals: Position[]
-}
-
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -274,64 +268,10 @@ function computeTokenStats(counts: number[]): {
   }
 }
 
-function posKey(x: number, y: number): string {
-  return `${x},${y}`
-}
-
 // ============================================================================
 // Puzzle Parsing & Validation
 // ============================================================================
 
-/**
- * Parse a puzzle from its ASCII representation.
- */
-function parsePuzzle(puzzle: string[]): PuzzleState {
-  const walls = new Set<string>()
-  let player: Position = { x: 0, y: 0 }
-  const boxes: Position[] = []
-  const goals: Position[] = []
-
-  for (let y = 0; y < puzzle.length; y++) {
-    const row = puzzle[y]
-    for (let x = 0; x < row.length; x++) {
-      const char = row[x]
-      switch (char) {
-        case '#':
-          walls.add(posKey(x, y))
-          break
-        case '@':
-          player = { x, y }
-          break
-        case '+': // Player on goal
-          player = { x, y }
-          goals.push({ x, y })
-          break
-        case '$':
-          boxes.push({ x, y })
-          break
-        case '*': // Box on goal
-          boxes.push({ x, y })
-          goals.push({ x, y })
-          break
-        case '.':
-          goals.push({ x, y })
-          break
-      }
-    }
-  }
-
-  return {
-    width: puzzle[0]?.length ?? 0,
-    height: puzzle.length,
-    walls,
-    player,
-    boxes,
-    goals,
-  }
-}
-
-const VALID_MOVES: MoveDirection[] = ['UP', 'DOWN', 'LEFT', 'RIGHT']
-
 /**
  * Parse the JSON response from the LLM.
  * Expected format: { "reasoning": "...", "solution": ["UP", "DOWN", ...] }
@@ -363,7 +303,7 @@ function parseResponse(response: string): ParsedResponse | null {
     const solution: MoveDirection[] = []
     for (const move of parsed.solution) {
       const normalized = String(move).toUpperCase() as MoveDirection
-      if (!VALID_MOVES.includes(normalized)) {
+      if (!MOVE_DIRECTIONS.includes(normalized)) {
         return null
       }
       solution.push(normalized)
@@ -379,37 +319,6 @@ function parseResponse(response: string): ParsedResponse | null {
   }
 }
 
-/**
- * Fallback: Parse moves from LLM response by finding array of move strings.
- * Used when JSON parsing fails.
- */
-function parseMovesFallback(response: string): MoveDirection[] {
-  const moves: MoveDirection[] = []
-
-  // Try to find array pattern in response
-  const arrayMatch = response.match(/\[([\s\S]*?)\]/g)
-  if (arrayMatch) {
-    for (const arr of arrayMatch) {
-      try {
-        const parsed = JSON.parse(arr) as string[]
-        for (const move of parsed) {
-          const normalized = String(move).toUpperCase() as MoveDirection
-          if (VALID_MOVES.includes(normalized)) {
-            moves.push(normalized)
-          }
-        }
-        if (moves.length > 0) {
-          return moves
-        }
-      } catch {
-        // Not valid JSON array, continue
-      }
-    }
-  }
-
-  return moves
-}
-
 /**
  * Validate a solution by replaying the moves.
  * Returns true if the solution results in all boxes on goals.
@@ -417,52 +326,8 @@ function parseMovesFallback(response: string): MoveDirection[] {
 function validateSolution(puzzle: string[], moves: MoveDirection[]): boolean {
   if (moves.length === 0) return false
 
-  const state = parsePuzzle(puzzle)
-  let player = { ...state.player }
-  const boxes = state.boxes.map((b) => ({ ...b }))
-
-  const directions: Record<MoveDirection, { dx: number; dy: number }> = {
-    UP: { dx: 0, dy: -1 },
-    DOWN: { dx: 0, dy: 1 },
-    LEFT: { dx: -1, dy: 0 },
-    RIGHT: { dx: 1, dy: 0 },
-  }
-
-  for (const move of moves) {
-    const { dx, dy } = directions[move]
-    const newX = player.x + dx
-    const newY = player.y + dy
-
-    // Check wall
-    if (state.walls.has(posKey(newX, newY))) {
-      return false
-    }
-
-    // Check box
-    const boxIndex = boxes.findIndex((b) => b.x === newX && b.y === newY)
-    if (boxIndex !== -1) {
-      const newBoxX = newX + dx
-      const newBoxY = newY + dy
-
-      // Box blocked by wall or another box
-      if (state.walls.has(posKey(newBoxX, newBoxY))) {
-        return false
-      }
-      if (boxes.some((b) => b.x === newBoxX && b.y === newBoxY)) {
-        return false
-      }
-
-      // Push the box
-      boxes[boxIndex] = { x: newBoxX, y: newBoxY }
-    }
-
-    // Move player
-    player = { x: newX, y: newY }
-  }
-
-  // Check if all boxes are on goals
-  const goalSet = new Set(state.goals.map((g) => posKey(g.x, g.y)))
-  return boxes.every((b) => goalSet.has(posKey(b.x, b.y)))
+  const level = parseLevel(puzzle.join('\n'), 'solution-check')
+  return executeSolution(level, moves).solved
 }
 
 // ============================================================================
@@ -483,11 +348,7 @@ function appendJsonlEntry(filePath: string, entry: TrainEntry): void {
 // LLM Integration
 // ============================================================================
 
-async function generateSolution(
-  client: ReturnType<typeof createOpenRouterClient>,
-  entry: TestEntry,
-  model: string,
-): Promise<LLMResult> {
+async function generateSolution(entry: TestEntry, model: string): Promise<LLMResult> {
   const startTime = Date.now()
 
   try {
@@ -505,9 +366,11 @@ async function generateSolution(
 
     const messages = [{ role: 'user' as const, content: combinedContent }]
 
+    const { client, model: providerModel } = createLLMClient(model)
+
     // Some models/providers don't support temperature, so we omit it for safety
     const response = await client.chat.completions.create({
-      model,
+      model: providerModel,
       messages,
     })
 
@@ -569,7 +432,6 @@ async function generateSolution(
 // ============================================================================
 
 async function processOneEntry(
-  client: ReturnType<typeof createOpenRouterClient>,
   entry: TestEntry,
   index: number,
   model: string,
@@ -598,7 +460,7 @@ async function processOneEntry(
   for (let i = 0; i < maxRetries; i++) {
     attempts++
     log(`Attempt ${attempts}/${maxRetries} with primary model (${model})...`)
-    const result = await generateSolution(client, entry, model)
+    const result = await generateSolution(entry, model)
 
     totalCost += result.cost
     totalInputTokens += result.inputTokens
@@ -627,7 +489,7 @@ async function processOneEntry(
       log(`Parsed JSON with ${moves.length} moves: ${JSON.stringify(parsed.solution)}`)
     } else {
       // Fallback to legacy parsing
-      moves = parseMovesFallback(result.response)
+      moves = parseAIResponse(result.response).moves
       log(`JSON parse failed, fallback found ${moves.length} moves`)
     }
 
@@ -673,7 +535,7 @@ async function processOneEntry(
     usedFallback = true
     attempts++
     log(`Trying fallback model (${fallbackModel})...`)
-    const result = await generateSolution(client, entry, fallbackModel)
+    const result = await generateSolution(entry, fallbackModel)
 
     totalCost += result.cost
     totalInputTokens += result.inputTokens
@@ -695,7 +557,7 @@ async function processOneEntry(
         lastParsed = parsed
         log(`Fallback parsed JSON with ${moves.length} moves: ${JSON.stringify(parsed.solution)}`)
       } else {
-        moves = parseMovesFallback(result.response)
+        moves = parseAIResponse(result.response).moves
         log(`Fallback JSON parse failed, found ${moves.length} moves`)
       }
 
@@ -779,7 +641,6 @@ async function processEntries(
   config: GenerationConfig,
   stats: GenerationStats,
 ): Promise<void> {
-  const client = createOpenRouterClient()
   const limit = pLimit(config.concurrency)
 
   const startIdx = config.startIndex
@@ -796,7 +657,6 @@ async function processEntries(
     limit(async () => {
       const globalIdx = startIdx + idx
       const result = await processOneEntry(
-        client,
         entry,
         globalIdx,
         config.model,
@@ -859,17 +719,24 @@ async function processEntries(
 // CLI Prompts
 // ============================================================================
 
+const OTHER_MODEL = '__other__'
+
+/**
+ * Ask for a model id when "Other" is picked, for models outside the OpenRouter catalog.
+ */
+async function promptOtherModelId(selected: string): Promise<string> {
+  if (selected !== OTHER_MODEL) return selected
+
+  const modelId = await input({
+    message: 'Model id (<provider>:<model>, e.g. ollama:qwen2.5:7b):',
+    validate: (value) => (value.trim() ? true : 'Please enter a model id'),
+  })
+  return modelId.trim()
+}
+
 async function promptForConfig(): Promise<GenerationConfig> {
   console.log('\n🧩 Sokoban Solution Generator\n')
 
-  // Check API key
-  if (!hasOpenRouterApiKey()) {
-    console.error('❌ OpenRouter API key not found.')
-    console.error('   Set OPENROUTER_API_KEY environment variable.')
-    process.exit(1)
-  }
-  console.log('✓  OpenRouter API key found\n')
-
   // Input file
   const defaultInput = 'data/sokoban/train.jsonl'
   const inputFile = await input({
@@ -926,25 +793,42 @@ async function promptForConfig(): Promise<GenerationConfig> {
   }
 
   // Model selection
-  const modelChoices = OPENROUTER_MODELS.map((m) => ({
-    name: `${m.name} - ${m.description}`,
-    value: m.id,
-  }))
-
-  const model = await select({
-    message: 'Select primary model:',
-    choices: modelChoices,
-    pageSize: modelChoices.length,
-  })
+  const modelChoices = [
+    ...OPENROUTER_MODELS.map((m) => ({
+      name: `${m.name} - ${m.description}`,
+      value: m.id,
+    })),
+    { name: 'Other model id (<provider>:<model>, e.g. vllm:my-checkpoint)', value: OTHER_MODEL },
+  ]
+
+  const model = await promptOtherModelId(
+    await select({
+      message: 'Select primary model:',
+      choices: modelChoices,
+      pageSize: modelChoices.length,
+    }),
+  )
 
   // Fallback model selection
   const fallbackChoices = [{ name: 'None (no fallback)', value: '' }, ...modelChoices]
 
-  const fallbackModel = await select({
-    message: 'Select fallback model (used after 3 failed attempts):',
-    choices: fallbackChoices,
-    pageSize: fallbackChoices.length,
-  })
+  const fallbackModel = await promptOtherModelId(
+    await select({
+      message: 'Select fallback model (used after 3 failed attempts):',
+      choices: fallbackChoices,
+      pageSize: fallbackChoices.length,
+    }),
+  )
+
+  // Check API keys for the selected models' providers
+  for (const modelId of [model, fallbackModel].filter(Boolean)) {
+    if (!hasLLMApiKey(modelId)) {
+      const { provider } = resolveLLMModel(modelId)
+      console.error(`❌ ${provider.name} API key not found.`)
+      console.error(`   Set ${provider.apiKeyEnvVars.join(' or ')} environment variable.`)
+      process.exit(1)
+    }
+  }
 
   // Number to process
   const remaining = entries.length - startIndex
@@ -1023,10 +907,8 @@ async function main(): Promise<void> {
     const config = await promptForConfig()
 
     // Show summary
-    const modelName = OPENROUTER_MODELS.find((m) => m.id === config.model)?.name ?? config.model
-    const fallbackName = config.fallbackModel
-      ? (OPENROUTER_MODELS.find((m) => m.id === config.fallbackModel)?.name ?? config.fallbackModel)
-      : 'None'
+    const modelName = getLLMModelName(config.model)
+    const fallbackName = config.fallbackModel ? getLLMModelName(config.fallbackModel) : 'None'
 
     console.log('\n📋 Configuration:')
     console.log(`   Primary Model: ${modelName} (${config.model})`)
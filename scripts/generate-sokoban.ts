@@ -19,14 +19,17 @@ import { ExitPromptError } from '@inquirer/core'
 import { confirm, input, select } from '@inquirer/prompts'
 import { EVAL_OUTPUT_FORMAT_INSTRUCTIONS } from '@sokoban-eval-toolkit/utils'
 
-import type {
-  Box,
-  CellTerrain,
-  MoveDirection,
-  Position,
-  SokobanLevel,
-} from '../apps/ui-sokoban/src/types'
-import { solvePuzzle } from '../apps/ui-sokoban/src/utils/sokobanSolver'
+import {
+  type Box,
+  type CellTerrain,
+  type MoveDirection,
+  type Position,
+  type SokobanLevel,
+  executeSolution,
+  levelToAscii,
+  solvePuzzle,
+  toRowCol,
+} from '@sokoban-eval-toolkit/sokoban-core'
 
 // ============================================================================
 // Types
@@ -70,123 +73,6 @@ interface GeneratedLevel {
   numBoxes: number
 }
 
-const DIRECTIONS: { dir: MoveDirection; dx: number; dy: number }[] = [
-  { dir: 'UP', dx: 0, dy: -1 },
-  { dir: 'DOWN', dx: 0, dy: 1 },
-  { dir: 'LEFT', dx: -1, dy: 0 },
-  { dir: 'RIGHT', dx: 1, dy: 0 },
-]
-
-function isWalkable(
-  x: number,
-  y: number,
-  terrain: CellTerrain[][],
-  width: number,
-  height: number,
-): boolean {
-  if (x < 0 || x >= width || y < 0 || y >= height) return false
-  const cell = terrain[y]?.[x]
-  return cell === 'floor' || cell === 'goal'
-}
-
-function isSolved(boxes: Position[], goals: Position[]): boolean {
-  if (boxes.length === 0 && goals.length === 0) return true
-  if (boxes.length !== goals.length) return false
-  const goalSet = new Set(goals.map((g) => `${g.x},${g.y}`))
-  return boxes.every((b) => goalSet.has(`${b.x},${b.y}`))
-}
-
-/**
- * Check if a box at a given position would be adjacent (horizontally or vertically)
- * to another box of the same color.
- */
-function hasSameColorAdjacency(newBox: Box, boxes: Box[], excludeIndex?: number): boolean {
-  const adjacentPositions = [
-    { x: newBox.x, y: newBox.y - 1 }, // up
-    { x: newBox.x, y: newBox.y + 1 }, // down
-    { x: newBox.x - 1, y: newBox.y }, // left
-    { x: newBox.x + 1, y: newBox.y }, // right
-  ]
-
-  for (let i = 0; i < boxes.length; i++) {
-    if (i === excludeIndex) continue
-
-    const otherBox = boxes[i]
-    if (otherBox.color === newBox.color) {
-      for (const adj of adjacentPositions) {
-        if (otherBox.x === adj.x && otherBox.y === adj.y) {
-          return true
-        }
-      }
-    }
-  }
-
-  return false
-}
-
-/**
- * Replay a solution to validate it actually solves the puzzle.
- * Returns true if the solution leads to a solved state.
- */
-function validateSolution(
-  terrain: CellTerrain[][],
-  width: number,
-  height: number,
-  playerStart: Position,
-  boxStarts: Box[],
-  goals: Position[],
-  solution: MoveDirection[],
-): boolean {
-  let player = { ...playerStart }
-  const boxes = boxStarts.map((b) => ({ ...b }))
-
-  for (const move of solution) {
-    const dir = DIRECTIONS.find((d) => d.dir === move)
-    if (!dir) return false
-
-    const newPlayerX = player.x + dir.dx
-    const newPlayerY = player.y + dir.dy
-
-    // Check if player can move there
-    if (!isWalkable(newPlayerX, newPlayerY, terrain, width, height)) {
-      return false
-    }
-
-    // Check if there's a box to push
-    const boxIndex = boxes.findIndex((b) => b.x === newPlayerX && b.y === newPlayerY)
-
-    if (boxIndex !== -1) {
-      const newBoxX = newPlayerX + dir.dx
-      const newBoxY = newPlayerY + dir.dy
-
-      // Check if box can be pushed
-      if (!isWalkable(newBoxX, newBoxY, terrain, width, height)) {
-        return false
-      }
-      if (boxes.some((b) => b.x === newBoxX && b.y === newBoxY)) {
-        return false
-      }
-
-      // Create the new box position with color
-      const newBox: Box = { x: newBoxX, y: newBoxY, color: boxes[boxIndex].color }
-
-      // Check for same-color adjacency violation
-      if (hasSameColorAdjacency(newBox, boxes, boxIndex)) {
-        return false
-      }
-
-      // Move the box (preserving color)
-      boxes[boxIndex] = newBox
-    }
-
-    // Move the player
-    player = { x: newPlayerX, y: newPlayerY }
-  }
-
-  // Check if solved after all moves
-  return isSolved(boxes, goals)
-}
-
 // ============================================================================
 // LEVEL GENERATION
 // ============================================================================
@@ -353,15 +239,7 @@ function generateLevel(options: LevelGenOptions): GeneratedLevel | null {
       }
 
       // Validate solution by replaying it
-      const isValid = validateSolution(
-        terrain,
-        width,
-        height,
-        playerStart,
-        boxStarts,
-        goals,
-        result.solution,
-      )
+      const isValid = executeSolution(level, result.solution).solved
 
       if (!isValid) {
         console.warn('Solution validation failed - skipping puzzle')
@@ -385,76 +263,11 @@ function generateLevel(options: LevelGenOptions): GeneratedLevel | null {
   return null
 }
 
-/**
- * Convert a level to ASCII format.
- */
-function levelToAscii(level: GeneratedLevel): string {
-  const lines: string[] = []
-
-  for (let y = 0; y < level.height; y++) {
-    let line = ''
-    for (let x = 0; x < level.width; x++) {
-      const isPlayer = level.playerStart.x === x && level.playerStart.y === y
-      const isBox = level.boxStarts.some((b) => b.x === x && b.y === y)
-      const terrain = level.terrain[y][x]
-      const isGoal = terrain === 'goal'
-
-      if (isPlayer && isGoal) {
-        line += '+'
-      } else if (isPlayer) {
-        line += '@'
-      } else if (isBox && isGoal) {
-        line += '*'
-      } else if (isBox) {
-        line += '$'
-      } else if (isGoal) {
-        line += '.'
-      } else if (terrain === 'wall') {
-        line += '#'
-      } else {
-        line += '-'
-      }
-    }
-    lines.push(line)
-  }
-
-  return lines.join('\n')
-}
-
 /**
  * Convert a level to an array of ASCII strings (for JSONL puzzle field).
  */
 function levelToAsciiArray(level: GeneratedLevel): string[] {
-  const lines: string[] = []
-
-  for (let y = 0; y < level.height; y++) {
-    let line = ''
-    for (let x = 0; x < level.width; x++) {
-      const isPlayer = level.playerStart.x === x && level.playerStart.y === y
-      const isBox = level.boxStarts.some((b) => b.x === x && b.y === y)
-      const terrain = level.terrain[y][x]
-      const isGoal = terrain === 'goal'
-
-      if (isPlayer && isGoal) {
-        line += '+'
-      } else if (isPlayer) {
-        line += '@'
-      } else if (isBox && isGoal) {
-        line += '*'
-      } else if (isBox) {
-        line += '$'
-      } else if (isGoal) {
-        line += '.'
-      } else if (terrain === 'wall') {
-        line += '#'
-      } else {
-        line += '-'
-      }
-    }
-    lines.push(line)
-  }
-
-  return lines
+  return levelToAscii(level, { rowMarkers: false }).split('\n')
 }
 
 type DifficultyLevel = 'very-easy' | 'easy' | 'medium' | 'hard' | 'very-hard'
@@ -477,28 +290,21 @@ function getDifficultyLabel(difficulty: DifficultyLevel): string {
   }
 }
 
-/**
- * Format a position as r{row}c{col} (1-indexed).
- */
-function formatPosition(pos: Position): string {
-  return `r${pos.y + 1}c${pos.x + 1}`
-}
-
 /**
  * Generate coordinate locations string for player, boxes, and goals.
  */
 function generateCoordinates(level: GeneratedLevel): string {
   const lines: string[] = []
 
-  lines.push(`Player: ${formatPosition(level.playerStart)}`)
+  lines.push(`Player: ${toRowCol(level.playerStart.x, level.playerStart.y)}`)
 
   if (level.boxStarts.length > 0) {
-    const boxCoords = level.boxStarts.map(formatPosition).join(', ')
+    const boxCoords = level.boxStarts.map((p) => toRowCol(p.x, p.y)).join(', ')
     lines.push(`Boxes: ${boxCoords}`)
   }
 
   if (level.goals.length > 0) {
-    const goalCoords = level.goals.map(formatPosition).join(', ')
+    const goalCoords = level.goals.map((p) => toRowCol(p.x, p.y)).join(', ')
     lines.push(`Goals: ${goalCoords}`)
   }
 
@@ -932,23 +738,30 @@ async function main(): Promise<void> {
       return
     }
 
-    // Generate TypeScript file content
+    // Write the LMIQ dataset: an ASCII level file plus its manifest in the dataset registry
     const asciiLevels = shuffledLevels.map((level, idx) => {
-      const ascii = levelToAscii(level)
+      const ascii = levelToAscii(level, { rowMarkers: false })
       return `; ${idx}\n${ascii}`
     })
 
-    const fileContent = `// LMIQ Reasoning ${getPresetLabel(config.preset)} eval set
-// Generated with: bun run scripts/generate-sokoban.ts
-// Total puzzles: ${shuffledLevels.length}
-// Distribution: Very Easy=${config.distribution.veryEasy}, Easy=${config.distribution.easy}, Medium=${config.distribution.medium}, Hard=${config.distribution.hard}, Very Hard=${config.distribution.veryHard}
-
-export const LMIQ_REASONING_EASY_LEVELS_RAW = \`${asciiLevels.join('\n\n')}\`
-`
-
-    const outputPath = resolve(process.cwd(), 'apps/ui-sokoban/src/data/lmiqReasoningEasyLevels.ts')
+    const { veryEasy, easy, medium, hard, veryHard } = config.distribution
+    const manifest = {
+      id: 'lmiq-reasoning-easy',
+      name: 'LMIQ Reasoning Easy',
+      description: `${shuffledLevels.length} generated puzzles (${getPresetLabel(config.preset)}: ${veryEasy} very easy, ${easy} easy, ${medium} medium, ${hard} hard, ${veryHard} very hard)`,
+      format: 'ascii',
+      file: 'lmiq-reasoning-easy.txt',
+      difficulty: 'lmiq-reasoning-easy',
+      order: 1,
+    }
 
-    await writeFile(outputPath, fileContent)
+    const datasetsDir = resolve(process.cwd(), 'data/datasets')
+    const outputPath = resolve(datasetsDir, manifest.file)
+    await writeFile(outputPath, `${asciiLevels.join('\n\n')}\n`)
+    await writeFile(
+      resolve(datasetsDir, `${manifest.id}.dataset.json`),
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    )
 
     console.log(`\nGenerated ${shuffledLevels.length} puzzles`)
     console.log(`Written to: ${outputPath}`)